@@ -9,6 +9,8 @@ import { useClipboardStore } from '@/stores/clipboard-store';
 import { useUVEditorStore } from '@/stores/uv-editor-store';
 import { useGeometryStore } from '@/stores/geometry-store';
 import { useFloorPlanStore } from '@/stores/floor-plan-store';
+import { useViewportStore } from '@/stores/viewport-store';
+import { selectionCenterWorld } from '@/utils/pivot';
 
 interface ShortcutConfig {
   key: string;
@@ -64,9 +66,9 @@ export const ShortcutProvider: React.FC<ShortcutProviderProps> = ({ children })
       preventDefault: true,
     },
     // Selection modes (only work in edit mode)
-    { key: '1', action: () => { const s = useSelectionStore.getState().selection; if (s.viewMode === 'edit') useSelectionStore.getState().setSelectionMode('vertex'); }, description: 'Switch to Vertex selection mode (Edit Mode)', preventDefault: true },
-    { key: '2', action: () => { const s = useSelectionStore.getState().selection; if (s.viewMode === 'edit') useSelectionStore.getState().setSelectionMode('edge'); }, description: 'Switch to Edge selection mode (Edit Mode)', preventDefault: true },
-    { key: '3', action: () => { const s = useSelectionStore.getState().selection; if (s.viewMode === 'edit') useSelectionStore.getState().setSelectionMode('face'); }, description: 'Switch to Face selection mode (Edit Mode)', preventDefault: true },
+    { key: '1', action: () => { const s = useSelectionStore.getState().selection; if (s.viewMode === 'edit' && !useToolStore.getState().isActive) useSelectionStore.getState().setSelectionMode('vertex'); }, description: 'Switch to Vertex selection mode (Edit Mode)', preventDefault: true },
+    { key: '2', action: () => { const s = useSelectionStore.getState().selection; if (s.viewMode === 'edit' && !useToolStore.getState().isActive) useSelectionStore.getState().setSelectionMode('edge'); }, description: 'Switch to Edge selection mode (Edit Mode)', preventDefault: true },
+    { key: '3', action: () => { const s = useSelectionStore.getState().selection; if (s.viewMode === 'edit' && !useToolStore.getState().isActive) useSelectionStore.getState().setSelectionMode('face'); }, description: 'Switch to Face selection mode (Edit Mode)', preventDefault: true },
     { key: 'a', alt: true, action: () => useSelectionStore.getState().clearSelection(), description: 'Clear selection (Alt+A)', preventDefault: true },
     { key: 'Escape', action: () => useSelectionStore.getState().clearSelection(), description: 'Clear selection (Escape)', preventDefault: true },
     // Tool shortcuts - only work in edit mode with selection
@@ -211,6 +213,34 @@ export const ShortcutProvider: React.FC<ShortcutProviderProps> = ({ children })
       description: 'Extrude (E) — faces only for now',
       preventDefault: true,
     },
+    {
+      key: 'e',
+      shift: true,
+      action: () => {
+        const selection = useSelectionStore.getState().selection;
+        const tool = useToolStore.getState();
+        if (tool.isActive) return;
+        if (selection.viewMode === 'edit' && (selection.edgeIds.length > 0 || selection.vertexIds.length > 1 || selection.faceIds.length > 0)) {
+          const mesh = selection.meshId ? useGeometryStore.getState().meshes.get(selection.meshId) : undefined;
+          const value = mesh?.edges.find((e) => e.id === selection.edgeIds[0])?.crease ?? 0;
+          useToolStore.getState().startOperation('edge-crease', { kind: 'crease', value, numeric: '' });
+        }
+      },
+      description: 'Edge crease (Shift+E) — drag or type a weight 0-1',
+      preventDefault: true,
+    },
+    {
+      key: 's',
+      shift: true,
+      action: () => {
+        if (useToolStore.getState().isActive) return;
+        const { objects, selectedObjectId } = useSceneStore.getState();
+        const center = selectionCenterWorld(useSelectionStore.getState().selection, objects, useGeometryStore.getState().meshes, selectedObjectId ?? undefined);
+        if (center) useViewportStore.getState().setCursor3D({ x: center.x, y: center.y, z: center.z });
+      },
+      description: '3D cursor to selection (Shift+S)',
+      preventDefault: true,
+    },
     {
       key: 'i',
       action: () => {
@@ -266,10 +296,23 @@ export const ShortcutProvider: React.FC<ShortcutProviderProps> = ({ children })
       description: 'Knife tool (Shift+K) — click to add cut points, Enter to confirm',
       preventDefault: true,
     },
+    {
+      key: 'o',
+      action: () => {
+        const selection = useSelectionStore.getState().selection;
+        if (selection.viewMode !== 'edit') return;
+        const tool = useToolStore.getState();
+        tool.setProportionalEditing(!tool.proportionalEditing);
+      },
+      description: 'Toggle proportional editing (O, Edit Mode)',
+      preventDefault: true,
+    },
     // Delete selected objects in Object Mode
     {
       key: 'Delete',
       action: () => {
+        // Typed tool input uses these keys
+        if (useToolStore.getState().isActive) return;
         const sel = useSelectionStore.getState().selection;
         if (sel.viewMode === 'object') {
           if (sel.objectIds.length === 0) return;
@@ -308,6 +351,8 @@ export const ShortcutProvider: React.FC<ShortcutProviderProps> = ({ children })
     {
       key: 'Backspace',
       action: () => {
+        // Typed tool input uses these keys
+        if (useToolStore.getState().isActive) return;
         const sel = useSelectionStore.getState().selection;
         if (sel.viewMode === 'object') {
           if (sel.objectIds.length === 0) return;
@@ -475,6 +520,11 @@ export const ShortcutProvider: React.FC<ShortcutProviderProps> = ({ children })
       return;
     }
 
+    // A typed tool value (e.g. "2cm") owns the keyboard until the tool ends
+    if (useToolStore.getState().numericInput) {
+      return;
+    }
+
     // Avoid interfering with Shader Editor shortcuts for these keys when it's focused
   const inShaderEditor = !!(target.closest && target.closest('.shader-flow-root'));
   const keyLower = event.key.toLowerCase();
@@ -10,6 +10,8 @@ import { useThree } from '@react-three/fiber';
 const ORANGE = new Color(1.0, 0.5, 0.0);
 const BLACK = new Color(0, 0, 0);
 const RED = new Color(1, 0, 0);
+const MAGENTA = new Color(0.9, 0.1, 0.8);
+const CYAN = new Color(0.1, 0.8, 0.9);
 
 interface EdgeRendererProps {
   meshId: string;
@@ -63,7 +65,7 @@ export const EdgeRenderer: React.FC<EdgeRendererProps> = ({
         const o = i * 6;
         positions[o + 0] = v0.position.x; positions[o + 1] = v0.position.y; positions[o + 2] = v0.position.z;
         positions[o + 3] = v1.position.x; positions[o + 4] = v1.position.y; positions[o + 5] = v1.position.z;
-        const c = e.seam ? RED : (sel.has(e.id) ? ORANGE : BLACK);
+        const c = e.seam ? RED : (sel.has(e.id) ? ORANGE : (e.crease ? MAGENTA : (e.sharp ? CYAN : BLACK)));
         for (let j = 0; j < 2; j++) {
           const k = o + j * 3;
           colors[k + 0] = c.r; colors[k + 1] = c.g; colors[k + 2] = c.b;
@@ -4,7 +4,9 @@ import { Html } from '@react-three/drei';
 import { useGeometryStore } from '@/stores/geometry-store';
 import { mergeVerticesByDistance } from '@/utils/edit-ops';
 import { useSelectionStore } from '@/stores/selection-store';
+import { useToolStore } from '@/stores/tool-store';
 import { deleteVerticesInMesh, deleteEdgesInMesh, deleteFacesInMesh, mergeVerticesInMesh } from '@/utils/edit-ops';
+import { bridgeEdgeLoops, edgeChains, expandToLoops, fillHole, gridFill, isWholeChain } from '@/utils/bridge-fill';
 
 interface EditModeContextMenuProps {
 	cmOpen: boolean;
@@ -67,6 +69,78 @@ const EditModeContextMenu: React.FC<EditModeContextMenuProps> = ({
 		setCmOpen(false);
 	};
 
+	const handleSetCrease = (value?: number) => {
+		if (!meshId) return;
+		const sel = selection;
+		if (sel.selectionMode !== 'edge' || sel.edgeIds.length === 0) return;
+		let crease = value;
+		if (crease === undefined) {
+			const mesh = useGeometryStore.getState().meshes.get(meshId);
+			const current = mesh?.edges.find((e) => e.id === sel.edgeIds[0])?.crease ?? 1;
+			const input = window.prompt('Crease weight (0-1):', String(current));
+			if (!input) return;
+			crease = parseFloat(input);
+			if (Number.isNaN(crease)) return;
+		}
+		useGeometryStore.getState().setEdgeCreases(meshId, sel.edgeIds, crease);
+		setCmOpen(false);
+	};
+
+	// Interactive tools: drag (or type a value), click / Enter to confirm
+	const startTool = (tool: 'edge-slide' | 'vertex-slide' | 'edge-crease') => {
+		if (!meshId) return;
+		if (tool === 'edge-crease') {
+			const mesh = useGeometryStore.getState().meshes.get(meshId);
+			const value = mesh?.edges.find((e) => e.id === selection.edgeIds[0])?.crease ?? 0;
+			useToolStore.getState().startOperation(tool, { kind: 'crease', value, numeric: '' });
+		} else {
+			useToolStore.getState().startOperation(tool, { kind: 'slide', factor: 0, even: false, flip: false, numeric: '' });
+		}
+		setCmOpen(false);
+	};
+
+	// Bridge / fill work on whole loops; an incomplete selection (e.g. one edge per loop) is
+	// grown to the loops it touches
+	const handleFill = (kind: 'bridge' | 'grid' | 'hole') => {
+		if (!meshId) return;
+		if (selection.selectionMode !== 'edge' || selection.edgeIds.length === 0) return;
+		const geo = useGeometryStore.getState();
+		const mesh = geo.meshes.get(meshId);
+		if (!mesh) return;
+		const chains = edgeChains(mesh, selection.edgeIds);
+		const complete = kind === 'bridge'
+			? chains.length === 2 && chains.every((c) => isWholeChain(mesh, c))
+			: chains.every((c) => c.closed);
+		const edgeIds = complete ? selection.edgeIds : expandToLoops(mesh, selection.edgeIds);
+		let created: string[] = [];
+		if (kind === 'bridge') {
+			const input = window.prompt('Bridge: segments, twist, smoothness', '1, 0, 0');
+			if (!input) return;
+			const [segments = 1, twist = 0, smoothness = 0] = input.split(',').map((s) => parseFloat(s));
+			if ([segments, twist, smoothness].some(Number.isNaN)) return;
+			geo.updateMesh(meshId, (m) => { created = bridgeEdgeLoops(m, edgeIds, { segments, twist, smoothness }); });
+		} else if (kind === 'grid') {
+			const input = window.prompt('Grid fill: span, offset (blank span = squarest)', ', 0');
+			if (input === null) return;
+			const [spanText = '', offsetText = '0'] = input.split(',');
+			const span = spanText.trim() ? parseFloat(spanText) : undefined;
+			const offset = parseFloat(offsetText) || 0;
+			if (span !== undefined && Number.isNaN(span)) return;
+			geo.updateMesh(meshId, (m) => { created = gridFill(m, edgeIds, span, offset); });
+		} else {
+			geo.updateMesh(meshId, (m) => { created = fillHole(m, edgeIds); });
+		}
+		if (created.length) geo.recalculateNormals(meshId);
+		setCmOpen(false);
+	};
+
+	const handleSetSharp = (sharp: boolean) => {
+		if (!meshId) return;
+		if (selection.selectionMode !== 'edge' || selection.edgeIds.length === 0) return;
+		useGeometryStore.getState().setEdgesSharp(meshId, selection.edgeIds, sharp);
+		setCmOpen(false);
+	};
+
 	const handleMergeByDistance = async () => {
 		if (!meshId) return;
 		const sel = selection;
@@ -102,6 +176,25 @@ const EditModeContextMenu: React.FC<EditModeContextMenuProps> = ({
 							}}
 						>
 							<div className="p-1 max-h-72 overflow-y-auto overscroll-contain">
+								<div className="px-2 py-1.5 cursor-default select-none opacity-70">Slide</div>
+								<ContextMenu.Item onClick={() => startTool('edge-slide')} disabled={selection.selectionMode !== 'edge' || selection.edgeIds.length === 0}>
+									<div className={`px-2 py-1.5 rounded ${selection.selectionMode !== 'edge' || selection.edgeIds.length === 0 ? 'text-gray-500' : 'hover:bg-white/10 cursor-default'}`}>Edge Slide (G G)</div>
+								</ContextMenu.Item>
+								<ContextMenu.Item onClick={() => startTool('vertex-slide')} disabled={selection.selectionMode !== 'vertex' || selection.vertexIds.length === 0}>
+									<div className={`px-2 py-1.5 rounded ${selection.selectionMode !== 'vertex' || selection.vertexIds.length === 0 ? 'text-gray-500' : 'hover:bg-white/10 cursor-default'}`}>Vertex Slide (G G)</div>
+								</ContextMenu.Item>
+								<ContextMenu.Separator />
+								<div className="px-2 py-1.5 cursor-default select-none opacity-70">Fill</div>
+								<ContextMenu.Item onClick={() => handleFill('bridge')} disabled={selection.selectionMode !== 'edge' || selection.edgeIds.length < 2}>
+									<div className={`px-2 py-1.5 rounded ${selection.selectionMode !== 'edge' || selection.edgeIds.length < 2 ? 'text-gray-500' : 'hover:bg-white/10 cursor-default'}`}>Bridge Edge Loops…</div>
+								</ContextMenu.Item>
+								<ContextMenu.Item onClick={() => handleFill('grid')} disabled={selection.selectionMode !== 'edge' || selection.edgeIds.length === 0}>
+									<div className={`px-2 py-1.5 rounded ${selection.selectionMode !== 'edge' || selection.edgeIds.length === 0 ? 'text-gray-500' : 'hover:bg-white/10 cursor-default'}`}>Grid Fill…</div>
+								</ContextMenu.Item>
+								<ContextMenu.Item onClick={() => handleFill('hole')} disabled={selection.selectionMode !== 'edge' || selection.edgeIds.length === 0}>
+									<div className={`px-2 py-1.5 rounded ${selection.selectionMode !== 'edge' || selection.edgeIds.length === 0 ? 'text-gray-500' : 'hover:bg-white/10 cursor-default'}`}>Fill Hole</div>
+								</ContextMenu.Item>
+								<ContextMenu.Separator />
 								<div className="px-2 py-1.5 cursor-default select-none opacity-70">UV</div>
 								<ContextMenu.Item onClick={() => { markSeams(true); setCmOpen(false); }} disabled={selection.selectionMode !== 'edge' || selection.edgeIds.length === 0}>
 									<div className={`px-2 py-1.5 rounded ${selection.selectionMode !== 'edge' || selection.edgeIds.length === 0 ? 'text-gray-500' : 'hover:bg-white/10 cursor-default'}`}>Mark Seam (selected)</div>
@@ -117,6 +210,28 @@ const EditModeContextMenu: React.FC<EditModeContextMenuProps> = ({
 									<div className="px-2 py-1.5 rounded hover:bg-white/10 cursor-default">Unwrap (Seams)</div>
 								</ContextMenu.Item>
 								<ContextMenu.Separator />
+								<div className="px-2 py-1.5 cursor-default select-none opacity-70">Subdivision</div>
+								<ContextMenu.Item onClick={() => handleSetCrease()} disabled={selection.selectionMode !== 'edge' || selection.edgeIds.length === 0}>
+									<div className={`px-2 py-1.5 rounded ${selection.selectionMode !== 'edge' || selection.edgeIds.length === 0 ? 'text-gray-500' : 'hover:bg-white/10 cursor-default'}`}>Set Crease…</div>
+								</ContextMenu.Item>
+								<ContextMenu.Item onClick={() => startTool('edge-crease')} disabled={selection.selectionMode !== 'edge' || selection.edgeIds.length === 0}>
+									<div className={`px-2 py-1.5 rounded ${selection.selectionMode !== 'edge' || selection.edgeIds.length === 0 ? 'text-gray-500' : 'hover:bg-white/10 cursor-default'}`}>Edge Crease (Shift+E)</div>
+								</ContextMenu.Item>
+								<ContextMenu.Item onClick={() => handleSetCrease(0)} disabled={selection.selectionMode !== 'edge' || selection.edgeIds.length === 0}>
+									<div className={`px-2 py-1.5 rounded ${selection.selectionMode !== 'edge' || selection.edgeIds.length === 0 ? 'text-gray-500' : 'hover:bg-white/10 cursor-default'}`}>Clear Crease</div>
+								</ContextMenu.Item>
+								<ContextMenu.Separator />
+								<div className="px-2 py-1.5 cursor-default select-none opacity-70">Normals</div>
+								<ContextMenu.Item onClick={() => handleSetSharp(true)} disabled={selection.selectionMode !== 'edge' || selection.edgeIds.length === 0}>
+									<div className={`px-2 py-1.5 rounded ${selection.selectionMode !== 'edge' || selection.edgeIds.length === 0 ? 'text-gray-500' : 'hover:bg-white/10 cursor-default'}`}>Mark Sharp</div>
+								</ContextMenu.Item>
+								<ContextMenu.Item onClick={() => handleSetSharp(false)} disabled={selection.selectionMode !== 'edge' || selection.edgeIds.length === 0}>
+									<div className={`px-2 py-1.5 rounded ${selection.selectionMode !== 'edge' || selection.edgeIds.length === 0 ? 'text-gray-500' : 'hover:bg-white/10 cursor-default'}`}>Clear Sharp</div>
+								</ContextMenu.Item>
+								<ContextMenu.Item onClick={() => { if (meshId) useGeometryStore.getState().clearCustomNormals(meshId); setCmOpen(false); }} disabled={!meshId}>
+									<div className={`px-2 py-1.5 rounded ${!meshId ? 'text-gray-500' : 'hover:bg-white/10 cursor-default'}`}>Clear Custom Normals</div>
+								</ContextMenu.Item>
+								<ContextMenu.Separator />
 								<div className="px-2 py-1.5 cursor-default select-none opacity-70">Edit</div>
 								<ContextMenu.Item onClick={handleDeleteSelected} disabled={!meshId || (selection.selectionMode === 'vertex' ? selection.vertexIds.length === 0 : selection.selectionMode === 'edge' ? selection.edgeIds.length === 0 : selection.faceIds.length === 0)}>
 									<div className={`px-2 py-1.5 rounded ${!meshId ? 'text-gray-500' : 'hover:bg-white/10 cursor-default'}`}>Delete Selected</div>
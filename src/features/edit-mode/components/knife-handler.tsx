@@ -5,8 +5,10 @@ import { useThree } from '@react-three/fiber';
 import { Vector3, Raycaster, Vector2, BufferGeometry, Float32BufferAttribute, Mesh as ThreeMesh } from 'three/webgpu';
 import { useToolStore } from '@/stores/tool-store';
 import { useGeometryStore } from '@/stores/geometry-store';
+import { useViewportStore } from '@/stores/viewport-store';
 import { Mesh } from '@/types/geometry';
 import { applyKnifeCut } from '@/features/edit-mode/utils/knife-cut';
+import { findSnap, isGeometrySnap } from '@/utils/snapping';
 
 interface KnifeHandlerProps {
   meshId: string;
@@ -129,12 +131,24 @@ export const KnifeHandler: React.FC<KnifeHandlerProps> = ({
     const faceId = triFace[faceIndex];
     if (!faceId) return null;
     
+    // Snap onto a vertex, edge midpoint or edge of the hit face
+    let worldPoint = hit.point.clone();
+    const { gridSnapping, snapMode, snapIndicator, setSnapIndicator } = useViewportStore.getState();
+    const face = mesh.faces.find((f) => f.id === faceId);
+    const snap = gridSnapping && isGeometrySnap(snapMode) && snapMode !== 'face' && face
+      ? findSnap(snapMode, new Vector2(clientX - rect.left, clientY - rect.top), { camera, width: rect.width, height: rect.height }, [
+          { mesh, matrix: tmpMesh.matrixWorld },
+        ])
+      : null;
+    if (snap && snap.elementIds.every((id) => face!.vertexIds.includes(id))) {
+      worldPoint = snap.point;
+      setSnapIndicator({ kind: snapMode, point: { x: worldPoint.x, y: worldPoint.y, z: worldPoint.z } });
+    } else if (snapIndicator) {
+      setSnapIndicator(null);
+    }
+
     // Convert world hit point to local space
-    const worldPoint = hit.point.clone();
-    const localPoint = worldPoint.clone();
-    localPoint.sub(new Vector3(objTransform.position.x, objTransform.position.y, objTransform.position.z));
-    localPoint.divide(new Vector3(objTransform.scale.x, objTransform.scale.y, objTransform.scale.z));
-    // Apply inverse rotation - simplified for this example
+    const localPoint = worldPoint.clone().applyMatrix4(tmpMesh.matrixWorld.clone().invert());
     
     return {
       x: localPoint.x,
@@ -265,6 +279,7 @@ export const KnifeHandler: React.FC<KnifeHandlerProps> = ({
   useEffect(() => {
     if (!toolStore.isActive || toolStore.tool !== 'knife') {
       setCutPoints([]);
+      if (useViewportStore.getState().snapIndicator) useViewportStore.getState().setSnapIndicator(null);
     }
   }, [toolStore.isActive, toolStore.tool]);
 
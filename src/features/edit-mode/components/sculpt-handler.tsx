@@ -2,11 +2,19 @@
 
 import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { useThree } from '@react-three/fiber';
-import { Euler, Matrix4, Quaternion, Vector3 } from 'three/webgpu';
-import { useToolStore } from '@/stores/tool-store';
-import { useGeometryStore } from '@/stores/geometry-store';
+import { Euler, Matrix4, Quaternion, Vector3, type OrthographicCamera, type PerspectiveCamera } from 'three/webgpu';
+import { brushPressureFor, useToolStore, type StrokeMethod } from '@/stores/tool-store';
+import { getImagePixels } from '@/stores/files-store';
+import { pauseGeometryHistory, resumeGeometryHistory, useGeometryStore } from '@/stores/geometry-store';
+import { useSceneStore } from '@/stores/scene-store';
 import { useBrushRay } from '../hooks/use-brush';
-import { brushDraw, brushInflate, brushSmooth, brushPinch, brushGrab, brushFlatten, brushFillDeepen, brushScrapePeaks, brushBlob, brushSnakeHook, brushNudge, brushRotate, brushSimplify, buildSpatialIndex, queryRadius, applySymmetry } from '../utils/sculpt';
+import type { Mesh, Vertex } from '@/types/geometry';
+import { setVertexMask } from '@/utils/sculpt-mask';
+import { FULL_PRESSURE, lerpPen, pressureFactor, readPen, tiltAzimuth, type PenSample } from '@/utils/pen-pressure';
+import { assignFaceSet, nextFaceSetId } from '@/utils/face-sets';
+import { multiresSculptTarget, multiresStrokeDisplacement, writeMultiresDisplacement, type MultiresLevel, type MultiresModifierSettings } from '@/utils/modifiers';
+import { dyntopoStep } from '../utils/dyntopo';
+import { brushDraw, brushInflate, brushSmooth, brushPinch, brushGrab, brushFlatten, brushFillDeepen, brushScrapePeaks, brushBlob, brushSnakeHook, brushNudge, brushRotate, brushMask, brushFaceSet, buildSpatialIndex, spatialInsert, spatialRemove, symmetryMirrors, applyStrokeMask, type BrushAlpha, type BrushContext, type SpatialIndex } from '../utils/sculpt';
 
 interface SculptHandlerProps {
   meshId: string;
@@ -20,16 +28,45 @@ export const SculptHandler: React.FC<SculptHandlerProps> = ({ meshId, objectPosi
   const geo = useGeometryStore();
   const mesh = geo.meshes.get(meshId) || null;
   const obj = { position: objectPosition, rotation: objectRotation, scale: objectScale };
+  // Object whose modifier stack may hold a multires modifier (the selected one when several share the mesh)
+  const objectId = useSceneStore((s) => {
+    const sel = s.selectedObjectId ? s.objects[s.selectedObjectId] : undefined;
+    return sel?.meshId === meshId ? sel.id : Object.values(s.objects).find((o) => o.meshId === meshId)?.id;
+  });
+  const stack = objectId ? geo.modifierStacks[objectId] : undefined;
+  // Multires sculpt level: strokes hit and deform it, writing displacement instead of base positions
+  const multires = useMemo(() => (mesh && stack ? multiresSculptTarget(mesh, stack) : null), [mesh, stack]);
 
   const avgLocalScale = (Math.abs(objectScale.x) + Math.abs(objectScale.y) + Math.abs(objectScale.z)) / 3;
   const radiusLocalApprox = tools.brushRadius / Math.max(1e-6, avgLocalScale);
-  const hover = useBrushRay(mesh, obj, tools.brushRadius);
-  const { camera } = useThree();
+  const hover = useBrushRay(multires?.mesh ?? mesh, obj, tools.brushRadius);
+  const { camera, size } = useThree();
   const [isDragging, setDragging] = useState(false);
   const grabAnchorLocal = useRef<Vector3 | null>(null);
+  const maskErase = useRef(false);
+  const strokeFaceSet = useRef<number | null>(null);
   const spatialRef = useRef<ReturnType<typeof buildSpatialIndex> | null>(null);
+  // Store mesh the index matches. The index refers to vertices by array position, so it is
+  // rebuilt whenever the mesh changed outside this handler (voxel remesh, undo, edit tools).
+  const indexedMeshRef = useRef<Mesh | null>(null);
   const normalsTimer = useRef<number | null>(null);
   const normalsPending = useRef(false);
+  // Multires stroke: the level's displacement is edited in place and its vertices moved in a
+  // working copy; settings are written at most once a frame outside history, and the stroke is
+  // committed as one undo step on release
+  const multiresStroke = useRef<{ modifierId: string; level: number; rest: MultiresLevel; before: number[][]; disp: number[]; mesh: Mesh } | null>(null);
+  const multiresFrame = useRef<number | null>(null);
+  // Stroke state: method picked on press, last spaced dab, lazy mouse point, press point, and
+  // the starting mesh for re-evaluated (drag-dot / anchored) strokes
+  const strokeMethod = useRef<StrokeMethod>('dots');
+  const lastDab = useRef<Vector3 | null>(null);
+  const lazyPoint = useRef<Vector3 | null>(null);
+  const anchor = useRef<{ local: Vector3; world: Vector3 } | null>(null);
+  const snapshot = useRef<{ mesh: Mesh; index: SpatialIndex; byId: Map<string, Vertex>; touched: Set<string> } | null>(null);
+  const [lineAnchorWorld, setLineAnchorWorld] = useState<Vector3 | null>(null);
+  // Latest pen sample, and the one the previous spaced dab used
+  const pen = useRef<PenSample>(FULL_PRESSURE);
+  const lastDabPen = useRef<PenSample>(FULL_PRESSURE);
 
   // Apply brush on drag or single click
   useEffect(() => {
@@ -39,42 +76,55 @@ export const SculptHandler: React.FC<SculptHandlerProps> = ({ meshId, objectPosi
     const isSculpt = String(kind).startsWith('sculpt-');
     if (!isSculpt) return;
 
-    const applyStrokeOnce = () => {
-      if (!hover) return;
-      const out = new Map<string, typeof mesh.vertices[number]>();
-      if (!spatialRef.current) spatialRef.current = buildSpatialIndex(mesh, Math.max(0.25, radiusLocalApprox * 0.75));
-      const ctx = {
-        mesh,
-        hitLocal: hover.hitPointLocal,
-        radius: radiusLocalApprox,
-        strength: tools.brushStrength,
-        falloff: tools.brushFalloff,
-        perVertexWorldScale: avgLocalScale,
-        spatial: spatialRef.current,
-      } as const;
-      // optional: rebuild spatial on significant movement
+    // Brushes driven by pointer deltas dab on every event; masks, face sets and simplify can't be
+    // re-evaluated from the stroke's start
+    const resolveMethod = (): StrokeMethod => {
+      const method = useToolStore.getState().strokeMethod;
+      if (kind === 'sculpt-grab' || kind === 'sculpt-snake-hook' || kind === 'sculpt-thumb' || kind === 'sculpt-nudge' || kind === 'sculpt-rotate') return 'dots';
+      if ((method === 'drag-dot' || method === 'anchored') && (kind === 'sculpt-mask' || kind === 'sculpt-face-set' || kind === 'sculpt-simplify')) return 'dots';
+      return method;
+    };
+
+    // Camera-plane movement for a mouse delta, converted to object-local space
+    const localDrag = (e: MouseEvent, perPixel: number) => {
+      const right = new Vector3();
+      const up = new Vector3();
+      camera.getWorldDirection(right); // forward
+      right.crossVectors(new Vector3(0, 1, 0), right).normalize();
+      up.crossVectors(right, camera.getWorldDirection(new Vector3())).normalize();
+      const world = new Vector3().addScaledVector(right, e.movementX * perPixel).addScaledVector(up, -e.movementY * perPixel);
+      const m = new Matrix4();
+      const q = new Quaternion().setFromEuler(new Euler(objectRotation.x, objectRotation.y, objectRotation.z, 'XYZ'));
+      m.compose(new Vector3(), q, new Vector3(Math.max(1e-6, objectScale.x), Math.max(1e-6, objectScale.y), Math.max(1e-6, objectScale.z))).invert();
+      return world.applyMatrix4(m);
+    };
+
+    // One brush evaluation around a (possibly mirrored) hit point. `e` is null for the initial
+    // click, where stroke-direction brushes have nothing to do yet.
+    const brushPass = (ctx: BrushContext, out: Map<string, Vertex>, e: MouseEvent | null, mirror: Vector3) => {
+      const { planeOffset, pinchFactor } = useToolStore.getState();
       if (kind === 'sculpt-draw') {
         brushDraw(ctx, out);
       } else if (kind === 'sculpt-clay') {
-        brushFlatten(ctx, out, false, useToolStore.getState().planeOffset);
+        brushFlatten(ctx, out, false, planeOffset);
         brushDraw(ctx, out);
       } else if (kind === 'sculpt-flatten') {
-        brushFlatten(ctx, out, false, useToolStore.getState().planeOffset);
+        brushFlatten(ctx, out, false, planeOffset);
       } else if (kind === 'sculpt-blob') {
-        brushBlob(ctx, out, useToolStore.getState().pinchFactor);
+        brushBlob(ctx, out, pinchFactor);
       } else if (kind === 'sculpt-crease') {
         brushPinch(ctx, out, false);
         brushDraw(ctx, out);
       } else if (kind === 'sculpt-contrast') {
-        brushFlatten(ctx, out, true, useToolStore.getState().planeOffset);
+        brushFlatten(ctx, out, true, planeOffset);
       } else if (kind === 'sculpt-fill') {
-        brushFillDeepen(ctx, out, false, useToolStore.getState().planeOffset);
+        brushFillDeepen(ctx, out, false, planeOffset);
       } else if (kind === 'sculpt-deepen') {
-        brushFillDeepen(ctx, out, true, useToolStore.getState().planeOffset);
+        brushFillDeepen(ctx, out, true, planeOffset);
       } else if (kind === 'sculpt-scrape') {
-        brushScrapePeaks(ctx, out, false, useToolStore.getState().planeOffset);
+        brushScrapePeaks(ctx, out, false, planeOffset);
       } else if (kind === 'sculpt-peaks') {
-        brushScrapePeaks(ctx, out, true, useToolStore.getState().planeOffset);
+        brushScrapePeaks(ctx, out, true, planeOffset);
       } else if (kind === 'sculpt-inflate') {
         brushInflate(ctx, out, false);
       } else if (kind === 'sculpt-smooth') {
@@ -82,52 +132,328 @@ export const SculptHandler: React.FC<SculptHandlerProps> = ({ meshId, objectPosi
       } else if (kind === 'sculpt-pinch' || kind === 'sculpt-magnify') {
         brushPinch(ctx, out, kind === 'sculpt-magnify');
       }
-      useGeometryStore.getState().updateMesh(meshId, (m) => {
-        const idxById = new Map(m.vertices.map((v, i) => [v.id, i] as const));
-        for (const [id, vv] of out) {
-          const idx = idxById.get(id);
-          if (idx != null) m.vertices[idx].position = vv.position;
-        }
+      if (!e) return;
+      if (kind === 'sculpt-grab' && grabAnchorLocal.current) {
+        // Move along camera plane based on cursor movement, scaled by view distance
+        const dist = camera.position.distanceTo(new Vector3(objectPosition.x, objectPosition.y, objectPosition.z));
+        brushGrab(ctx, out, localDrag(e, dist * 0.0025).multiply(mirror));
+      } else if (kind === 'sculpt-snake-hook') {
+        brushSnakeHook(ctx, out, localDrag(e, 0.0025).multiply(mirror), pinchFactor);
+      } else if (kind === 'sculpt-thumb') {
+        // Thumb: flatten while pushing along stroke direction
+        brushFlatten(ctx, out, false, 0);
+        brushNudge(ctx, out, localDrag(e, 0.0015).multiply(mirror).multiplyScalar(0.5));
+      } else if (kind === 'sculpt-nudge') {
+        brushNudge(ctx, out, localDrag(e, 0.0025).multiply(mirror));
+      } else if (kind === 'sculpt-rotate') {
+        // A mirrored pass rotates the other way round
+        const angle = (e.movementX + e.movementY) * 0.01 * mirror.x * mirror.y * mirror.z;
+        brushRotate(ctx, out, angle);
+      }
+    };
+
+    // Run a store write of our own; vertex order is kept (or the index patched), so the index
+    // carries over to the resulting mesh object
+    const write = (fn: () => void) => {
+      const before = useGeometryStore.getState().meshes.get(meshId);
+      fn();
+      if (indexedMeshRef.current === before) indexedMeshRef.current = useGeometryStore.getState().meshes.get(meshId) ?? null;
+    };
+
+    const scheduleNormals = () => {
+      // throttle normals to next animation frame
+      if (normalsPending.current) return;
+      normalsPending.current = true;
+      normalsTimer.current = requestAnimationFrame(() => {
+        normalsPending.current = false;
+        write(() => useGeometryStore.getState().recalculateNormals(meshId));
+      });
+    };
+
+    // Dyntopo target edge length in object-local units
+    const detailLength = (hitWorld: Vector3) => {
+      const st = useToolStore.getState();
+      if (st.dyntopoMode === 'constant') return st.dyntopoDetailSize / Math.max(1e-6, avgLocalScale);
+      const worldPerPixel = (camera as PerspectiveCamera).isPerspectiveCamera
+        ? (2 * camera.position.distanceTo(hitWorld) * Math.tan(((camera as PerspectiveCamera).fov * Math.PI) / 360)) / size.height
+        : ((camera as OrthographicCamera).top - (camera as OrthographicCamera).bottom) / (camera as OrthographicCamera).zoom / size.height;
+      // Never finer than a fiftieth of the brush, whatever the zoom
+      return Math.max(radiusLocalApprox / 50, (st.dyntopoDetailPx * worldPerPixel) / Math.max(1e-6, avgLocalScale));
+    };
+
+    // World direction into object space; normals transform with the inverse transpose
+    const toLocal = (dir: Vector3, normal = false) => {
+      const q = new Quaternion().setFromEuler(new Euler(objectRotation.x, objectRotation.y, objectRotation.z, 'XYZ')).invert();
+      const v = dir.clone().applyQuaternion(q);
+      const s = new Vector3(Math.max(1e-6, objectScale.x), Math.max(1e-6, objectScale.y), Math.max(1e-6, objectScale.z));
+      return normal ? v.multiply(s) : v.divide(s);
+    };
+
+    // Texture alpha in the brush plane, oriented to the view (and the alpha rotation, plus the
+    // pen's lean when tilt is enabled)
+    const alphaAt = (center: Vector3, mirror: Vector3, radius: number, sample: PenSample): BrushAlpha | null => {
+      const st = useToolStore.getState();
+      const image = st.brushAlphaId ? getImagePixels(st.brushAlphaId) : null;
+      if (!image || !hover) return null;
+      const n = toLocal(hover.hitNormalWorld, true).multiply(mirror).normalize();
+      const right = toLocal(new Vector3(1, 0, 0).applyQuaternion(camera.quaternion)).multiply(mirror);
+      right.addScaledVector(n, -right.dot(n));
+      if (right.lengthSq() < 1e-12) right.copy(Math.abs(n.x) > 0.9 ? new Vector3(0, 1, 0) : new Vector3(1, 0, 0)).cross(n);
+      right.normalize();
+      const up = new Vector3().crossVectors(n, right);
+      const a = (st.brushAlphaRotation * Math.PI) / 180 + (st.penTiltRotatesAlpha ? tiltAzimuth(sample) ?? 0 : 0);
+      const tangent = right.multiplyScalar(Math.cos(a)).addScaledVector(up, Math.sin(a));
+      const tiled = st.brushAlphaTiling === 'tiled';
+      return {
+        image,
+        origin: tiled ? new Vector3() : center.clone(),
+        tangent,
+        bitangent: new Vector3().crossVectors(n, tangent),
+        size: 2 * radius * st.brushAlphaScale,
+        tiled,
+      };
+    };
+
+    // Mesh strokes deform: the multires sculpt level when there is one (masks and face sets stay
+    // on the base mesh), else the base
+    const sculptTarget = () => {
+      const base = useGeometryStore.getState().meshes.get(meshId);
+      if (!base) return null;
+      const level = objectId && kind !== 'sculpt-mask' && kind !== 'sculpt-face-set'
+        ? multiresSculptTarget(base, useGeometryStore.getState().modifierStacks[objectId] ?? [])
+        : null;
+      return { base, level, mesh: level?.mesh ?? base };
+    };
+
+    // Write the multires stroke's displacement into the modifier settings
+    const flushMultires = () => {
+      const stroke = multiresStroke.current;
+      if (!stroke || !objectId) return;
+      const disp = stroke.disp.slice();
+      useGeometryStore.getState().updateModifierSettings(objectId, stroke.modifierId, (s: MultiresModifierSettings) => {
+        const displacements = (s.displacements ?? []).slice();
+        while (displacements.length < stroke.level) displacements.push([]);
+        displacements[stroke.level - 1] = disp;
+        s.displacements = displacements;
       });
-      // Apply symmetry mirroring by finding counterpart vertices
-      if (useToolStore.getState().symmetryEnabled && spatialRef.current) {
-        const axis = useToolStore.getState().symmetryAxis;
-        const used = new Set<string>();
-        for (const [id, vv] of Array.from(out.entries())) {
-          const original = mesh.vertices.find(v => v.id === id)!;
-          const origP = new Vector3(original.position.x, original.position.y, original.position.z);
-          const targetCounterPos = applySymmetry(origP, axis);
-          const candidates = queryRadius(spatialRef.current, targetCounterPos, Math.max(0.25, radiusLocalApprox * 0.5), mesh);
-          if (!candidates.length) continue;
-          let best: { id: string; d2: number } | null = null;
-          for (const c of candidates) {
-            const p = c.position;
-            const d2 = (p.x - targetCounterPos.x) ** 2 + (p.y - targetCounterPos.y) ** 2 + (p.z - targetCounterPos.z) ** 2;
-            if (!best || d2 < best.d2) best = { id: c.id, d2 };
+    };
+
+    const scheduleMultires = () => {
+      if (multiresFrame.current != null) return;
+      multiresFrame.current = requestAnimationFrame(() => {
+        multiresFrame.current = null;
+        flushMultires();
+        // Take the level's recomputed normals; positions match the working copy, so the index holds
+        const stroke = multiresStroke.current;
+        const base = useGeometryStore.getState().meshes.get(meshId);
+        const after = stroke && base && objectId ? multiresSculptTarget(base, useGeometryStore.getState().modifierStacks[objectId] ?? []) : null;
+        if (stroke && after?.modifierId === stroke.modifierId && after.level === stroke.level) stroke.mesh.vertices = after.mesh.vertices.slice();
+      });
+    };
+
+    // The stroke's working state for a multires level, started (and history paused) on its first dab
+    const multiresStrokeFor = (level: NonNullable<ReturnType<typeof multiresSculptTarget>>) => {
+      const current = multiresStroke.current;
+      if (current && current.modifierId === level.modifierId && current.level === level.level) return current;
+      const mod = objectId ? useGeometryStore.getState().modifierStacks[objectId]?.find((m) => m.id === level.modifierId) : undefined;
+      const before = (mod?.settings as MultiresModifierSettings | undefined)?.displacements ?? [];
+      if (!current) pauseGeometryHistory();
+      multiresStroke.current = {
+        modifierId: level.modifierId,
+        level: level.level,
+        rest: level.rest,
+        before,
+        disp: multiresStrokeDisplacement(level.rest, before[level.level - 1]),
+        mesh: { ...level.mesh, vertices: level.mesh.vertices.slice() },
+      };
+      return multiresStroke.current;
+    };
+
+    // Commit a multires stroke: restore the unrecorded pre-stroke settings, then write the result
+    // with history on so undo steps over the whole stroke
+    const endMultiresStroke = () => {
+      const stroke = multiresStroke.current;
+      if (!stroke) return;
+      if (multiresFrame.current != null) cancelAnimationFrame(multiresFrame.current);
+      multiresFrame.current = null;
+      if (objectId) {
+        useGeometryStore.getState().updateModifierSettings(objectId, stroke.modifierId, (s: MultiresModifierSettings) => {
+          s.displacements = stroke.before;
+        });
+      }
+      resumeGeometryHistory();
+      flushMultires();
+      multiresStroke.current = null;
+      // The index holds the working copy; rebuild against the committed level on the next stroke
+      indexedMeshRef.current = null;
+    };
+
+    // One dab at `center` (local) and its mirror images for each enabled symmetry axis. During
+    // drag-dot / anchored strokes it is evaluated against the stroke's starting mesh instead.
+    const dab = (center: Vector3, e: MouseEvent | null, baseRadius = radiusLocalApprox, sample = pen.current) => {
+      const found = sculptTarget();
+      if (!hover || !found) return;
+      const { level } = found;
+      if (level && kind === 'sculpt-simplify') return;
+      const stroke = level ? multiresStrokeFor(level) : null;
+      const snap = snapshot.current;
+      const current = snap?.mesh ?? stroke?.mesh ?? found.mesh;
+      if (!snap && (!spatialRef.current || indexedMeshRef.current !== current)) {
+        spatialRef.current = buildSpatialIndex(current, Math.max(0.25, radiusLocalApprox * 0.75));
+        indexedMeshRef.current = current;
+      }
+      const index = snap?.index ?? spatialRef.current!;
+      const st = useToolStore.getState();
+      const mirrors = symmetryMirrors(st.symmetry);
+      const pressure = brushPressureFor(st, kind);
+      const radius = baseRadius * (pressure.size ? pressureFactor(sample, st.pressureSizeCurve) : 1);
+      const strength = tools.brushStrength * (pressure.strength ? pressureFactor(sample, st.pressureStrengthCurve) : 1);
+      if (radius < 1e-6) return;
+
+      // Dynamic topology first, so the brush deforms the refined surface
+      let target: Mesh = current;
+      if (!level && !snap && (st.dyntopoEnabled || kind === 'sculpt-simplify') && kind !== 'sculpt-mask' && kind !== 'sculpt-face-set') {
+        const detail = detailLength(hover.hitPointWorld);
+        for (const mirror of mirrors) {
+          const topo = dyntopoStep(target, index, center.clone().multiply(mirror), radius, { detail });
+          if (topo) target = { ...target, ...topo };
+        }
+      }
+
+      const ctxAt = (mirror: Vector3): BrushContext => {
+        const hitLocal = center.clone().multiply(mirror);
+        return {
+          mesh: target,
+          hitLocal,
+          radius,
+          strength,
+          falloff: tools.brushFalloff,
+          curve: st.brushCurve,
+          alpha: alphaAt(hitLocal, mirror, radius, sample),
+          perVertexWorldScale: avgLocalScale,
+          spatial: index,
+        };
+      };
+      const geoStore = useGeometryStore.getState();
+
+      if (kind === 'sculpt-mask') {
+        const masks = new Map<string, number>();
+        for (const mirror of mirrors) brushMask(ctxAt(mirror), masks, maskErase.current);
+        write(() => geoStore.updateMesh(meshId, (m) => {
+          for (const v of m.vertices) {
+            const mask = masks.get(v.id);
+            if (mask !== undefined) setVertexMask(v, mask);
           }
-          if (best && best.id !== id && !used.has(best.id)) {
-            const mirrored = applySymmetry(new Vector3(vv.position.x, vv.position.y, vv.position.z), axis);
-            // clamp seam to plane
-            if (axis === 'x') mirrored.x = Math.abs(mirrored.x) < 1e-6 ? 0 : mirrored.x;
-            if (axis === 'y') mirrored.y = Math.abs(mirrored.y) < 1e-6 ? 0 : mirrored.y;
-            if (axis === 'z') mirrored.z = Math.abs(mirrored.z) < 1e-6 ? 0 : mirrored.z;
-            const counter = mesh.vertices.find(v => v.id === best!.id)!;
-            out.set(counter.id, { ...counter, position: { x: mirrored.x, y: mirrored.y, z: mirrored.z } });
-            used.add(counter.id);
+        }));
+        return;
+      }
+      if (kind === 'sculpt-face-set') {
+        const faceSet = strokeFaceSet.current;
+        if (faceSet == null) return;
+        const painted = new Map<string, number>();
+        for (const mirror of mirrors) brushFaceSet(ctxAt(mirror), faceSet, painted);
+        if (painted.size) write(() => geoStore.updateMesh(meshId, (m) => assignFaceSet(m, painted.keys(), faceSet)));
+        return;
+      }
+
+      const out = new Map<string, Vertex>();
+      if (kind !== 'sculpt-simplify') for (const mirror of mirrors) brushPass(ctxAt(mirror), out, e, mirror);
+      applyStrokeMask(target, out, st.sculptVertexGroupId);
+      if (snap) {
+        // Vertices the previous evaluation moved but this one doesn't go back to where they started
+        const touched = new Set(out.keys());
+        for (const id of snap.touched) if (!out.has(id)) out.set(id, snap.byId.get(id)!);
+        snap.touched = touched;
+      }
+      if (stroke) {
+        writeMultiresDisplacement(stroke.rest, stroke.disp, out);
+        // The level keeps its vertex order; move brushed vertices in the working copy and its index
+        for (const [id, vv] of out) {
+          const i = stroke.rest.indexById.get(id);
+          if (i === undefined) continue;
+          stroke.mesh.vertices[i] = { ...stroke.mesh.vertices[i], position: vv.position };
+          if (!snap) {
+            spatialRemove(index, i);
+            spatialInsert(index, i, vv.position);
           }
         }
+        scheduleMultires();
+        return;
       }
-      // throttle normals to next animation frame
-      if (!normalsPending.current) {
-        normalsPending.current = true;
-        normalsTimer.current = requestAnimationFrame(() => {
-          normalsPending.current = false;
-          useGeometryStore.getState().recalculateNormals(meshId);
+      if (target === current) {
+        write(() => geoStore.updateMesh(meshId, (m) => {
+          const idxById = new Map(m.vertices.map((v, i) => [v.id, i] as const));
+          for (const [id, vv] of out) {
+            const idx = idxById.get(id);
+            if (idx != null) m.vertices[idx].position = vv.position;
+          }
+        }));
+      } else {
+        // New topology: the index already matches `target`; move brushed vertices in it too
+        const vertices = target.vertices.map((v, i) => {
+          const moved = out.get(v.id);
+          if (!moved) return v;
+          spatialRemove(index, i);
+          spatialInsert(index, i, moved.position);
+          return { ...v, position: moved.position };
         });
+        geoStore.updateMesh(meshId, (m) => {
+          m.vertices = vertices;
+          m.faces = target.faces;
+          m.edges = target.edges;
+        });
+        indexedMeshRef.current = useGeometryStore.getState().meshes.get(meshId) ?? null;
+      }
+      scheduleNormals();
+    };
+
+    // Dabs every strokeSpacing × radius from the previous dab towards `to`, with the pen pressure
+    // blended between the two pointer events
+    const spaced = (to: Vector3, e: MouseEvent | null) => {
+      const from = lastDab.current;
+      if (!from) {
+        dab(to, e);
+        lastDab.current = to.clone();
+        lastDabPen.current = pen.current;
+        return;
       }
+      const step = Math.max(1e-6, useToolStore.getState().strokeSpacing * radiusLocalApprox);
+      const dist = from.distanceTo(to);
+      if (dist < step) return;
+      const dir = to.clone().sub(from).normalize();
+      // Cap the dabs per event so a fast flick across a dense mesh can't stall the UI
+      const count = Math.min(64, Math.floor(dist / step));
+      for (let i = 1; i <= count; i++) dab(from.clone().addScaledVector(dir, i * step), e, radiusLocalApprox, lerpPen(lastDabPen.current, pen.current, (i * step) / dist));
+      lastDab.current = from.clone().addScaledVector(dir, count * step);
+      lastDabPen.current = lerpPen(lastDabPen.current, pen.current, (count * step) / dist);
     };
 
-    const onDown = (e: MouseEvent) => {
+    // Lazy mouse: the dab point trails the cursor on a string of lazyRadius × brush radius;
+    // null while the cursor is still within the string
+    const follow = (hit: Vector3): Vector3 | null => {
+      const st = useToolStore.getState();
+      if (!st.lazyMouse || !lazyPoint.current) return hit.clone();
+      const p = lazyPoint.current;
+      const d = hit.distanceTo(p);
+      const string = st.lazyRadius * radiusLocalApprox;
+      if (d <= string) return null;
+      p.lerp(hit, ((d - string) / d) * st.lazyFactor);
+      return p.clone();
+    };
+
+    // Re-evaluated strokes start from a copy of the mesh and its own spatial index
+    const beginSnapshot = () => {
+      const found = sculptTarget();
+      if (!found) return;
+      snapshot.current = {
+        mesh: found.mesh,
+        index: buildSpatialIndex(found.mesh, Math.max(0.25, radiusLocalApprox * 0.75)),
+        byId: new Map(found.mesh.vertices.map((v) => [v.id, v] as const)),
+        touched: new Set(),
+      };
+    };
+
+    const onDown = (e: PointerEvent) => {
       if (e.button !== 0) return;
       // Only engage sculpting (and disable orbit) if the brush is actually over the mesh
       if (!hover) {
@@ -136,175 +462,88 @@ export const SculptHandler: React.FC<SculptHandlerProps> = ({ meshId, objectPosi
       }
       setDragging(true);
       useToolStore.getState().setSculptStrokeActive(true);
+      pen.current = readPen(e);
       if (kind === 'sculpt-grab' && hover) {
         grabAnchorLocal.current = hover.hitPointLocal.clone();
       }
-      // Single click sample
-      applyStrokeOnce();
+      // Ctrl erases the mask / extends the active face set instead of starting a new one
+      maskErase.current = e.ctrlKey;
+      if (kind === 'sculpt-face-set') {
+        const st = useToolStore.getState();
+        const faceSet = e.ctrlKey && st.activeFaceSet != null ? st.activeFaceSet : nextFaceSetId(mesh);
+        strokeFaceSet.current = faceSet;
+        st.setActiveFaceSet(faceSet);
+      }
+      const method = resolveMethod();
+      strokeMethod.current = method;
+      const hit = hover.hitPointLocal.clone();
+      lazyPoint.current = hit.clone();
+      lastDab.current = null;
+      anchor.current = { local: hit.clone(), world: hover.hitPointWorld.clone() };
+      if (method === 'line') {
+        setLineAnchorWorld(hover.hitPointWorld.clone());
+        return;
+      }
+      if (method === 'drag-dot' || method === 'anchored') beginSnapshot();
+      // Anchored dabs grow from nothing as the pointer is dragged out
+      if (method === 'anchored') return;
+      if (method === 'space') spaced(hit, null);
+      else dab(hit, null);
     };
-    const onUp = (e: MouseEvent) => {
+    // The release sample is left out: a lifting pen reads (nearly) no pressure
+    const onUp = (e: PointerEvent) => {
       if (e.button !== 0) return;
+      if (isDragging && strokeMethod.current === 'line' && anchor.current && hover) {
+        lastDab.current = null;
+        spaced(anchor.current.local, null);
+        spaced(hover.hitPointLocal.clone(), null);
+      }
       setDragging(false);
+      setLineAnchorWorld(null);
       grabAnchorLocal.current = null;
+      strokeFaceSet.current = null;
+      // The stroke's own index still holds the starting positions; rebuild on the next stroke
+      if (snapshot.current) indexedMeshRef.current = null;
+      snapshot.current = null;
+      anchor.current = null;
       useToolStore.getState().setSculptStrokeActive(false);
-      // final normals
-      useGeometryStore.getState().recalculateNormals(meshId);
+      // final normals (multires levels carry their own)
+      if (multiresStroke.current) endMultiresStroke();
+      else write(() => useGeometryStore.getState().recalculateNormals(meshId));
       // Keep brush selected for subsequent strokes
     };
-    const onMove = (e: MouseEvent) => {
+    const onMove = (e: PointerEvent) => {
       if (!isDragging || !hover) return;
-      const out = new Map<string, typeof mesh.vertices[number]>();
-      const ctx = {
-        mesh,
-        hitLocal: hover.hitPointLocal,
-        radius: radiusLocalApprox,
-        strength: tools.brushStrength,
-        falloff: tools.brushFalloff,
-        perVertexWorldScale: avgLocalScale,
-        spatial: spatialRef.current,
-      } as const;
-      if (kind === 'sculpt-draw') {
-        brushDraw(ctx, out);
-      } else if (kind === 'sculpt-clay') {
-        brushFlatten(ctx, out, false, useToolStore.getState().planeOffset);
-        brushDraw(ctx, out);
-      } else if (kind === 'sculpt-flatten') {
-        brushFlatten(ctx, out, false, useToolStore.getState().planeOffset);
-      } else if (kind === 'sculpt-blob') {
-        brushBlob(ctx, out, useToolStore.getState().pinchFactor);
-      } else if (kind === 'sculpt-crease') {
-        brushPinch(ctx, out, false);
-        brushDraw(ctx, out);
-      } else if (kind === 'sculpt-contrast') {
-        brushFlatten(ctx, out, true, useToolStore.getState().planeOffset);
-      } else if (kind === 'sculpt-fill') {
-        brushFillDeepen(ctx, out, false, useToolStore.getState().planeOffset);
-      } else if (kind === 'sculpt-deepen') {
-        brushFillDeepen(ctx, out, true, useToolStore.getState().planeOffset);
-      } else if (kind === 'sculpt-scrape') {
-        brushScrapePeaks(ctx, out, false, useToolStore.getState().planeOffset);
-      } else if (kind === 'sculpt-peaks') {
-        brushScrapePeaks(ctx, out, true, useToolStore.getState().planeOffset);
-      } else if (kind === 'sculpt-inflate') {
-        brushInflate(ctx, out, false);
-      } else if (kind === 'sculpt-smooth') {
-        brushSmooth(ctx, out);
-      } else if (kind === 'sculpt-pinch' || kind === 'sculpt-magnify') {
-        brushPinch(ctx, out, kind === 'sculpt-magnify');
-      } else if (kind === 'sculpt-grab' && grabAnchorLocal.current) {
-        // Move along camera plane based on cursor movement
-        // Convert pixel delta to object-local delta roughly
-        const dist = camera.position.distanceTo(new Vector3(objectPosition.x, objectPosition.y, objectPosition.z));
-        const pxScale = dist * 0.0025; // reuse move sensitivity feel
-        // project onto camera right/up
-        const right = new Vector3();
-        const up = new Vector3();
-        camera.getWorldDirection(right); // forward
-        right.crossVectors(new Vector3(0, 1, 0), right).normalize();
-        up.crossVectors(right, camera.getWorldDirection(new Vector3())).normalize();
-        const w = new Vector3().addScaledVector(right, e.movementX * pxScale).addScaledVector(up, -e.movementY * pxScale);
-        // world -> local
-        const m = new Matrix4();
-        const q = new Quaternion().setFromEuler(new Euler(objectRotation.x, objectRotation.y, objectRotation.z, 'XYZ'));
-        m.compose(new Vector3(), q, new Vector3(Math.max(1e-6, objectScale.x), Math.max(1e-6, objectScale.y), Math.max(1e-6, objectScale.z))).invert();
-        const localDelta = w.applyMatrix4(m);
-        brushGrab(ctx, out, localDelta);
-      } else if (kind === 'sculpt-snake-hook') {
-        const right = new Vector3();
-        const up = new Vector3();
-        camera.getWorldDirection(right);
-        right.crossVectors(new Vector3(0, 1, 0), right).normalize();
-        up.crossVectors(right, camera.getWorldDirection(new Vector3())).normalize();
-        const world = new Vector3().addScaledVector(right, e.movementX * 0.0025).addScaledVector(up, -e.movementY * 0.0025);
-        const m = new Matrix4();
-        const q = new Quaternion().setFromEuler(new Euler(objectRotation.x, objectRotation.y, objectRotation.z, 'XYZ'));
-        m.compose(new Vector3(), q, new Vector3(Math.max(1e-6, objectScale.x), Math.max(1e-6, objectScale.y), Math.max(1e-6, objectScale.z))).invert();
-        const localDir = world.applyMatrix4(m);
-        brushSnakeHook(ctx, out, localDir, useToolStore.getState().pinchFactor);
-      } else if (kind === 'sculpt-thumb') {
-        // Thumb: flatten while pushing along stroke direction
-        const right = new Vector3();
-        const up = new Vector3();
-        camera.getWorldDirection(right);
-        right.crossVectors(new Vector3(0, 1, 0), right).normalize();
-        up.crossVectors(right, camera.getWorldDirection(new Vector3())).normalize();
-        const world = new Vector3().addScaledVector(right, e.movementX * 0.0015).addScaledVector(up, -e.movementY * 0.0015);
-        const m = new Matrix4();
-        const q = new Quaternion().setFromEuler(new Euler(objectRotation.x, objectRotation.y, objectRotation.z, 'XYZ'));
-        m.compose(new Vector3(), q, new Vector3(Math.max(1e-6, objectScale.x), Math.max(1e-6, objectScale.y), Math.max(1e-6, objectScale.z))).invert();
-        const localDir = world.applyMatrix4(m);
-        brushFlatten(ctx, out, false, 0);
-        brushNudge(ctx, out, localDir.multiplyScalar(0.5));
-      } else if (kind === 'sculpt-nudge') {
-        const right = new Vector3();
-        const up = new Vector3();
-        camera.getWorldDirection(right);
-        right.crossVectors(new Vector3(0, 1, 0), right).normalize();
-        up.crossVectors(right, camera.getWorldDirection(new Vector3())).normalize();
-        const world = new Vector3().addScaledVector(right, e.movementX * 0.0025).addScaledVector(up, -e.movementY * 0.0025);
-        const m = new Matrix4();
-        const q = new Quaternion().setFromEuler(new Euler(objectRotation.x, objectRotation.y, objectRotation.z, 'XYZ'));
-        m.compose(new Vector3(), q, new Vector3(Math.max(1e-6, objectScale.x), Math.max(1e-6, objectScale.y), Math.max(1e-6, objectScale.z))).invert();
-        const localDir = world.applyMatrix4(m);
-        brushNudge(ctx, out, localDir);
-      } else if (kind === 'sculpt-rotate') {
-        const angle = (e.movementX + e.movementY) * 0.01;
-        brushRotate(ctx, out, angle);
-      } else if (kind === 'sculpt-simplify') {
-        brushSimplify(ctx, out);
-      }
-      // Apply symmetry mirroring by finding counterpart vertices (drag path)
-      if (useToolStore.getState().symmetryEnabled && spatialRef.current) {
-        const axis = useToolStore.getState().symmetryAxis;
-        const used = new Set<string>();
-        for (const [id, vv] of Array.from(out.entries())) {
-          const original = mesh.vertices.find(v => v.id === id)!;
-          const origP = new Vector3(original.position.x, original.position.y, original.position.z);
-          const targetCounterPos = applySymmetry(origP, axis);
-          const candidates = queryRadius(spatialRef.current, targetCounterPos, Math.max(0.25, radiusLocalApprox * 0.5), mesh);
-          if (!candidates.length) continue;
-          let best: { id: string; d2: number } | null = null;
-          for (const c of candidates) {
-            const p = c.position;
-            const d2 = (p.x - targetCounterPos.x) ** 2 + (p.y - targetCounterPos.y) ** 2 + (p.z - targetCounterPos.z) ** 2;
-            if (!best || d2 < best.d2) best = { id: c.id, d2 };
-          }
-          if (best && best.id !== id && !used.has(best.id)) {
-            const mirrored = applySymmetry(new Vector3(vv.position.x, vv.position.y, vv.position.z), axis);
-            if (axis === 'x') mirrored.x = Math.abs(mirrored.x) < 1e-6 ? 0 : mirrored.x;
-            if (axis === 'y') mirrored.y = Math.abs(mirrored.y) < 1e-6 ? 0 : mirrored.y;
-            if (axis === 'z') mirrored.z = Math.abs(mirrored.z) < 1e-6 ? 0 : mirrored.z;
-            const counter = mesh.vertices.find(v => v.id === best!.id)!;
-            out.set(counter.id, { ...counter, position: { x: mirrored.x, y: mirrored.y, z: mirrored.z } });
-            used.add(counter.id);
-          }
-        }
-      }
-      // commit continuous updates (stroke)
-      useGeometryStore.getState().updateMesh(meshId, (m) => {
-        const idxById = new Map(m.vertices.map((v, i) => [v.id, i] as const));
-        for (const [id, vv] of out) {
-          const idx = idxById.get(id);
-          if (idx != null) m.vertices[idx].position = vv.position;
-        }
-      });
-      if (!normalsPending.current) {
-        normalsPending.current = true;
-        normalsTimer.current = requestAnimationFrame(() => {
-          normalsPending.current = false;
-          useGeometryStore.getState().recalculateNormals(meshId);
-        });
+      pen.current = readPen(e);
+      const method = strokeMethod.current;
+      if (method === 'line') return;
+      if (method === 'anchored') {
+        if (!anchor.current) return;
+        const r = hover.hitPointWorld.distanceTo(anchor.current.world) / Math.max(1e-6, avgLocalScale);
+        if (r > 1e-6) dab(anchor.current.local, e, r);
+        return;
       }
+      const at = follow(hover.hitPointLocal);
+      if (!at) return;
+      if (method === 'space') spaced(at, e);
+      else dab(at, e);
     };
-    document.addEventListener('mousedown', onDown);
-    document.addEventListener('mouseup', onUp);
-    document.addEventListener('mousemove', onMove);
+    document.addEventListener('pointerdown', onDown);
+    document.addEventListener('pointerup', onUp);
+    document.addEventListener('pointermove', onMove);
     return () => {
-      document.removeEventListener('mousedown', onDown);
-      document.removeEventListener('mouseup', onUp);
-      document.removeEventListener('mousemove', onMove);
+      document.removeEventListener('pointerdown', onDown);
+      document.removeEventListener('pointerup', onUp);
+      document.removeEventListener('pointermove', onMove);
     };
-  }, [mesh, isDragging, tools.isActive, tools.tool, tools.brushStrength, tools.brushFalloff, tools.brushRadius, hover, meshId, avgLocalScale, radiusLocalApprox, camera, objectPosition.x, objectPosition.y, objectPosition.z, objectRotation.x, objectRotation.y, objectRotation.z, objectScale.x, objectScale.y, objectScale.z]);
+  }, [mesh, objectId, isDragging, tools.isActive, tools.tool, tools.brushStrength, tools.brushFalloff, tools.brushRadius, hover, meshId, avgLocalScale, radiusLocalApprox, camera, size.height, objectPosition.x, objectPosition.y, objectPosition.z, objectRotation.x, objectRotation.y, objectRotation.z, objectScale.x, objectScale.y, objectScale.z]);
+
+  // Leaving sculpt mid multires stroke keeps what was previewed and turns history back on
+  useEffect(() => () => {
+    if (multiresFrame.current != null) cancelAnimationFrame(multiresFrame.current);
+    if (multiresStroke.current) resumeGeometryHistory();
+    multiresStroke.current = null;
+  }, []);
 
   // Visual brush circle in 3D: draw in the surface tangent plane at the hit point.
   const circle = useMemo(() => {
@@ -332,14 +571,30 @@ export const SculptHandler: React.FC<SculptHandlerProps> = ({ meshId, objectPosi
     return new Float32Array(verts);
   }, [hover, tools.brushRadius]);
 
+  // Line stroke preview from the press point to the cursor
+  const guide = useMemo(
+    () => (lineAnchorWorld && hover ? new Float32Array([...lineAnchorWorld.toArray(), ...hover.hitPointWorld.toArray()]) : null),
+    [lineAnchorWorld, hover],
+  );
+
   if (!tools.isActive || !String(tools.tool).startsWith('sculpt-') || !hover) return null;
   return (
-    <line>
-      <bufferGeometry>
-        <bufferAttribute attach="attributes-position" args={[circle || new Float32Array(), 3]} />
-      </bufferGeometry>
-      <lineBasicMaterial color={0xffffff} transparent opacity={0.6} depthTest={false} depthWrite={false} />
-    </line>
+    <>
+      <line>
+        <bufferGeometry>
+          <bufferAttribute attach="attributes-position" args={[circle || new Float32Array(), 3]} />
+        </bufferGeometry>
+        <lineBasicMaterial color={0xffffff} transparent opacity={0.6} depthTest={false} depthWrite={false} />
+      </line>
+      {guide && (
+        <line>
+          <bufferGeometry>
+            <bufferAttribute attach="attributes-position" args={[guide, 3]} />
+          </bufferGeometry>
+          <lineBasicMaterial color={0xffffff} transparent opacity={0.8} depthTest={false} depthWrite={false} />
+        </line>
+      )}
+    </>
   );
 };
 
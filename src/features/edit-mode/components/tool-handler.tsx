@@ -2,10 +2,16 @@
 
 import React, { useEffect, useRef } from "react";
 import { useThree } from "@react-three/fiber";
-import { Vector3 } from "three/webgpu";
+import { Matrix4, Vector3 } from "three/webgpu";
 import { useToolStore } from "@/stores/tool-store";
 import { useGeometryStore } from "@/stores/geometry-store";
 import { useViewportStore } from "@/stores/viewport-store";
+import { useSelectionStore } from "@/stores/selection-store";
+import { useSceneStore } from "@/stores/scene-store";
+import { isGeometrySnap, sceneSnapSources, snapMove, snapPointToGrid, type SnapSource } from "@/utils/snapping";
+import { getObjectWorldMatrix } from "@/utils/world-transform";
+import { applyNumericKey, parseNumericInput } from "@/utils/numeric-input";
+import { activeElementCenter, pivotCenter, vertexIslands } from "@/utils/pivot";
 import {
   ToolHandlerProps,
   TransformContext,
@@ -29,8 +35,25 @@ import {
   createKeyboardHandler,
   createWheelHandler,
   createCommitHandler,
+  applySlide,
+  buildEdgeSlideRails,
+  buildVertexSlideRails,
+  handleSlideOperation,
+  handleCreaseOperation,
+  numericTransformVertices,
+  proportionalRegion,
+  applyProportional,
+  type SlideRails,
+  type ProportionalRegion,
 } from "./tools";
-import { getSelectedVertices } from "./tools/utils/selection-utils";
+import { applyMoveOperation, applyRotateOperation, applyScaleOperation } from "./tool-operations";
+import type { Vertex } from "@/types/geometry";
+import { getSelectedEdgeIds, getSelectedVertices } from "./tools/utils/selection-utils";
+import type { ToolMode } from "@/stores/tool-store";
+
+// Tools that take typed values (tool-store numericInput)
+const takesNumericInput = (tool: ToolMode) =>
+  tool === "move" || tool === "rotate" || tool === "scale" || tool === "extrude" || tool === "inset";
 
 export const ToolHandler: React.FC<ToolHandlerProps> = ({
   meshId,
@@ -43,7 +66,19 @@ export const ToolHandler: React.FC<ToolHandlerProps> = ({
   const geometryStore = useGeometryStore();
   const gridSnapping = useViewportStore((s) => s.gridSnapping);
   const gridSize = useViewportStore((s) => s.gridSize);
+  const snapMode = useViewportStore((s) => s.snapMode);
   const moveAccumRef = useRef(new Vector3(0, 0, 0));
+  // Slide rails and the mesh positions they refer to, built when a slide starts
+  const slideRef = useRef<{ rails: SlideRails; positions: Map<string, Vector3> } | null>(null);
+  // Proportional editing: vertices within the radius and the last transform, so a radius change
+  // can re-apply it without pointer movement
+  const proportionalRef = useRef<{ region: ProportionalRegion; radius: number; connected: boolean } | null>(null);
+  const lastTransformRef = useRef<{ selected: Vertex[]; transform: (vertices: Vertex[], weight: number) => Vertex[] } | null>(null);
+  // Geometry snapping for moves: the edited object's world matrix and the targets around it
+  const snapRef = useRef<{ matrix: Matrix4; inverse: Matrix4; sources: SnapSource[] } | null>(null);
+  // Rotate / scale pivots (local space) for the viewport pivot mode; `ids` limits a pivot to
+  // one island with individual origins
+  const pivotRef = useRef<Array<{ center: Vector3; ids: Set<string> | null }> | null>(null);
 
   // Setup tool operation state
   const {
@@ -71,7 +106,10 @@ export const ToolHandler: React.FC<ToolHandlerProps> = ({
     toolStore.tool === "inset" ||
     toolStore.tool === "bevel" ||
     toolStore.tool === "chamfer" ||
-    toolStore.tool === "fillet";
+    toolStore.tool === "fillet" ||
+    toolStore.tool === "edge-slide" ||
+    toolStore.tool === "vertex-slide" ||
+    toolStore.tool === "edge-crease";
 
   usePointerLock(gl, toolStore.isActive && implementedTool);
 
@@ -81,12 +119,15 @@ export const ToolHandler: React.FC<ToolHandlerProps> = ({
     distance: camera.position.distanceTo(centroid),
     objectRotation,
     objectScale,
-    gridSnapping,
+    gridSnapping: gridSnapping && snapMode === "increment",
     gridSize,
   };
 
   useEffect(() => {
     originalVerticesRef.current = originalVertices;
+    // A new operation: snap targets and pivots are captured again on first use
+    snapRef.current = null;
+    pivotRef.current = null;
   }, [originalVertices]);
   useEffect(() => {
     localVerticesRef.current = localVertices;
@@ -113,38 +154,254 @@ export const ToolHandler: React.FC<ToolHandlerProps> = ({
     )
       return;
 
+    const freshContext = (): TransformContext => ({
+      camera,
+      distance: camera.position.distanceTo(centroid),
+      objectRotation,
+      objectScale,
+      gridSnapping: gridSnapping && snapMode === "increment",
+      gridSize,
+    });
+
+    const slideData = () => {
+      const data = useToolStore.getState().localData;
+      return data?.kind === "slide" ? data : { kind: "slide" as const, factor: 0, even: false, flip: false, numeric: "" };
+    };
+    const creaseData = () => {
+      const data = useToolStore.getState().localData;
+      return data?.kind === "crease" ? data : { kind: "crease" as const, value: 0, numeric: "" };
+    };
+
+    const ensureSlide = () => {
+      if (slideRef.current) return slideRef.current;
+      const mesh = useGeometryStore.getState().meshes.get(meshId);
+      if (!mesh) return null;
+      const rails = useToolStore.getState().tool === "edge-slide"
+        ? buildEdgeSlideRails(mesh, getSelectedEdgeIds(meshId))
+        : buildVertexSlideRails(mesh, originalVerticesRef.current.map((v) => v.id));
+      const positions = new Map(mesh.vertices.map((v) => [v.id, new Vector3(v.position.x, v.position.y, v.position.z)] as const));
+      slideRef.current = { rails, positions };
+      return slideRef.current;
+    };
+
+    // Re-evaluate the slide after typed input or an option toggle, without pointer movement
+    const refreshSlide = () => {
+      const slide = ensureSlide();
+      if (!slide) return;
+      const data = slideData();
+      const { vertices, factor } = applySlide(
+        originalVerticesRef.current,
+        slide.positions,
+        slide.rails,
+        moveAccumRef.current,
+        freshContext(),
+        data,
+        parseNumericInput(data.numeric),
+      );
+      useToolStore.getState().setLocalData({ ...data, factor });
+      applyLocalPreview(vertices);
+    };
+
+    const proportionalVertices = () => {
+      const toolState = useToolStore.getState();
+      const last = lastTransformRef.current;
+      if (!toolState.proportionalEditing || !last) return [];
+      const { proportionalRadius: radius, proportionalConnected: connected } = toolState;
+      let prop = proportionalRef.current;
+      if (!prop || prop.radius !== radius || prop.connected !== connected) {
+        const mesh = useGeometryStore.getState().meshes.get(meshId);
+        if (!mesh) return [];
+        const region = proportionalRegion(mesh, originalVerticesRef.current.map((v) => v.id), radius, connected);
+        prop = proportionalRef.current = { region, radius, connected };
+      }
+      return applyProportional(prop.region, toolState.proportionalFalloff, radius, last.transform);
+    };
+
+    // Preview a move / rotate / scale result; `transform` re-applies it at a given weight to the
+    // unselected vertices pulled along by proportional editing
+    const previewTransform = (selected: Vertex[], transform: (vertices: Vertex[], weight: number) => Vertex[]) => {
+      lastTransformRef.current = { selected, transform };
+      applyLocalPreview([...selected, ...proportionalVertices()]);
+    };
+
+    // The edited object (the selected one when several share the mesh) and its world matrix
+    const editedObject = () => {
+      const { objects, selectedObjectId } = useSceneStore.getState();
+      const selected = selectedObjectId ? objects[selectedObjectId] : undefined;
+      const objectId = selected?.meshId === meshId ? selected.id : Object.values(objects).find((o) => o.meshId === meshId)?.id;
+      return { objectId, matrix: objectId ? getObjectWorldMatrix(objects, objectId) : new Matrix4() };
+    };
+
+    const ensurePivots = () => {
+      if (pivotRef.current) return pivotRef.current;
+      const { pivotMode, cursor3D } = useViewportStore.getState();
+      const mesh = useGeometryStore.getState().meshes.get(meshId);
+      const vertices = originalVerticesRef.current;
+      let center: Vector3 | null = centroid.clone();
+      if (pivotMode === "bounds") {
+        center = pivotCenter(vertices.map((v) => v.position), "bounds");
+      } else if (pivotMode === "cursor") {
+        center = new Vector3(cursor3D.x, cursor3D.y, cursor3D.z).applyMatrix4(editedObject().matrix.invert());
+      } else if (pivotMode === "active" && mesh) {
+        center = activeElementCenter(mesh, useSelectionStore.getState().selection) ?? center;
+      } else if (pivotMode === "individual" && mesh) {
+        const byId = new Map(vertices.map((v) => [v.id, v] as const));
+        pivotRef.current = vertexIslands(mesh, vertices.map((v) => v.id)).map((ids) => ({
+          center: pivotCenter(ids.map((id) => byId.get(id)!.position), "median"),
+          ids: new Set(ids),
+        }));
+        return pivotRef.current;
+      }
+      pivotRef.current = [{ center, ids: null }];
+      return pivotRef.current;
+    };
+    // The single pivot, or the selection centre with individual origins (proportional falloff)
+    const mainPivot = () => {
+      const pivots = ensurePivots();
+      return pivots.length === 1 && !pivots[0].ids ? pivots[0].center : centroid;
+    };
+    // Apply a rotate / scale about each pivot to the vertices it covers
+    const aroundPivots = (vertices: Vertex[], fn: (vertices: Vertex[], center: Vector3) => Vertex[]) => {
+      const pivots = ensurePivots();
+      if (pivots.length === 1 && !pivots[0].ids) return fn(vertices, pivots[0].center);
+      const moved = new Map<string, Vertex>();
+      for (const p of pivots) for (const v of fn(vertices.filter((v) => p.ids!.has(v.id)), p.center)) moved.set(v.id, v);
+      return vertices.map((v) => moved.get(v.id) ?? v);
+    };
+
+    const ensureSnap = () => {
+      if (snapRef.current) return snapRef.current;
+      const mesh = useGeometryStore.getState().meshes.get(meshId);
+      if (!mesh) return null;
+      const { objects } = useSceneStore.getState();
+      const { objectId, matrix } = editedObject();
+      // The edited mesh snaps to itself, minus the vertices being moved (proportional ones included)
+      const selectedIds = originalVerticesRef.current.map((v) => v.id);
+      const { proportionalEditing, proportionalRadius, proportionalConnected } = useToolStore.getState();
+      const pulled = proportionalEditing ? proportionalRegion(mesh, selectedIds, proportionalRadius, proportionalConnected).vertices : [];
+      const moving = new Set([...selectedIds, ...pulled.map((v) => v.id)]);
+      const others = sceneSnapSources(objects, useGeometryStore.getState().meshes, new Set(objectId ? [objectId] : []));
+      snapRef.current = { matrix, inverse: matrix.clone().invert(), sources: [{ mesh, matrix, excludeVertexIds: moving }, ...others] };
+      return snapRef.current;
+    };
+
+    // Snapped local move delta for the absolute grid and geometry snap modes
+    const snapMoveDelta = (delta: Vector3, axisLock: string) => {
+      const { snapMode: mode, setSnapIndicator } = useViewportStore.getState();
+      if (!gridSnapping || mode === "increment") return delta;
+      let snapped = delta.clone();
+      if (mode === "grid") {
+        const g = snapPointToGrid({ x: centroid.x + delta.x, y: centroid.y + delta.y, z: centroid.z + delta.z }, gridSize);
+        snapped = new Vector3(g.x - centroid.x, g.y - centroid.y, g.z - centroid.z);
+      } else if (isGeometrySnap(mode)) {
+        const snap = ensureSnap();
+        if (!snap) return delta;
+        const toWorld = (p: { x: number; y: number; z: number }) =>
+          new Vector3(p.x + delta.x, p.y + delta.y, p.z + delta.z).applyMatrix4(snap.matrix);
+        const moved = [toWorld(centroid), ...originalVerticesRef.current.slice(0, 128).map((v) => toWorld(v.position))];
+        const rect = gl.domElement.getBoundingClientRect();
+        const result = snapMove(mode, moved, { camera, width: rect.width, height: rect.height }, snap.sources);
+        if (result) {
+          const from = moved[0].clone().applyMatrix4(snap.inverse);
+          const to = moved[0].clone().add(result.offset).applyMatrix4(snap.inverse);
+          snapped.add(to.sub(from));
+          const { point, normal } = result.hit;
+          setSnapIndicator({ kind: mode, point: { x: point.x, y: point.y, z: point.z }, normal: normal && { x: normal.x, y: normal.y, z: normal.z } });
+        } else if (useViewportStore.getState().snapIndicator) {
+          setSnapIndicator(null);
+        }
+      }
+      return axisLock === "none"
+        ? snapped
+        : new Vector3(axisLock === "x" ? snapped.x : 0, axisLock === "y" ? snapped.y : 0, axisLock === "z" ? snapped.z : 0);
+    };
+
+    // Re-apply the typed value; clearing it hands the transform back to the mouse
+    const refreshNumeric = () => {
+      const toolState = useToolStore.getState();
+      if (!toolState.numericInput) {
+        moveAccumRef.current.set(0, 0, 0);
+        accumulatorRef.current = { rotation: 0, scale: 1 };
+        setAccumulator({ rotation: 0, scale: 1 });
+        lastTransformRef.current = null;
+        applyLocalPreview(originalVerticesRef.current);
+        return;
+      }
+      const { tool, numericInput, axisLock } = toolState;
+      const pivoted = tool === "rotate" || tool === "scale";
+      const { matrix } = editedObject();
+      const result = numericTransformVertices(tool, numericInput, originalVerticesRef.current, axisLock, pivoted ? mainPivot() : centroid, avgNormalLocal, matrix);
+      if (!result) return; // incomplete expression: keep the last preview
+      if (!pivoted) {
+        if (tool === "move") previewTransform(result.vertices, result.transform);
+        else applyLocalPreview(result.vertices);
+        return;
+      }
+      const vertices = aroundPivots(
+        originalVerticesRef.current,
+        (vs, c) => numericTransformVertices(tool, numericInput, vs, axisLock, c, avgNormalLocal, matrix)?.vertices ?? vs,
+      );
+      previewTransform(vertices, result.transform);
+    };
+
     const handleMouseMove = (event: MouseEvent) => {
       // Get fresh context and state each time
-      const freshContext: TransformContext = {
-        camera,
-        distance: camera.position.distanceTo(centroid),
-        objectRotation,
-        objectScale,
-        gridSnapping,
-        gridSize,
-      };
+      const context = freshContext();
 
       const toolState = useToolStore.getState();
+      // Typed values win over the mouse
+      if (toolState.numericInput && takesNumericInput(toolState.tool)) return;
 
-      if (toolState.tool === "move") {
+      if (toolState.tool === "edge-slide" || toolState.tool === "vertex-slide") {
+        const slide = ensureSlide();
+        if (!slide) return;
+        const data = slideData();
+        const result = handleSlideOperation(
+          event,
+          originalVerticesRef.current,
+          slide.positions,
+          centroid,
+          context,
+          slide.rails,
+          toolState.moveSensitivity,
+          moveAccumRef.current,
+          data,
+          parseNumericInput(data.numeric),
+        );
+        moveAccumRef.current = result.newAccumulator;
+        toolState.setLocalData({ ...data, factor: result.factor });
+        applyLocalPreview(result.vertices);
+      } else if (toolState.tool === "edge-crease") {
+        const data = creaseData();
+        // Typed values win over the drag
+        if (parseNumericInput(data.numeric) != null) return;
+        const { value } = handleCreaseOperation(event, context, toolState.scaleSensitivity, data.value);
+        toolState.setLocalData({ ...data, value });
+      } else if (toolState.tool === "move") {
         const result = handleMoveOperation(
           event,
           originalVerticesRef.current,
           centroid,
-          freshContext,
+          context,
           toolState.axisLock,
           toolState.moveSensitivity,
           moveAccumRef.current,
         );
 
         moveAccumRef.current = result.newAccumulator;
-        applyLocalPreview(result.vertices);
+        const o = originalVerticesRef.current[0]?.position;
+        const p = result.vertices[0]?.position;
+        const delta = snapMoveDelta(o && p ? new Vector3(p.x - o.x, p.y - o.y, p.z - o.z) : new Vector3(), toolState.axisLock);
+        previewTransform(
+          applyMoveOperation(originalVerticesRef.current, delta, "none"),
+          (vertices, w) => applyMoveOperation(vertices, delta.clone().multiplyScalar(w), "none"),
+        );
       } else if (toolState.tool === "rotate") {
         const result = handleRotateOperation(
           event,
           originalVerticesRef.current,
           centroid,
-          freshContext,
+          context,
           toolState.axisLock,
           toolState.rotateSensitivity,
           accumulatorRef.current.rotation,
@@ -154,13 +411,17 @@ export const ToolHandler: React.FC<ToolHandlerProps> = ({
           rotation: result.newRotation,
         };
         setAccumulator((prev) => ({ ...prev, rotation: result.newRotation }));
-        applyLocalPreview(result.vertices);
+        const rotate = (vertices: Vertex[], angle: number, center: Vector3) => applyRotateOperation(vertices, angle, toolState.axisLock, center);
+        previewTransform(
+          aroundPivots(originalVerticesRef.current, (vs, c) => rotate(vs, result.newRotation, c)),
+          (vertices, w) => rotate(vertices, result.newRotation * w, mainPivot()),
+        );
       } else if (toolState.tool === "scale") {
         const result = handleScaleOperation(
           event,
           originalVerticesRef.current,
           centroid,
-          freshContext,
+          context,
           toolState.axisLock,
           toolState.scaleSensitivity,
           accumulatorRef.current.scale,
@@ -170,13 +431,17 @@ export const ToolHandler: React.FC<ToolHandlerProps> = ({
           scale: result.newScale,
         };
         setAccumulator((prev) => ({ ...prev, scale: result.newScale }));
-        applyLocalPreview(result.vertices);
+        const scale = (vertices: Vertex[], factor: number, center: Vector3) => applyScaleOperation(vertices, factor, toolState.axisLock, center);
+        previewTransform(
+          aroundPivots(originalVerticesRef.current, (vs, c) => scale(vs, result.newScale, c)),
+          (vertices, w) => scale(vertices, 1 + (result.newScale - 1) * w, mainPivot()),
+        );
       } else if (toolState.tool === "extrude") {
         const result = handleExtrudeOperation(
           event,
           originalVerticesRef.current,
           centroid,
-          freshContext,
+          context,
           toolState.axisLock,
           toolState.moveSensitivity,
           moveAccumRef.current,
@@ -190,7 +455,7 @@ export const ToolHandler: React.FC<ToolHandlerProps> = ({
           event,
           originalVerticesRef.current,
           centroid,
-          freshContext,
+          context,
           toolState.scaleSensitivity,
           accumulatorRef.current.scale,
         );
@@ -205,7 +470,7 @@ export const ToolHandler: React.FC<ToolHandlerProps> = ({
           event,
           originalVerticesRef.current,
           centroid,
-          freshContext,
+          context,
           meshId,
           selectedFaceIdsRef.current,
           toolState.scaleSensitivity,
@@ -223,7 +488,7 @@ export const ToolHandler: React.FC<ToolHandlerProps> = ({
           event,
           originalVerticesRef.current,
           centroid,
-          freshContext,
+          context,
           meshId,
           toolState.scaleSensitivity,
           accumulatorRef.current.scale || 0,
@@ -242,7 +507,7 @@ export const ToolHandler: React.FC<ToolHandlerProps> = ({
           event,
           originalVerticesRef.current,
           centroid,
-          freshContext,
+          context,
           meshId,
           toolState.scaleSensitivity,
           accumulatorRef.current.scale || 0,
@@ -259,9 +524,7 @@ export const ToolHandler: React.FC<ToolHandlerProps> = ({
       }
     };
 
-    const handleMouseUp = (event: MouseEvent) => {
-      if (event.button !== 0) return; // Only left mouse button
-
+    const commit = () => {
       const toolState = useToolStore.getState();
 
       const latestLocalVertices = localVerticesRef.current;
@@ -271,7 +534,11 @@ export const ToolHandler: React.FC<ToolHandlerProps> = ({
           : getSelectedVertices(meshId).faceIds;
       const latestAccumulator = accumulatorRef.current;
 
-      if (latestLocalVertices.length > 0) {
+      if (toolState.tool === "edge-crease") {
+        const data = creaseData();
+        const value = parseNumericInput(data.numeric) ?? data.value;
+        geometryStore.setEdgeCreases(meshId, getSelectedEdgeIds(meshId), Math.max(0, Math.min(1, value)));
+      } else if (latestLocalVertices.length > 0) {
         if (toolState.tool === "extrude") {
           commitExtrudeOperation(
             latestLocalVertices,
@@ -315,32 +582,97 @@ export const ToolHandler: React.FC<ToolHandlerProps> = ({
 
       toolStore.endOperation(true);
       moveAccumRef.current.set(0, 0, 0);
+      slideRef.current = null;
+      snapRef.current = null;
+      proportionalRef.current = null;
+      lastTransformRef.current = null;
+      if (useViewportStore.getState().snapIndicator) useViewportStore.getState().setSnapIndicator(null);
+    };
+
+    const handleMouseUp = (event: MouseEvent) => {
+      if (event.button !== 0) return; // Only left mouse button
+      commit();
     };
 
     const handleKeyDown = (event: KeyboardEvent) => {
       const key = event.key.toLowerCase();
       const toolState = useToolStore.getState();
+      const sliding = toolState.tool === "edge-slide" || toolState.tool === "vertex-slide";
 
-      if (key === "escape") {
+      // Slides and creases take typed values (factor / weight)
+      if (sliding || toolState.tool === "edge-crease") {
+        const data = sliding ? slideData() : creaseData();
+        const numeric = applyNumericKey(data.numeric, event.key);
+        if (numeric != null) {
+          event.preventDefault();
+          event.stopPropagation();
+          toolState.setLocalData({ ...data, numeric } as typeof data);
+          if (sliding) refreshSlide();
+          return;
+        }
+      }
+
+      if (takesNumericInput(toolState.tool)) {
+        const numeric = applyNumericKey(toolState.numericInput, event.key, true);
+        if (numeric != null) {
+          event.preventDefault();
+          event.stopPropagation();
+          toolState.setNumericInput(numeric);
+          refreshNumeric();
+          return;
+        }
+      }
+
+      if (key === "enter") {
+        commit();
+      } else if (key === "g" && toolState.tool === "move" && !event.repeat) {
+        // G G: slide instead of moving freely; edges (or connected vertices) slide as loops
+        const latestOriginalVertices = originalVerticesRef.current;
+        applyLocalPreview(latestOriginalVertices);
+        moveAccumRef.current.set(0, 0, 0);
+        slideRef.current = null;
+        const sel = getSelectedEdgeIds(meshId);
+        const mode = sel.length > 0 && useSelectionStore.getState().selection.selectionMode !== "face" ? "edge-slide" : "vertex-slide";
+        toolState.startOperation(mode, { kind: "slide", factor: 0, even: false, flip: false, numeric: "" });
+      } else if (sliding && (key === "e" || key === "f")) {
+        const data = slideData();
+        toolState.setLocalData(key === "e" ? { ...data, even: !data.even } : { ...data, flip: !data.flip });
+        refreshSlide();
+      } else if (key === "escape") {
         // Abort operation - restore original state
         const latestOriginalVertices = originalVerticesRef.current;
         setLocalVertices(latestOriginalVertices);
         onLocalDataChange(latestOriginalVertices);
         toolStore.endOperation(false);
         moveAccumRef.current.set(0, 0, 0);
-      } else if (key === "x") {
-        toolState.setAxisLock(toolState.axisLock === "x" ? "none" : "x");
-      } else if (key === "y") {
-        toolState.setAxisLock(toolState.axisLock === "y" ? "none" : "y");
-      } else if (key === "z") {
-        toolState.setAxisLock(toolState.axisLock === "z" ? "none" : "z");
+        slideRef.current = null;
+        snapRef.current = null;
+        proportionalRef.current = null;
+        lastTransformRef.current = null;
+        if (useViewportStore.getState().snapIndicator) useViewportStore.getState().setSnapIndicator(null);
+      } else if (key === "o" && lastTransformRef.current) {
+        // Proportional editing was just toggled (shortcut provider): refresh the preview
+        snapRef.current = null;
+        applyLocalPreview([...lastTransformRef.current.selected, ...proportionalVertices()]);
+      } else if (key === "x" || key === "y" || key === "z") {
+        toolState.setAxisLock(toolState.axisLock === key ? "none" : key);
+        if (toolState.numericInput) refreshNumeric();
       }
     };
 
     const handleWheel = (e: WheelEvent) => {
       const toolState = useToolStore.getState();
       if (!toolState.isActive) return;
-      if (toolState.tool === "fillet" || toolState.tool === "bevel") {
+      const transforming = toolState.tool === "move" || toolState.tool === "rotate" || toolState.tool === "scale";
+      if (transforming && toolState.proportionalEditing) {
+        // Wheel sizes the proportional radius instead of zooming
+        e.preventDefault();
+        e.stopPropagation();
+        e.stopImmediatePropagation();
+        toolState.setProportionalRadius(toolState.proportionalRadius * (e.deltaY > 0 ? 1 / 1.1 : 1.1));
+        const last = lastTransformRef.current;
+        if (last) applyLocalPreview([...last.selected, ...proportionalVertices()]);
+      } else if (toolState.tool === "fillet" || toolState.tool === "bevel") {
         // Disable camera zoom while adjusting bevel/fillet divisions
         try {
           e.preventDefault();
@@ -390,6 +722,8 @@ export const ToolHandler: React.FC<ToolHandlerProps> = ({
     objectScale,
     gridSnapping,
     gridSize,
+    snapMode,
+    gl,
     onLocalDataChange,
     setLocalVertices,
     setAccumulator,
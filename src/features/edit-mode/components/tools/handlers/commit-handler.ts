@@ -1,10 +1,12 @@
-import { Vector3 } from 'three/webgpu';
+import { Matrix3, Matrix4, Vector3 } from 'three/webgpu';
 import { Vertex } from '@/types/geometry';
 import { useGeometryStore } from '@/stores/geometry-store';
 import { useSelectionStore } from '@/stores/selection-store';
-import { useToolStore } from '@/stores/tool-store';
-import { createVertex, createFace, buildEdgesFromFaces, calculateFaceNormal } from '@/utils/geometry';
+import { useToolStore, type AxisLock, type ToolMode } from '@/stores/tool-store';
+import { createVertex, createFace, calculateFaceNormal, rebuildEdges } from '@/utils/geometry';
 import { repairMeshTopology } from '@/utils/edit-ops';
+import { evaluateNumericAxes, evaluateNumericExpression } from '@/utils/numeric-input';
+import { applyMoveOperation, applyRotateOperation, applyScaleOperation } from '../../tool-operations';
 
 interface CommitHandlerParams {
     localVertices: Vertex[];
@@ -66,6 +68,73 @@ export function commitVertexUpdate(localVertices: Vertex[], meshId: string, geom
     geometryStore.recalculateNormals(meshId);
 }
 
+export type NumericTransform = {
+    vertices: Vertex[];
+    // The same operation at a weight (0..1), for vertices pulled along by proportional editing
+    transform: (vertices: Vertex[], weight: number) => Vertex[];
+};
+
+// Typed values (tool-store numericInput) for move / rotate / scale / extrude / inset: move and
+// extrude distances in world units, rotations in degrees, scale and inset factors. Like dragging,
+// every tool works along the object's local axes; `worldMatrix` only sizes the distances. A single
+// move or scale value follows the axis lock (X when unlocked, uniform for scale); `x, y, z` sets
+// every axis. Null while the input is incomplete.
+export function numericTransformVertices(
+    tool: ToolMode,
+    input: string,
+    originalVertices: Vertex[],
+    axisLock: AxisLock,
+    centroid: Vector3,
+    avgNormalLocal: Vector3,
+    worldMatrix: Matrix4 = new Matrix4()
+): NumericTransform | null {
+    // A local direction scaled to measure one world unit (linear part only; offsets ignore translation)
+    const linear = new Matrix3().setFromMatrix4(worldMatrix);
+    const worldUnit = (dir: Vector3) => {
+        const length = dir.clone().applyMatrix3(linear).length();
+        return length > 1e-12 ? dir.divideScalar(length) : dir;
+    };
+    const localAxis = (axis: 'x' | 'y' | 'z') => worldUnit(new Vector3(axis === 'x' ? 1 : 0, axis === 'y' ? 1 : 0, axis === 'z' ? 1 : 0));
+    let transform: NumericTransform['transform'];
+    if (tool === 'move') {
+        const v = evaluateNumericAxes(input, 'length', axisLock, 0);
+        if (!v) return null;
+        const delta = localAxis('x').multiplyScalar(v.x)
+            .add(localAxis('y').multiplyScalar(v.y))
+            .add(localAxis('z').multiplyScalar(v.z));
+        transform = (vertices, w) => applyMoveOperation(vertices, delta.clone().multiplyScalar(w), 'none');
+    } else if (tool === 'scale') {
+        const v = evaluateNumericAxes(input, 'factor', axisLock, 1, true);
+        if (!v) return null;
+        transform = (vertices, w) => vertices.map((vertex) => ({
+            ...vertex,
+            position: {
+                x: centroid.x + (vertex.position.x - centroid.x) * (1 + (v.x - 1) * w),
+                y: centroid.y + (vertex.position.y - centroid.y) * (1 + (v.y - 1) * w),
+                z: centroid.z + (vertex.position.z - centroid.z) * (1 + (v.z - 1) * w),
+            },
+        }));
+    } else if (tool === 'rotate') {
+        const angle = evaluateNumericExpression(input, 'angle');
+        if (angle == null) return null;
+        transform = (vertices, w) => applyRotateOperation(vertices, angle * w, axisLock, centroid);
+    } else if (tool === 'extrude') {
+        const distance = evaluateNumericExpression(input, 'length');
+        if (distance == null) return null;
+        // Along the locked local axis or the average normal
+        const dir = axisLock !== 'none' ? localAxis(axisLock) : worldUnit(avgNormalLocal.clone().normalize());
+        transform = (vertices, w) => applyMoveOperation(vertices, dir.clone().multiplyScalar(distance * w), 'none');
+    } else if (tool === 'inset') {
+        const factor = evaluateNumericExpression(input, 'factor');
+        if (factor == null) return null;
+        const clamped = Math.max(0.05, Math.min(2, factor));
+        transform = (vertices, w) => applyScaleOperation(vertices, 1 + (clamped - 1) * w, 'none', centroid);
+    } else {
+        return null;
+    }
+    return { vertices: transform(originalVertices, 1), transform };
+}
+
 export function commitExtrudeOperation(
     localVertices: Vertex[],
     selectedFaceIds: string[],
@@ -139,7 +208,7 @@ export function commitExtrudeOperation(
             mesh.faces.push(createFace([a, b, db, da]));
         }
 
-        mesh.edges = buildEdgesFromFaces(mesh.vertices, mesh.faces);
+        rebuildEdges(mesh);
     });
 
     geometryStore.recalculateNormals(meshId);
@@ -390,7 +459,7 @@ function cleanupEdgeRoundingTopology(mesh: any) {
     });
 
     repairMeshTopology(mesh);
-    mesh.edges = buildEdgesFromFaces(mesh.vertices, mesh.faces);
+    rebuildEdges(mesh);
 }
 
 function faceHasEdge(face: any, a: string, b: string) {
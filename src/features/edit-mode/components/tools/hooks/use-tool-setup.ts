@@ -35,7 +35,9 @@ export function useToolSetup(
     const implemented = toolStore.tool === 'move' || toolStore.tool === 'rotate' || 
                        toolStore.tool === 'scale' || toolStore.tool === 'extrude' || 
                        toolStore.tool === 'inset' || toolStore.tool === 'bevel' || 
-                       toolStore.tool === 'chamfer' || toolStore.tool === 'fillet';
+                       toolStore.tool === 'chamfer' || toolStore.tool === 'fillet' ||
+                       toolStore.tool === 'edge-slide' || toolStore.tool === 'vertex-slide' ||
+                       toolStore.tool === 'edge-crease';
     
     if (toolStore.isActive && implemented) {
       const { vertices: selectedVertices, faceIds } = getSelectedVertices(meshId);
@@ -0,0 +1,15 @@
+import { TransformContext } from '../utils/types';
+
+// Interactive edge crease: horizontal drag sets the subdivision crease weight (0..1) of the
+// selected edges; grid snapping rounds it to tenths
+export function handleCreaseOperation(
+  event: MouseEvent,
+  context: TransformContext,
+  scaleSensitivity: number,
+  currentValue: number
+): {
+  value: number;
+} {
+  const value = Math.max(0, Math.min(1, currentValue + event.movementX * scaleSensitivity));
+  return { value: context.gridSnapping ? Math.round(value * 10) / 10 : value };
+}
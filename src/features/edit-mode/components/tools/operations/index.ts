@@ -5,4 +5,6 @@ export * from './extrude-tool';
 export * from './inset-tool';
 export * from './bevel-tool';
 export * from './chamfer-tool';
-export * from './fillet-tool';
\ No newline at end of file
+export * from './fillet-tool';
+export * from './slide-tool';
+export * from './crease-tool';
\ No newline at end of file
@@ -0,0 +1,246 @@
+import { Euler, Vector3 } from 'three/webgpu';
+import { Mesh, Vertex } from '@/types/geometry';
+import { buildAdjacency } from '@/utils/selection/loops';
+import { mouseToWorldDelta } from '../../tool-operations';
+import { getCameraDistance } from '../utils/transform-utils';
+import { TransformContext } from '../utils/types';
+
+// Edge / vertex slide: selected vertices move along their adjacent (rail) edges, so the surface
+// keeps its shape. Edge slide gives every vertex of the selected loops a rail on each side
+// ('a' for positive factors, 'b' for negative); vertex slide picks, per vertex, the connected
+// edge that best follows the drag.
+
+export type SlideRails =
+  | { kind: 'edge'; rails: Map<string, { a?: string; b?: string }>; ref: string | null }
+  | { kind: 'vertex'; candidates: Map<string, string[]> };
+
+export interface SlideOptions {
+  even: boolean; // every vertex moves the same distance instead of the same fraction
+  flip: boolean; // with even: measured from the far end, matching the neighbouring loop's shape
+}
+
+const sideOf = (face: { vertexIds: string[] }, at: string, notTo: string): string | undefined => {
+  const ids = face.vertexIds;
+  const i = ids.indexOf(at);
+  if (i < 0) return undefined;
+  const prev = ids[(i - 1 + ids.length) % ids.length];
+  const next = ids[(i + 1) % ids.length];
+  return prev === notTo ? next : next === notTo ? prev : undefined;
+};
+
+const faceHasEdge = (face: { vertexIds: string[] }, a: string, b: string) => {
+  const ids = face.vertexIds;
+  for (let i = 0; i < ids.length; i++) {
+    const u = ids[i], v = ids[(i + 1) % ids.length];
+    if ((u === a && v === b) || (u === b && v === a)) return true;
+  }
+  return false;
+};
+
+export function buildEdgeSlideRails(mesh: Mesh, edgeIds: string[]): SlideRails {
+  const { edgeById, faceById, vertexById } = buildAdjacency(mesh);
+  const selected = edgeIds.map((id) => edgeById.get(id)).filter((e): e is NonNullable<typeof e> => !!e);
+  const byVertex = new Map<string, typeof selected>();
+  for (const e of selected) {
+    for (const v of e.vertexIds) {
+      const list = byVertex.get(v) ?? [];
+      list.push(e);
+      byVertex.set(v, list);
+    }
+  }
+  const rails = new Map<string, { a?: string; b?: string }>();
+  const label = new Map<string, 'a' | 'b'>();
+  const visited = new Set<string>();
+  const other = (l: 'a' | 'b') => (l === 'a' ? 'b' : 'a');
+  const dir = (from: string, to: string) => {
+    const p = vertexById.get(from)!.position, q = vertexById.get(to)!.position;
+    return new Vector3(q.x - p.x, q.y - p.y, q.z - p.z).normalize();
+  };
+
+  // Walk each connected run of selected edges, carrying the side labels from face to face
+  for (const start of selected) {
+    if (visited.has(start.id)) continue;
+    if (start.faceIds[0] && !label.has(start.faceIds[0])) label.set(start.faceIds[0], 'a');
+    if (start.faceIds[1] && !label.has(start.faceIds[1])) label.set(start.faceIds[1], 'b');
+    const queue = [start];
+    visited.add(start.id);
+    while (queue.length) {
+      const e = queue.shift()!;
+      for (const [k, w] of e.vertexIds.entries()) {
+        const u = e.vertexIds[1 - k];
+        const rail = rails.get(w) ?? {};
+        rails.set(w, rail);
+        for (const fid of e.faceIds) {
+          const f = faceById.get(fid);
+          const side = label.get(fid);
+          if (!f || !side) continue;
+          const r = sideOf(f, w, u);
+          if (r && !rail[side]) rail[side] = r;
+        }
+        for (const e2 of byVertex.get(w) ?? []) {
+          if (visited.has(e2.id)) continue;
+          visited.add(e2.id);
+          queue.push(e2);
+          const faces = e2.faceIds.map((id) => faceById.get(id)).filter((f): f is NonNullable<typeof f> => !!f);
+          if (faces.some((f) => label.has(f.id))) continue;
+          // The face across e2 on the same side shares that side's rail edge
+          let matched = false;
+          for (const s of ['a', 'b'] as const) {
+            const r = rail[s];
+            const g = r ? faces.find((f) => faceHasEdge(f, w, r)) : undefined;
+            if (!g) continue;
+            label.set(g.id, s);
+            const h = faces.find((f) => f !== g);
+            if (h) label.set(h.id, other(s));
+            matched = true;
+            break;
+          }
+          if (matched || !rail.a) continue;
+          // No shared rail (poles, triangles): keep the side whose rail points the same way
+          const e2Other = e2.vertexIds[0] === w ? e2.vertexIds[1] : e2.vertexIds[0];
+          const ref = dir(w, rail.a);
+          const scored = faces
+            .map((f) => ({ f, r: sideOf(f, w, e2Other) }))
+            .filter((x): x is { f: typeof faces[number]; r: string } => !!x.r)
+            .sort((x, y) => dir(w, y.r).dot(ref) - dir(w, x.r).dot(ref));
+          if (scored[0]) label.set(scored[0].f.id, 'a');
+          if (scored[1]) label.set(scored[1].f.id, 'b');
+        }
+      }
+    }
+  }
+  return { kind: 'edge', rails, ref: selected[0]?.vertexIds[0] ?? null };
+}
+
+export function buildVertexSlideRails(mesh: Mesh, vertexIds: string[]): SlideRails {
+  const selected = new Set(vertexIds);
+  const { edgesByVertex } = buildAdjacency(mesh);
+  // Prefer rails leading out of the selection
+  const candidates = new Map<string, string[]>();
+  for (const v of selected) {
+    const list = (edgesByVertex.get(v) ?? []).map((e) => (e.vertexIds[0] === v ? e.vertexIds[1] : e.vertexIds[0]));
+    if (!list.length) continue;
+    const outside = list.filter((n) => !selected.has(n));
+    candidates.set(v, outside.length ? outside : list);
+  }
+  return { kind: 'vertex', candidates };
+}
+
+// Position at fraction t (0..1) along the rail from p to q; `len` is the distance every vertex
+// moves in even mode
+function slideAlong(p: Vector3, q: Vector3, t: number, len: number, { even, flip }: SlideOptions): Vector3 {
+  const rail = q.clone().sub(p);
+  const railLen = rail.length();
+  if (!even || railLen < 1e-9) return p.clone().addScaledVector(rail, t);
+  const d = Math.min(railLen, t * len);
+  return flip
+    ? q.clone().addScaledVector(rail, -Math.max(0, Math.min(railLen, len - d)) / railLen)
+    : p.clone().addScaledVector(rail, d / railLen);
+}
+
+// World-space direction of a local rail, flattened onto the view plane
+function screenRail(p: Vector3, q: Vector3, context: TransformContext, forward: Vector3) {
+  const v = q.clone().sub(p);
+  if (context.objectScale) v.multiply(new Vector3(context.objectScale.x, context.objectScale.y, context.objectScale.z));
+  if (context.objectRotation) v.applyEuler(new Euler(context.objectRotation.x, context.objectRotation.y, context.objectRotation.z));
+  return v.addScaledVector(forward, -v.dot(forward));
+}
+
+export function applySlide(
+  originalVertices: Vertex[],
+  positions: Map<string, Vector3>,
+  rails: SlideRails,
+  drag: Vector3, // accumulated world-space drag
+  context: TransformContext,
+  options: SlideOptions,
+  factorOverride: number | null,
+): { vertices: Vertex[]; factor: number } {
+  const forward = context.camera.getWorldDirection(new Vector3());
+  const pos = (id: string) => positions.get(id);
+  const moved = new Map<string, Vector3>();
+  let factor = 0;
+
+  if (rails.kind === 'edge') {
+    // The factor follows the drag along the first vertex's rails
+    const refId = rails.ref;
+    const refRail = refId ? rails.rails.get(refId) : undefined;
+    const p0 = refId ? pos(refId) : undefined;
+    if (factorOverride != null) {
+      factor = factorOverride;
+    } else if (p0 && refRail) {
+      const along = (n?: string) => {
+        const q = n ? pos(n) : undefined;
+        if (!q) return 0;
+        const s = screenRail(p0, q, context, forward);
+        return s.lengthSq() > 1e-12 ? drag.dot(s) / s.lengthSq() : 0;
+      };
+      const ta = along(refRail.a);
+      factor = ta >= 0 || !refRail.b ? ta : -along(refRail.b);
+    }
+    factor = Math.max(refRail?.b ? -1 : 0, Math.min(refRail?.a ? 1 : 0, factor));
+    const side = factor >= 0 ? 'a' : 'b';
+    const t = Math.abs(factor);
+    let sum = 0, count = 0;
+    for (const [v, r] of rails.rails) {
+      const p = pos(v), q = r[side] ? pos(r[side]!) : undefined;
+      if (p && q) { sum += p.distanceTo(q); count++; }
+    }
+    const len = count ? sum / count : 0;
+    for (const [v, r] of rails.rails) {
+      const p = pos(v), q = r[side] ? pos(r[side]!) : undefined;
+      if (p && q) moved.set(v, slideAlong(p, q, t, len, options));
+    }
+  } else {
+    // Each vertex slides towards the neighbour its drag points at most
+    const chosen: Array<{ v: string; p: Vector3; q: Vector3; t: number }> = [];
+    const dragDir = drag.clone().normalize();
+    for (const [v, list] of rails.candidates) {
+      const p = pos(v);
+      if (!p) continue;
+      let best: { q: Vector3; s: Vector3; score: number } | null = null;
+      for (const n of list) {
+        const q = pos(n);
+        if (!q) continue;
+        const s = screenRail(p, q, context, forward);
+        const score = s.lengthSq() > 1e-12 ? s.clone().normalize().dot(dragDir) : -Infinity;
+        if (!best || score > best.score) best = { q, s, score };
+      }
+      if (!best) continue;
+      const t = factorOverride ?? (best.s.lengthSq() > 1e-12 ? drag.dot(best.s) / best.s.lengthSq() : 0);
+      chosen.push({ v, p, q: best.q, t: Math.max(0, Math.min(1, t)) });
+    }
+    factor = chosen.length ? chosen.reduce((m, c) => m + c.t, 0) / chosen.length : 0;
+    const len = chosen.length ? chosen.reduce((m, c) => m + c.p.distanceTo(c.q), 0) / chosen.length : 0;
+    // Even mode moves every vertex by the same distance, driven by the average fraction
+    for (const c of chosen) moved.set(c.v, slideAlong(c.p, c.q, options.even ? factor : c.t, len, options));
+  }
+
+  const vertices = originalVertices.map((v) => {
+    const m = moved.get(v.id);
+    return m ? { ...v, position: { x: m.x, y: m.y, z: m.z } } : v;
+  });
+  return { vertices, factor };
+}
+
+export function handleSlideOperation(
+  event: MouseEvent,
+  originalVertices: Vertex[],
+  positions: Map<string, Vector3>,
+  centroid: Vector3,
+  context: TransformContext,
+  rails: SlideRails,
+  moveSensitivity: number,
+  dragAccumulator: Vector3,
+  options: SlideOptions,
+  factorOverride: number | null,
+): {
+  vertices: Vertex[];
+  newAccumulator: Vector3;
+  factor: number;
+} {
+  const distance = getCameraDistance(context, centroid);
+  const delta = mouseToWorldDelta(event.movementX, event.movementY, context.camera, distance, moveSensitivity);
+  const newAccumulator = dragAccumulator.clone().add(delta);
+  const { vertices, factor } = applySlide(originalVertices, positions, rails, newAccumulator, context, options, factorOverride);
+  return { vertices, newAccumulator, factor };
+}
@@ -1,3 +1,4 @@
 export * from './types';
 export * from './transform-utils';
-export * from './selection-utils';
\ No newline at end of file
+export * from './selection-utils';
+export * from './proportional';
@@ -0,0 +1,94 @@
+import { Mesh, Vertex } from '@/types/geometry';
+import type { ProportionalFalloff } from '@/stores/tool-store';
+
+// Proportional editing: unselected vertices near the selection follow the transform, weighted
+// by their distance to it
+
+export interface ProportionalRegion {
+  vertices: Vertex[]; // unselected vertices within the radius, as they were at tool start
+  distances: Map<string, number>; // distance to the nearest selected vertex
+}
+
+const dist = (a: Vertex, b: Vertex) =>
+  Math.hypot(a.position.x - b.position.x, a.position.y - b.position.y, a.position.z - b.position.z);
+
+// Distances to the selection, straight-line or (connected) along edges
+export function proportionalRegion(mesh: Mesh, selectedIds: string[], radius: number, connected: boolean): ProportionalRegion {
+  const selected = new Set(selectedIds);
+  const byId = new Map(mesh.vertices.map((v) => [v.id, v] as const));
+  const distances = new Map<string, number>();
+
+  if (connected) {
+    // Dijkstra from every selected vertex, stopping at the radius
+    const neighbours = new Map<string, string[]>();
+    for (const e of mesh.edges) {
+      const [a, b] = e.vertexIds;
+      neighbours.set(a, [...(neighbours.get(a) ?? []), b]);
+      neighbours.set(b, [...(neighbours.get(b) ?? []), a]);
+    }
+    const best = new Map<string, number>(selectedIds.map((id) => [id, 0]));
+    const open = [...selectedIds];
+    while (open.length) {
+      let k = 0;
+      for (let i = 1; i < open.length; i++) if (best.get(open[i])! < best.get(open[k])!) k = i;
+      const id = open.splice(k, 1)[0];
+      const d = best.get(id)!;
+      const v = byId.get(id);
+      if (!v) continue;
+      for (const n of neighbours.get(id) ?? []) {
+        const w = byId.get(n);
+        if (!w) continue;
+        const nd = d + dist(v, w);
+        if (nd > radius || nd >= (best.get(n) ?? Infinity)) continue;
+        if (!best.has(n)) open.push(n);
+        best.set(n, nd);
+      }
+    }
+    for (const [id, d] of best) if (!selected.has(id)) distances.set(id, d);
+  } else {
+    const sel = selectedIds.map((id) => byId.get(id)).filter((v): v is Vertex => !!v);
+    for (const v of mesh.vertices) {
+      if (selected.has(v.id)) continue;
+      let d = Infinity;
+      for (const s of sel) d = Math.min(d, dist(v, s));
+      if (d < radius) distances.set(v.id, d);
+    }
+  }
+
+  return { vertices: mesh.vertices.filter((v) => distances.has(v.id)), distances };
+}
+
+// Stable per-vertex noise for the random falloff, so the pattern holds while dragging
+const hash01 = (id: string) => {
+  let h = 2166136261;
+  for (let i = 0; i < id.length; i++) h = Math.imul(h ^ id.charCodeAt(i), 16777619);
+  return ((h >>> 0) % 100000) / 100000;
+};
+
+export function proportionalWeight(falloff: ProportionalFalloff, distance: number, radius: number, id: string): number {
+  if (distance >= radius) return 0;
+  const t = 1 - distance / radius;
+  switch (falloff) {
+    case 'smooth': return t * t * (3 - 2 * t);
+    case 'sphere': return Math.sqrt(Math.max(0, 2 * t - t * t));
+    case 'root': return Math.sqrt(t);
+    case 'linear': return t;
+    case 'sharp': return t * t;
+    case 'constant': return 1;
+    case 'random': return t * hash01(id);
+  }
+}
+
+// Apply a transform to the region at each vertex's weight. `transform` maps vertices with the
+// operation scaled by `weight` (0 = untouched, 1 = full effect).
+export function applyProportional(
+  region: ProportionalRegion,
+  falloff: ProportionalFalloff,
+  radius: number,
+  transform: (vertices: Vertex[], weight: number) => Vertex[],
+): Vertex[] {
+  return region.vertices.map((v) => {
+    const w = proportionalWeight(falloff, region.distances.get(v.id) ?? Infinity, radius, v.id);
+    return w > 0 ? transform([v], w)[0] : v;
+  });
+}
@@ -43,4 +43,20 @@ export function getSelectedVertices(meshId: string): {
   }
   
   return { vertices: selectedVertices, faceIds };
-}
\ No newline at end of file
+}
+/**
+ * Gets selected edges: the edge selection, edges between selected vertices, or the edges of
+ * selected faces
+ */
+export function getSelectedEdgeIds(meshId: string): string[] {
+  const mesh = useGeometryStore.getState().meshes.get(meshId);
+  const selection = useSelectionStore.getState().selection;
+  if (!mesh) return [];
+  if (selection.selectionMode === 'edge') return selection.edgeIds.slice();
+  const vertexIds = new Set(
+    selection.selectionMode === 'vertex'
+      ? selection.vertexIds
+      : mesh.faces.filter(f => selection.faceIds.includes(f.id)).flatMap(f => f.vertexIds)
+  );
+  return mesh.edges.filter(e => vertexIds.has(e.vertexIds[0]) && vertexIds.has(e.vertexIds[1])).map(e => e.id);
+}
@@ -38,6 +38,8 @@ export function useBrushRay(mesh: AppMesh | null, obj: ObjectTransform | null, r
     mesh.vertices.forEach((v, i) => idToIdx.set(v.id, i));
     const tris: [number, number, number][] = [];
     for (const f of mesh.faces) {
+      // Hidden face sets can't be hit by the brush
+      if (f.hidden) continue;
       const ids = f.vertexIds;
       for (let i = 1; i + 1 < ids.length; i++) {
         const a = idToIdx.get(ids[0]);
@@ -0,0 +1,53 @@
+import { useMemo } from 'react';
+import { Euler, Matrix4, Quaternion, Vector3 } from 'three/webgpu';
+import { useSceneStore } from '@/stores/scene-store';
+import type { ObjectTransform } from './use-brush';
+
+const identity: ObjectTransform = { position: { x: 0, y: 0, z: 0 }, rotation: { x: 0, y: 0, z: 0 }, scale: { x: 1, y: 1, z: 1 } };
+
+// Decomposed world transform of the scene object referencing `meshId` (the selected object wins
+// when several share the mesh). Used by component-level modes that draw in object space.
+export function useMeshObjectTransform(meshId: string | null): ObjectTransform {
+	const objects = useSceneStore((s) => s.objects);
+	const selectedObjectId = useSceneStore((s) => s.selectedObjectId);
+	return useMemo(() => {
+		if (!meshId) return identity;
+
+		const selectedObject = selectedObjectId ? objects[selectedObjectId] : undefined;
+		const baseObject =
+			(selectedObject && selectedObject.meshId === meshId ? selectedObject : undefined) ??
+			Object.values(objects).find((o) => o.meshId === meshId);
+		if (!baseObject) return identity;
+
+		const worldMatrix = new Matrix4().identity();
+		const chain: typeof baseObject[] = [];
+		let current: typeof baseObject | undefined = baseObject;
+		while (current) {
+			chain.push(current);
+			current = current.parentId ? objects[current.parentId] : undefined;
+		}
+
+		for (let i = chain.length - 1; i >= 0; i--) {
+			const t = chain[i].transform;
+			const q = new Quaternion().setFromEuler(new Euler(t.rotation.x, t.rotation.y, t.rotation.z));
+			const localM = new Matrix4().compose(
+				new Vector3(t.position.x, t.position.y, t.position.z),
+				q,
+				new Vector3(t.scale.x, t.scale.y, t.scale.z)
+			);
+			worldMatrix.multiply(localM);
+		}
+
+		const pos = new Vector3();
+		const quat = new Quaternion();
+		const scl = new Vector3();
+		worldMatrix.decompose(pos, quat, scl);
+		const rot = new Euler().setFromQuaternion(quat);
+
+		return {
+			position: { x: pos.x, y: pos.y, z: pos.z },
+			rotation: { x: rot.x, y: rot.y, z: rot.z },
+			scale: { x: scl.x, y: scl.y, z: scl.z },
+		};
+	}, [objects, selectedObjectId, meshId]);
+}
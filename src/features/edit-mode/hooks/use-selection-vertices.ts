@@ -12,8 +12,7 @@ export function useSelectionVertices(meshId: string, localVertices?: Vertex[] |
 
   const mesh = geometryStore.meshes.get(meshId);
 
-  const vertices = useMemo(() => {
-    if (localVertices && localVertices.length > 0) return localVertices;
+  const selected = useMemo(() => {
     if (!mesh) return [] as Vertex[];
     const sel = selectionStore.selection;
     if (sel.selectionMode === 'vertex') {
@@ -36,7 +35,16 @@ export function useSelectionVertices(meshId: string, localVertices?: Vertex[] |
       return mesh.vertices.filter((v) => ids.has(v.id));
     }
     return [] as Vertex[];
-  }, [localVertices, selectionStore.selection, mesh]);
+  }, [selectionStore.selection, mesh]);
+
+  // Tool previews may also carry unselected vertices (proportional editing); only the selection's
+  // own previewed positions count here
+  const vertices = useMemo(() => {
+    if (!localVertices || localVertices.length === 0) return selected;
+    const overrides = new Map(localVertices.map((v) => [v.id, v] as const));
+    const own = selected.filter((v) => overrides.has(v.id)).map((v) => overrides.get(v.id)!);
+    return own.length > 0 ? own : localVertices;
+  }, [localVertices, selected]);
 
   const centroid = useMemo(() => {
     if (!vertices || vertices.length === 0) return null as Vector3 | null;
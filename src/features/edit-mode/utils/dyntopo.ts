@@ -0,0 +1,302 @@
+import { Vector3 } from 'three/webgpu';
+import { nanoid } from 'nanoid';
+import type { Color4, Edge, Face, Mesh, Vector2, Vertex } from '@/types/geometry';
+import { mixWeights } from '@/utils/vertex-groups';
+import { queryRadiusIndices, spatialInsert, spatialRemove, type SpatialIndex } from './sculpt';
+
+// Dynamic topology: around the brush, edges longer than the detail size are split and edges
+// shorter than COLLAPSE_RATIO of it are collapsed, so strokes keep an even triangle density.
+// Touched polygons are triangulated first. Store meshes are frozen, so everything works on copied
+// arrays and replaced objects; the spatial index is patched in place (new vertices are appended,
+// removed ones swap-removed) so it stays valid for the returned vertex array. Adjacency is only
+// gathered for faces near the brush and edges are patched rather than rebuilt, keeping a dab's
+// cost proportional to the brush area rather than the mesh.
+
+const COLLAPSE_RATIO = 0.4;
+const MAX_SPLIT_PASSES = 4;
+
+export interface DyntopoOptions {
+  detail: number; // target edge length, object-local units
+  split?: boolean;
+  collapse?: boolean;
+  maxOps?: number; // per call, keeps a single dab responsive
+}
+
+export type DyntopoResult = Pick<Mesh, 'vertices' | 'faces' | 'edges'>;
+
+const edgeKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+const lerp2 = (a: Vector2, b: Vector2): Vector2 => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+const lerpColor = (a: Color4, b: Color4): Color4 => ({ r: (a.r + b.r) / 2, g: (a.g + b.g) / 2, b: (a.b + b.b) / 2, a: (a.a + b.a) / 2 });
+
+// Copy of `f` keeping only the given corners; per-corner data follows. Custom normals are dropped
+// since they no longer match the reshaped surface.
+function subFace(f: Face, corners: number[], id = f.id): Face {
+  const face: Face = { ...f, id, vertexIds: corners.map((c) => f.vertexIds[c]), selected: false };
+  delete face.normals;
+  if (f.uvs) face.uvs = corners.map((c) => f.uvs![c]);
+  if (f.colors) face.colors = Object.fromEntries(Object.entries(f.colors).map(([k, cs]) => [k, corners.map((c) => cs[c])]));
+  return face;
+}
+
+// Copy of triangle `f` with corner `at` moved to the midpoint vertex `mid` of corners ia-ib
+function withMidCorner(f: Face, ia: number, ib: number, at: number, mid: string, id = f.id): Face {
+  const face = subFace(f, [0, 1, 2], id);
+  face.vertexIds[at] = mid;
+  if (f.uvs) face.uvs![at] = lerp2(f.uvs[ia], f.uvs[ib]);
+  if (f.colors) for (const [k, cs] of Object.entries(f.colors)) face.colors![k][at] = lerpColor(cs[ia], cs[ib]);
+  return face;
+}
+
+function midVertex(a: Vertex, b: Vertex, id: string): Vertex {
+  const n = new Vector3(a.normal.x + b.normal.x, a.normal.y + b.normal.y, a.normal.z + b.normal.z).normalize();
+  const v: Vertex = {
+    id,
+    position: { x: (a.position.x + b.position.x) / 2, y: (a.position.y + b.position.y) / 2, z: (a.position.z + b.position.z) / 2 },
+    normal: { x: n.x, y: n.y, z: n.z },
+    uv: lerp2(a.uv, b.uv),
+    selected: false,
+  };
+  if (a.uv2 && b.uv2) v.uv2 = lerp2(a.uv2, b.uv2);
+  const weights = mixWeights([a, b]);
+  if (weights) v.weights = weights;
+  const mask = ((a.mask ?? 0) + (b.mask ?? 0)) / 2;
+  if (mask > 0) v.mask = mask;
+  return v;
+}
+
+const triNormal = (p: Vector3[]) => new Vector3().subVectors(p[1], p[0]).cross(new Vector3().subVectors(p[2], p[0]));
+
+export function dyntopoStep(mesh: DyntopoResult, index: SpatialIndex, center: Vector3, radius: number, opts: DyntopoOptions): DyntopoResult | null {
+  const { detail, split = true, collapse = true, maxOps = 500 } = opts;
+  if (!(detail > 0)) return null;
+
+  const vertices = mesh.vertices.slice();
+  const faces: (Face | null)[] = mesh.faces.slice();
+  const vIdx = new Map(vertices.map((v, i) => [v.id, i] as const));
+
+  // Local vertices: every face using one of them is linked below, so their face sets are
+  // complete. Vertices further out only know about linked faces.
+  const local = new Set(queryRadiusIndices(index, center, radius * 1.5 + detail).map((i) => vertices[i].id));
+  const vertFaces = new Map<string, Set<number>>();
+  const dirtyEdges = new Set<string>();
+  const touchedFaceIds = new Set<string>();
+  const markEdges = (f: Face) => {
+    for (let i = 0; i < f.vertexIds.length; i++) dirtyEdges.add(edgeKey(f.vertexIds[i], f.vertexIds[(i + 1) % f.vertexIds.length]));
+  };
+  const link = (fi: number, isNew = true) => {
+    const f = faces[fi]!;
+    for (const id of f.vertexIds) {
+      const s = vertFaces.get(id);
+      if (s) s.add(fi); else vertFaces.set(id, new Set([fi]));
+    }
+    if (isNew) markEdges(f);
+  };
+  const unlink = (fi: number) => {
+    const f = faces[fi]!;
+    for (const id of f.vertexIds) vertFaces.get(id)?.delete(fi);
+    markEdges(f);
+    touchedFaceIds.add(f.id);
+  };
+  faces.forEach((f, fi) => {
+    if (f!.vertexIds.some((id) => local.has(id))) link(fi, false);
+  });
+
+  const vec = (id: string) => {
+    const p = vertices[vIdx.get(id)!].position;
+    return new Vector3(p.x, p.y, p.z);
+  };
+  const r2 = radius * radius;
+  const inBrush = (id: string) => local.has(id) && vec(id).distanceToSquared(center) <= r2;
+  // Linked faces using edge a-b; all of them when either end is local
+  const sharedFaces = (a: string, b: string) => Array.from(vertFaces.get(a) ?? []).filter((fi) => faces[fi]!.vertexIds.includes(b));
+  const editable = (fi: number) => faces[fi]!.vertexIds.length === 3 && !faces[fi]!.hidden;
+
+  let ops = 0;
+  let changed = false;
+
+  // Faces around the brush; triangulate polygons so splits and collapses see triangles only
+  const region = new Set<number>();
+  for (const id of local) {
+    if (!inBrush(id)) continue;
+    for (const fi of vertFaces.get(id) ?? []) region.add(fi);
+  }
+  for (const fi of Array.from(region)) {
+    const f = faces[fi]!;
+    if (f.hidden || f.vertexIds.length === 3) continue;
+    unlink(fi);
+    faces[fi] = subFace(f, [0, 1, 2]);
+    link(fi);
+    for (let k = 2; k + 1 < f.vertexIds.length; k++) {
+      faces.push(subFace(f, [0, k, k + 1], nanoid()));
+      link(faces.length - 1);
+      region.add(faces.length - 1);
+    }
+    changed = true;
+  }
+
+  // Candidate edges of live region triangles touching the brush, by current length
+  const regionEdges = (keep: (len: number) => boolean) => {
+    const seen = new Set<string>();
+    const out: { a: string; b: string; len: number }[] = [];
+    for (const fi of region) {
+      const f = faces[fi];
+      if (!f || !editable(fi)) continue;
+      for (let i = 0; i < 3; i++) {
+        const a = f.vertexIds[i], b = f.vertexIds[(i + 1) % 3];
+        const key = edgeKey(a, b);
+        if (seen.has(key)) continue;
+        seen.add(key);
+        const len = vec(a).distanceTo(vec(b));
+        if (keep(len) && (inBrush(a) || inBrush(b))) out.push({ a, b, len });
+      }
+    }
+    return out;
+  };
+
+  const splitEdge = (a: string, b: string) => {
+    if (!vIdx.has(a) || !vIdx.has(b)) return;
+    const shared = sharedFaces(a, b);
+    // Skip edges already split this pass, non-manifold edges and hidden / polygon neighbours
+    if (!shared.length || shared.length > 2 || !shared.every(editable)) return;
+    const m = midVertex(vertices[vIdx.get(a)!], vertices[vIdx.get(b)!], nanoid());
+    vertices.push(m);
+    vIdx.set(m.id, vertices.length - 1);
+    local.add(m.id);
+    spatialInsert(index, vertices.length - 1, m.position);
+    for (const fi of shared) {
+      const f = faces[fi]!;
+      const ia = f.vertexIds.indexOf(a), ib = f.vertexIds.indexOf(b);
+      unlink(fi);
+      faces[fi] = withMidCorner(f, ia, ib, ib, m.id);
+      faces.push(withMidCorner(f, ia, ib, ia, m.id, nanoid()));
+      link(fi);
+      link(faces.length - 1);
+      region.add(faces.length - 1);
+    }
+    ops++;
+    changed = true;
+  };
+
+  const neighbours = (v: string) => {
+    const out = new Map<string, number>(); // neighbour -> number of faces sharing the edge
+    for (const fi of vertFaces.get(v) ?? []) {
+      for (const id of faces[fi]!.vertexIds) if (id !== v) out.set(id, (out.get(id) ?? 0) + 1);
+    }
+    return out;
+  };
+
+  const removeVertex = (id: string) => {
+    const i = vIdx.get(id)!;
+    const last = vertices.length - 1;
+    spatialRemove(index, i);
+    if (i !== last) {
+      const moved = vertices[last];
+      const movedPos = index.positions[last];
+      spatialRemove(index, last);
+      vertices[i] = moved;
+      vIdx.set(moved.id, i);
+      spatialInsert(index, i, movedPos);
+    }
+    vertices.pop();
+    index.positions.length = last;
+    vIdx.delete(id);
+    vertFaces.delete(id);
+    local.delete(id);
+  };
+
+  const collapseEdge = (a: string, b: string) => {
+    // Both rings must be complete
+    if (!vIdx.has(a) || !vIdx.has(b) || !local.has(a) || !local.has(b)) return;
+    const shared = sharedFaces(a, b);
+    if (shared.length !== 2) return;
+    const ring = new Set([...(vertFaces.get(a) ?? []), ...(vertFaces.get(b) ?? [])]);
+    for (const fi of ring) if (!editable(fi)) return;
+    // Boundary vertices keep the outline; link condition keeps the surface manifold
+    const na = neighbours(a), nb = neighbours(b);
+    for (const c of na.values()) if (c < 2) return;
+    for (const c of nb.values()) if (c < 2) return;
+    const opposite = new Set(shared.map((fi) => faces[fi]!.vertexIds.find((id) => id !== a && id !== b)!));
+    for (const n of na.keys()) if (nb.has(n) && !opposite.has(n)) return;
+
+    const va = vertices[vIdx.get(a)!], vb = vertices[vIdx.get(b)!];
+    const merged = { ...midVertex(va, vb, a), selected: va.selected };
+    const p = new Vector3(merged.position.x, merged.position.y, merged.position.z);
+    // Reject collapses that would flip a surrounding triangle
+    for (const fi of ring) {
+      if (shared.includes(fi)) continue;
+      const ids = faces[fi]!.vertexIds;
+      const before = triNormal(ids.map(vec));
+      const after = triNormal(ids.map((id) => (id === a || id === b ? p : vec(id))));
+      if (before.dot(after) <= 0) return;
+    }
+
+    for (const fi of shared) {
+      unlink(fi);
+      faces[fi] = null;
+      region.delete(fi);
+    }
+    for (const fi of Array.from(vertFaces.get(b) ?? [])) {
+      const f = faces[fi]!;
+      unlink(fi);
+      faces[fi] = { ...f, vertexIds: f.vertexIds.map((id) => (id === b ? a : id)) };
+      link(fi);
+    }
+    const ia = vIdx.get(a)!;
+    vertices[ia] = merged;
+    spatialRemove(index, ia);
+    spatialInsert(index, ia, merged.position);
+    removeVertex(b);
+    ops++;
+    changed = true;
+  };
+
+  if (split) {
+    for (let pass = 0; pass < MAX_SPLIT_PASSES && ops < maxOps; pass++) {
+      const long = regionEdges((len) => len > detail).sort((x, y) => y.len - x.len);
+      if (!long.length) break;
+      for (const e of long) {
+        if (ops >= maxOps) break;
+        splitEdge(e.a, e.b);
+      }
+    }
+  }
+  if (collapse) {
+    const minLen = detail * COLLAPSE_RATIO;
+    const short = regionEdges((len) => len < minLen).sort((x, y) => x.len - y.len);
+    for (const e of short) {
+      if (ops >= maxOps) break;
+      // Earlier collapses move vertices; re-check before committing
+      if (vIdx.has(e.a) && vIdx.has(e.b) && vec(e.a).distanceTo(vec(e.b)) < minLen) collapseEdge(e.a, e.b);
+    }
+  }
+  if (!changed) return null;
+
+  // Patch edges around changed faces; untouched faces keep their old edge membership, touched
+  // ones are all linked. Surviving edges keep ids and flags (seams, creases, sharp).
+  const edgeFaceIds = (a: string, b: string, old?: Edge) => {
+    const ids = new Set(old ? old.faceIds.filter((id) => !touchedFaceIds.has(id)) : []);
+    for (const fi of sharedFaces(a, b)) ids.add(faces[fi]!.id);
+    return Array.from(ids);
+  };
+  const edges: Edge[] = [];
+  const seen = new Set<string>();
+  for (const e of mesh.edges) {
+    const key = edgeKey(e.vertexIds[0], e.vertexIds[1]);
+    if (!dirtyEdges.has(key)) {
+      edges.push(e);
+      continue;
+    }
+    seen.add(key);
+    if (!vIdx.has(e.vertexIds[0]) || !vIdx.has(e.vertexIds[1])) continue;
+    const faceIds = edgeFaceIds(e.vertexIds[0], e.vertexIds[1], e);
+    if (faceIds.length) edges.push({ ...e, faceIds });
+  }
+  for (const key of dirtyEdges) {
+    if (seen.has(key)) continue;
+    const [a, b] = key.split('|');
+    if (!vIdx.has(a) || !vIdx.has(b)) continue;
+    const faceIds = edgeFaceIds(a, b);
+    if (faceIds.length) edges.push({ id: nanoid(), vertexIds: [a, b], faceIds, selected: false, seam: false });
+  }
+  return { vertices, faces: faces.filter((f): f is Face => !!f), edges };
+}
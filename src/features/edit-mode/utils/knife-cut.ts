@@ -1,5 +1,5 @@
 import { Mesh, Vertex, Edge, Face } from '@/types/geometry';
-import { createVertex, createFace, buildEdgesFromFaces } from '@/utils/geometry';
+import { createVertex, createFace, rebuildEdges } from '@/utils/geometry';
 import { Vector3 } from 'three/webgpu';
 
 interface CutPoint {
@@ -140,5 +140,5 @@ export function applyKnifeCut(mesh: Mesh, cutPoints: CutPoint[]): void {
   // 3. Properly handle face topology changes
   
   // Rebuild edges from faces
-  mesh.edges = buildEdgesFromFaces(mesh.vertices, mesh.faces);
+  rebuildEdges(mesh);
 }
@@ -1,5 +1,5 @@
 import { computeEdgeLoopFaceSpans, type FaceSpan } from '@/utils/loopcut';
-import { buildEdgesFromFaces, createFace, createVertex } from '@/utils/geometry';
+import { createFace, createVertex, rebuildEdges } from '@/utils/geometry';
 import type { Mesh } from '@/types/geometry';
 
 // Applies a loop cut to the mesh, fixing canonical edge handling and preserving winding.
@@ -27,6 +27,7 @@ export const applyLoopCut = (
 
         const vmap = new Map(m.vertices.map((v) => [v.id, v] as const));
         const edgeSplit = new Map<string, string>(); // key: canonicalEdge|segIndex -> vertexId
+        const splitOn = new Map<string, [string, string]>(); // new vertex -> the edge it cuts
 
     const base = (i: number) => i / (N + 1);
     // The average of i/(N+1) for i=1..N is exactly 0.5
@@ -97,6 +98,7 @@ export const applyLoopCut = (
             m.vertices.push(dup);
             vmap.set(dup.id, dup);
             edgeSplit.set(k, dup.id);
+            splitOn.set(dup.id, edge);
             return dup.id;
         };
 
@@ -130,7 +132,7 @@ export const applyLoopCut = (
         console.log(`Removing ${facesToRemove.size} faces, adding ${newFaces.length} faces`);
         m.faces = m.faces.filter((f) => !facesToRemove.has(f.id));
         m.faces.push(...newFaces);
-        m.edges = buildEdgesFromFaces(m.vertices, m.faces);
+        rebuildEdges(m, splitOn);
     });
     recalculateNormals(meshId);
 };
@@ -1,12 +1,19 @@
 import type { Mesh, Vertex } from '@/types/geometry';
 import { Vector3 } from 'three/webgpu';
+import { vertexGroupFactor } from '@/utils/vertex-groups';
+import { vertexMask } from '@/utils/sculpt-mask';
+import { faceSetOf, hiddenVertexIds } from '@/utils/face-sets';
+import { sampleImageLuminance, type ImagePixels } from '@/stores/files-store';
+import { evaluateCurve, type CurvePoint } from '@/utils/brush-curve';
 
-export type Falloff = 'smooth' | 'linear' | 'sharp';
+export type Falloff = 'smooth' | 'linear' | 'sharp' | 'constant' | 'curve';
 
-export const falloffFn = (t: number, kind: Falloff) => {
+export const falloffFn = (t: number, kind: Falloff, curve?: CurvePoint[]) => {
   const x = Math.max(0, Math.min(1, 1 - t));
   if (kind === 'linear') return x;
   if (kind === 'sharp') return x * x;
+  if (kind === 'constant') return t <= 1 ? 1 : 0;
+  if (kind === 'curve' && curve) return t <= 1 ? Math.max(0, evaluateCurve(curve, Math.max(0, t))) : 0;
   // smooth (ease in-out)
   return x * x * (3 - 2 * x);
 };
@@ -17,10 +24,36 @@ export interface BrushContext {
   radius: number; // world radius approximated to local by avg scale already
   strength: number; // 0..1 per sample
   falloff: Falloff;
+  curve?: CurvePoint[]; // falloff 'curve'
+  alpha?: BrushAlpha | null; // texture alpha multiplied into the falloff
   perVertexWorldScale: number; // avg |scale| used to scale world radius into local
   spatial?: SpatialIndex | null; // optional acceleration structure for radius queries
 }
 
+// Grayscale image projected onto the brush plane; white keeps the full brush strength
+export interface BrushAlpha {
+  image: ImagePixels;
+  origin: Vector3; // image centre: the dab centre (stamp) or the object origin (tiled)
+  tangent: Vector3; // local-space plane axes, already rotated
+  bitangent: Vector3;
+  size: number; // local units covered by one copy of the image
+  tiled: boolean; // repeat across the plane instead of a single stamp
+}
+
+export function sampleBrushAlpha(alpha: BrushAlpha, p: { x: number; y: number; z: number }): number {
+  const dx = p.x - alpha.origin.x, dy = p.y - alpha.origin.y, dz = p.z - alpha.origin.z;
+  const u = (dx * alpha.tangent.x + dy * alpha.tangent.y + dz * alpha.tangent.z) / alpha.size;
+  const v = (dx * alpha.bitangent.x + dy * alpha.bitangent.y + dz * alpha.bitangent.z) / alpha.size;
+  if (!alpha.tiled && (Math.abs(u) > 0.5 || Math.abs(v) > 0.5)) return 0;
+  return sampleImageLuminance(alpha.image, u + 0.5, v + 0.5);
+}
+
+// Brush weight of a vertex at p, t = distance / radius: falloff (or curve) times the alpha
+export function brushFalloff(ctx: BrushContext, p: { x: number; y: number; z: number }, t: number): number {
+  const f = falloffFn(t, ctx.falloff, ctx.curve);
+  return ctx.alpha && f > 0 ? f * sampleBrushAlpha(ctx.alpha, p) : f;
+}
+
 export function collectVerticesInRadius(mesh: Mesh, centerLocal: Vector3, radiusLocal: number, spatial?: SpatialIndex | null) {
   // If spatial index available, use it for near-O(k) queries
   if (spatial) return queryRadius(spatial, centerLocal, radiusLocal, mesh);
@@ -36,54 +69,102 @@ export function collectVerticesInRadius(mesh: Mesh, centerLocal: Vector3, radius
   return within;
 }
 
-// Spatial index: uniform grid for quick radius queries (built per stroke)
+// Spatial index: uniform grid for quick radius queries (built per stroke, then kept in sync
+// incrementally by dynamic topology)
 export interface SpatialIndex {
   cellSize: number;
   map: Map<string, number[]>; // key -> vertex indices
   positions: Vector3[];
 }
 
+const cellKey = (cellSize: number, p: { x: number; y: number; z: number }) =>
+  `${Math.floor(p.x / cellSize)},${Math.floor(p.y / cellSize)},${Math.floor(p.z / cellSize)}`;
+
 export function buildSpatialIndex(mesh: Mesh, cellSize: number): SpatialIndex {
-  const map = new Map<string, number[]>();
-  const positions = mesh.vertices.map((v) => new Vector3(v.position.x, v.position.y, v.position.z));
-  const keyFor = (p: Vector3) => `${Math.floor(p.x / cellSize)},${Math.floor(p.y / cellSize)},${Math.floor(p.z / cellSize)}`;
-  positions.forEach((p, i) => {
-    const k = keyFor(p);
-    const arr = map.get(k) || [];
-    arr.push(i);
-    map.set(k, arr);
-  });
-  return { cellSize, map, positions };
+  const index: SpatialIndex = { cellSize, map: new Map(), positions: [] };
+  mesh.vertices.forEach((v, i) => spatialInsert(index, i, v.position));
+  return index;
 }
 
-export function queryRadius(index: SpatialIndex, center: Vector3, radius: number, mesh: Mesh): Vertex[] {
+// Add (or re-add) vertex index i at p
+export function spatialInsert(index: SpatialIndex, i: number, p: { x: number; y: number; z: number }) {
+  index.positions[i] = new Vector3(p.x, p.y, p.z);
+  const k = cellKey(index.cellSize, p);
+  const arr = index.map.get(k);
+  if (arr) arr.push(i); else index.map.set(k, [i]);
+}
+
+// Drop vertex index i from its cell (its stored position is left for the caller to reuse)
+export function spatialRemove(index: SpatialIndex, i: number) {
+  const p = index.positions[i];
+  if (!p) return;
+  const k = cellKey(index.cellSize, p);
+  const arr = index.map.get(k);
+  const at = arr ? arr.indexOf(i) : -1;
+  if (at < 0) return;
+  arr!.splice(at, 1);
+  if (!arr!.length) index.map.delete(k);
+}
+
+export function queryRadiusIndices(index: SpatialIndex, center: Vector3, radius: number): number[] {
   const r = radius;
   const r2 = r * r;
   const min = new Vector3(center.x - r, center.y - r, center.z - r);
   const max = new Vector3(center.x + r, center.y + r, center.z + r);
   const minK = new Vector3(Math.floor(min.x / index.cellSize), Math.floor(min.y / index.cellSize), Math.floor(min.z / index.cellSize));
   const maxK = new Vector3(Math.floor(max.x / index.cellSize), Math.floor(max.y / index.cellSize), Math.floor(max.z / index.cellSize));
-  const out: Vertex[] = [];
+  const out: number[] = [];
   for (let x = minK.x; x <= maxK.x; x++)
     for (let y = minK.y; y <= maxK.y; y++)
       for (let z = minK.z; z <= maxK.z; z++) {
-        const key = `${x},${y},${z}`;
-        const list = index.map.get(key);
+        const list = index.map.get(`${x},${y},${z}`);
         if (!list) continue;
         for (const i of list) {
-          const v = mesh.vertices[i];
-          const p = index.positions[i];
-          const d2 = p.distanceToSquared(center);
-          if (d2 <= r2) out.push(v);
+          if (index.positions[i].distanceToSquared(center) <= r2) out.push(i);
         }
       }
   return out;
 }
 
-export function applySymmetry(p: Vector3, axis: 'x' | 'y' | 'z'): Vector3 {
-  const q = p.clone();
-  if (axis === 'x') q.x = -q.x; else if (axis === 'y') q.y = -q.y; else q.z = -q.z;
-  return q;
+export function queryRadius(index: SpatialIndex, center: Vector3, radius: number, mesh: Mesh): Vertex[] {
+  return queryRadiusIndices(index, center, radius).map((i) => mesh.vertices[i]);
+}
+
+// Mirror sign vectors for a stroke: identity plus every combination of the enabled axes
+export function symmetryMirrors(axes: { x: boolean; y: boolean; z: boolean }): Vector3[] {
+  const mirrors = [new Vector3(1, 1, 1)];
+  for (const axis of ['x', 'y', 'z'] as const) {
+    if (!axes[axis]) continue;
+    for (const m of mirrors.slice()) {
+      const flipped = m.clone();
+      flipped[axis] = -1;
+      mirrors.push(flipped);
+    }
+  }
+  return mirrors;
+}
+
+// Protect vertices from a brush result: each displaced vertex is pulled back towards its original
+// position by its mask, its (optional) vertex group weight, and fully when all its faces are hidden
+export function applyStrokeMask(mesh: Mesh, out: Map<string, Vertex>, groupId: string | null) {
+  const group = vertexGroupFactor(mesh, groupId);
+  const hidden = hiddenVertexIds(mesh);
+  const byId = new Map(mesh.vertices.map((v) => [v.id, v] as const));
+  for (const [id, vv] of out) {
+    const orig = byId.get(id);
+    if (!orig) continue;
+    const w = hidden.has(id) ? 0 : (1 - vertexMask(orig)) * (group ? group(orig) : 1);
+    if (w === 1) continue;
+    const p = orig.position;
+    out.set(id, {
+      ...vv,
+      position: {
+        x: p.x + (vv.position.x - p.x) * w,
+        y: p.y + (vv.position.y - p.y) * w,
+        z: p.z + (vv.position.z - p.z) * w,
+      },
+    });
+  }
 }
 
 export function brushDraw(ctx: BrushContext, out: Map<string, Vertex>) {
@@ -95,7 +176,7 @@ export function brushDraw(ctx: BrushContext, out: Map<string, Vertex>) {
   const n = new Vector3(nx, ny, nz).normalize();
   for (const v of verts) {
     const d = new Vector3(v.position.x - ctx.hitLocal.x, v.position.y - ctx.hitLocal.y, v.position.z - ctx.hitLocal.z).length();
-  const w = falloffFn(d / ctx.radius, ctx.falloff) * ctx.strength;
+  const w = brushFalloff(ctx, v.position, d / ctx.radius) * ctx.strength;
   const delta = n.clone().multiplyScalar(w * 0.06);
     const prev = out.get(v.id) ?? v;
     out.set(v.id, { ...prev, position: { x: prev.position.x + delta.x, y: prev.position.y + delta.y, z: prev.position.z + delta.z } });
@@ -106,7 +187,7 @@ export function brushInflate(ctx: BrushContext, out: Map<string, Vertex>, invert
   const verts = collectVerticesInRadius(ctx.mesh, ctx.hitLocal, ctx.radius, ctx.spatial);
   for (const v of verts) {
     const d = new Vector3(v.position.x - ctx.hitLocal.x, v.position.y - ctx.hitLocal.y, v.position.z - ctx.hitLocal.z).length();
-    const w = falloffFn(d / ctx.radius, ctx.falloff) * ctx.strength * (invert ? -1 : 1);
+    const w = brushFalloff(ctx, v.position, d / ctx.radius) * ctx.strength * (invert ? -1 : 1);
     const n = new Vector3(v.normal.x, v.normal.y, v.normal.z).normalize();
   const delta = n.multiplyScalar(w * 0.08);
     const prev = out.get(v.id) ?? v;
@@ -141,7 +222,7 @@ export function brushSmooth(ctx: BrushContext, out: Map<string, Vertex>) {
     const avg = neighborMap.get(v.id);
     if (!avg) continue;
     const d = new Vector3(v.position.x - ctx.hitLocal.x, v.position.y - ctx.hitLocal.y, v.position.z - ctx.hitLocal.z).length();
-    const w = falloffFn(d / ctx.radius, ctx.falloff) * ctx.strength;
+    const w = brushFalloff(ctx, v.position, d / ctx.radius) * ctx.strength;
     const target = avg;
   const delta = target.sub(new Vector3(v.position.x, v.position.y, v.position.z)).multiplyScalar(w * 0.35);
     const prev = out.get(v.id) ?? v;
@@ -154,7 +235,7 @@ export function brushPinch(ctx: BrushContext, out: Map<string, Vertex>, invert =
   for (const v of verts) {
     const p = new Vector3(v.position.x, v.position.y, v.position.z);
     const d = p.distanceTo(ctx.hitLocal);
-    const w = falloffFn(d / ctx.radius, ctx.falloff) * ctx.strength;
+    const w = brushFalloff(ctx, v.position, d / ctx.radius) * ctx.strength;
     const dir = ctx.hitLocal.clone().sub(p).normalize().multiplyScalar(invert ? -1 : 1);
   const delta = dir.multiplyScalar(w * 0.12);
     const prev = out.get(v.id) ?? v;
@@ -167,7 +248,7 @@ export function brushGrab(ctx: BrushContext, out: Map<string, Vertex>, grabDelta
   for (const v of verts) {
     const p = new Vector3(v.position.x, v.position.y, v.position.z);
     const d = p.distanceTo(ctx.hitLocal);
-    const w = falloffFn(d / ctx.radius, ctx.falloff) * ctx.strength;
+    const w = brushFalloff(ctx, v.position, d / ctx.radius) * ctx.strength;
   const delta = grabDeltaLocal.clone().multiplyScalar(w);
     const prev = out.get(v.id) ?? v;
     out.set(v.id, { ...prev, position: { x: prev.position.x + delta.x, y: prev.position.y + delta.y, z: prev.position.z + delta.z } });
@@ -201,7 +282,7 @@ export function brushFlatten(ctx: BrushContext, out: Map<string, Vertex>, invers
   for (const v of verts) {
     const p = new Vector3(v.position.x, v.position.y, v.position.z);
     const d = p.distanceTo(ctx.hitLocal);
-    const w = falloffFn(d / ctx.radius, ctx.falloff) * ctx.strength;
+    const w = brushFalloff(ctx, v.position, d / ctx.radius) * ctx.strength;
     // distance to plane signed
     const toP = p.clone().sub(planePoint);
     const dist = toP.dot(normal);
@@ -220,7 +301,7 @@ export function brushFillDeepen(ctx: BrushContext, out: Map<string, Vertex>, dee
   for (const v of verts) {
     const p = new Vector3(v.position.x, v.position.y, v.position.z);
     const d = p.distanceTo(ctx.hitLocal);
-    const w = falloffFn(d / ctx.radius, ctx.falloff) * ctx.strength;
+    const w = brushFalloff(ctx, v.position, d / ctx.radius) * ctx.strength;
     const dist = p.clone().sub(planePoint).dot(normal);
     if (!deepen && dist < 0) {
       // below plane -> bring up
@@ -245,7 +326,7 @@ export function brushScrapePeaks(ctx: BrushContext, out: Map<string, Vertex>, pe
   for (const v of verts) {
     const p = new Vector3(v.position.x, v.position.y, v.position.z);
     const d = p.distanceTo(ctx.hitLocal);
-    const w = falloffFn(d / ctx.radius, ctx.falloff) * ctx.strength;
+    const w = brushFalloff(ctx, v.position, d / ctx.radius) * ctx.strength;
     const dist = p.clone().sub(planePoint).dot(normal);
     if (!peaks && dist > 0) {
       // above plane -> bring down
@@ -268,7 +349,7 @@ export function brushBlob(ctx: BrushContext, out: Map<string, Vertex>, pinchAtEd
     const p = new Vector3(v.position.x, v.position.y, v.position.z);
     const r = p.distanceTo(ctx.hitLocal) / ctx.radius;
     const pinch = Math.pow(Math.max(0, 1 - r), pinchAtEdge * 2);
-    const w = falloffFn(r, ctx.falloff) * ctx.strength * pinch;
+    const w = brushFalloff(ctx, v.position, r) * ctx.strength * pinch;
     const dir = p.clone().sub(ctx.hitLocal).normalize();
   const delta = dir.multiplyScalar(w * 0.18);
     const prev = out.get(v.id) ?? v;
@@ -282,7 +363,7 @@ export function brushSnakeHook(ctx: BrushContext, out: Map<string, Vertex>, stro
   for (const v of verts) {
     const p = new Vector3(v.position.x, v.position.y, v.position.z);
     const r = p.distanceTo(ctx.hitLocal) / ctx.radius;
-    const w = falloffFn(r, ctx.falloff) * ctx.strength;
+    const w = brushFalloff(ctx, v.position, r) * ctx.strength;
     const pin = Math.pow(Math.max(0, 1 - r), pinch * 2);
   const move = strokeDirLocal.clone().multiplyScalar(w * 0.35);
   const toward = ctx.hitLocal.clone().sub(p).normalize().multiplyScalar(w * pin * 0.18);
@@ -297,7 +378,7 @@ export function brushNudge(ctx: BrushContext, out: Map<string, Vertex>, strokeDi
   for (const v of verts) {
     const p = new Vector3(v.position.x, v.position.y, v.position.z);
     const d = p.distanceTo(ctx.hitLocal);
-    const w = falloffFn(d / ctx.radius, ctx.falloff) * ctx.strength;
+    const w = brushFalloff(ctx, v.position, d / ctx.radius) * ctx.strength;
   const delta = strokeDirLocal.clone().multiplyScalar(w * 0.16);
     const prev = out.get(v.id) ?? v;
     out.set(v.id, { ...prev, position: { x: prev.position.x + delta.x, y: prev.position.y + delta.y, z: prev.position.z + delta.z } });
@@ -314,7 +395,7 @@ export function brushRotate(ctx: BrushContext, out: Map<string, Vertex>, angle:
   for (const v of verts) {
     const p = new Vector3(v.position.x, v.position.y, v.position.z).sub(ctx.hitLocal);
     const d = p.length() / ctx.radius;
-    const w = falloffFn(d, ctx.falloff) * ctx.strength;
+    const w = brushFalloff(ctx, v.position, d) * ctx.strength;
     // Rodrigues rotation
     const rotated = p.clone().multiplyScalar(c).add(axis.clone().cross(p).multiplyScalar(s)).add(axis.clone().multiplyScalar(axis.dot(p) * (1 - c)));
   const delta = rotated.sub(p).multiplyScalar(w * 0.8);
@@ -323,7 +404,30 @@ export function brushRotate(ctx: BrushContext, out: Map<string, Vertex>, angle:
   }
 }
 
-export function brushSimplify(_ctx: BrushContext, _out: Map<string, Vertex>) {
-  // Placeholder: requires dynamic topology; left as a no-op for now.
-  void _ctx; void _out;
+// Mask brush: writes new mask values (accumulating across symmetry passes) instead of positions
+export function brushMask(ctx: BrushContext, masks: Map<string, number>, erase = false) {
+  const verts = collectVerticesInRadius(ctx.mesh, ctx.hitLocal, ctx.radius, ctx.spatial);
+  for (const v of verts) {
+    const d = new Vector3(v.position.x, v.position.y, v.position.z).distanceTo(ctx.hitLocal);
+    const w = brushFalloff(ctx, v.position, d / ctx.radius) * ctx.strength;
+    const m = (masks.get(v.id) ?? vertexMask(v)) + (erase ? -w : w);
+    masks.set(v.id, Math.max(0, Math.min(1, m)));
+  }
+}
+
+// Face set brush: visible faces whose centre lies inside the brush join `faceSet`
+export function brushFaceSet(ctx: BrushContext, faceSet: number, out: Map<string, number>) {
+  const byId = new Map(ctx.mesh.vertices.map((v) => [v.id, v] as const));
+  const r2 = ctx.radius * ctx.radius;
+  for (const f of ctx.mesh.faces) {
+    if (f.hidden || faceSetOf(f) === faceSet) continue;
+    let cx = 0, cy = 0, cz = 0;
+    for (const id of f.vertexIds) {
+      const p = byId.get(id)!.position;
+      cx += p.x; cy += p.y; cz += p.z;
+    }
+    const n = f.vertexIds.length;
+    const dx = cx / n - ctx.hitLocal.x, dy = cy / n - ctx.hitLocal.y, dz = cz / n - ctx.hitLocal.z;
+    if (dx * dx + dy * dy + dz * dz <= r2) out.set(f.id, faceSet);
+  }
 }
@@ -18,9 +18,12 @@ import {
   PanelTop,
   Shapes,
   Save,
+  PenTool,
   X,
 } from 'lucide-react';
 import { ensureFileIdForBlob } from '@/stores/files-store';
+import { brushPressureFor, useToolStore } from '@/stores/tool-store';
+import { FULL_PRESSURE, pressureFactor, readPen, type PenSample } from '@/utils/pen-pressure';
 import { FloorPlanElement, FloorPlanTool, useFloorPlanStore } from '@/stores/floor-plan-store';
 import { BRUSH_REGISTRY } from '@/features/quick-brush/brushes/registry';
 import { DragInput } from '@/components/drag-input';
@@ -91,6 +94,9 @@ const FloorPlanEditor: React.FC = () => {
   const dprRef = React.useRef(1);
   const lastSizeRef = React.useRef({ w: 0, h: 0, dpr: 0 });
   const isPanningRef = React.useRef(false);
+  // Firmest pen sample of the current drag-create
+  const penPeakRef = React.useRef<PenSample>(FULL_PRESSURE);
+  const penPressure = useToolStore((s) => brushPressureFor(s, 'floor-plan').size);
   const panStartRef = React.useRef<Vec2>({ x: 0, y: 0 });
   const panOriginRef = React.useRef<Vec2>({ x: 0, y: 0 });
   const initialDraftSnapshotRef = React.useRef<string | null>(null);
@@ -583,6 +589,12 @@ const FloorPlanEditor: React.FC = () => {
     return { x: event.clientX - rect.left, y: event.clientY - rect.top };
   };
 
+  // Line thickness under pen pressure: the default at half pressure, up to twice it
+  const penThickness = (base: number, sample: PenSample) => {
+    if (!penPressure || !sample.pen) return base;
+    return Math.max(0.02, base * 2 * pressureFactor(sample, useToolStore.getState().pressureSizeCurve));
+  };
+
   const onPointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
     event.stopPropagation();
     if (!draft) return;
@@ -682,7 +694,7 @@ const FloorPlanEditor: React.FC = () => {
           x2: world.x,
           y2: world.y,
           width: 1,
-          height: 0.2,
+          height: penThickness(0.2, readPen(event.nativeEvent)),
           rotation: 0,
         };
         updateDraft((d) => {
@@ -701,6 +713,7 @@ const FloorPlanEditor: React.FC = () => {
     }
 
     const brushTool = tool as Exclude<FloorPlanTool, 'select' | 'wall' | 'text' | 'polygon'>;
+    penPeakRef.current = readPen(event.nativeEvent);
     setDragCreate({ tool: brushTool, start: world, current: world });
   };
 
@@ -818,6 +831,8 @@ const FloorPlanEditor: React.FC = () => {
     }
 
     if (dragCreate) {
+      const sample = readPen(event.nativeEvent);
+      if (sample.pressure > penPeakRef.current.pressure) penPeakRef.current = sample;
       setDragCreate((prev) => prev ? { ...prev, current: world } : prev);
     }
   };
@@ -853,7 +868,7 @@ const FloorPlanEditor: React.FC = () => {
           x2: ex,
           y2: ey,
           width: 1,
-          height: d.h,
+          height: penThickness(d.h, penPeakRef.current),
           rotation: 0,
           color: d.nonStructural ? draftColor : undefined,
           nonStructural: d.nonStructural,
@@ -990,6 +1005,13 @@ const FloorPlanEditor: React.FC = () => {
             >
               <Magnet className="w-3.5 h-3.5" /> Snap
             </button>
+            <button
+              className={`px-2 py-1 rounded text-xs border flex items-center gap-1 ${penPressure ? 'border-emerald-400/60 bg-emerald-400/15 text-emerald-200' : 'border-white/10 text-gray-300 hover:bg-white/10'}`}
+              title="Pen pressure sets the thickness of walls and lines"
+              onClick={() => useToolStore.getState().setBrushPressure('floor-plan', { size: !penPressure })}
+            >
+              <PenTool className="w-3.5 h-3.5" /> Pen
+            </button>
             <div className="flex items-center gap-1 text-xs text-gray-300">
               <Grid3X3 className="w-3.5 h-3.5" />
               <DragInput
@@ -6,6 +6,7 @@ import { ShapeAdjustPanel } from '@/features/shape-creation';
 import { TopToolbar } from '@/features/toolbar';
 import { EditToolsToolbar } from '@/features/toolbar';
 import { SculptToolsToolbar } from '@/features/toolbar/components/sculpt-tools-toolbar';
+import { VertexPaintToolbar } from '@/features/toolbar/components/vertex-paint-toolbar';
 import { useToolStore } from '@/stores/tool-store';
 import { useWorkspaceStore } from '@/stores/workspace-store';
 import { ToolIndicator } from '@/features/tools';
@@ -66,6 +67,7 @@ const EditorLayout: React.FC = () => {
             <AnimatePresence mode="popLayout">
               {editPalette === 'sculpt' ? <SculptToolsToolbar /> : <EditToolsToolbar />}
             </AnimatePresence>
+            <VertexPaintToolbar />
             {/* Quick Brush bar — visible only in object mode */}
             <AnimatePresence>
               <QuickBrushBar />
@@ -79,6 +79,7 @@ export const ShaderContextMenuContent: React.FC<Props> = ({ onAdd }) => {
           <Item onSelect={() => onAdd('normal')}>Normal</Item>
           <Item onSelect={() => onAdd('positionAttr')}>Position (Local)</Item>
           <Item onSelect={() => onAdd('worldPosition')}>Position (World)</Item>
+          <Item onSelect={() => onAdd('vertexColor')}>Vertex Color</Item>
           <Item onSelect={() => onAdd('texture')}>Texture</Item>
           <Item onSelect={() => onAdd('uvScale')}>UV Scale</Item>
           <Item onSelect={() => onAdd('uvTransform')}>UV Transform</Item>
@@ -215,6 +216,7 @@ export const ShaderContextMenuContent: React.FC<Props> = ({ onAdd }) => {
           <Item onSelect={() => onAdd('positionAttr')}>Position</Item>
           <Item onSelect={() => onAdd('normalAttr')}>Normal</Item>
           <Item onSelect={() => onAdd('uvAttr')}>UV</Item>
+          <Item onSelect={() => onAdd('vertexColor')}>Vertex Color</Item>
           <Item onSelect={() => onAdd('viewPosition')}>View Position</Item>
           <Item onSelect={() => onAdd('worldPosition')}>World Position</Item>
           <Item onSelect={() => onAdd('cameraPosition')}>Camera Position</Item>
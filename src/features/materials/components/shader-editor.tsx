@@ -158,6 +158,7 @@ export const ShaderEditor: React.FC<Props> = ({ open, onOpenChange }) => {
         positionAttr: ShaderFlowNode,
         normalAttr: ShaderFlowNode,
         uvAttr: ShaderFlowNode,
+        vertexColor: ShaderFlowNode,
         viewPosition: ShaderFlowNode,
         worldPosition: ShaderFlowNode,
         cameraPosition: ShaderFlowNode,
@@ -22,7 +22,10 @@ import { useRegisterShortcuts } from '@/components/shortcut-provider';
 import { Euler, Matrix4, Quaternion, Vector3 } from 'three/webgpu';
 import AddObjectMenu from '@/features/shared/add-object-menu';
 import { useTerrainStore } from '@/stores/terrain-store';
+import { useCurveStore } from '@/stores/curve-store';
+import { useLatticeStore } from '@/stores/lattice-store';
 import { useFloorPlanStore } from '@/stores/floor-plan-store';
+import { booleanSelectedObjects } from '@/utils/boolean/selection';
 
 type Props = { onOpenShaderEditor?: () => void };
 const MenuBar: React.FC<Props> = ({ onOpenShaderEditor }) => {
@@ -40,6 +43,8 @@ const MenuBar: React.FC<Props> = ({ onOpenShaderEditor }) => {
 	const clipboard = useClipboardStore();
 	const setUVOpen = useUVEditorStore((s) => s.setOpen);
 	const floorPlans = useFloorPlanStore((s) => s.plans);
+	const curves = useCurveStore((s) => s.curves);
+	const lattices = useLatticeStore((s) => s.lattices);
 
 	// Track undo/redo availability from zundo temporal API
 	const [canUndo, setCanUndo] = useState(false);
@@ -79,7 +84,9 @@ const MenuBar: React.FC<Props> = ({ onOpenShaderEditor }) => {
 		lights: sceneStore.lights,
 		cameras: geometryStore.cameras,
 		floorPlans,
-	}), [geometryStore, sceneStore, viewportStore, floorPlans]);
+		curves,
+		lattices,
+	}), [geometryStore, sceneStore, viewportStore, floorPlans, curves, lattices]);
 
 	// Save (T3D) with existing handle when possible
 	const handleSave = useCallback(async () => {
@@ -151,6 +158,8 @@ const MenuBar: React.FC<Props> = ({ onOpenShaderEditor }) => {
 								Object.values(data.cameras).forEach((c: any) => useGeometryStore.getState().addCamera(c));
 							}
 							useFloorPlanStore.getState().hydratePlans((data as any).floorPlans ?? {});
+							useCurveStore.getState().hydrateCurves(data.curves ?? {});
+							useLatticeStore.getState().hydrateLattices(data.lattices ?? {});
 					if (data.viewport.showGrid !== viewportStore.showGrid) viewportStore.toggleGrid();
 					if (data.viewport.showAxes !== viewportStore.showAxes) viewportStore.toggleAxes();
 					// update workspace current file (cannot get real name without FS handle)
@@ -177,6 +186,8 @@ const MenuBar: React.FC<Props> = ({ onOpenShaderEditor }) => {
 		toolStore.reset();
 		shapeCreationStore.reset();
 		useFloorPlanStore.getState().reset();
+		useCurveStore.getState().reset();
+		useLatticeStore.getState().reset();
 	}, [geometryStore, sceneStore, selectionStore, viewportStore, toolStore, shapeCreationStore]);
 
 	const beginShape = useCallback((shape: 'cube' | 'plane' | 'cylinder' | 'cone' | 'uvsphere' | 'icosphere' | 'torus' | 'floorplan') => {
@@ -290,6 +301,9 @@ const MenuBar: React.FC<Props> = ({ onOpenShaderEditor }) => {
 		{ key: 'a', ctrl: true, action: () => useSelectionStore.getState().selectAll(), description: 'Select All (Ctrl+A)', preventDefault: true },
 		// Open UV Editor (Shift+U)
 		{ key: 'u', shift: true, action: () => setUVOpen(true), description: 'Open UV Editor (Shift+U)', preventDefault: true },
+		// Boolean difference of the selected objects (first selected is the base)
+		{ key: 'b', meta: true, shift: true, action: () => booleanSelectedObjects('difference'), description: 'Boolean Difference (Cmd/Ctrl+Shift+B)', preventDefault: true },
+		{ key: 'b', ctrl: true, shift: true, action: () => booleanSelectedObjects('difference'), description: 'Boolean Difference (Ctrl+Shift+B)', preventDefault: true },
 	]);
 
 	return (
@@ -389,8 +403,39 @@ const MenuBar: React.FC<Props> = ({ onOpenShaderEditor }) => {
 								if (useSelectionStore.getState().selection.viewMode === 'object') useSelectionStore.getState().selectObjects([res.objectId]);
 							}
 						}}
+						onCreateCurve={(type) => {
+							const res = useCurveStore.getState().createCurve({}, type === 'draw' ? 'empty' : type);
+							if (type === 'draw') useCurveStore.getState().setDrawing(res.curveId);
+							if (useSelectionStore.getState().selection.viewMode === 'object') useSelectionStore.getState().selectObjects([res.objectId]);
+						}}
+						onAddLattice={() => {
+							const res = useLatticeStore.getState().createLattice();
+							if (useSelectionStore.getState().selection.viewMode === 'object') useSelectionStore.getState().selectObjects([res.objectId]);
+						}}
 					/>
 
+				{/* Object */}
+				<Menu.Root modal={false} highlightItemOnHover>
+					<Menu.Trigger className="px-2 py-1 text-xs rounded text-gray-300 hover:text-white hover:bg-white/5 data-[open]:bg-white/10 data-[open]:text-white">
+						Object
+					</Menu.Trigger>
+					<Menu.Portal container={portalContainer}>
+						<Menu.Positioner side="bottom" align="start" sideOffset={4} className="z-90">
+							<Menu.Popup className="mt-0 w-56 rounded border border-white/10 bg-[#0b0e13]/95 shadow-lg py-1 text-xs z-90" style={{ zIndex: 10050 }}>
+								<div className="px-3 py-1.5 text-[11px] uppercase tracking-wide text-gray-400">Boolean</div>
+								<Menu.Item className="w-full text-left px-3 py-1.5 hover:bg-white/10 text-gray-200" onClick={() => booleanSelectedObjects('union')}>Union</Menu.Item>
+								<Menu.Item className="w-full text-left px-3 py-1.5 hover:bg-white/10 text-gray-200" onClick={() => booleanSelectedObjects('difference')}>
+									<span className="flex items-center justify-between w-full">
+										<span>Difference</span>
+										<span className="text-gray-500">Ctrl+Shift+B</span>
+									</span>
+								</Menu.Item>
+								<Menu.Item className="w-full text-left px-3 py-1.5 hover:bg-white/10 text-gray-200" onClick={() => booleanSelectedObjects('intersect')}>Intersect</Menu.Item>
+							</Menu.Popup>
+						</Menu.Positioner>
+					</Menu.Portal>
+				</Menu.Root>
+
 				{/* View (placeholders) */}
 				<Menu.Root modal={false} highlightItemOnHover>
 					<Menu.Trigger className="px-2 py-1 text-xs rounded text-gray-300 hover:text-white hover:bg-white/5 data-[open]:bg-white/10 data-[open]:text-white">
@@ -13,6 +13,9 @@ import { useParticlesStore } from '@/stores/particles-store';
 import { useForceFieldStore } from '@/stores/force-field-store';
 import { useFluidStore } from '@/stores/fluid-store';
 import { useTextStore, useTextResource } from '@/stores/text-store';
+import { useCurveStore, useCurveResource } from '@/stores/curve-store';
+import type { Curve3D, CurvePoint } from '@/types/geometry';
+import { useLatticeStore, useLatticeResource } from '@/stores/lattice-store';
 import { useMetaballStore } from '@/stores/metaball-store';
 import { useTerrainStore } from '@/stores/terrain-store';
 import { TerrainSection } from '../terrain-section';
@@ -252,7 +255,7 @@ export const InspectorPanel: React.FC = () => {
         const yaw = -Math.atan2(dz, dx);
 
         if (el.type === 'wall') {
-          placeCube('Wall', midX, midZ, length, h, 0.14, yaw);
+          placeCube('Wall', midX, midZ, length, h, Math.max(0.02, el.height * 0.7), yaw);
         } else if (el.type === 'door') {
           const doorHeight = Math.min(2.2, Math.max(1.9, h * 0.82));
           const geom = buildDoorGeometry(
@@ -574,6 +577,18 @@ export const InspectorPanel: React.FC = () => {
           <Text3DSection textId={selected.textId} objectId={selected.id} />
         </div>
       )}
+      {selected.type === 'curve' && selected.curveId && (
+        <div>
+          <div className="text-[11px] uppercase tracking-wide text-gray-400 mb-1">Curve</div>
+          <CurveSection curveId={selected.curveId} />
+        </div>
+      )}
+      {selected.type === 'lattice' && selected.latticeId && (
+        <div>
+          <div className="text-[11px] uppercase tracking-wide text-gray-400 mb-1">Lattice</div>
+          <LatticeSection latticeId={selected.latticeId} />
+        </div>
+      )}
       {selected.type === 'terrain' && (selected as any).terrainId && (
         <div>
           <div className="text-[11px] uppercase tracking-wide text-gray-400 mb-1">Object Data</div>
@@ -922,3 +937,133 @@ const Text3DSection: React.FC<{ textId: string; objectId: string }> = ({ textId
     </div>
   );
 };
+
+const CurveSection: React.FC<{ curveId: string }> = ({ curveId }) => {
+  const curve = useCurveResource(curveId);
+  const { updateCurve, removePoint, setDrawing, convertToMesh } = useCurveStore();
+  const drawing = useCurveStore((s) => s.drawingCurveId === curveId);
+  const [pointIndex, setPointIndex] = React.useState(0);
+  if (!curve) return null;
+  const update = (fn: (c: Curve3D) => void) => updateCurve(curveId, fn);
+  const index = Math.min(pointIndex, curve.points.length - 1);
+  const point = index >= 0 ? curve.points[index] : undefined;
+  const updatePoint = (fn: (p: CurvePoint) => void) => update((c) => { if (c.points[index]) fn(c.points[index]); });
+  return (
+    <div className="bg-white/5 border border-white/10 rounded p-2 space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        <Label label="Type">
+          <select className="w-full bg-transparent text-xs border border-white/10 rounded p-1" value={curve.type} onChange={(e) => update(c => { c.type = e.target.value as Curve3D['type']; })}>
+            <option value="bezier">Bezier</option>
+            <option value="nurbs">NURBS</option>
+          </select>
+        </Label>
+        <Label label="Cyclic">
+          <Switch checked={curve.closed} onCheckedChange={(v) => update(c => { c.closed = v; })} />
+        </Label>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <Label label="Resolution">
+          <DragInput compact value={curve.resolution} min={1} max={64} step={1} onChange={(v) => update(c => { c.resolution = Math.max(1, Math.min(64, Math.round(v))); })} />
+        </Label>
+        {curve.type === 'nurbs' && (
+          <Label label="Order">
+            <DragInput compact value={curve.order} min={2} max={6} step={1} onChange={(v) => update(c => { c.order = Math.max(2, Math.min(6, Math.round(v))); })} />
+          </Label>
+        )}
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <Label label="Profile">
+          <select className="w-full bg-transparent text-xs border border-white/10 rounded p-1" value={curve.profile} onChange={(e) => update(c => { c.profile = e.target.value as Curve3D['profile']; })}>
+            <option value="none">None</option>
+            <option value="round">Round</option>
+            <option value="square">Square</option>
+            <option value="ribbon">Ribbon</option>
+          </select>
+        </Label>
+        <Label label="Thickness">
+          <DragInput compact value={curve.thickness} precision={3} step={0.01} onChange={(v) => update(c => { c.thickness = Math.max(0.001, v); })} />
+        </Label>
+      </div>
+      {curve.profile === 'round' && (
+        <div className="grid grid-cols-2 gap-2">
+          <Label label="Segments">
+            <DragInput compact value={curve.profileSegments} min={3} max={64} step={1} onChange={(v) => update(c => { c.profileSegments = Math.max(3, Math.min(64, Math.round(v))); })} />
+          </Label>
+          <Label label="Cap Ends">
+            <Switch checked={curve.capEnds} onCheckedChange={(v) => update(c => { c.capEnds = v; })} />
+          </Label>
+        </div>
+      )}
+      <div className="p-1.5 rounded bg-white/5 space-y-1 border border-white/10">
+        <div className="text-[10px] uppercase tracking-wide text-gray-400">Points ({curve.points.length})</div>
+        {point && (
+          <>
+            <div className="grid grid-cols-2 gap-2">
+              <Label label="Point">
+                <DragInput compact value={index} min={0} max={curve.points.length - 1} step={1} onChange={(v) => setPointIndex(Math.max(0, Math.min(curve.points.length - 1, Math.round(v))))} />
+              </Label>
+              {curve.type === 'bezier' ? (
+                <Label label="Handles">
+                  <select className="w-full bg-transparent text-xs border border-white/10 rounded p-1" value={point.handleType} onChange={(e) => updatePoint(p => { p.handleType = e.target.value as CurvePoint['handleType']; })}>
+                    <option value="auto">Auto</option>
+                    <option value="aligned">Aligned</option>
+                    <option value="free">Free</option>
+                    <option value="vector">Vector</option>
+                  </select>
+                </Label>
+              ) : (
+                <Label label="Weight">
+                  <DragInput compact value={point.weight} precision={2} step={0.05} onChange={(v) => updatePoint(p => { p.weight = Math.max(0.01, v); })} />
+                </Label>
+              )}
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <Label label="Tilt (deg)">
+                <DragInput compact value={(point.tilt * 180) / Math.PI} precision={1} step={1} onChange={(v) => updatePoint(p => { p.tilt = (v * Math.PI) / 180; })} />
+              </Label>
+              <div className="flex items-end">
+                <button className="px-2 py-1 rounded bg-white/10 text-xs hover:bg-white/20" onClick={() => removePoint(curveId, index)}>Delete Point</button>
+              </div>
+            </div>
+          </>
+        )}
+        <button
+          className={`px-2 py-1 rounded text-xs ${drawing ? 'bg-emerald-600/40 hover:bg-emerald-600/60' : 'bg-white/10 hover:bg-white/20'}`}
+          onClick={() => setDrawing(drawing ? null : curveId)}
+        >{drawing ? 'Finish Drawing' : 'Draw Points'}</button>
+        {drawing && <div className="text-[10px] text-gray-500">Click in the viewport to append points. Enter or Esc to finish.</div>}
+      </div>
+      <div className="flex items-center gap-2">
+        <button className="px-2 py-1 rounded bg-white/10 text-xs hover:bg-white/20" onClick={() => convertToMesh(curveId)}>Convert to Mesh</button>
+      </div>
+    </div>
+  );
+};
+
+const LatticeSection: React.FC<{ latticeId: string }> = ({ latticeId }) => {
+  const lattice = useLatticeResource(latticeId);
+  const { setResolution, updateLattice, resetPoints } = useLatticeStore();
+  if (!lattice) return null;
+  return (
+    <div className="bg-white/5 border border-white/10 rounded p-2 space-y-2">
+      <Label label="Resolution">
+        <div className="grid grid-cols-3 gap-2">
+          <DragInput compact label="U" value={lattice.resolution.u} min={2} max={16} step={1} onChange={(v) => setResolution(latticeId, { u: v })} />
+          <DragInput compact label="V" value={lattice.resolution.v} min={2} max={16} step={1} onChange={(v) => setResolution(latticeId, { v })} />
+          <DragInput compact label="W" value={lattice.resolution.w} min={2} max={16} step={1} onChange={(v) => setResolution(latticeId, { w: v })} />
+        </div>
+      </Label>
+      <Label label="Interpolation">
+        <select className="w-full bg-transparent text-xs border border-white/10 rounded p-1" value={lattice.interpolation} onChange={(e) => updateLattice(latticeId, (l) => { l.interpolation = e.target.value as typeof l.interpolation; })}>
+          <option value="linear">Linear</option>
+          <option value="cardinal">Cardinal</option>
+          <option value="bspline">B-Spline</option>
+        </select>
+      </Label>
+      <div className="flex items-center gap-2">
+        <button className="px-2 py-1 rounded bg-white/10 text-xs hover:bg-white/20" onClick={() => resetPoints(latticeId)}>Reset Points</button>
+      </div>
+      <div className="text-[10px] text-gray-500">Add a Lattice modifier to a mesh to deform it by this cage.</div>
+    </div>
+  );
+};
@@ -16,6 +16,12 @@ import { RemeshSettings } from '@/features/properties-panel/components/tabs/modi
 import { MirrorSettings } from '@/features/properties-panel/components/tabs/modifiers/mirror-settings';
 import { SubdivideSettings } from '@/features/properties-panel/components/tabs/modifiers/subdivide-settings';
 import { VolumeToMeshSettings } from '@/features/properties-panel/components/tabs/modifiers/volume-to-mesh-settings';
+import { BooleanSettings } from '@/features/properties-panel/components/tabs/modifiers/boolean-settings';
+import { LatticeSettings } from '@/features/properties-panel/components/tabs/modifiers/lattice-settings';
+import { ShrinkwrapSettings } from '@/features/properties-panel/components/tabs/modifiers/shrinkwrap-settings';
+import { DisplaceSettings } from '@/features/properties-panel/components/tabs/modifiers/displace-settings';
+import { WeightedNormalSettings } from '@/features/properties-panel/components/tabs/modifiers/weighted-normal-settings';
+import { MultiresSettings } from '@/features/properties-panel/components/tabs/modifiers/multires-settings';
 
 const PanelSection: React.FC<{ title: string } & React.HTMLAttributes<HTMLDivElement>> = ({ title, children, className = '', ...rest }) => (
   <div className={`p-2 bg-white/5 border border-white/10 rounded ${className}`} {...rest}>
@@ -25,7 +31,7 @@ const PanelSection: React.FC<{ title: string } & React.HTMLAttributes<HTMLDivEle
 );
 
 const SmallButton: React.FC<React.ButtonHTMLAttributes<HTMLButtonElement>> = ({ className = '', children, ...rest }) => (
-  <button className={`p-1 rounded hover:bg-white/10 text-gray-300 ${className}`} {...rest}>{children}</button>
+  <button className={`p-1 rounded hover:bg-white/10 text-gray-300 disabled:opacity-30 disabled:hover:bg-transparent ${className}`} {...rest}>{children}</button>
 );
 
 export const ModifiersPanel: React.FC = () => {
@@ -52,8 +58,8 @@ export const ModifiersPanel: React.FC = () => {
               <div className="flex-1 truncate">
         <div className="text-xs font-medium">{labelForType(m.type)}</div>
               </div>
-              <SmallButton onClick={() => actions.moveModifier(selected.id, i, Math.max(0, i - 1))} title="Move up" aria-label="Move up"><ChevronUp className="h-4 w-4" /></SmallButton>
-              <SmallButton onClick={() => actions.moveModifier(selected.id, i, Math.min(mods.length - 1, i + 1))} title="Move down" aria-label="Move down"><ChevronDown className="h-4 w-4" /></SmallButton>
+              <SmallButton disabled={i === 1 && mods[0].type === 'multires'} onClick={() => actions.moveModifier(selected.id, i, Math.max(0, i - 1))} title="Move up" aria-label="Move up"><ChevronUp className="h-4 w-4" /></SmallButton>
+              <SmallButton disabled={i === 0 && m.type === 'multires'} onClick={() => actions.moveModifier(selected.id, i, Math.min(mods.length - 1, i + 1))} title="Move down" aria-label="Move down"><ChevronDown className="h-4 w-4" /></SmallButton>
               <SmallButton onClick={() => actions.setModifierEnabled(selected.id, m.id, !m.enabled)} title={m.enabled ? 'Disable' : 'Enable'} aria-label="Toggle">
                 {m.enabled ? <Eye className="h-4 w-4" /> : <EyeOff className="h-4 w-4" />}
               </SmallButton>
@@ -79,6 +85,12 @@ export const ModifiersPanel: React.FC = () => {
             {m.type === 'bevel' && <BevelSettings objectId={selected.id} id={m.id} />}
             {m.type === 'remesh' && <RemeshSettings objectId={selected.id} id={m.id} />}
             {m.type === 'volume-to-mesh' && <VolumeToMeshSettings objectId={selected.id} id={m.id} />}
+            {m.type === 'boolean' && <BooleanSettings objectId={selected.id} id={m.id} />}
+            {m.type === 'lattice' && <LatticeSettings objectId={selected.id} id={m.id} />}
+            {m.type === 'shrinkwrap' && <ShrinkwrapSettings objectId={selected.id} id={m.id} />}
+            {m.type === 'displace' && <DisplaceSettings objectId={selected.id} id={m.id} />}
+            {m.type === 'weighted-normal' && <WeightedNormalSettings objectId={selected.id} id={m.id} />}
+            {m.type === 'multires' && <MultiresSettings objectId={selected.id} id={m.id} />}
           </div>
         </PanelSection>
       ))}
@@ -87,7 +99,7 @@ export const ModifiersPanel: React.FC = () => {
         <div className="grid grid-cols-2 gap-2">
       {(
             [
-        'mirror','subdivide','array','weld','triangulate','edge-split','decimate','solidify','screw','bevel','remesh','volume-to-mesh'
+        'mirror','subdivide','array','weld','triangulate','edge-split','decimate','solidify','screw','bevel','remesh','volume-to-mesh','boolean','lattice','shrinkwrap','displace','weighted-normal','multires'
             ] as const
           ).map((t) => (
             <button key={t} className="px-2 py-1 rounded bg-white/10 hover:bg-white/20 text-gray-100 text-xs" onClick={() => add(t)}>
@@ -117,6 +129,12 @@ function labelForType(type: string) {
     case 'bevel': return 'Bevel';
     case 'remesh': return 'Remesh';
   case 'volume-to-mesh': return 'Volume to Mesh';
+    case 'boolean': return 'Boolean';
+    case 'lattice': return 'Lattice';
+    case 'shrinkwrap': return 'Shrinkwrap';
+    case 'displace': return 'Displace';
+    case 'weighted-normal': return 'Weighted Normal';
+    case 'multires': return 'Multiresolution';
     default: return type;
   }
 }
@@ -4,15 +4,22 @@ import { DragInput } from '@/components/drag-input';
 import { useAnimationStore } from '@/stores/animation-store';
 import { Diamond as DiamondIcon } from 'lucide-react';
 import { useModifiersStore, useObjectModifiers } from '@/stores/modifier-store';
+import { useSceneObjects } from '@/stores/scene-store';
+import type { ArrayModifierSettings } from '@/utils/modifiers';
 
 export const ArraySettings: React.FC<{ objectId: string; id: string }> = ({ objectId, id }) => {
   const actions = useModifiersStore();
   const clipId = useAnimationStore((st) => st.activeClipId);
 
   const mods = useObjectModifiers(objectId);
+  const objects = useSceneObjects();
   const mod = mods.find((m) => m.id === id);
   if (!mod) return null;
-  const s = mod.settings as { count: number; offset: { x: number; y: number; z: number } };
+  const s = mod.settings as ArrayModifierSettings;
+  const fit = s.fitType ?? 'count';
+  const others = objects.filter((o) => o.id !== objectId);
+  const paths = others.filter((o) => o.type === 'curve' || o.type === 'mesh');
+  const selectClass = 'bg-black/40 border border-white/10 rounded px-2 py-1 text-gray-200';
 
   const KeyBtn: React.FC<{ path: string; value: number; title?: string }> = ({ path, value, title }) => {
     const property = `mod.${id}.${path}`;
@@ -42,26 +49,95 @@ export const ArraySettings: React.FC<{ objectId: string; id: string }> = ({ obje
     );
   };
 
+  const vectorRows = (key: 'offset' | 'relativeOffset', label: string, fallback: number) => (['x', 'y', 'z'] as const).map((axis) => (
+    <div key={`${key}.${axis}`} className="flex items-center justify-between">
+      <label className="text-gray-400">{label} {axis.toUpperCase()}</label>
+      <div className="flex items-center">
+        <KeyBtn path={`${key}.${axis}`} value={(s[key]?.[axis] ?? (axis === 'x' ? fallback : 0))} title={`Key ${label} ${axis.toUpperCase()}`} />
+        <DragInput compact step={0.01} precision={2} value={(s[key]?.[axis] ?? (axis === 'x' ? fallback : 0))}
+          onChange={(v) => actions.updateModifierSettings(objectId, id, (st) => { st[key] = { ...(st[key] ?? { x: fallback, y: 0, z: 0 }), [axis]: v }; })} />
+      </div>
+    </div>
+  ));
+
   return (
     <div className="flex flex-col gap-2 text-xs">
       <div className="flex items-center justify-between">
-        <label className="text-gray-400">Count</label>
-        <div className="flex items-center">
-          <KeyBtn path="count" value={Math.max(2, Math.round(s.count ?? 2))} title="Key Count" />
-          <DragInput compact min={2} max={200} step={1} value={Math.max(2, Math.round(s.count ?? 2))}
-            onChange={(v) => actions.updateModifierSettings(objectId, id, (st) => { st.count = Math.max(2, Math.round(v)); })} />
-        </div>
+        <label className="text-gray-400">Fit Type</label>
+        <select className={selectClass} value={fit}
+          onChange={(e) => actions.updateModifierSettings(objectId, id, (st) => { st.fitType = e.target.value; })}>
+          <option value="count">Fixed Count</option>
+          <option value="length">Fit Length</option>
+          <option value="curve">Fit Curve</option>
+        </select>
       </div>
-      {(['x','y','z'] as const).map((axis) => (
-        <div key={axis} className="flex items-center justify-between">
-          <label className="text-gray-400">Offset {axis.toUpperCase()}</label>
+      {fit === 'count' && (
+        <div className="flex items-center justify-between">
+          <label className="text-gray-400">Count</label>
           <div className="flex items-center">
-            <KeyBtn path={`offset.${axis}`} value={(s.offset?.[axis] ?? 0)} title={`Key Offset ${axis.toUpperCase()}`} />
-            <DragInput compact step={0.01} precision={2} value={(s.offset?.[axis] ?? 0)}
-              onChange={(v) => actions.updateModifierSettings(objectId, id, (st) => { st.offset = { ...(st.offset ?? { x:0,y:0,z:0 }), [axis]: v }; })} />
+            <KeyBtn path="count" value={Math.max(1, Math.round(s.count ?? 2))} title="Key Count" />
+            <DragInput compact min={1} max={200} step={1} value={Math.max(1, Math.round(s.count ?? 2))}
+              onChange={(v) => actions.updateModifierSettings(objectId, id, (st) => { st.count = Math.max(1, Math.round(v)); })} />
           </div>
         </div>
-      ))}
+      )}
+      {fit === 'length' && (
+        <div className="flex items-center justify-between">
+          <label className="text-gray-400">Length</label>
+          <div className="flex items-center">
+            <KeyBtn path="length" value={s.length ?? 4} title="Key Length" />
+            <DragInput compact min={0} step={0.05} precision={2} value={s.length ?? 4}
+              onChange={(v) => actions.updateModifierSettings(objectId, id, (st) => { st.length = Math.max(0, v); })} />
+          </div>
+        </div>
+      )}
+      <div className="flex items-center justify-between">
+        <label className="text-gray-400">Constant Offset</label>
+        <input type="checkbox" checked={s.useConstantOffset ?? true} onChange={(e) => actions.updateModifierSettings(objectId, id, (st) => { st.useConstantOffset = e.target.checked; })} />
+      </div>
+      {(s.useConstantOffset ?? true) && vectorRows('offset', 'Offset', 1)}
+      <div className="flex items-center justify-between">
+        <label className="text-gray-400">Relative Offset</label>
+        <input type="checkbox" checked={!!s.useRelativeOffset} onChange={(e) => actions.updateModifierSettings(objectId, id, (st) => { st.useRelativeOffset = e.target.checked; })} />
+      </div>
+      {s.useRelativeOffset && vectorRows('relativeOffset', 'Factor', 1)}
+      <div className="flex items-center justify-between">
+        <label className="text-gray-400">Object Offset</label>
+        <input type="checkbox" checked={!!s.useObjectOffset} onChange={(e) => actions.updateModifierSettings(objectId, id, (st) => { st.useObjectOffset = e.target.checked; })} />
+      </div>
+      {s.useObjectOffset && (
+        <div className="flex items-center justify-between">
+          <label className="text-gray-400">Offset Object</label>
+          <select className={`${selectClass} max-w-[60%]`} value={s.offsetObjectId ?? ''}
+            onChange={(e) => { const target = e.target.value || null; actions.updateModifierSettings(objectId, id, (st) => { st.offsetObjectId = target; }); }}>
+            <option value="">None</option>
+            {others.map((o) => (
+              <option key={o.id} value={o.id}>{o.name}</option>
+            ))}
+          </select>
+        </div>
+      )}
+      <div className="flex items-center justify-between">
+        <label className="text-gray-400">Curve</label>
+        <select className={`${selectClass} max-w-[60%]`} value={s.curveObjectId ?? ''}
+          onChange={(e) => { const target = e.target.value || null; actions.updateModifierSettings(objectId, id, (st) => { st.curveObjectId = target; }); }}>
+          <option value="">None</option>
+          {paths.map((o) => (
+            <option key={o.id} value={o.id}>{o.name}</option>
+          ))}
+        </select>
+      </div>
+      {s.curveObjectId && (
+        <div className="flex items-center justify-between">
+          <label className="text-gray-400">Curve Axis</label>
+          <select className={selectClass} value={s.curveAxis ?? 'x'}
+            onChange={(e) => actions.updateModifierSettings(objectId, id, (st) => { st.curveAxis = e.target.value; })}>
+            <option value="x">X</option>
+            <option value="y">Y</option>
+            <option value="z">Z</option>
+          </select>
+        </div>
+      )}
     </div>
   );
 };
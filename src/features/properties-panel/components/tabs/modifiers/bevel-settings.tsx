@@ -5,6 +5,7 @@ import Switch from '@/components/switch';
 import { useModifiersStore, useObjectModifiers } from '@/stores/modifier-store';
 import { useAnimationStore } from '@/stores/animation-store';
 import { Diamond as DiamondIcon } from 'lucide-react';
+import { VertexGroupField } from './vertex-group-field';
 
 export const BevelSettings: React.FC<{ objectId: string; id: string }> = ({ objectId, id }) => {
   const clipId = useAnimationStore((st) => st.activeClipId);
@@ -82,6 +83,7 @@ export const BevelSettings: React.FC<{ objectId: string; id: string }> = ({ obje
         <label className="text-gray-400">Cull Degenerate</label>
         <Switch checked={s.cullDegenerate !== false} onCheckedChange={(v) => actions.updateModifierSettings(objectId, id, (st) => { st.cullDegenerate = v; })} />
       </div>
+      <VertexGroupField objectId={objectId} id={id} />
     </div>
   );
 };
@@ -0,0 +1,48 @@
+"use client";
+import React from 'react';
+import { useModifiersStore, useObjectModifiers } from '@/stores/modifier-store';
+import { useSceneObjects } from '@/stores/scene-store';
+import type { BooleanModifierSettings } from '@/utils/modifiers';
+
+export const BooleanSettings: React.FC<{ objectId: string; id: string }> = ({ objectId, id }) => {
+  const actions = useModifiersStore();
+  const mods = useObjectModifiers(objectId);
+  const objects = useSceneObjects();
+  const mod = mods.find((m) => m.id === id);
+  if (!mod) return null;
+  const s = mod.settings as BooleanModifierSettings;
+  const candidates = objects.filter((o) => o.type === 'mesh' && o.id !== objectId);
+
+  return (
+    <div className="flex flex-col gap-2 text-xs">
+      <div className="flex items-center justify-between">
+        <label className="text-gray-400">Operation</label>
+        <select
+          className="bg-black/40 border border-white/10 rounded px-2 py-1 text-gray-200"
+          value={s.operation ?? 'difference'}
+          onChange={(e) => actions.updateModifierSettings(objectId, id, (st) => { st.operation = e.target.value; })}
+        >
+          <option value="difference">Difference</option>
+          <option value="union">Union</option>
+          <option value="intersect">Intersect</option>
+        </select>
+      </div>
+      <div className="flex items-center justify-between">
+        <label className="text-gray-400">Object</label>
+        <select
+          className="bg-black/40 border border-white/10 rounded px-2 py-1 text-gray-200 max-w-[60%]"
+          value={s.objectId ?? ''}
+          onChange={(e) => {
+            const target = e.target.value || null;
+            actions.updateModifierSettings(objectId, id, (st) => { st.objectId = target; });
+          }}
+        >
+          <option value="">None</option>
+          {candidates.map((o) => (
+            <option key={o.id} value={o.id}>{o.name}</option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+};
@@ -11,7 +11,8 @@ export const DecimateSettings: React.FC<{ objectId: string; id: string }> = ({ o
   const mods = useObjectModifiers(objectId);
   const mod = mods.find((m) => m.id === id);
   if (!mod) return null;
-  const s = mod.settings as { ratio: number };
+  const s = mod.settings as { ratio: number; target?: 'ratio' | 'triangles'; triangleCount?: number; preserveBoundary?: boolean };
+  const target = s.target ?? 'ratio';
   const KeyBtn: React.FC<{ path: string; value: number; title?: string }> = ({ path, value, title }) => {
     const property = `mod.${id}.${path}`;
     const has = useAnimationStore((st) => {
@@ -36,12 +37,40 @@ export const DecimateSettings: React.FC<{ objectId: string; id: string }> = ({ o
     );
   };
   return (
-    <div className="flex items-center justify-between text-xs">
-      <label className="text-gray-400">Ratio</label>
-      <div className="flex items-center">
-        <KeyBtn path="ratio" value={Math.max(0.01, Math.min(1, s.ratio ?? 0.5))} title="Key Ratio" />
-        <DragInput compact min={0.01} max={1} step={0.01} precision={2} value={Math.max(0.01, Math.min(1, s.ratio ?? 0.5))}
-          onChange={(v) => actions.updateModifierSettings(objectId, id, (st) => { st.ratio = Math.max(0.01, Math.min(1, v)); })} />
+    <div className="flex flex-col gap-2 text-xs">
+      <div className="flex items-center justify-between">
+        <label className="text-gray-400">Target</label>
+        <select
+          className="bg-black/40 border border-white/10 rounded px-2 py-1 text-gray-200"
+          value={target}
+          onChange={(e) => actions.updateModifierSettings(objectId, id, (st) => { st.target = e.target.value; })}
+        >
+          <option value="ratio">Ratio</option>
+          <option value="triangles">Triangle Count</option>
+        </select>
+      </div>
+      {target === 'ratio' ? (
+        <div className="flex items-center justify-between">
+          <label className="text-gray-400">Ratio</label>
+          <div className="flex items-center">
+            <KeyBtn path="ratio" value={Math.max(0.01, Math.min(1, s.ratio ?? 0.5))} title="Key Ratio" />
+            <DragInput compact min={0.01} max={1} step={0.01} precision={2} value={Math.max(0.01, Math.min(1, s.ratio ?? 0.5))}
+              onChange={(v) => actions.updateModifierSettings(objectId, id, (st) => { st.ratio = Math.max(0.01, Math.min(1, v)); })} />
+          </div>
+        </div>
+      ) : (
+        <div className="flex items-center justify-between">
+          <label className="text-gray-400">Triangles</label>
+          <div className="flex items-center">
+            <KeyBtn path="triangleCount" value={Math.max(1, Math.round(s.triangleCount ?? 1000))} title="Key Triangles" />
+            <DragInput compact min={1} step={1} precision={0} value={Math.max(1, Math.round(s.triangleCount ?? 1000))}
+              onChange={(v) => actions.updateModifierSettings(objectId, id, (st) => { st.triangleCount = Math.max(1, Math.round(v)); })} />
+          </div>
+        </div>
+      )}
+      <div className="flex items-center justify-between">
+        <label className="text-gray-400">Preserve Boundary</label>
+        <input type="checkbox" checked={s.preserveBoundary ?? true} onChange={(e) => actions.updateModifierSettings(objectId, id, (st) => { st.preserveBoundary = e.target.checked; })} />
       </div>
     </div>
   );
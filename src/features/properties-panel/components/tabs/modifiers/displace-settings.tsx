@@ -0,0 +1,180 @@
+"use client";
+import React, { useRef } from 'react';
+import { nanoid } from 'nanoid';
+import { DragInput } from '@/components/drag-input';
+import { useModifiersStore, useObjectModifiers } from '@/stores/modifier-store';
+import { useAnimationStore } from '@/stores/animation-store';
+import { ensureFileIdForBlob, getSuggestedFilename, listAllFiles } from '@/stores/files-store';
+import { useTerrainEditorStore } from '@/stores/terrain-editor-store';
+import { Diamond as DiamondIcon } from 'lucide-react';
+import type { DisplaceModifierSettings } from '@/utils/modifiers';
+import type { TerrainNodeGraph } from '@/types/terrain';
+import { VertexGroupField } from './vertex-group-field';
+
+// Input -> Perlin -> Output, edited further in the terrain node editor
+const defaultGraph = (): TerrainNodeGraph => {
+  const [inputId, noiseId, outputId] = [nanoid(), nanoid(), nanoid()];
+  return {
+    nodes: [
+      { id: inputId, type: 'input', position: { x: 40, y: 160 }, data: {} },
+      { id: noiseId, type: 'perlin', position: { x: 280, y: 160 }, data: { seed: 1, scale: 1, octaves: 4, persistence: 0.5, lacunarity: 2, amplitude: 1, operation: 'add', amount: 1 } },
+      { id: outputId, type: 'output', position: { x: 560, y: 160 }, data: {} },
+    ],
+    edges: [
+      { id: nanoid(), source: inputId, sourceHandle: 'out', target: noiseId, targetHandle: 'in' },
+      { id: nanoid(), source: noiseId, sourceHandle: 'out', target: outputId, targetHandle: 'in' },
+    ],
+  };
+};
+
+export const DisplaceSettings: React.FC<{ objectId: string; id: string }> = ({ objectId, id }) => {
+  const clipId = useAnimationStore((st) => st.activeClipId);
+  const actions = useModifiersStore();
+  const mods = useObjectModifiers(objectId);
+  const openGraphEditor = useTerrainEditorStore((st) => st.openForDisplace);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const mod = mods.find((m) => m.id === id);
+  if (!mod) return null;
+  const s = mod.settings as DisplaceModifierSettings;
+  const images = listAllFiles().filter((f) => f.mime.startsWith('image/') && f.mime !== 'image/ktx2');
+  const selectClass = 'bg-black/40 border border-white/10 rounded px-2 py-1 text-gray-200';
+  const update = (fn: (st: DisplaceModifierSettings) => void) => actions.updateModifierSettings(objectId, id, fn);
+  const KeyBtn: React.FC<{ path: string; value: number; title?: string }> = ({ path, value, title }) => {
+    const property = `mod.${id}.${path}`;
+    const has = useAnimationStore((st) => {
+      const f = Math.round(st.playhead * (st.fps || 30));
+      const T = f / (st.fps || 30);
+      const tid = Object.values(st.tracks).find((tr) => tr.targetId === objectId && tr.property === property)?.id;
+      if (!tid) return false;
+      const tr = st.tracks[tid];
+      return tr.channel.keys.some((k) => Math.abs(k.t - T) < 1e-6);
+    });
+    return (
+      <button className="-ml-0.5 mr-1 p-0.5 rounded hover:bg-white/10" title={title || 'Toggle keyframe'} onClick={(e) => {
+        e.stopPropagation();
+        if (!clipId) return;
+        const st = useAnimationStore.getState();
+        const f = Math.round(st.playhead * (st.fps || 30));
+        const T = f / (st.fps || 30);
+        st.toggleKeyAt(objectId, property, T, value, 'linear');
+      }}>
+        <DiamondIcon className={`w-3 h-3 ${has ? 'text-amber-400' : 'text-gray-400/70 hover:text-white'}`} strokeWidth={2} />
+      </button>
+    );
+  };
+
+  const onFileChosen = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const f = e.target.files?.[0];
+    e.target.value = '';
+    if (!f) return;
+    const fileId = await ensureFileIdForBlob(f, f.name);
+    update((st) => { st.textureId = fileId; });
+  };
+
+  return (
+    <div className="flex flex-col gap-2 text-xs">
+      <div className="flex items-center justify-between">
+        <label className="text-gray-400">Source</label>
+        <select className={selectClass} value={s.source}
+          onChange={(e) => update((st) => {
+            st.source = e.target.value as DisplaceModifierSettings['source'];
+            if (st.source === 'graph' && !st.graph) st.graph = defaultGraph();
+          })}>
+          <option value="texture">Texture</option>
+          <option value="perlin">Perlin Noise</option>
+          <option value="voronoi">Voronoi</option>
+          <option value="graph">Node Graph</option>
+        </select>
+      </div>
+      {s.source === 'texture' && (
+        <div className="flex items-center justify-between gap-1">
+          <label className="text-gray-400">Image</label>
+          <div className="flex items-center gap-1 min-w-0">
+            <select className={`${selectClass} max-w-[9rem]`} value={s.textureId ?? ''}
+              onChange={(e) => update((st) => { st.textureId = e.target.value || null; })}>
+              <option value="">None</option>
+              {s.textureId && !images.some((f) => f.id === s.textureId) && (
+                <option value={s.textureId}>{getSuggestedFilename(s.textureId) ?? 'Missing'}</option>
+              )}
+              {images.map((f) => (
+                <option key={f.id} value={f.id}>{f.name}</option>
+              ))}
+            </select>
+            <button className="px-2 py-1 rounded border border-white/10 hover:bg-white/10 text-gray-200" onClick={() => fileInputRef.current?.click()}>Load</button>
+            <input ref={fileInputRef} type="file" accept="image/png,image/jpeg,image/webp" className="hidden" onChange={onFileChosen} />
+          </div>
+        </div>
+      )}
+      {s.source === 'graph' && (
+        <div className="flex items-center justify-between">
+          <label className="text-gray-400">Graph</label>
+          <div className="flex items-center gap-1">
+            <span className="text-gray-500">{(s.graph?.nodes.length ?? 0)} nodes</span>
+            <button className="px-2 py-1 rounded border border-white/10 hover:bg-white/10 text-gray-200"
+              onClick={() => {
+                if (!s.graph) update((st) => { st.graph = defaultGraph(); });
+                openGraphEditor(objectId, id);
+              }}>Edit Graph</button>
+          </div>
+        </div>
+      )}
+      {(s.source === 'perlin' || s.source === 'voronoi') && (
+        <div className="flex items-center justify-between">
+          <label className="text-gray-400">Seed</label>
+          <DragInput compact step={1} precision={0} value={s.seed ?? 1}
+            onChange={(v) => update((st) => { st.seed = Math.round(v); })} />
+        </div>
+      )}
+      {s.source === 'perlin' && (
+        <div className="flex items-center justify-between">
+          <label className="text-gray-400">Octaves</label>
+          <DragInput compact step={1} precision={0} min={1} max={8} value={s.octaves ?? 4}
+            onChange={(v) => update((st) => { st.octaves = Math.max(1, Math.min(8, Math.round(v))); })} />
+        </div>
+      )}
+      <div className="flex items-center justify-between">
+        <label className="text-gray-400">Coordinates</label>
+        <select className={selectClass} value={s.coords ?? 'uv'}
+          onChange={(e) => update((st) => { st.coords = e.target.value as DisplaceModifierSettings['coords']; })}>
+          <option value="uv">UV</option>
+          <option value="object">Object</option>
+        </select>
+      </div>
+      <div className="flex items-center justify-between">
+        <label className="text-gray-400">Direction</label>
+        <select className={selectClass} value={s.direction ?? 'normal'}
+          onChange={(e) => update((st) => { st.direction = e.target.value as DisplaceModifierSettings['direction']; })}>
+          <option value="normal">Normal</option>
+          <option value="x">X</option>
+          <option value="y">Y</option>
+          <option value="z">Z</option>
+        </select>
+      </div>
+      <div className="flex items-center justify-between">
+        <label className="text-gray-400">Scale</label>
+        <div className="flex items-center">
+          <KeyBtn path="scale" value={s.scale ?? 1} title="Key Scale" />
+          <DragInput compact step={0.01} precision={3} min={0.001} value={s.scale ?? 1}
+            onChange={(v) => update((st) => { st.scale = Math.max(0.001, v); })} />
+        </div>
+      </div>
+      <div className="flex items-center justify-between">
+        <label className="text-gray-400">Strength</label>
+        <div className="flex items-center">
+          <KeyBtn path="strength" value={s.strength ?? 1} title="Key Strength" />
+          <DragInput compact step={0.01} precision={3} value={s.strength ?? 1}
+            onChange={(v) => update((st) => { st.strength = v; })} />
+        </div>
+      </div>
+      <div className="flex items-center justify-between">
+        <label className="text-gray-400">Midlevel</label>
+        <div className="flex items-center">
+          <KeyBtn path="midlevel" value={s.midlevel ?? 0.5} title="Key Midlevel" />
+          <DragInput compact step={0.01} precision={3} value={s.midlevel ?? 0.5}
+            onChange={(v) => update((st) => { st.midlevel = v; })} />
+        </div>
+      </div>
+      <VertexGroupField objectId={objectId} id={id} />
+    </div>
+  );
+};
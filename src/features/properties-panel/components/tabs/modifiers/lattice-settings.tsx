@@ -0,0 +1,70 @@
+"use client";
+import React from 'react';
+import { DragInput } from '@/components/drag-input';
+import { useModifiersStore, useObjectModifiers } from '@/stores/modifier-store';
+import { useSceneObjects } from '@/stores/scene-store';
+import { useAnimationStore } from '@/stores/animation-store';
+import { Diamond as DiamondIcon } from 'lucide-react';
+import type { LatticeModifierSettings } from '@/utils/modifiers';
+import { VertexGroupField } from './vertex-group-field';
+
+export const LatticeSettings: React.FC<{ objectId: string; id: string }> = ({ objectId, id }) => {
+  const clipId = useAnimationStore((st) => st.activeClipId);
+  const actions = useModifiersStore();
+  const mods = useObjectModifiers(objectId);
+  const objects = useSceneObjects();
+  const mod = mods.find((m) => m.id === id);
+  if (!mod) return null;
+  const s = mod.settings as LatticeModifierSettings;
+  const candidates = objects.filter((o) => o.type === 'lattice');
+  const KeyBtn: React.FC<{ path: string; value: number; title?: string }> = ({ path, value, title }) => {
+    const property = `mod.${id}.${path}`;
+    const has = useAnimationStore((st) => {
+      const f = Math.round(st.playhead * (st.fps || 30));
+      const T = f / (st.fps || 30);
+      const tid = Object.values(st.tracks).find((tr) => tr.targetId === objectId && tr.property === property)?.id;
+      if (!tid) return false;
+      const tr = st.tracks[tid];
+      return tr.channel.keys.some((k) => Math.abs(k.t - T) < 1e-6);
+    });
+    return (
+      <button className="-ml-0.5 mr-1 p-0.5 rounded hover:bg-white/10" title={title || 'Toggle keyframe'} onClick={(e) => {
+        e.stopPropagation();
+        if (!clipId) return;
+        const st = useAnimationStore.getState();
+        const f = Math.round(st.playhead * (st.fps || 30));
+        const T = f / (st.fps || 30);
+        st.toggleKeyAt(objectId, property, T, value, 'linear');
+      }}>
+        <DiamondIcon className={`w-3 h-3 ${has ? 'text-amber-400' : 'text-gray-400/70 hover:text-white'}`} strokeWidth={2} />
+      </button>
+    );
+  };
+
+  return (
+    <div className="flex flex-col gap-2 text-xs">
+      <div className="flex items-center justify-between">
+        <label className="text-gray-400">Object</label>
+        <select
+          className="bg-black/40 border border-white/10 rounded px-2 py-1 text-gray-200 max-w-[60%]"
+          value={s.objectId ?? ''}
+          onChange={(e) => actions.updateModifierSettings(objectId, id, (st) => { st.objectId = e.target.value || null; })}
+        >
+          <option value="">None</option>
+          {candidates.map((o) => (
+            <option key={o.id} value={o.id}>{o.name}</option>
+          ))}
+        </select>
+      </div>
+      <div className="flex items-center justify-between">
+        <label className="text-gray-400">Strength</label>
+        <div className="flex items-center">
+          <KeyBtn path="strength" value={s.strength ?? 1} title="Key Strength" />
+          <DragInput compact min={0} max={1} step={0.01} precision={2} value={s.strength ?? 1}
+            onChange={(v) => actions.updateModifierSettings(objectId, id, (st) => { st.strength = Math.max(0, Math.min(1, v)); })} />
+        </div>
+      </div>
+      <VertexGroupField objectId={objectId} id={id} />
+    </div>
+  );
+};
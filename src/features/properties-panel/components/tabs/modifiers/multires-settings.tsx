@@ -0,0 +1,119 @@
+"use client";
+import React, { useState } from 'react';
+import { DragInput } from '@/components/drag-input';
+import { useModifiersStore, useObjectModifiers } from '@/stores/modifier-store';
+import { useGeometryStore } from '@/stores/geometry-store';
+import { useSceneStore } from '@/stores/scene-store';
+import { getSuggestedFilename, storeImagePixels } from '@/stores/files-store';
+import { bakeMultires, findMultires, MULTIRES_MAX_LEVELS, type MultiresModifierSettings } from '@/utils/modifiers';
+
+export const MultiresSettings: React.FC<{ objectId: string; id: string }> = ({ objectId, id }) => {
+  const actions = useModifiersStore();
+  const mods = useObjectModifiers(objectId);
+  const [baking, setBaking] = useState(false);
+  const [baked, setBaked] = useState<{ fileId: string; range: number; type: string } | null>(null);
+  const mod = mods.find((m) => m.id === id);
+  if (!mod) return null;
+  const s = mod.settings as MultiresModifierSettings;
+  const levels = s.levels ?? 0;
+  const selectClass = 'bg-black/40 border border-white/10 rounded px-2 py-1 text-gray-200';
+  const buttonClass = 'flex-1 px-2 py-1 rounded border border-white/10 hover:bg-white/10 text-gray-200 disabled:opacity-40';
+  const update = (fn: (st: MultiresModifierSettings) => void) => actions.updateModifierSettings(objectId, id, fn);
+  const clampLevel = (v: number) => Math.max(0, Math.min(levels, Math.round(v)));
+
+  const subdivide = () => update((st) => {
+    const next = Math.min(MULTIRES_MAX_LEVELS, (st.levels ?? 0) + 1);
+    st.levels = next;
+    st.viewLevel = next;
+    st.sculptLevel = next;
+    st.bakeHigh = next;
+  });
+  // Drop the levels above the sculpt level together with their detail
+  const deleteHigher = () => update((st) => {
+    st.levels = st.sculptLevel;
+    st.viewLevel = Math.min(st.viewLevel, st.levels);
+    st.displacements = (st.displacements ?? []).slice(0, st.levels);
+    st.bakeHigh = Math.min(st.bakeHigh ?? st.levels, st.levels);
+  });
+
+  const bake = async () => {
+    const obj = useSceneStore.getState().objects[objectId];
+    const base = obj?.meshId ? useGeometryStore.getState().meshes.get(obj.meshId) : undefined;
+    if (!base) return;
+    const type = s.bakeType ?? 'normal';
+    setBaking(true);
+    try {
+      const result = bakeMultires(base, s, { type, size: s.bakeSize ?? 1024, low: s.bakeLow ?? 0, high: s.bakeHigh ?? levels });
+      if (!result) return;
+      const fileId = await storeImagePixels(result.pixels, `${obj?.name ?? 'multires'}-${type}.png`);
+      setBaked({ fileId, range: result.range, type });
+    } finally {
+      setBaking(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2 text-xs">
+      {mod.enabled && findMultires(mods)?.id !== id && (
+        <div className="text-amber-400">Inactive: Multires must be the first enabled modifier.</div>
+      )}
+      <div className="flex items-center justify-between">
+        <label className="text-gray-400">Levels</label>
+        <span className="text-gray-200 tabular-nums">{levels}</span>
+      </div>
+      <div className="flex gap-1">
+        <button className={buttonClass} disabled={levels >= MULTIRES_MAX_LEVELS} onClick={subdivide}>Subdivide</button>
+        <button className={buttonClass} disabled={s.sculptLevel >= levels} title="Remove the levels above the sculpt level" onClick={deleteHigher}>Delete Higher</button>
+      </div>
+      <div className="flex items-center justify-between">
+        <label className="text-gray-400">Viewport</label>
+        <DragInput compact step={1} precision={0} min={0} max={levels} value={s.viewLevel ?? 0}
+          onChange={(v) => update((st) => { st.viewLevel = clampLevel(v); })} />
+      </div>
+      <div className="flex items-center justify-between">
+        <label className="text-gray-400">Sculpt</label>
+        <DragInput compact step={1} precision={0} min={0} max={levels} value={s.sculptLevel ?? 0}
+          onChange={(v) => update((st) => { st.sculptLevel = clampLevel(v); })} />
+      </div>
+
+      <div className="flex flex-col gap-2 rounded border border-white/10 p-1.5">
+        <div className="flex items-center justify-between">
+          <label className="text-gray-400">Bake</label>
+          <select className={selectClass} value={s.bakeType ?? 'normal'}
+            onChange={(e) => update((st) => { st.bakeType = e.target.value as MultiresModifierSettings['bakeType']; })}>
+            <option value="normal">Normal Map</option>
+            <option value="displacement">Displacement Map</option>
+          </select>
+        </div>
+        <div className="flex items-center justify-between">
+          <label className="text-gray-400">Size</label>
+          <select className={selectClass} value={s.bakeSize ?? 1024}
+            onChange={(e) => update((st) => { st.bakeSize = parseInt(e.target.value, 10); })}>
+            {[256, 512, 1024, 2048, 4096].map((px) => (
+              <option key={px} value={px}>{px} px</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex items-center justify-between">
+          <label className="text-gray-400">From Level</label>
+          <DragInput compact step={1} precision={0} min={0} max={Math.max(0, levels - 1)} value={s.bakeLow ?? 0}
+            onChange={(v) => update((st) => { st.bakeLow = Math.max(0, Math.min(levels - 1, Math.round(v))); })} />
+        </div>
+        <div className="flex items-center justify-between">
+          <label className="text-gray-400">To Level</label>
+          <DragInput compact step={1} precision={0} min={1} max={levels} value={s.bakeHigh ?? levels}
+            onChange={(v) => update((st) => { st.bakeHigh = Math.max(1, clampLevel(v)); })} />
+        </div>
+        <button className={buttonClass} disabled={baking || levels < 1 || (s.bakeHigh ?? levels) <= (s.bakeLow ?? 0)} onClick={bake}>
+          {baking ? 'Baking…' : 'Bake'}
+        </button>
+        {baked && (
+          <div className="text-gray-400">
+            Saved {getSuggestedFilename(baked.fileId) ?? 'image'}
+            {baked.type === 'displacement' && <> · Displace strength {(baked.range * 2).toPrecision(3)}, midlevel 0.5</>}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -11,7 +11,7 @@ export const RemeshSettings: React.FC<{ objectId: string; id: string }> = ({ obj
   const mods = useObjectModifiers(objectId);
   const mod = mods.find((m) => m.id === id);
   if (!mod) return null;
-  const s = mod.settings as { mode: 'blocks' | 'quads' | 'smooth'; voxelSize: number };
+  const s = mod.settings as { mode: 'blocks' | 'quads' | 'smooth'; voxelSize: number; reproject?: boolean; transferAttributes?: boolean };
   const KeyBtn: React.FC<{ path: string; value: number; title?: string }> = ({ path, value, title }) => {
     const property = `mod.${id}.${path}`;
     const has = useAnimationStore((st) => {
@@ -45,7 +45,7 @@ export const RemeshSettings: React.FC<{ objectId: string; id: string }> = ({ obj
           onChange={(e) => actions.updateModifierSettings(objectId, id, (st) => { st.mode = e.target.value; })}
         >
           <option value="blocks">Blocks</option>
-          <option value="quads">Quads</option>
+          <option value="quads">Quad Dominant</option>
           <option value="smooth">Smooth</option>
         </select>
       </div>
@@ -53,10 +53,18 @@ export const RemeshSettings: React.FC<{ objectId: string; id: string }> = ({ obj
         <label className="text-gray-400">Voxel Size</label>
         <div className="flex items-center">
           <KeyBtn path="voxelSize" value={s.voxelSize ?? 0.1} title="Key Voxel Size" />
-          <DragInput compact step={0.01} precision={2} value={s.voxelSize ?? 0.1}
-            onChange={(v) => actions.updateModifierSettings(objectId, id, (st) => { st.voxelSize = Math.max(0.001, v); })} />
+          <DragInput compact step={0.01} precision={3} value={s.voxelSize ?? 0.1}
+            onChange={(v) => actions.updateModifierSettings(objectId, id, (st) => { st.voxelSize = Math.max(0.005, v); })} />
         </div>
       </div>
+      <div className="flex items-center justify-between">
+        <label className="text-gray-400">Reproject</label>
+        <input type="checkbox" disabled={s.mode === 'blocks'} checked={s.mode !== 'blocks' && (s.reproject ?? true)} onChange={(e) => actions.updateModifierSettings(objectId, id, (st) => { st.reproject = e.target.checked; })} />
+      </div>
+      <div className="flex items-center justify-between">
+        <label className="text-gray-400">Transfer UVs/Materials</label>
+        <input type="checkbox" checked={s.transferAttributes ?? true} onChange={(e) => actions.updateModifierSettings(objectId, id, (st) => { st.transferAttributes = e.target.checked; })} />
+      </div>
     </div>
   );
 };
@@ -0,0 +1,101 @@
+"use client";
+import React from 'react';
+import { DragInput } from '@/components/drag-input';
+import { useModifiersStore, useObjectModifiers } from '@/stores/modifier-store';
+import { useSceneObjects } from '@/stores/scene-store';
+import { useAnimationStore } from '@/stores/animation-store';
+import { Diamond as DiamondIcon } from 'lucide-react';
+import type { ShrinkwrapModifierSettings } from '@/utils/modifiers';
+import { VertexGroupField } from './vertex-group-field';
+
+export const ShrinkwrapSettings: React.FC<{ objectId: string; id: string }> = ({ objectId, id }) => {
+  const clipId = useAnimationStore((st) => st.activeClipId);
+  const actions = useModifiersStore();
+  const mods = useObjectModifiers(objectId);
+  const objects = useSceneObjects();
+  const mod = mods.find((m) => m.id === id);
+  if (!mod) return null;
+  const s = mod.settings as ShrinkwrapModifierSettings;
+  const mode = s.mode ?? 'nearest';
+  const candidates = objects.filter((o) => (o.type === 'mesh' || o.type === 'terrain') && o.id !== objectId);
+  const selectClass = 'bg-black/40 border border-white/10 rounded px-2 py-1 text-gray-200';
+  const KeyBtn: React.FC<{ path: string; value: number; title?: string }> = ({ path, value, title }) => {
+    const property = `mod.${id}.${path}`;
+    const has = useAnimationStore((st) => {
+      const f = Math.round(st.playhead * (st.fps || 30));
+      const T = f / (st.fps || 30);
+      const tid = Object.values(st.tracks).find((tr) => tr.targetId === objectId && tr.property === property)?.id;
+      if (!tid) return false;
+      const tr = st.tracks[tid];
+      return tr.channel.keys.some((k) => Math.abs(k.t - T) < 1e-6);
+    });
+    return (
+      <button className="-ml-0.5 mr-1 p-0.5 rounded hover:bg-white/10" title={title || 'Toggle keyframe'} onClick={(e) => {
+        e.stopPropagation();
+        if (!clipId) return;
+        const st = useAnimationStore.getState();
+        const f = Math.round(st.playhead * (st.fps || 30));
+        const T = f / (st.fps || 30);
+        st.toggleKeyAt(objectId, property, T, value, 'linear');
+      }}>
+        <DiamondIcon className={`w-3 h-3 ${has ? 'text-amber-400' : 'text-gray-400/70 hover:text-white'}`} strokeWidth={2} />
+      </button>
+    );
+  };
+
+  return (
+    <div className="flex flex-col gap-2 text-xs">
+      <div className="flex items-center justify-between">
+        <label className="text-gray-400">Target</label>
+        <select className={`${selectClass} max-w-[60%]`} value={s.objectId ?? ''}
+          onChange={(e) => actions.updateModifierSettings(objectId, id, (st) => { st.objectId = e.target.value || null; })}>
+          <option value="">None</option>
+          {candidates.map((o) => (
+            <option key={o.id} value={o.id}>{o.name}</option>
+          ))}
+        </select>
+      </div>
+      <div className="flex items-center justify-between">
+        <label className="text-gray-400">Mode</label>
+        <select className={selectClass} value={mode}
+          onChange={(e) => actions.updateModifierSettings(objectId, id, (st) => { st.mode = e.target.value; })}>
+          <option value="nearest">Nearest Surface</option>
+          <option value="normal">Along Normal</option>
+          <option value="axis">Along Axis</option>
+        </select>
+      </div>
+      {mode === 'axis' && (
+        <div className="flex items-center justify-between">
+          <label className="text-gray-400">Axis</label>
+          <select className={selectClass} value={s.axis ?? 'y'}
+            onChange={(e) => actions.updateModifierSettings(objectId, id, (st) => { st.axis = e.target.value; })}>
+            <option value="x">X</option>
+            <option value="y">Y</option>
+            <option value="z">Z</option>
+          </select>
+        </div>
+      )}
+      {mode !== 'nearest' && (
+        <>
+          <div className="flex items-center justify-between">
+            <label className="text-gray-400">Negative</label>
+            <input type="checkbox" checked={s.negative ?? true} onChange={(e) => actions.updateModifierSettings(objectId, id, (st) => { st.negative = e.target.checked; })} />
+          </div>
+          <div className="flex items-center justify-between">
+            <label className="text-gray-400">Positive</label>
+            <input type="checkbox" checked={s.positive ?? true} onChange={(e) => actions.updateModifierSettings(objectId, id, (st) => { st.positive = e.target.checked; })} />
+          </div>
+        </>
+      )}
+      <div className="flex items-center justify-between">
+        <label className="text-gray-400">Offset</label>
+        <div className="flex items-center">
+          <KeyBtn path="offset" value={s.offset ?? 0} title="Key Offset" />
+          <DragInput compact step={0.01} precision={3} value={s.offset ?? 0}
+            onChange={(v) => actions.updateModifierSettings(objectId, id, (st) => { st.offset = v; })} />
+        </div>
+      </div>
+      <VertexGroupField objectId={objectId} id={id} />
+    </div>
+  );
+};
@@ -4,6 +4,7 @@ import { DragInput } from '@/components/drag-input';
 import { useModifiersStore, useObjectModifiers } from '@/stores/modifier-store';
 import { useAnimationStore } from '@/stores/animation-store';
 import { Diamond as DiamondIcon } from 'lucide-react';
+import { VertexGroupField } from './vertex-group-field';
 
 export const SolidifySettings: React.FC<{ objectId: string; id: string }> = ({ objectId, id }) => {
   const clipId = useAnimationStore((st) => st.activeClipId);
@@ -36,13 +37,16 @@ export const SolidifySettings: React.FC<{ objectId: string; id: string }> = ({ o
     );
   };
   return (
-    <div className="flex items-center justify-between text-xs">
-      <label className="text-gray-400">Thickness</label>
-      <div className="flex items-center">
-        <KeyBtn path="thickness" value={s.thickness ?? 0.02} title="Key Thickness" />
-        <DragInput compact step={0.001} precision={3} value={s.thickness ?? 0.02}
-          onChange={(v) => actions.updateModifierSettings(objectId, id, (st) => { st.thickness = v; })} />
+    <div className="flex flex-col gap-2 text-xs">
+      <div className="flex items-center justify-between">
+        <label className="text-gray-400">Thickness</label>
+        <div className="flex items-center">
+          <KeyBtn path="thickness" value={s.thickness ?? 0.02} title="Key Thickness" />
+          <DragInput compact step={0.001} precision={3} value={s.thickness ?? 0.02}
+            onChange={(v) => actions.updateModifierSettings(objectId, id, (st) => { st.thickness = v; })} />
+        </div>
       </div>
+      <VertexGroupField objectId={objectId} id={id} />
     </div>
   );
 };
@@ -4,6 +4,7 @@ import { DragInput } from '@/components/drag-input';
 import { useModifiersStore, useObjectModifiers } from '@/stores/modifier-store';
 import { useAnimationStore } from '@/stores/animation-store';
 import { Diamond as DiamondIcon } from 'lucide-react';
+import { VertexGroupField } from './vertex-group-field';
 
 export const SubdivideSettings: React.FC<{ objectId: string; id: string }> = ({ objectId, id }) => {
   const clipId = useAnimationStore((st) => st.activeClipId);
@@ -11,7 +12,8 @@ export const SubdivideSettings: React.FC<{ objectId: string; id: string }> = ({
   const mods = useObjectModifiers(objectId);
   const mod = mods.find((m) => m.id === id);
   if (!mod) return null;
-  const s = mod.settings as { level: number; smooth?: boolean; smoothIterations?: number; smoothStrength?: number };
+  const s = mod.settings as { level: number; scheme?: string; boundary?: string; uvSmooth?: string; smooth?: boolean; smoothIterations?: number; smoothStrength?: number };
+  const scheme = s.scheme ?? 'simple';
   const KeyBtn: React.FC<{ path: string; value: number; title?: string }> = ({ path, value, title }) => {
     const property = `mod.${id}.${path}`;
     const has = useAnimationStore((st) => {
@@ -52,38 +54,82 @@ export const SubdivideSettings: React.FC<{ objectId: string; id: string }> = ({
         </div>
       </div>
       <div className="flex items-center justify-between">
-        <label className="text-gray-400">Smooth</label>
-        <input type="checkbox" checked={!!s.smooth} onChange={(e) => actions.updateModifierSettings(objectId, id, (st) => { st.smooth = e.target.checked; })} />
-      </div>
-      <div className="flex items-center justify-between">
-        <label className="text-gray-400">Smooth Iterations</label>
-        <div className="flex items-center">
-          <KeyBtn path="smoothIterations" value={Math.max(0, Math.min(5, Math.round(s.smoothIterations ?? 1)))} title="Key Iterations" />
-          <DragInput
-            compact
-            min={0}
-            max={5}
-            step={1}
-            value={Math.max(0, Math.min(5, Math.round(s.smoothIterations ?? 1)))}
-            onChange={(v) => actions.updateModifierSettings(objectId, id, (st) => { st.smoothIterations = Math.max(0, Math.min(5, Math.round(v))); })}
-          />
-        </div>
-      </div>
-      <div className="flex items-center justify-between">
-        <label className="text-gray-400">Smooth Strength</label>
-        <div className="flex items-center">
-          <KeyBtn path="smoothStrength" value={Math.max(0, Math.min(1, s.smoothStrength ?? 0.2))} title="Key Strength" />
-          <DragInput
-            compact
-            min={0}
-            max={1}
-            step={0.01}
-            precision={2}
-            value={Math.max(0, Math.min(1, s.smoothStrength ?? 0.2))}
-            onChange={(v) => actions.updateModifierSettings(objectId, id, (st) => { st.smoothStrength = Math.max(0, Math.min(1, v)); })}
-          />
-        </div>
+        <label className="text-gray-400">Scheme</label>
+        <select
+          className="bg-black/40 border border-white/10 rounded px-2 py-1 text-gray-200"
+          value={s.scheme ?? 'simple'}
+          onChange={(e) => actions.updateModifierSettings(objectId, id, (st) => { st.scheme = e.target.value; })}
+        >
+          <option value="catmull-clark">Catmull-Clark</option>
+          <option value="loop">Loop</option>
+          <option value="simple">Simple</option>
+        </select>
       </div>
+      {scheme !== 'simple' ? (
+        <>
+          <div className="flex items-center justify-between">
+            <label className="text-gray-400">Boundary</label>
+            <select
+              className="bg-black/40 border border-white/10 rounded px-2 py-1 text-gray-200"
+              value={s.boundary ?? 'keep-corners'}
+              onChange={(e) => actions.updateModifierSettings(objectId, id, (st) => { st.boundary = e.target.value; })}
+            >
+              <option value="smooth">Smooth</option>
+              <option value="keep-corners">Keep Corners</option>
+              <option value="sharp">Sharp</option>
+            </select>
+          </div>
+          <div className="flex items-center justify-between">
+            <label className="text-gray-400">UV Smooth</label>
+            <select
+              className="bg-black/40 border border-white/10 rounded px-2 py-1 text-gray-200"
+              value={s.uvSmooth ?? 'keep-corners'}
+              onChange={(e) => actions.updateModifierSettings(objectId, id, (st) => { st.uvSmooth = e.target.value; })}
+            >
+              <option value="linear">None</option>
+              <option value="keep-corners">Keep Corners</option>
+              <option value="smooth-all">All</option>
+            </select>
+          </div>
+        </>
+      ) : (
+        <>
+          <div className="flex items-center justify-between">
+            <label className="text-gray-400">Smooth</label>
+            <input type="checkbox" checked={!!s.smooth} onChange={(e) => actions.updateModifierSettings(objectId, id, (st) => { st.smooth = e.target.checked; })} />
+          </div>
+          <div className="flex items-center justify-between">
+            <label className="text-gray-400">Smooth Iterations</label>
+            <div className="flex items-center">
+              <KeyBtn path="smoothIterations" value={Math.max(0, Math.min(5, Math.round(s.smoothIterations ?? 1)))} title="Key Iterations" />
+              <DragInput
+                compact
+                min={0}
+                max={5}
+                step={1}
+                value={Math.max(0, Math.min(5, Math.round(s.smoothIterations ?? 1)))}
+                onChange={(v) => actions.updateModifierSettings(objectId, id, (st) => { st.smoothIterations = Math.max(0, Math.min(5, Math.round(v))); })}
+              />
+            </div>
+          </div>
+          <div className="flex items-center justify-between">
+            <label className="text-gray-400">Smooth Strength</label>
+            <div className="flex items-center">
+              <KeyBtn path="smoothStrength" value={Math.max(0, Math.min(1, s.smoothStrength ?? 0.2))} title="Key Strength" />
+              <DragInput
+                compact
+                min={0}
+                max={1}
+                step={0.01}
+                precision={2}
+                value={Math.max(0, Math.min(1, s.smoothStrength ?? 0.2))}
+                onChange={(v) => actions.updateModifierSettings(objectId, id, (st) => { st.smoothStrength = Math.max(0, Math.min(1, v)); })}
+              />
+            </div>
+          </div>
+          <VertexGroupField objectId={objectId} id={id} />
+        </>
+      )}
     </div>
   );
 };
@@ -0,0 +1,44 @@
+"use client";
+import React from 'react';
+import { ArrowLeftRight } from 'lucide-react';
+import { useModifiersStore, useObjectModifiers } from '@/stores/modifier-store';
+import { useSceneStore } from '@/stores/scene-store';
+import { useGeometryStore } from '@/stores/geometry-store';
+import type { VertexGroupFilter } from '@/utils/modifiers';
+
+// Vertex group filter shared by modifiers that can be restricted to part of the mesh
+export const VertexGroupField: React.FC<{ objectId: string; id: string }> = ({ objectId, id }) => {
+  const actions = useModifiersStore();
+  const mods = useObjectModifiers(objectId);
+  const meshId = useSceneStore((s) => s.objects[objectId]?.meshId);
+  const groups = useGeometryStore((s) => (meshId ? s.meshes.get(meshId)?.vertexGroups : undefined)) ?? [];
+  const mod = mods.find((m) => m.id === id);
+  if (!mod) return null;
+  const s = mod.settings as VertexGroupFilter;
+  const update = (fn: (st: VertexGroupFilter) => void) => actions.updateModifierSettings(objectId, id, fn);
+  const missing = !!s.vertexGroup && !groups.some((g) => g.id === s.vertexGroup);
+
+  return (
+    <div className="flex items-center justify-between text-xs">
+      <label className="text-gray-400">Vertex Group</label>
+      <div className="flex items-center gap-1">
+        <select className="bg-black/40 border border-white/10 rounded px-2 py-1 text-gray-200 max-w-[8rem]" value={s.vertexGroup ?? ''}
+          onChange={(e) => update((st) => { st.vertexGroup = e.target.value || null; })}>
+          <option value="">All</option>
+          {missing && <option value={s.vertexGroup!}>Missing</option>}
+          {groups.map((g) => (
+            <option key={g.id} value={g.id}>{g.name}</option>
+          ))}
+        </select>
+        <button
+          className={`p-1 rounded border border-white/10 ${s.invertVertexGroup ? 'bg-white/15 text-white' : 'text-gray-400 hover:bg-white/10'} disabled:opacity-40`}
+          title="Invert vertex group"
+          disabled={!s.vertexGroup}
+          onClick={() => update((st) => { st.invertVertexGroup = !st.invertVertexGroup; })}
+        >
+          <ArrowLeftRight className="w-3 h-3" />
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -3,15 +3,22 @@ import React from 'react';
 import { DragInput } from '@/components/drag-input';
 import { useModifiersStore, useObjectModifiers } from '@/stores/modifier-store';
 import { useAnimationStore } from '@/stores/animation-store';
+import { useMetaballStore } from '@/stores/metaball-store';
 import { Diamond as DiamondIcon } from 'lucide-react';
 
 export const VolumeToMeshSettings: React.FC<{ objectId: string; id: string }> = ({ objectId, id }) => {
   const clipId = useAnimationStore((st) => st.activeClipId);
   const actions = useModifiersStore();
   const mods = useObjectModifiers(objectId);
+  const metaballs = useMetaballStore((st) => st.metaballs);
+  const groups = React.useMemo(() => Array.from(new Set(Object.values(metaballs).map((m) => m.materialId || 'default'))), [metaballs]);
   const mod = mods.find((m) => m.id === id);
   if (!mod) return null;
-  const s = mod.settings as { threshold: number };
+  const s = mod.settings as {
+    threshold: number; source?: 'mesh' | 'metaballs'; metaballGroup?: string | null;
+    voxelSize?: number; offset?: number; smoothing?: number; adaptivity?: number;
+  };
+  const source = s.source ?? 'mesh';
   const KeyBtn: React.FC<{ path: string; value: number; title?: string }> = ({ path, value, title }) => {
     const property = `mod.${id}.${path}`;
     const has = useAnimationStore((st) => {
@@ -36,12 +43,70 @@ export const VolumeToMeshSettings: React.FC<{ objectId: string; id: string }> =
     );
   };
   return (
-    <div className="flex items-center justify-between text-xs">
-      <label className="text-gray-400">Threshold</label>
-      <div className="flex items-center">
-        <KeyBtn path="threshold" value={Math.max(0, Math.min(1, s.threshold ?? 0.5))} title="Key Threshold" />
-        <DragInput compact min={0} max={1} step={0.01} precision={2} value={Math.max(0, Math.min(1, s.threshold ?? 0.5))}
-          onChange={(v) => actions.updateModifierSettings(objectId, id, (st) => { st.threshold = Math.max(0, Math.min(1, v)); })} />
+    <div className="flex flex-col gap-2 text-xs">
+      <div className="flex items-center justify-between">
+        <label className="text-gray-400">Source</label>
+        <select
+          className="bg-black/40 border border-white/10 rounded px-2 py-1 text-gray-200"
+          value={source}
+          onChange={(e) => actions.updateModifierSettings(objectId, id, (st) => { st.source = e.target.value; })}
+        >
+          <option value="mesh">Mesh</option>
+          <option value="metaballs">Metaballs</option>
+        </select>
+      </div>
+      {source === 'metaballs' && (
+        <div className="flex items-center justify-between">
+          <label className="text-gray-400">Group</label>
+          <select
+            className="bg-black/40 border border-white/10 rounded px-2 py-1 text-gray-200"
+            value={s.metaballGroup ?? ''}
+            onChange={(e) => actions.updateModifierSettings(objectId, id, (st) => { st.metaballGroup = e.target.value || null; })}
+          >
+            <option value="">All</option>
+            {groups.map((g) => <option key={g} value={g}>{g === 'default' ? 'Default' : g}</option>)}
+          </select>
+        </div>
+      )}
+      <div className="flex items-center justify-between">
+        <label className="text-gray-400">Voxel Size</label>
+        <div className="flex items-center">
+          <KeyBtn path="voxelSize" value={Math.max(0.005, s.voxelSize ?? 0.05)} title="Key Voxel Size" />
+          <DragInput compact min={0.005} step={0.005} precision={3} value={Math.max(0.005, s.voxelSize ?? 0.05)}
+            onChange={(v) => actions.updateModifierSettings(objectId, id, (st) => { st.voxelSize = Math.max(0.005, v); })} />
+        </div>
+      </div>
+      {source === 'metaballs' ? (
+        <div className="flex items-center justify-between">
+          <label className="text-gray-400">Threshold</label>
+          <div className="flex items-center">
+            <KeyBtn path="threshold" value={Math.max(0, Math.min(1, s.threshold ?? 0.5))} title="Key Threshold" />
+            <DragInput compact min={0} max={1} step={0.01} precision={2} value={Math.max(0, Math.min(1, s.threshold ?? 0.5))}
+              onChange={(v) => actions.updateModifierSettings(objectId, id, (st) => { st.threshold = Math.max(0, Math.min(1, v)); })} />
+          </div>
+        </div>
+      ) : (
+        <div className="flex items-center justify-between">
+          <label className="text-gray-400">Offset</label>
+          <div className="flex items-center">
+            <KeyBtn path="offset" value={s.offset ?? 0} title="Key Offset" />
+            <DragInput compact step={0.01} precision={3} value={s.offset ?? 0}
+              onChange={(v) => actions.updateModifierSettings(objectId, id, (st) => { st.offset = v; })} />
+          </div>
+        </div>
+      )}
+      <div className="flex items-center justify-between">
+        <label className="text-gray-400">Smoothing</label>
+        <DragInput compact min={0} max={10} step={1} precision={0} value={Math.max(0, Math.round(s.smoothing ?? 0))}
+          onChange={(v) => actions.updateModifierSettings(objectId, id, (st) => { st.smoothing = Math.max(0, Math.min(10, Math.round(v))); })} />
+      </div>
+      <div className="flex items-center justify-between">
+        <label className="text-gray-400">Adaptivity</label>
+        <div className="flex items-center">
+          <KeyBtn path="adaptivity" value={Math.max(0, Math.min(1, s.adaptivity ?? 0))} title="Key Adaptivity" />
+          <DragInput compact min={0} max={1} step={0.01} precision={2} value={Math.max(0, Math.min(1, s.adaptivity ?? 0))}
+            onChange={(v) => actions.updateModifierSettings(objectId, id, (st) => { st.adaptivity = Math.max(0, Math.min(1, v)); })} />
+        </div>
       </div>
     </div>
   );
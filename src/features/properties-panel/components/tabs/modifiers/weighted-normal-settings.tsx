@@ -0,0 +1,42 @@
+"use client";
+import React from 'react';
+import { DragInput } from '@/components/drag-input';
+import { useModifiersStore, useObjectModifiers } from '@/stores/modifier-store';
+import type { WeightedNormalModifierSettings } from '@/utils/modifiers';
+
+export const WeightedNormalSettings: React.FC<{ objectId: string; id: string }> = ({ objectId, id }) => {
+  const actions = useModifiersStore();
+  const mods = useObjectModifiers(objectId);
+  const mod = mods.find((m) => m.id === id);
+  if (!mod) return null;
+  const s = mod.settings as WeightedNormalModifierSettings;
+  const selectClass = 'bg-black/40 border border-white/10 rounded px-2 py-1 text-gray-200';
+
+  return (
+    <div className="flex flex-col gap-2 text-xs">
+      <div className="flex items-center justify-between">
+        <label className="text-gray-400">Weighting</label>
+        <select className={selectClass} value={s.mode ?? 'area'}
+          onChange={(e) => actions.updateModifierSettings(objectId, id, (st) => { st.mode = e.target.value; })}>
+          <option value="area">Face Area</option>
+          <option value="angle">Corner Angle</option>
+          <option value="area-angle">Face Area & Angle</option>
+        </select>
+      </div>
+      <div className="flex items-center justify-between">
+        <label className="text-gray-400">Weight</label>
+        <DragInput compact step={1} precision={0} min={1} max={100} value={s.weight ?? 50}
+          onChange={(v) => actions.updateModifierSettings(objectId, id, (st) => { st.weight = Math.max(1, Math.min(100, Math.round(v))); })} />
+      </div>
+      <div className="flex items-center justify-between">
+        <label className="text-gray-400">Threshold</label>
+        <DragInput compact step={0.01} precision={3} min={0} max={10} value={s.threshold ?? 0.01}
+          onChange={(v) => actions.updateModifierSettings(objectId, id, (st) => { st.threshold = Math.max(0, v); })} />
+      </div>
+      <div className="flex items-center justify-between">
+        <label className="text-gray-400">Keep Sharp</label>
+        <input type="checkbox" checked={s.keepSharp ?? true} onChange={(e) => actions.updateModifierSettings(objectId, id, (st) => { st.keepSharp = e.target.checked; })} />
+      </div>
+    </div>
+  );
+};
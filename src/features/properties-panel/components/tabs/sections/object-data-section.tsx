@@ -5,6 +5,7 @@ import { useSceneStore } from '@/stores/scene-store';
 import { useGeometryStore } from '@/stores/geometry-store';
 import { MaterialSection } from './material-section';
 import { ShadingSection } from './shading-section';
+import { VertexGroupsSection } from './vertex-groups-section';
 
 type Props = { objectId: string };
 
@@ -29,6 +30,7 @@ export const ObjectDataSection: React.FC<Props> = ({ objectId }) => {
     <div className="space-y-2">
       <MaterialSection materialId={mesh?.materialId} onAssignMaterial={assignMaterial} />
       {mesh && <ShadingSection meshId={mesh.id} />}
+      {mesh && obj.type === 'mesh' && <VertexGroupsSection meshId={mesh.id} />}
     </div>
   );
 };
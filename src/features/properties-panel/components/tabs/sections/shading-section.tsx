@@ -3,6 +3,7 @@
 import React from 'react';
 import { useGeometryStore } from '@/stores/geometry-store';
 import Switch from '@/components/switch';
+import { DragInput } from '@/components/drag-input';
 import clsx from 'clsx';
 
 type Props = { meshId: string };
@@ -56,6 +57,22 @@ export const ShadingSection: React.FC<Props> = ({ meshId }) => {
           </button>
         </div>
       </div>
+      {(mesh.shading ?? 'flat') === 'smooth' && (
+        <>
+          <div className="flex items-center justify-between text-xs">
+            <span className="text-gray-400">Auto Smooth</span>
+            <Switch checked={mesh.autoSmoothAngle !== undefined}
+              onCheckedChange={(v) => update((m) => { if (v) m.autoSmoothAngle = 30; else delete m.autoSmoothAngle; })} />
+          </div>
+          {mesh.autoSmoothAngle !== undefined && (
+            <div className="flex items-center justify-between text-xs">
+              <span className="text-gray-400">Angle</span>
+              <DragInput compact step={1} precision={0} min={0} max={180} value={mesh.autoSmoothAngle}
+                onChange={(v) => update((m) => { m.autoSmoothAngle = Math.max(0, Math.min(180, v)); })} />
+            </div>
+          )}
+        </>
+      )}
     </div>
   );
 };
@@ -0,0 +1,106 @@
+"use client";
+
+import React, { useState } from 'react';
+import { Plus, Minus } from 'lucide-react';
+import clsx from 'clsx';
+import { useGeometryStore } from '@/stores/geometry-store';
+import { useSelectionStore } from '@/stores/selection-store';
+import { DragInput } from '@/components/drag-input';
+import { getActiveVertexGroup, vertexWeight } from '@/utils/vertex-groups';
+import type { Mesh } from '@/types/geometry';
+
+type Props = { meshId: string };
+
+// Vertex ids covered by the current edit-mode selection, whatever the selection mode
+function selectedVertexIds(mesh: Mesh): string[] {
+  const sel = useSelectionStore.getState().selection;
+  if (sel.selectionMode === 'vertex') return sel.vertexIds;
+  const ids = new Set<string>();
+  if (sel.selectionMode === 'edge') {
+    const edges = new Set(sel.edgeIds);
+    for (const e of mesh.edges) if (edges.has(e.id)) e.vertexIds.forEach((id) => ids.add(id));
+  } else {
+    const faces = new Set(sel.faceIds);
+    for (const f of mesh.faces) if (faces.has(f.id)) f.vertexIds.forEach((id) => ids.add(id));
+  }
+  return Array.from(ids);
+}
+
+export const VertexGroupsSection: React.FC<Props> = ({ meshId }) => {
+  const geo = useGeometryStore();
+  const mesh = geo.meshes.get(meshId);
+  const editing = useSelectionStore((s) => s.selection.viewMode === 'edit' && s.selection.meshId === meshId);
+  const [weight, setWeight] = useState(1);
+  const [renaming, setRenaming] = useState<string | null>(null);
+  if (!mesh) return null;
+
+  const groups = mesh.vertexGroups ?? [];
+  const active = getActiveVertexGroup(mesh);
+
+  const selectGroup = (select: boolean) => {
+    if (!active) return;
+    const inGroup = mesh.vertices.filter((v) => vertexWeight(v, active.id) > 0).map((v) => v.id);
+    const current = new Set(selectedVertexIds(mesh));
+    if (select) inGroup.forEach((id) => current.add(id));
+    else inGroup.forEach((id) => current.delete(id));
+    useSelectionStore.getState().selectVertices(meshId, Array.from(current));
+  };
+
+  return (
+    <div className="bg-white/5 border border-white/10 rounded p-2 space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="text-xs uppercase tracking-wide text-gray-400">Vertex Groups</div>
+        <div className="flex items-center gap-1">
+          <button className="p-0.5 rounded hover:bg-white/10 text-gray-400 hover:text-white" title="Add vertex group" onClick={() => geo.addVertexGroup(meshId)}>
+            <Plus className="w-3 h-3" />
+          </button>
+          <button className="p-0.5 rounded hover:bg-white/10 text-gray-400 hover:text-white disabled:opacity-40" title="Remove vertex group" disabled={!active}
+            onClick={() => active && geo.removeVertexGroup(meshId, active.id)}>
+            <Minus className="w-3 h-3" />
+          </button>
+        </div>
+      </div>
+      {groups.length === 0 ? (
+        <div className="text-xs text-gray-500">No vertex groups.</div>
+      ) : (
+        <div className="rounded border border-white/10 divide-y divide-white/5">
+          {groups.map((g) => (
+            <div key={g.id}
+              className={clsx('px-2 py-1 text-xs cursor-default', g.id === active?.id ? 'bg-white/10 text-gray-100' : 'text-gray-300 hover:bg-white/5')}
+              onClick={() => geo.setActiveVertexGroup(meshId, g.id)}
+              onDoubleClick={() => setRenaming(g.id)}
+            >
+              {renaming === g.id ? (
+                <input autoFocus defaultValue={g.name} className="w-full bg-black/40 border border-white/10 rounded px-1 text-gray-100 outline-none"
+                  onBlur={(e) => { geo.renameVertexGroup(meshId, g.id, e.target.value); setRenaming(null); }}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') (e.target as HTMLInputElement).blur();
+                    if (e.key === 'Escape') setRenaming(null);
+                    e.stopPropagation();
+                  }} />
+              ) : g.name}
+            </div>
+          ))}
+        </div>
+      )}
+      {editing && active && (
+        <>
+          <div className="flex items-center justify-between text-xs">
+            <span className="text-gray-400">Weight</span>
+            <DragInput compact step={0.01} precision={2} min={0} max={1} value={weight} onChange={(v) => setWeight(Math.max(0, Math.min(1, v)))} />
+          </div>
+          <div className="grid grid-cols-2 gap-1 text-xs">
+            <button className="px-2 py-1 rounded border border-white/10 hover:bg-white/10 text-gray-200"
+              onClick={() => geo.assignToVertexGroup(meshId, active.id, selectedVertexIds(mesh), weight)}>Assign</button>
+            <button className="px-2 py-1 rounded border border-white/10 hover:bg-white/10 text-gray-200"
+              onClick={() => geo.removeFromVertexGroup(meshId, active.id, selectedVertexIds(mesh))}>Remove</button>
+            <button className="px-2 py-1 rounded border border-white/10 hover:bg-white/10 text-gray-200" onClick={() => selectGroup(true)}>Select</button>
+            <button className="px-2 py-1 rounded border border-white/10 hover:bg-white/10 text-gray-200" onClick={() => selectGroup(false)}>Deselect</button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default VertexGroupsSection;
@@ -3,7 +3,9 @@
 import React, { useEffect } from 'react';
 import * as motion from 'motion/react-client';
 import { AnimatePresence } from 'motion/react';
+import { PenTool } from 'lucide-react';
 import { useViewMode } from '@/stores/selection-store';
+import { brushPressureFor, useToolStore } from '@/stores/tool-store';
 import { useQuickBrushStore } from '../stores/quick-brush-store';
 import { BRUSH_REGISTRY } from '../brushes/registry';
 import type { BrushShape } from '../brushes/types';
@@ -12,6 +14,7 @@ const QuickBrushBar: React.FC = () => {
   const viewMode = useViewMode();
   const activeBrush = useQuickBrushStore((s) => s.activeBrush);
   const setActiveBrush = useQuickBrushStore((s) => s.setActiveBrush);
+  const penPressure = useToolStore((s) => brushPressureFor(s, 'quick-brush').size);
 
   // Keyboard shortcuts 1–8
   useEffect(() => {
@@ -61,6 +64,19 @@ const QuickBrushBar: React.FC = () => {
             </button>
           );
         })}
+        <div className="mx-1 w-px h-6 bg-white/10" />
+        <button
+          onClick={() => useToolStore.getState().setBrushPressure('quick-brush', { size: !penPressure })}
+          title="Pen pressure sets the starting extrusion height"
+          className={[
+            'px-2 py-1.5 rounded-lg transition-all duration-100 border',
+            penPressure
+              ? 'bg-white/10 border-white/20 text-white'
+              : 'text-gray-500 hover:text-gray-300 hover:bg-white/4 border-transparent',
+          ].join(' ')}
+        >
+          <PenTool className="w-4 h-4" />
+        </button>
       </div>
     </motion.div>
   );
@@ -4,7 +4,7 @@ import React, { useEffect, useRef } from 'react';
 import { useThree } from '@react-three/fiber';
 import * as THREE from 'three';
 import { useQuickBrushStore } from '../stores/quick-brush-store';
-import { useToolStore } from '@/stores/tool-store';
+import { brushPressureFor, useToolStore } from '@/stores/tool-store';
 import { useSelectionStore } from '@/stores/selection-store';
 import { useGeometryStore } from '@/stores/geometry-store';
 import { useSceneStore } from '@/stores/scene-store';
@@ -15,6 +15,8 @@ import { castToGroundOrSurface } from '../utils/ray-utils';
 import QuickBrushPreview from './quick-brush-preview';
 import { computeRectFootprint } from '../brushes/brush-utils';
 import { snapValue } from '@/utils/grid-snapping';
+import { findSnap, isGeometrySnap, sceneSnapSources, type SnapSource } from '@/utils/snapping';
+import { FULL_PRESSURE, pressureFactor, readPen, type PenSample } from '@/utils/pen-pressure';
 
 /** Cast a ray against a fixed plane and return the intersection point, or null. */
 function castToPlane(
@@ -78,6 +80,9 @@ const QuickBrushHandler: React.FC = () => {
   // The surface plane locked at mousedown — used for jitter-free footprint dragging
   const anchorPlaneRef = useRef<THREE.Plane | null>(null);
 
+  // Firmest pen sample of the footprint drag; with pen pressure on it sets the starting height
+  const penPeakRef = useRef<PenSample>(FULL_PRESSURE);
+
   useEffect(() => {
     // Subscribe to phase changes so our event handlers always see the latest phase
     const unsub = useQuickBrushStore.subscribe((s) => {
@@ -111,7 +116,34 @@ const QuickBrushHandler: React.FC = () => {
       return meshes;
     };
 
-    const onMouseDown = (e: MouseEvent) => {
+    // Snap sources are reused across pointer events until the scene objects or meshes change, so
+    // hovering with a still camera hits findSnap's cached projections
+    let snapSources: { objects: unknown; meshes: unknown; sources: SnapSource[] } | null = null;
+    const currentSnapSources = () => {
+      const { objects } = useSceneStore.getState();
+      const { meshes } = useGeometryStore.getState();
+      if (snapSources?.objects !== objects || snapSources.meshes !== meshes) snapSources = { objects, meshes, sources: sceneSnapSources(objects, meshes) };
+      return snapSources.sources;
+    };
+
+    // Vertex / edge / face snap under the cursor (geometry snap modes); shows the indicator
+    const geometrySnap = (e: PointerEvent) => {
+      const { gridSnapping: snapping, snapMode, snapIndicator, setSnapIndicator } = useViewportStore.getState();
+      if (!snapping || !isGeometrySnap(snapMode)) return null;
+      const rect = gl.domElement.getBoundingClientRect();
+      const hit = findSnap(snapMode, new THREE.Vector2(e.clientX - rect.left, e.clientY - rect.top), { camera, width: rect.width, height: rect.height }, currentSnapSources());
+      if (hit) {
+        const { point, normal } = hit;
+        setSnapIndicator({ kind: snapMode, point: { x: point.x, y: point.y, z: point.z }, normal: normal && { x: normal.x, y: normal.y, z: normal.z } });
+      } else if (snapIndicator) {
+        setSnapIndicator(null);
+      }
+      return hit;
+    };
+    // Increment and absolute grid modes both round placement points to the grid
+    const roundsToGrid = () => gridSnapping && !isGeometrySnap(useViewportStore.getState().snapMode);
+
+    const onPointerDown = (e: PointerEvent) => {
       // Only act in brush mode
       if (!isBrushMode()) return;
       // Only left mouse button
@@ -132,7 +164,10 @@ const QuickBrushHandler: React.FC = () => {
         const hit = castToGroundOrSurface(e.clientX, e.clientY, camera, gl.domElement, getSceneMeshes());
         if (!hit) return;
 
-        const snappedPoint = gridSnapping
+        const snap = geometrySnap(e);
+        const snappedPoint = snap
+          ? { x: snap.point.x, y: snap.point.y, z: snap.point.z }
+          : roundsToGrid()
           ? {
               x: snapValue(hit.point.x, gridSize),
               y: snapValue(hit.point.y, gridSize),
@@ -149,6 +184,7 @@ const QuickBrushHandler: React.FC = () => {
           { x: hit.tangent.x, y: hit.tangent.y, z: hit.tangent.z },
         );
         useToolStore.getState().setBrushPlacing(true);
+        penPeakRef.current = readPen(e);
 
       } else if (phase === 'height') {
         // Phase 2 click: door advances to cutout; stairs advance to curve; others commit
@@ -175,19 +211,28 @@ const QuickBrushHandler: React.FC = () => {
       }
     };
 
-    const onMouseMove = (e: MouseEvent) => {
+    const onPointerMove = (e: PointerEvent) => {
       if (!isBrushMode()) return;
 
       const phase = phaseRef.current;
 
-      if (phase === 'footprint') {
+      if (phase === 'idle') {
+        // Preview where the footprint would start
+        const activeBrush = useQuickBrushStore.getState().activeBrush;
+        if (e.target === gl.domElement && activeBrush !== 'select' && activeBrush !== 'polygon') geometrySnap(e);
+        else if (useViewportStore.getState().snapIndicator) useViewportStore.getState().setSnapIndicator(null);
+      } else if (phase === 'footprint') {
+        const sample = readPen(e);
+        if (sample.pressure > penPeakRef.current.pressure) penPeakRef.current = sample;
         // Cast directly against the locked surface plane — no scene mesh traversal,
         // so the footprint is stable and jitter-free during the drag.
         const plane = anchorPlaneRef.current;
         if (!plane) return;
-        const pt = castToPlane(e.clientX, e.clientY, camera, gl.domElement, plane);
+        const snap = geometrySnap(e);
+        // Snapped targets are projected onto the locked plane to keep the footprint flat
+        const pt = snap ? plane.projectPoint(snap.point, new THREE.Vector3()) : castToPlane(e.clientX, e.clientY, camera, gl.domElement, plane);
         if (!pt) return;
-        const nextPoint = gridSnapping
+        const nextPoint = roundsToGrid()
           ? { x: snapValue(pt.x, gridSize), y: snapValue(pt.y, gridSize), z: snapValue(pt.z, gridSize) }
           : { x: pt.x, y: pt.y, z: pt.z };
         useQuickBrushStore.getState().updateFootprint({
@@ -228,9 +273,10 @@ const QuickBrushHandler: React.FC = () => {
       }
     };
 
-    const onMouseUp = (e: MouseEvent) => {
+    const onPointerUp = (e: PointerEvent) => {
       if (e.button !== 0) return;
       if (phaseRef.current === 'footprint') {
+        if (useViewportStore.getState().snapIndicator) useViewportStore.getState().setSnapIndicator(null);
         const activeBrush = useQuickBrushStore.getState().activeBrush;
         if (activeBrush === 'sphere') {
           // Sphere is one-stage: drag radius then release to commit
@@ -240,6 +286,16 @@ const QuickBrushHandler: React.FC = () => {
           return;
         }
         useQuickBrushStore.getState().beginHeight();
+        const tools = useToolStore.getState();
+        if (penPeakRef.current.pen && brushPressureFor(tools, 'quick-brush').size) {
+          // Pressing harder starts the extrusion taller, up to the footprint's larger side
+          const fp = useQuickBrushStore.getState();
+          const extent = fp.anchor && fp.current
+            ? Math.max(Math.abs(fp.current.x - fp.anchor.x), Math.abs(fp.current.y - fp.anchor.y), Math.abs(fp.current.z - fp.anchor.z))
+            : 0;
+          const h = extent * pressureFactor(penPeakRef.current, tools.pressureSizeCurve);
+          if (h > 0.1) fp.setHeight(gridSnapping ? snapValue(h, gridSize) : h);
+        }
         const store = useQuickBrushStore.getState();
         const h = store.height;
 
@@ -295,16 +351,16 @@ const QuickBrushHandler: React.FC = () => {
       }
     };
 
-    document.addEventListener('mousedown', onMouseDown);
-    document.addEventListener('mousemove', onMouseMove);
-    document.addEventListener('mouseup', onMouseUp);
+    document.addEventListener('pointerdown', onPointerDown);
+    document.addEventListener('pointermove', onPointerMove);
+    document.addEventListener('pointerup', onPointerUp);
     document.addEventListener('wheel', onWheel, { passive: false });
     document.addEventListener('keydown', onKeyDown);
 
     return () => {
-      document.removeEventListener('mousedown', onMouseDown);
-      document.removeEventListener('mousemove', onMouseMove);
-      document.removeEventListener('mouseup', onMouseUp);
+      document.removeEventListener('pointerdown', onPointerDown);
+      document.removeEventListener('pointermove', onPointerMove);
+      document.removeEventListener('pointerup', onPointerUp);
       document.removeEventListener('wheel', onWheel);
       document.removeEventListener('keydown', onKeyDown);
     };
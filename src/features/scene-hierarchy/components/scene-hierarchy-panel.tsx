@@ -8,6 +8,7 @@ import { useClipboardStore } from '@/stores/clipboard-store';
 import { ContextMenu } from '@base-ui-components/react/context-menu';
 import { SceneObject } from '@/types/geometry';
 import { useTextStore } from '@/stores/text-store';
+import { useCurveStore } from '@/stores/curve-store';
 import * as motion from "motion/react-client"
 import { HTMLMotionProps } from 'motion/react';
 
@@ -239,6 +240,13 @@ const Row: React.FC<RowProps>
 									</div>
 								</ContextMenu.Item>
 							)}
+							{type === 'curve' && (
+								<ContextMenu.Item onClick={() => { const curveId = scene.objects[id]?.curveId; if (curveId) useCurveStore.getState().convertToMesh(curveId); }}>
+									<div className="flex items-center gap-2 px-2 py-1.5">
+										<span>Convert to Mesh</span>
+									</div>
+								</ContextMenu.Item>
+							)}
 							<ContextMenu.Item onClick={() => { if (type === 'group') scene.setVisibleRecursive(id, !visible); else scene.setVisible(id, !visible); }}>
 								<div className="flex items-center gap-2 px-2 py-1.5">
 									{visible ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
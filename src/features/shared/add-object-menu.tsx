@@ -16,6 +16,8 @@ type Props = {
   onAddLight: (type: 'directional' | 'spot' | 'point' | 'ambient') => void;
   onAddCamera: (type: 'perspective' | 'orthographic') => void;
   onCreateTerrain?: (type: 'perlin' | 'voronoi' | 'mountain') => void;
+  onCreateCurve?: (type: 'bezier' | 'circle' | 'nurbs' | 'draw') => void;
+  onAddLattice?: () => void;
 };
 
 const AddObjectMenu: React.FC<Props> = ({
@@ -29,6 +31,8 @@ const AddObjectMenu: React.FC<Props> = ({
   onAddLight,
   onAddCamera,
   onCreateTerrain,
+  onCreateCurve,
+  onAddLattice,
 }) => {
   const closeIfControlled = () => { if (typeof onOpenChange === 'function') onOpenChange(false); };
 
@@ -54,6 +58,27 @@ const AddObjectMenu: React.FC<Props> = ({
               </Menu.SubmenuRoot>
             )}
 
+            {/* Curve submenu */}
+            {onCreateCurve && (
+              <Menu.SubmenuRoot>
+                <Menu.SubmenuTrigger className="w-full text-left px-3 py-1.5 hover:bg-white/10 text-gray-200">Curve</Menu.SubmenuTrigger>
+                <Menu.Portal container={portalContainer}>
+                  <Menu.Positioner sideOffset={6} className="z-90">
+                    <Menu.Popup className="min-w-44 rounded border border-white/10 bg-[#0b0e13]/95 shadow-lg py-1 text-xs z-90" style={{ zIndex: 10050 }}>
+                      <Menu.Item className="w-full text-left px-3 py-1.5 hover:bg-white/10 text-gray-200" onClick={() => { onCreateCurve('bezier'); closeIfControlled(); }}>Bezier</Menu.Item>
+                      <Menu.Item className="w-full text-left px-3 py-1.5 hover:bg-white/10 text-gray-200" onClick={() => { onCreateCurve('circle'); closeIfControlled(); }}>Circle</Menu.Item>
+                      <Menu.Item className="w-full text-left px-3 py-1.5 hover:bg-white/10 text-gray-200" onClick={() => { onCreateCurve('nurbs'); closeIfControlled(); }}>NURBS</Menu.Item>
+                      <Menu.Item className="w-full text-left px-3 py-1.5 hover:bg-white/10 text-gray-200" onClick={() => { onCreateCurve('draw'); closeIfControlled(); }}>Draw</Menu.Item>
+                    </Menu.Popup>
+                  </Menu.Positioner>
+                </Menu.Portal>
+              </Menu.SubmenuRoot>
+            )}
+
+            {onAddLattice && (
+              <Menu.Item className="w-full text-left px-3 py-1.5 hover:bg-white/10 text-gray-200" onClick={() => { onAddLattice(); closeIfControlled(); }}>Lattice</Menu.Item>
+            )}
+
             <Menu.Separator className="my-1 h-px bg-white/10" />
 
             {/* Mesh submenu */}
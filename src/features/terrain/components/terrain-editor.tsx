@@ -6,7 +6,8 @@ import '@xyflow/react/dist/style.css';
 import { useTerrainEditorStore } from '@/stores/terrain-editor-store';
 import { useTerrainStore } from '@/stores/terrain-store';
 import { useGeometryStore } from '@/stores/geometry-store';
-import type { TerrainNodeType } from '@/types/terrain';
+import type { TerrainNodeGraph, TerrainNodeType } from '@/types/terrain';
+import type { DisplaceModifierSettings } from '@/utils/modifiers';
 import { nanoid } from 'nanoid';
 import { ContextMenu } from '@base-ui-components/react/context-menu';
 import { DragInput } from '@/components/drag-input';
@@ -14,28 +15,41 @@ import { useShaderEditorHotkeys } from '@/features/materials/components/shader-e
 
 type Props = { open: boolean; onOpenChange: (v: boolean) => void };
 
-const BaseNode: React.FC<any> = ({ id, data, selected }) => {
-  const terrainId = data?.terrainId as string | undefined;
-  const graph = useGeometryStore((s) => (terrainId ? s.terrainGraphs.get(terrainId) : undefined));
-  const updateGraph = useTerrainStore((s) => s.updateGraph);
-  const regenerate = useTerrainStore((s) => s.regenerate);
-  const n = useMemo(() => graph?.nodes.find((nn: any) => nn.id === id) ?? { id, type: 'input', position: { x: 0, y: 0 }, data: {} }, [graph, id]);
-
-  const scheduleRegen = (tid?: string) => {
-    if (!tid) return;
-    const key = `__regen_graph_${tid}` as const;
-    const anyWin = globalThis as any;
-    if (anyWin[key]) clearTimeout(anyWin[key]);
-    anyWin[key] = setTimeout(() => { try { regenerate(tid); } catch {} }, 200);
+// The graph open in the editor: a terrain's (regenerated after edits settle) or a Displace
+// modifier's (the modifier stack re-evaluates from the store on its own)
+const useEditedGraph = () => {
+  const terrainId = useTerrainEditorStore((s) => s.terrainId);
+  const displace = useTerrainEditorStore((s) => s.displace);
+  const graph = useGeometryStore((s): TerrainNodeGraph | undefined => {
+    if (!displace) return terrainId ? s.terrainGraphs.get(terrainId) : undefined;
+    const mod = s.modifierStacks[displace.objectId]?.find((m) => m.id === displace.modifierId);
+    return (mod?.settings as DisplaceModifierSettings | undefined)?.graph;
+  });
+  const key = displace ? `displace:${displace.modifierId}` : terrainId;
+  const update = (updater: (g: TerrainNodeGraph) => void) => {
+    if (displace) {
+      useGeometryStore.getState().updateModifierSettings(displace.objectId, displace.modifierId, (st: DisplaceModifierSettings) => { if (st.graph) updater(st.graph); });
+    } else if (terrainId) {
+      useTerrainStore.getState().updateGraph(terrainId, updater);
+    }
+  };
+  const changed = () => {
+    if (displace || !terrainId) return;
+    const anyWin: any = globalThis; const k = `__regen_graph_${terrainId}`; if (anyWin[k]) clearTimeout(anyWin[k]); anyWin[k] = setTimeout(() => { try { useTerrainStore.getState().regenerate(terrainId); } catch {} }, 200);
   };
+  return { key, graph, isDisplace: !!displace, update, changed };
+};
+
+const BaseNode: React.FC<any> = ({ id, selected }) => {
+  const { graph, update, changed } = useEditedGraph();
+  const n = useMemo(() => graph?.nodes.find((nn: any) => nn.id === id) ?? { id, type: 'input', position: { x: 0, y: 0 }, data: {} }, [graph, id]);
 
   const setData = (patch: Record<string, any>) => {
-    if (!terrainId) return;
-    updateGraph(terrainId, (g) => {
+    update((g) => {
       const node = g.nodes.find((nn: any) => nn.id === id);
       if (node) node.data = { ...(node as any).data, ...patch };
     });
-    scheduleRegen(terrainId);
+    changed();
   };
   return (
     <div className={`rounded-md border ${selected ? 'border-white/20 bg-[#141a22]/95' : 'border-white/10 bg-[#0f141b]/90'} text-gray-200 text-xs min-w-[200px] transition-colors relative`}>
@@ -194,11 +208,8 @@ const BaseNode: React.FC<any> = ({ id, data, selected }) => {
 export const TerrainEditor: React.FC<Props> = ({ open }) => {
   const teOpen = useTerrainEditorStore((s) => s.open);
   const setTeOpen = useTerrainEditorStore((s) => s.setOpen);
-  const teTerrainId = useTerrainEditorStore((s) => s.terrainId);
   const effectiveOpen = teOpen ?? open;
-
-  const { updateGraph } = useTerrainStore();
-  const graph = useGeometryStore((s) => (teTerrainId ? s.terrainGraphs.get(teTerrainId) : undefined));
+  const { key: graphKey, graph, isDisplace, update: updateGraph, changed } = useEditedGraph();
 
   const [portalContainer, setPortalContainer] = useState<HTMLElement | null>(null);
   const [cmPos, setCmPos] = useState<{ x: number; y: number } | null>(null);
@@ -209,7 +220,7 @@ export const TerrainEditor: React.FC<Props> = ({ open }) => {
 
   const nodeTypes = useMemo(() => ({ default: BaseNode, input: BaseNode, output: BaseNode, perlin: BaseNode, voronoi: BaseNode, mountain: BaseNode, crater: BaseNode, canyon: BaseNode, dunes: BaseNode, badlands: BaseNode } as unknown as NodeTypes), []);
 
-  const defaultNodes = useMemo(() => (graph?.nodes ?? []).map((n: any) => ({ id: n.id, type: n.type as any, position: n.position as any, data: { terrainId: teTerrainId }, dragHandle: '.rf-drag', draggable: true })), [graph?.nodes, teTerrainId]);
+  const defaultNodes = useMemo(() => (graph?.nodes ?? []).map((n: any) => ({ id: n.id, type: n.type as any, position: n.position as any, data: {}, dragHandle: '.rf-drag', draggable: true })), [graph?.nodes]);
   const defaultEdges = useMemo(() => (graph?.edges ?? []).map((e: any) => ({ id: e.id, source: e.source, target: e.target, sourceHandle: e.sourceHandle, targetHandle: e.targetHandle })), [graph?.edges]);
   const defaultEdgeOptions = useMemo(() => ({ animated: true }), []);
 
@@ -217,14 +228,14 @@ export const TerrainEditor: React.FC<Props> = ({ open }) => {
   const containerRef = useRef<HTMLDivElement>(null);
 
   const deleteSelection = () => {
-    if (!teTerrainId || !graph) return;
+    if (!graph) return;
     const nodes = rf?.getNodes() ?? [];
     const edges = rf?.getEdges() ?? [];
     const selNodeIds = new Set(nodes.filter((n: any) => (n as any).selected).map((n: any) => n.id));
     const selEdgeIds = new Set(edges.filter((e: any) => (e as any).selected).map((e: any) => e.id));
     if (selNodeIds.size === 0 && selEdgeIds.size === 0) return;
 
-    updateGraph(teTerrainId, (g) => {
+    updateGraph((g) => {
       if (selEdgeIds.size) {
         g.edges = g.edges.filter((e: any) => !selEdgeIds.has(e.id));
       }
@@ -243,10 +254,7 @@ export const TerrainEditor: React.FC<Props> = ({ open }) => {
       if (selNodeIds.size) rf.setNodes((nds: any) => nds.filter((n: any) => !selNodeIds.has(n.id)) as any);
     }
 
-    const anyWin: any = globalThis;
-    const key = `__regen_graph_${teTerrainId}`;
-    if (anyWin[key]) clearTimeout(anyWin[key]);
-    anyWin[key] = setTimeout(() => { try { useTerrainStore.getState().regenerate(teTerrainId); } catch {} }, 200);
+    changed();
   };
 
   // Use the same hotkey handling as the shader editor so key events are captured at
@@ -260,7 +268,7 @@ export const TerrainEditor: React.FC<Props> = ({ open }) => {
   });
 
   const addNodeAt = (type: TerrainNodeType, clientPos?: { x: number; y: number } | null) => {
-    if (!teTerrainId) return;
+    if (!graph) return;
     const id = nanoid();
     const basePos = clientPos && rf?.screenToFlowPosition ? rf.screenToFlowPosition(clientPos) : ({ x: 220, y: 120 } as any);
     const data = type === 'perlin'
@@ -279,8 +287,8 @@ export const TerrainEditor: React.FC<Props> = ({ open }) => {
                   ? { seed: Math.floor(Math.random() * 1e9), scale: 3, erosion: 0.7, layers: 8, hardness: 0.6, steepness: 1.2, roughness: 0.4, octaves: 5, operation: 'add', amount: 1 }
                   : {};
     const node: any = { id, type, position: basePos, data };
-    if (rf) rf.addNodes([{ id, type: type as any, position: basePos, data: { terrainId: teTerrainId }, dragHandle: '.rf-drag', draggable: true }]);
-    updateGraph(teTerrainId, (g) => { g.nodes = [...g.nodes, node]; });
+    if (rf) rf.addNodes([{ id, type: type as any, position: basePos, data: {}, dragHandle: '.rf-drag', draggable: true }]);
+    updateGraph((g) => { g.nodes = [...g.nodes, node]; });
   };
 
   const onPaneContextMenu: React.MouseEventHandler = (e) => {
@@ -302,7 +310,7 @@ export const TerrainEditor: React.FC<Props> = ({ open }) => {
     <div className="absolute z-40 pointer-events-auto w-[min(1100px,calc(100%-18rem))]" style={{ left: `50%`, transform: 'translateX(-50%)', bottom: `16px` }}>
       <div className="mx-auto mb-4 h-[calc(50vh-0.75rem)] rounded-lg border border-white/10 bg-black/60 backdrop-blur-lg shadow-xl overflow-hidden" style={{ background: 'rgba(11,14,19,0.6)', backdropFilter: 'blur(16px)' }}>
         <div className="px-3 h-9 flex items-center justify-between border-b border-white/10 bg-transparent text-gray-300 text-xs">
-          <div className="uppercase tracking-wide">Terrain Editor</div>
+          <div className="uppercase tracking-wide">{isDisplace ? 'Displace Graph' : 'Terrain Editor'}</div>
           <div className="flex items-center gap-2">
             <button className="px-2 py-1 rounded border border-white/10 hover:bg-white/10" onClick={() => setTeOpen(false)}>Close</button>
           </div>
@@ -312,7 +320,7 @@ export const TerrainEditor: React.FC<Props> = ({ open }) => {
             <ContextMenu.Root open={cmOpen} onOpenChange={setCmOpen}>
               <div className="block h-full" onContextMenu={onPaneContextMenu}>
                 <ReactFlow
-                  key={teTerrainId || 'no-terrain'}
+                  key={graphKey || 'no-terrain'}
                   defaultNodes={defaultNodes}
                   defaultEdges={defaultEdges}
                   nodeTypes={nodeTypes}
@@ -321,10 +329,10 @@ export const TerrainEditor: React.FC<Props> = ({ open }) => {
                   nodesDraggable
                   defaultEdgeOptions={defaultEdgeOptions}
                   edgesReconnectable
-                  onConnect={(c) => { if (!teTerrainId) return; const id = nanoid(); updateGraph(teTerrainId, (g) => { g.edges = [...g.edges, { id, source: c.source!, target: c.target!, sourceHandle: c.sourceHandle || 'out', targetHandle: c.targetHandle || 'in' } as any]; }); const anyWin: any = globalThis; const key = `__regen_graph_${teTerrainId}`; if (anyWin[key]) clearTimeout(anyWin[key]); anyWin[key] = setTimeout(() => { try { useTerrainStore.getState().regenerate(teTerrainId); } catch {} }, 200); }}
+                  onConnect={(c) => { if (!graph) return; const id = nanoid(); updateGraph((g) => { g.edges = [...g.edges, { id, source: c.source!, target: c.target!, sourceHandle: c.sourceHandle || 'out', targetHandle: c.targetHandle || 'in' } as any]; }); changed(); }}
                   onNodesChange={(changes) => {
-                    if (!teTerrainId) return;
-                    updateGraph(teTerrainId, (g) => {
+                    if (!graph) return;
+                    updateGraph((g) => {
                       changes.forEach((ch: any) => {
                         if (ch.type === 'position' && ch.id) {
                           const n = g.nodes.find((nn) => nn.id === ch.id);
@@ -338,18 +346,18 @@ export const TerrainEditor: React.FC<Props> = ({ open }) => {
                         }
                       });
                     });
-                    const anyWin: any = globalThis; const key = `__regen_graph_${teTerrainId}`; if (anyWin[key]) clearTimeout(anyWin[key]); anyWin[key] = setTimeout(() => { try { useTerrainStore.getState().regenerate(teTerrainId); } catch {} }, 200);
+                    changed();
                   }}
                   onEdgesChange={(changes) => {
-                    if (!teTerrainId) return;
-                    updateGraph(teTerrainId, (g) => {
+                    if (!graph) return;
+                    updateGraph((g) => {
                       changes.forEach((ch: any) => {
                         if (ch.type === 'remove' && ch.id) {
                           g.edges = g.edges.filter((e) => e.id !== ch.id);
                         }
                       });
                     });
-                    const anyWin: any = globalThis; const key = `__regen_graph_${teTerrainId}`; if (anyWin[key]) clearTimeout(anyWin[key]); anyWin[key] = setTimeout(() => { try { useTerrainStore.getState().regenerate(teTerrainId); } catch {} }, 200);
+                    changed();
                   }}
                   connectionMode={ConnectionMode.Loose}
                   onInit={(instance) => setRf(instance as any)}
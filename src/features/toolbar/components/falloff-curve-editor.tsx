@@ -0,0 +1,85 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import type { CurvePoint } from '@/utils/brush-curve';
+
+type Props = {
+  points: CurvePoint[];
+  onChange: (points: CurvePoint[]) => void;
+  width?: number;
+  height?: number;
+};
+
+// Brush response curve: drag points (the ends only move vertically), click empty space to add a
+// point, right-click a middle point to remove it. x runs from 0 (brush centre, no pressure) to 1.
+export const FalloffCurveEditor: React.FC<Props> = ({ points, onChange, width = 120, height = 44 }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [dragging, setDragging] = useState<number | null>(null);
+  const pad = 4;
+  const toScreen = (p: CurvePoint) => ({ x: pad + p.x * (width - pad * 2), y: pad + (1 - p.y) * (height - pad * 2) });
+  const toCurve = (e: React.PointerEvent): CurvePoint => {
+    const r = svgRef.current!.getBoundingClientRect();
+    return {
+      x: Math.max(0, Math.min(1, (e.clientX - r.left - pad) / (width - pad * 2))),
+      y: Math.max(0, Math.min(1, 1 - (e.clientY - r.top - pad) / (height - pad * 2))),
+    };
+  };
+
+  const move = (e: React.PointerEvent) => {
+    if (dragging == null) return;
+    const c = toCurve(e);
+    const last = points.length - 1;
+    const lo = dragging === 0 ? 0 : points[dragging - 1].x;
+    const hi = dragging === last ? 1 : points[dragging + 1].x;
+    const x = dragging === 0 ? 0 : dragging === last ? 1 : Math.max(lo, Math.min(hi, c.x));
+    onChange(points.map((p, i) => (i === dragging ? { x, y: c.y } : p)));
+  };
+
+  const add = (e: React.PointerEvent) => {
+    if (e.button !== 0 || e.target !== svgRef.current) return;
+    const c = toCurve(e);
+    const next = [...points, c].sort((a, b) => a.x - b.x);
+    onChange(next);
+    setDragging(next.indexOf(c));
+    svgRef.current?.setPointerCapture(e.pointerId);
+  };
+
+  const path = points.map((p, i) => `${i ? 'L' : 'M'}${toScreen(p).x},${toScreen(p).y}`).join(' ');
+  return (
+    <svg
+      ref={svgRef}
+      width={width}
+      height={height}
+      className="bg-black/20 border border-white/10 rounded cursor-crosshair"
+      onPointerDown={add}
+      onPointerMove={move}
+      onPointerUp={() => setDragging(null)}
+    >
+      <path d={path} fill="none" stroke="#d1d5db" strokeWidth={1.5} />
+      {points.map((p, i) => {
+        const s = toScreen(p);
+        return (
+          <circle
+            key={i}
+            cx={s.x}
+            cy={s.y}
+            r={3.5}
+            className={`cursor-grab ${dragging === i ? 'fill-white' : 'fill-gray-400 hover:fill-white'}`}
+            onPointerDown={(e) => {
+              if (e.button !== 0) return;
+              e.stopPropagation();
+              setDragging(i);
+              svgRef.current?.setPointerCapture(e.pointerId);
+            }}
+            onContextMenu={(e) => {
+              e.preventDefault();
+              if (i > 0 && i < points.length - 1) onChange(points.filter((_, j) => j !== i));
+            }}
+          />
+        );
+      })}
+    </svg>
+  );
+};
+
+export default FalloffCurveEditor;
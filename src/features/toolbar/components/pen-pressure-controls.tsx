@@ -0,0 +1,49 @@
+'use client';
+
+import React from 'react';
+import { brushPressureFor, useToolStore, type PressureBrush } from '@/stores/tool-store';
+import { FalloffCurveEditor } from './falloff-curve-editor';
+
+// Pen pressure toggles for one brush, with the response curve of each enabled mapping
+export const PenPressureControls: React.FC<{ brush: PressureBrush; tilt?: boolean }> = ({ brush, tilt }) => {
+  const tools = useToolStore();
+  const pressure = brushPressureFor(tools, brush);
+  return (
+    <div className="flex items-center gap-2">
+      <label className="text-[10px] opacity-70" title="Pen pressure (drawing tablets)">Pen</label>
+      <label className="flex items-center gap-1 text-xs text-gray-300" title="Pressure scales the brush radius">
+        <input
+          type="checkbox"
+          checked={pressure.size}
+          onChange={(e) => tools.setBrushPressure(brush, { size: e.target.checked })}
+          className="accent-white/80"
+        />
+        Size
+      </label>
+      {pressure.size && <FalloffCurveEditor points={tools.pressureSizeCurve} onChange={tools.setPressureSizeCurve} width={64} height={32} />}
+      <label className="flex items-center gap-1 text-xs text-gray-300" title="Pressure scales the brush strength">
+        <input
+          type="checkbox"
+          checked={pressure.strength}
+          onChange={(e) => tools.setBrushPressure(brush, { strength: e.target.checked })}
+          className="accent-white/80"
+        />
+        Strength
+      </label>
+      {pressure.strength && <FalloffCurveEditor points={tools.pressureStrengthCurve} onChange={tools.setPressureStrengthCurve} width={64} height={32} />}
+      {tilt && (
+        <label className="flex items-center gap-1 text-xs text-gray-300" title="Pen tilt turns the texture alpha">
+          <input
+            type="checkbox"
+            checked={tools.penTiltRotatesAlpha}
+            onChange={(e) => tools.setPenTiltRotatesAlpha(e.target.checked)}
+            className="accent-white/80"
+          />
+          Tilt
+        </label>
+      )}
+    </div>
+  );
+};
+
+export default PenPressureControls;
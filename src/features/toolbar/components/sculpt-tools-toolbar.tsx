@@ -1,9 +1,17 @@
 'use client';
 
-import React from 'react';
+import React, { useRef } from 'react';
 import { useSelection } from '@/stores/selection-store';
 import { useToolStore } from '@/stores/tool-store';
-import type { ToolMode } from '@/stores/tool-store';
+import type { BrushFalloff, StrokeMethod, ToolMode } from '@/stores/tool-store';
+import { ensureFileIdForBlob, getImagePixels, listAllFiles } from '@/stores/files-store';
+import { useGeometryStore } from '@/stores/geometry-store';
+import { voxelRemesh } from '@/utils/modifiers';
+import type { Mesh } from '@/types/geometry';
+import { clearMask, growMask, invertMask, shrinkMask } from '@/utils/sculpt-mask';
+import { assignFaceSet, faceSetIds, hideFaceSet, isolateFaceSet, nextFaceSetId, showAllFaces } from '@/utils/face-sets';
+import { FalloffCurveEditor } from './falloff-curve-editor';
+import { PenPressureControls } from './pen-pressure-controls';
 
 type SculptBtn = {
   tool: ToolMode;
@@ -33,15 +41,59 @@ const sculptButtons: SculptBtn[] = [
   { tool: 'sculpt-thumb', label: 'Thumb', tip: 'Flatten while pushing', icon: '👍' },
   { tool: 'sculpt-nudge', label: 'Nudge', tip: 'Move along stroke', icon: '➡' },
   { tool: 'sculpt-rotate', label: 'Rotate', tip: 'Rotate within brush', icon: '⟲' },
-  { tool: 'sculpt-simplify', label: 'Simplify', tip: 'Collapse short edges (dyn topo)', icon: '▦' },
+  { tool: 'sculpt-simplify', label: 'Simplify', tip: 'Rebuild topology to the dyntopo detail size', icon: '▦' },
+  { tool: 'sculpt-mask', label: 'Mask', tip: 'Paint mask to protect areas (Ctrl erases)', icon: '◐' },
+  { tool: 'sculpt-face-set', label: 'Face Set', tip: 'Paint a new face set (Ctrl extends the active set)', icon: '▧' },
 ];
 
 export const SculptToolsToolbar: React.FC = () => {
   const selection = useSelection();
   const tools = useToolStore();
+  const mesh = useGeometryStore((s) => (selection.meshId ? s.meshes.get(selection.meshId) : undefined));
+  const groups = mesh?.vertexGroups ?? [];
+  const alphaInputRef = useRef<HTMLInputElement>(null);
 
   if (selection.viewMode !== 'edit' || tools.editPalette !== 'sculpt') return null;
 
+  // Rebuild even topology after heavy grab/snake-hook strokes; reprojected so the shape is kept
+  const remesh = () => {
+    const meshId = selection.meshId;
+    const geo = useGeometryStore.getState();
+    const mesh = meshId ? geo.meshes.get(meshId) : undefined;
+    if (!meshId || !mesh) return;
+    const out = voxelRemesh(mesh, { mode: 'quads', voxelSize: tools.remeshVoxelSize, reproject: true, transferAttributes: true });
+    if (out === mesh) return;
+    geo.replaceGeometry(meshId, out.vertices, out.faces);
+  };
+
+  const edit = (fn: (m: Mesh) => void) => {
+    if (selection.meshId) useGeometryStore.getState().updateMesh(selection.meshId, fn);
+  };
+
+  // New face set from the faces selected before switching to sculpting
+  const faceSetFromSelection = () => {
+    if (!mesh || !selection.faceIds.length) return;
+    const id = nextFaceSetId(mesh);
+    edit((m) => assignFaceSet(m, selection.faceIds, id));
+    tools.setActiveFaceSet(id);
+  };
+
+  const faceSets = mesh ? faceSetIds(mesh) : [];
+  const activeFaceSet = tools.activeFaceSet != null && faceSets.includes(tools.activeFaceSet) ? tools.activeFaceSet : null;
+
+  const images = listAllFiles().filter((f) => f.mime.startsWith('image/') && f.mime !== 'image/ktx2');
+  // Start decoding right away so the first dab already has the alpha
+  const setAlpha = (id: string | null) => {
+    if (id) getImagePixels(id);
+    tools.setBrushAlphaId(id);
+  };
+  const onAlphaChosen = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const f = e.target.files?.[0];
+    e.target.value = '';
+    if (!f) return;
+    setAlpha(await ensureFileIdForBlob(f, f.name));
+  };
+
   const start = (tool: typeof sculptButtons[number]['tool']) => {
     if (tools.isActive && tools.tool === tool) return;
     tools.startOperation(tool, null);
@@ -103,12 +155,15 @@ export const SculptToolsToolbar: React.FC = () => {
             <select
               className="bg-black/20 border border-white/10 rounded px-2 py-1 text-xs"
               value={tools.brushFalloff}
-              onChange={(e) => tools.setBrushFalloff(e.target.value as any)}
+              onChange={(e) => tools.setBrushFalloff(e.target.value as BrushFalloff)}
             >
               <option value="smooth">Smooth</option>
               <option value="linear">Linear</option>
               <option value="sharp">Sharp</option>
+              <option value="constant">Constant</option>
+              <option value="curve">Custom Curve</option>
             </select>
+            {tools.brushFalloff === 'curve' && <FalloffCurveEditor points={tools.brushCurve} onChange={tools.setBrushCurve} />}
           </div>
 
           {/* Conditional brush options */}
@@ -143,25 +198,242 @@ export const SculptToolsToolbar: React.FC = () => {
           )}
 
           {/* Symmetry controls */}
+          <div className="flex items-center gap-1">
+            <label className="text-[10px] opacity-70 mr-1">Symmetry</label>
+            {(['x', 'y', 'z'] as const).map((a) => (
+              <button
+                key={a}
+                className={`px-2 py-1 text-xs rounded-md border border-white/10 transition-colors ${
+                  tools.symmetry[a] ? 'bg-white/10 text-white' : 'text-gray-300 hover:text-white hover:bg-white/5'
+                }`}
+                title={`Mirror strokes across the local ${a.toUpperCase()} axis`}
+                onClick={() => tools.toggleSymmetryAxis(a)}
+              >
+                {a.toUpperCase()}
+              </button>
+            ))}
+          </div>
+
+          {/* Vertex group mask */}
+          <div className="flex items-center gap-2">
+            <label className="text-[10px] opacity-70">Group</label>
+            <select
+              className="bg-black/20 border border-white/10 rounded px-2 py-1 text-xs"
+              title="Only sculpt vertices in this vertex group, scaled by their weight"
+              value={groups.some((g) => g.id === tools.sculptVertexGroupId) ? tools.sculptVertexGroupId! : ''}
+              onChange={(e) => tools.setSculptVertexGroupId(e.target.value || null)}
+            >
+              <option value="">All</option>
+              {groups.map((g) => (
+                <option key={g.id} value={g.id}>{g.name}</option>
+              ))}
+            </select>
+          </div>
+
+          {/* Dynamic topology */}
           <div className="flex items-center gap-2">
-            <label className="text-[10px] opacity-70">Symmetry</label>
+            <label className="text-[10px] opacity-70">Dyntopo</label>
             <input
               type="checkbox"
-              checked={tools.symmetryEnabled}
-              onChange={(e) => tools.setSymmetryEnabled(e.target.checked)}
+              checked={tools.dyntopoEnabled}
+              onChange={(e) => tools.setDyntopoEnabled(e.target.checked)}
               className="accent-white/80"
             />
             <select
               className="bg-black/20 border border-white/10 rounded px-2 py-1 text-xs"
-              value={tools.symmetryAxis}
-              onChange={(e) => tools.setSymmetryAxis(e.target.value as any)}
-              disabled={!tools.symmetryEnabled}
+              title="Detail size in screen pixels (relative) or world units (constant)"
+              value={tools.dyntopoMode}
+              onChange={(e) => tools.setDyntopoMode(e.target.value as 'relative' | 'constant')}
             >
-              <option value="x">X</option>
-              <option value="y">Y</option>
-              <option value="z">Z</option>
+              <option value="relative">Relative</option>
+              <option value="constant">Constant</option>
             </select>
+            {tools.dyntopoMode === 'relative' ? (
+              <input
+                type="number"
+                min={1}
+                step={1}
+                value={tools.dyntopoDetailPx}
+                onChange={(e) => tools.setDyntopoDetailPx(parseFloat(e.target.value) || 12)}
+                className="w-14 bg-black/20 border border-white/10 rounded px-2 py-1 text-xs"
+                title="Detail size (px)"
+              />
+            ) : (
+              <input
+                type="number"
+                min={0.001}
+                step={0.005}
+                value={tools.dyntopoDetailSize}
+                onChange={(e) => tools.setDyntopoDetailSize(parseFloat(e.target.value) || 0.05)}
+                className="w-16 bg-black/20 border border-white/10 rounded px-2 py-1 text-xs"
+                title="Detail size (world units)"
+              />
+            )}
           </div>
+
+          {/* Voxel remesh */}
+          <div className="flex items-center gap-2">
+            <label className="text-[10px] opacity-70">Voxel</label>
+            <input
+              type="number"
+              min={0.005}
+              step={0.005}
+              value={tools.remeshVoxelSize}
+              onChange={(e) => tools.setRemeshVoxelSize(parseFloat(e.target.value) || 0.05)}
+              className="w-16 bg-black/20 border border-white/10 rounded px-2 py-1 text-xs"
+            />
+            <button
+              className="px-2 py-1 text-xs rounded-md text-gray-300 hover:text-white hover:bg-white/5 border border-white/10"
+              title="Voxel remesh: rebuild even quad topology"
+              onClick={remesh}
+            >
+              Remesh
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Row 3: Stroke method and texture alpha */}
+      <div className="bg-black/40 backdrop-blur-md border border-white/10 rounded-xl shadow-lg shadow-black/30 px-3 py-1.5">
+        <div className="flex items-center gap-3 flex-wrap text-xs">
+          <div className="flex items-center gap-2">
+            <label className="text-[10px] opacity-70">Stroke</label>
+            <select
+              className="bg-black/20 border border-white/10 rounded px-2 py-1 text-xs"
+              title="Grab, snake hook, thumb, nudge and rotate always dab on every move"
+              value={tools.strokeMethod}
+              onChange={(e) => tools.setStrokeMethod(e.target.value as StrokeMethod)}
+            >
+              <option value="dots">Dots</option>
+              <option value="space">Space</option>
+              <option value="drag-dot">Drag Dot</option>
+              <option value="line">Line</option>
+              <option value="anchored">Anchored</option>
+            </select>
+            {(tools.strokeMethod === 'space' || tools.strokeMethod === 'line') && (
+              <input
+                type="number"
+                min={0.01}
+                step={0.05}
+                value={tools.strokeSpacing}
+                onChange={(e) => tools.setStrokeSpacing(parseFloat(e.target.value) || 0.2)}
+                className="w-14 bg-black/20 border border-white/10 rounded px-2 py-1 text-xs"
+                title="Spacing between dabs (fraction of the brush radius)"
+              />
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <label className="text-[10px] opacity-70">Lazy</label>
+            <input
+              type="checkbox"
+              checked={tools.lazyMouse}
+              onChange={(e) => tools.setLazyMouse(e.target.checked)}
+              className="accent-white/80"
+              title="Stabilise strokes: the brush trails the cursor on a string"
+            />
+            {tools.lazyMouse && (
+              <>
+                <input
+                  type="number"
+                  min={0}
+                  step={0.1}
+                  value={tools.lazyRadius}
+                  onChange={(e) => tools.setLazyRadius(parseFloat(e.target.value) || 0)}
+                  className="w-14 bg-black/20 border border-white/10 rounded px-2 py-1 text-xs"
+                  title="String length (fraction of the brush radius)"
+                />
+                <input
+                  type="range"
+                  min={0.01}
+                  max={1}
+                  step={0.01}
+                  value={tools.lazyFactor}
+                  onChange={(e) => tools.setLazyFactor(parseFloat(e.target.value))}
+                  className="h-1 w-20 bg-white/10 rounded appearance-none outline-none [accent-color:#9aa0a6]"
+                  title="How quickly the brush catches up"
+                />
+              </>
+            )}
+          </div>
+          {tools.isActive && tools.tool.startsWith('sculpt-') && (
+            <>
+              <div className="mx-1 w-px h-4 bg-white/10" />
+              <PenPressureControls brush={tools.tool} tilt={!!tools.brushAlphaId} />
+            </>
+          )}
+          <div className="mx-1 w-px h-4 bg-white/10" />
+          <div className="flex items-center gap-2">
+            <label className="text-[10px] opacity-70">Alpha</label>
+            <select
+              className="bg-black/20 border border-white/10 rounded px-2 py-1 text-xs max-w-[9rem]"
+              title="Grayscale image modulating the brush"
+              value={tools.brushAlphaId ?? ''}
+              onChange={(e) => setAlpha(e.target.value || null)}
+            >
+              <option value="">None</option>
+              {images.map((f) => (
+                <option key={f.id} value={f.id}>{f.name}</option>
+              ))}
+            </select>
+            <button className="px-2 py-1 rounded-md text-gray-300 hover:text-white hover:bg-white/5 border border-white/10" onClick={() => alphaInputRef.current?.click()}>Load…</button>
+            <input ref={alphaInputRef} type="file" accept="image/png,image/jpeg,image/webp" className="hidden" onChange={onAlphaChosen} />
+            {tools.brushAlphaId && (
+              <>
+                <input
+                  type="number"
+                  step={5}
+                  value={tools.brushAlphaRotation}
+                  onChange={(e) => tools.setBrushAlphaRotation(parseFloat(e.target.value) || 0)}
+                  className="w-14 bg-black/20 border border-white/10 rounded px-2 py-1 text-xs"
+                  title="Rotation (degrees)"
+                />
+                <input
+                  type="number"
+                  min={0.01}
+                  step={0.1}
+                  value={tools.brushAlphaScale}
+                  onChange={(e) => tools.setBrushAlphaScale(parseFloat(e.target.value) || 1)}
+                  className="w-14 bg-black/20 border border-white/10 rounded px-2 py-1 text-xs"
+                  title="Scale (relative to the brush diameter)"
+                />
+                <select
+                  className="bg-black/20 border border-white/10 rounded px-2 py-1 text-xs"
+                  value={tools.brushAlphaTiling}
+                  onChange={(e) => tools.setBrushAlphaTiling(e.target.value as 'stamp' | 'tiled')}
+                >
+                  <option value="stamp">Stamp</option>
+                  <option value="tiled">Tiled</option>
+                </select>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Row 4: Mask and face sets */}
+      <div className="bg-black/40 backdrop-blur-md border border-white/10 rounded-xl shadow-lg shadow-black/30 px-3 py-1.5">
+        <div className="flex items-center gap-2 flex-wrap text-xs">
+          <label className="text-[10px] opacity-70">Mask</label>
+          <button className="px-2 py-1 rounded-md text-gray-300 hover:text-white hover:bg-white/5 border border-white/10" onClick={() => edit(invertMask)}>Invert</button>
+          <button className="px-2 py-1 rounded-md text-gray-300 hover:text-white hover:bg-white/5 border border-white/10" onClick={() => edit(clearMask)}>Clear</button>
+          <button className="px-2 py-1 rounded-md text-gray-300 hover:text-white hover:bg-white/5 border border-white/10" title="Grow the mask by one edge ring" onClick={() => edit(growMask)}>Grow</button>
+          <button className="px-2 py-1 rounded-md text-gray-300 hover:text-white hover:bg-white/5 border border-white/10" title="Shrink the mask by one edge ring" onClick={() => edit(shrinkMask)}>Shrink</button>
+          <div className="mx-1 w-px h-4 bg-white/10" />
+          <label className="text-[10px] opacity-70">Face Set</label>
+          <select
+            className="bg-black/20 border border-white/10 rounded px-2 py-1 text-xs"
+            value={activeFaceSet ?? ''}
+            onChange={(e) => tools.setActiveFaceSet(e.target.value === '' ? null : Number(e.target.value))}
+          >
+            <option value="">None</option>
+            {faceSets.map((id) => (
+              <option key={id} value={id}>{id === 0 ? 'Default' : `Set ${id}`}</option>
+            ))}
+          </select>
+          <button className="px-2 py-1 rounded-md text-gray-300 hover:text-white hover:bg-white/5 border border-white/10 disabled:opacity-40" title="New face set from the selected faces" disabled={!selection.faceIds.length} onClick={faceSetFromSelection}>From Selection</button>
+          <button className="px-2 py-1 rounded-md text-gray-300 hover:text-white hover:bg-white/5 border border-white/10 disabled:opacity-40" title="Hide every other face set" disabled={activeFaceSet == null} onClick={() => activeFaceSet != null && edit((m) => isolateFaceSet(m, activeFaceSet))}>Isolate</button>
+          <button className="px-2 py-1 rounded-md text-gray-300 hover:text-white hover:bg-white/5 border border-white/10 disabled:opacity-40" title="Hide the active face set" disabled={activeFaceSet == null} onClick={() => activeFaceSet != null && edit((m) => hideFaceSet(m, activeFaceSet))}>Hide</button>
+          <button className="px-2 py-1 rounded-md text-gray-300 hover:text-white hover:bg-white/5 border border-white/10" onClick={() => edit(showAllFaces)}>Show All</button>
         </div>
       </div>
     </div>
@@ -3,12 +3,16 @@
 import React from 'react';
 import AddObjectMenu from '@/features/shared/add-object-menu';
 import { useTerrainStore } from '@/stores/terrain-store';
+import { useCurveStore } from '@/stores/curve-store';
+import { useLatticeStore } from '@/stores/lattice-store';
 import { useSelection, useSelectionStore } from '@/stores/selection-store';
 import { useViewportStore } from '@/stores/viewport-store';
 import { useSceneStore } from '@/stores/scene-store';
 import { useGeometryStore } from '@/stores/geometry-store';
 import { useShapeCreationStore } from '@/stores/shape-creation-store';
-import { useToolStore } from '@/stores/tool-store';
+import { useToolStore, type ProportionalFalloff } from '@/stores/tool-store';
+import type { SnapMode } from '@/utils/snapping';
+import { PIVOT_MODES, selectionCenterWorld, type PivotMode } from '@/utils/pivot';
 import { useFloorPlanStore } from '@/stores/floor-plan-store';
 import { buildEdgesFromFaces, calculateVertexNormals, createCubeMesh, createPlaneMesh, createCylinderMesh, createConeMesh, createUVSphereMesh, createIcoSphereMesh, createTorusMesh } from '@/utils/geometry';
 import { nanoid } from 'nanoid';
@@ -17,7 +21,7 @@ import { AIGeneratePopover } from './ai-generate-popover';
 import * as motion from "motion/react-client"
 import { AnimatePresence } from 'motion/react'
 import { Popover } from '@base-ui-components/react/popover';
-import { Magnet, Ellipsis } from 'lucide-react';
+import { Magnet, Ellipsis, CircleDot, Crosshair } from 'lucide-react';
 import { DragInput } from '@/components/drag-input';
 
 const SegButton: React.FC<React.ButtonHTMLAttributes<HTMLButtonElement> & { active?: boolean }>
@@ -230,6 +234,15 @@ const TopToolbar: React.FC = () => {
     }
   };
 
+  const enterPaint = () => {
+    if (selection.viewMode === 'paint') return;
+    const objId = selection.objectIds[0];
+    const obj = objId ? scene.objects[objId] : undefined;
+    if (!obj || obj.type !== 'mesh' || obj.locked || !obj.meshId) return;
+    if (selection.viewMode === 'brush') selectionActions.setViewMode('object');
+    selectionActions.enterPaintMode(obj.meshId);
+  };
+
   return (
     <div className="flex items-center gap-2">
       <Pill className="px-1 py-1">
@@ -252,8 +265,23 @@ const TopToolbar: React.FC = () => {
             />
             <Popover.Portal>
               <Popover.Positioner sideOffset={6} className="z-50">
-                <Popover.Popup className="rounded-lg border border-white/10 bg-[#0b0e13]/95 shadow-lg p-2 w-44 text-xs text-gray-200">
-                  <Popover.Title className="text-[11px] uppercase tracking-wide text-gray-400 mb-2">Grid Snapping</Popover.Title>
+                <Popover.Popup className="rounded-lg border border-white/10 bg-[#0b0e13]/95 shadow-lg p-2 w-48 text-xs text-gray-200 space-y-2">
+                  <Popover.Title className="text-[11px] uppercase tracking-wide text-gray-400">Snapping</Popover.Title>
+                  <label className="flex items-center justify-between gap-2">
+                    <span className="text-gray-400">Snap to</span>
+                    <select
+                      className="bg-black/40 border border-white/10 rounded px-1 py-0.5 text-xs"
+                      value={viewport.snapMode}
+                      onChange={(e) => viewport.setSnapMode(e.target.value as SnapMode)}
+                    >
+                      <option value="increment">Increment</option>
+                      <option value="grid">Grid (absolute)</option>
+                      <option value="vertex">Vertex</option>
+                      <option value="edge-midpoint">Edge Midpoint</option>
+                      <option value="edge">Edge</option>
+                      <option value="face">Face</option>
+                    </select>
+                  </label>
                   <DragInput
                     label="Grid size"
                     value={viewport.gridSize}
@@ -264,10 +292,133 @@ const TopToolbar: React.FC = () => {
                     onValueCommit={viewport.setGridSize}
                     className="w-full"
                   />
+                  {viewport.snapMode === 'face' && (
+                    <label className="flex items-center gap-2 text-gray-300" title="Moved objects turn their up axis to the snapped face's normal">
+                      <input
+                        type="checkbox"
+                        checked={viewport.snapAlignRotation}
+                        onChange={(e) => viewport.setSnapAlignRotation(e.target.checked)}
+                        className="accent-white/80"
+                      />
+                      Align rotation to surface
+                    </label>
+                  )}
+                </Popover.Popup>
+              </Popover.Positioner>
+            </Popover.Portal>
+          </Popover.Root>
+          <div className="mx-1 w-px h-4 bg-white/10" />
+          <Popover.Root>
+            <Popover.Trigger
+              render={
+                <SegButton aria-label="Pivot Point" title="Pivot Point">
+                  <Crosshair className="h-4 w-4" />
+                </SegButton>
+              }
+            />
+            <Popover.Portal>
+              <Popover.Positioner sideOffset={6} className="z-50">
+                <Popover.Popup className="rounded-lg border border-white/10 bg-[#0b0e13]/95 shadow-lg p-2 w-52 text-xs text-gray-200 space-y-2">
+                  <Popover.Title className="text-[11px] uppercase tracking-wide text-gray-400">Pivot Point</Popover.Title>
+                  <label className="flex items-center justify-between gap-2">
+                    <span className="text-gray-400">Pivot</span>
+                    <select
+                      className="bg-black/40 border border-white/10 rounded px-1 py-0.5 text-xs"
+                      value={viewport.pivotMode}
+                      onChange={(e) => viewport.setPivotMode(e.target.value as PivotMode)}
+                    >
+                      {PIVOT_MODES.map((m) => (
+                        <option key={m.value} value={m.value}>{m.label}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <div className="flex flex-col gap-1">
+                    <button
+                      className="px-2 py-1 rounded bg-white/5 hover:bg-white/10 text-left"
+                      onClick={() => {
+                        const c = selectionCenterWorld(selection, scene.objects, geometry.meshes, scene.selectedObjectId ?? undefined);
+                        if (c) viewport.setCursor3D({ x: c.x, y: c.y, z: c.z });
+                      }}
+                    >
+                      Cursor to Selection (Shift+S)
+                    </button>
+                    <button
+                      className="px-2 py-1 rounded bg-white/5 hover:bg-white/10 text-left"
+                      onClick={() => viewport.setCursor3D({ x: 0, y: 0, z: 0 })}
+                    >
+                      Cursor to World Origin
+                    </button>
+                  </div>
+                  <div className="text-[11px] text-gray-500">Shift + right click places the cursor</div>
                 </Popover.Popup>
               </Popover.Positioner>
             </Popover.Portal>
           </Popover.Root>
+          {selection.viewMode === 'edit' && (
+            <>
+              <div className="mx-1 w-px h-4 bg-white/10" />
+              <SegButton
+                aria-label="Toggle Proportional Editing"
+                title="Proportional Editing (O)"
+                active={tools.proportionalEditing}
+                onClick={() => tools.setProportionalEditing(!tools.proportionalEditing)}
+              >
+                <CircleDot className="h-4 w-4" />
+              </SegButton>
+              <Popover.Root>
+                <Popover.Trigger
+                  render={
+                    <SegButton aria-label="Proportional Editing Settings" title="Proportional Editing Settings">
+                      <Ellipsis className="h-4 w-4" />
+                    </SegButton>
+                  }
+                />
+                <Popover.Portal>
+                  <Popover.Positioner sideOffset={6} className="z-50">
+                    <Popover.Popup className="rounded-lg border border-white/10 bg-[#0b0e13]/95 shadow-lg p-2 w-48 text-xs text-gray-200 space-y-2">
+                      <Popover.Title className="text-[11px] uppercase tracking-wide text-gray-400">Proportional Editing</Popover.Title>
+                      <label className="flex items-center justify-between gap-2">
+                        <span className="text-gray-400">Falloff</span>
+                        <select
+                          className="bg-black/40 border border-white/10 rounded px-1 py-0.5 text-xs"
+                          value={tools.proportionalFalloff}
+                          onChange={(e) => tools.setProportionalFalloff(e.target.value as ProportionalFalloff)}
+                        >
+                          <option value="smooth">Smooth</option>
+                          <option value="sphere">Sphere</option>
+                          <option value="root">Root</option>
+                          <option value="linear">Linear</option>
+                          <option value="sharp">Sharp</option>
+                          <option value="constant">Constant</option>
+                          <option value="random">Random</option>
+                        </select>
+                      </label>
+                      <DragInput
+                        label="Radius"
+                        value={tools.proportionalRadius}
+                        min={0.001}
+                        step={0.05}
+                        precision={3}
+                        onChange={tools.setProportionalRadius}
+                        onValueCommit={tools.setProportionalRadius}
+                        className="w-full"
+                      />
+                      <label className="flex items-center gap-2 text-gray-300" title="Measure along edges, so only connected geometry follows">
+                        <input
+                          type="checkbox"
+                          checked={tools.proportionalConnected}
+                          onChange={(e) => tools.setProportionalConnected(e.target.checked)}
+                          className="accent-white/80"
+                        />
+                        Connected only
+                      </label>
+                      <div className="text-[10px] text-gray-500">Mouse wheel resizes while transforming</div>
+                    </Popover.Popup>
+                  </Popover.Positioner>
+                </Popover.Portal>
+              </Popover.Root>
+            </>
+          )}
         </div>
       </Pill>
 
@@ -276,7 +427,7 @@ const TopToolbar: React.FC = () => {
           <SegButton
             active={selection.viewMode === 'object'}
             onClick={() => {
-              if (selection.viewMode === 'edit') selectionActions.exitEditMode();
+              if (selection.viewMode === 'edit' || selection.viewMode === 'paint') selectionActions.exitEditMode();
               else selectionActions.setViewMode('object');
             }}
           >
@@ -286,12 +437,13 @@ const TopToolbar: React.FC = () => {
           <SegButton
             active={selection.viewMode === 'brush'}
             onClick={() => {
-              if (selection.viewMode === 'edit') selectionActions.exitEditMode();
+              if (selection.viewMode === 'edit' || selection.viewMode === 'paint') selectionActions.exitEditMode();
               selectionActions.setViewMode(selection.viewMode === 'brush' ? 'object' : 'brush');
             }}
           >
             Brush
           </SegButton>
+          <SegButton active={selection.viewMode === 'paint'} onClick={enterPaint} title="Vertex Paint">Paint</SegButton>
           {selection.viewMode === 'edit' && (
             <div className="ml-1 flex items-center">
               <div className="mx-1 w-px h-4 bg-white/10" />
@@ -361,6 +513,17 @@ const TopToolbar: React.FC = () => {
             }
             setMenuOpen(false);
           }}
+          onCreateCurve={(type) => {
+            const res = useCurveStore.getState().createCurve({}, type === 'draw' ? 'empty' : type);
+            if (type === 'draw') useCurveStore.getState().setDrawing(res.curveId);
+            if (selection.viewMode === 'object') selectionActions.selectObjects([res.objectId]);
+            setMenuOpen(false);
+          }}
+          onAddLattice={() => {
+            const res = useLatticeStore.getState().createLattice();
+            if (selection.viewMode === 'object') selectionActions.selectObjects([res.objectId]);
+            setMenuOpen(false);
+          }}
         />
       </Pill>
 
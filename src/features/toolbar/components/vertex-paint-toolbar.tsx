@@ -0,0 +1,182 @@
+'use client';
+
+import React from 'react';
+import { useSelection } from '@/stores/selection-store';
+import { useToolStore, type BrushFalloff } from '@/stores/tool-store';
+import { useGeometryStore } from '@/stores/geometry-store';
+import { fillColorLayer, getActiveColorLayer, hexToColor4, type PaintBlend } from '@/utils/vertex-colors';
+import { getActiveVertexGroup, setVertexWeight } from '@/utils/vertex-groups';
+import { FalloffCurveEditor } from './falloff-curve-editor';
+import { PenPressureControls } from './pen-pressure-controls';
+
+const blends: { value: PaintBlend; label: string }[] = [
+  { value: 'mix', label: 'Mix' },
+  { value: 'add', label: 'Add' },
+  { value: 'subtract', label: 'Subtract' },
+  { value: 'multiply', label: 'Multiply' },
+];
+
+export const VertexPaintToolbar: React.FC = () => {
+  const selection = useSelection();
+  const tools = useToolStore();
+  const meshId = selection.meshId;
+  const mesh = useGeometryStore((s) => (meshId ? s.meshes.get(meshId) : undefined));
+
+  if (selection.viewMode !== 'paint' || !meshId || !mesh) return null;
+  const geo = useGeometryStore.getState();
+  const weightMode = tools.paintTarget === 'weight';
+  // Colour layers or vertex groups, depending on what is painted
+  const layers = (weightMode ? mesh.vertexGroups : mesh.colorLayers) ?? [];
+  const active = weightMode ? getActiveVertexGroup(mesh) : getActiveColorLayer(mesh);
+  const kind = weightMode ? 'vertex group' : 'color layer';
+  const addLayer = () => (weightMode ? geo.addVertexGroup(meshId) : geo.addColorLayer(meshId));
+
+  const fill = () => {
+    const layerId = active?.id ?? addLayer();
+    if (!layerId) return;
+    if (weightMode) {
+      geo.updateMesh(meshId, (m) => { for (const v of m.vertices) setVertexWeight(v, layerId, tools.paintWeight); });
+      return;
+    }
+    const color = hexToColor4(tools.paintColor);
+    geo.updateMesh(meshId, (m) => fillColorLayer(m, layerId, color));
+  };
+
+  const rename = () => {
+    if (!active) return;
+    const name = window.prompt(weightMode ? 'Vertex group name' : 'Color layer name', active.name);
+    if (!name) return;
+    if (weightMode) geo.renameVertexGroup(meshId, active.id, name);
+    else geo.renameColorLayer(meshId, active.id, name);
+  };
+
+  const remove = () => {
+    if (!active) return;
+    if (weightMode) geo.removeVertexGroup(meshId, active.id);
+    else geo.removeColorLayer(meshId, active.id);
+  };
+
+  return (
+    <div className="pointer-events-auto max-w-[90vw] space-y-2">
+      {/* Row 1: Paint target and its layers */}
+      <div className="bg-black/40 backdrop-blur-md border border-white/10 rounded-xl shadow-lg shadow-black/30 px-3 py-1.5">
+        <div className="flex items-center gap-2 flex-wrap text-xs">
+          <div className="flex items-center">
+            {(['color', 'weight'] as const).map((t) => (
+              <button
+                key={t}
+                className={`px-3 py-1 rounded-md transition-colors ${tools.paintTarget === t ? 'bg-white/10 text-white' : 'text-gray-300 hover:text-white hover:bg-white/5'}`}
+                onClick={() => tools.setPaintTarget(t)}
+              >
+                {t === 'color' ? 'Vertex' : 'Weight'}
+              </button>
+            ))}
+          </div>
+          <div className="mx-1 w-px h-4 bg-white/10" />
+          <label className="text-[10px] opacity-70">{weightMode ? 'Group' : 'Layer'}</label>
+          <select
+            className="bg-black/20 border border-white/10 rounded px-2 py-1 text-xs"
+            value={active?.id ?? ''}
+            disabled={!layers.length}
+            onChange={(e) => (weightMode ? geo.setActiveVertexGroup(meshId, e.target.value) : geo.setActiveColorLayer(meshId, e.target.value))}
+          >
+            {!layers.length && <option value="">None</option>}
+            {layers.map((l) => (
+              <option key={l.id} value={l.id}>{l.name}</option>
+            ))}
+          </select>
+          <button className="px-2 py-1 rounded-md text-gray-300 hover:text-white hover:bg-white/5 border border-white/10" title={`Add ${kind}`} onClick={addLayer}>+</button>
+          <button className="px-2 py-1 rounded-md text-gray-300 hover:text-white hover:bg-white/5 border border-white/10 disabled:opacity-40" title={`Rename ${kind}`} disabled={!active} onClick={rename}>Rename</button>
+          <button className="px-2 py-1 rounded-md text-gray-300 hover:text-white hover:bg-white/5 border border-white/10 disabled:opacity-40" title={`Remove ${kind}`} disabled={!active} onClick={remove}>−</button>
+          <div className="mx-1 w-px h-4 bg-white/10" />
+          <button className="px-2 py-1 rounded-md text-gray-300 hover:text-white hover:bg-white/5 border border-white/10" title={weightMode ? 'Set every vertex to the paint weight' : 'Fill the layer with the paint colour'} onClick={fill}>Fill</button>
+        </div>
+      </div>
+
+      {/* Row 2: Brush controls */}
+      <div className="bg-black/40 backdrop-blur-md border border-white/10 rounded-xl shadow-lg shadow-black/30 px-3 py-2">
+        <div className="flex items-center gap-3 flex-wrap">
+          {weightMode ? (
+            <div className="flex items-center gap-2">
+              <label className="text-[10px] opacity-70">Weight</label>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.01}
+                value={tools.paintWeight}
+                onChange={(e) => tools.setPaintWeight(parseFloat(e.target.value))}
+                className="h-1 w-24 bg-white/10 rounded appearance-none outline-none [accent-color:#9aa0a6]"
+              />
+              <span className="text-[10px] tabular-nums opacity-70 w-7">{tools.paintWeight.toFixed(2)}</span>
+            </div>
+          ) : (
+            <div className="flex items-center gap-2">
+              <label className="text-[10px] opacity-70">Color</label>
+              <input
+                type="color"
+                value={tools.paintColor}
+                onChange={(e) => tools.setPaintColor(e.target.value)}
+                className="h-5 w-8 bg-transparent border border-white/10 rounded cursor-pointer"
+              />
+            </div>
+          )}
+          <div className="flex items-center gap-2">
+            <label className="text-[10px] opacity-70">Blend</label>
+            <select
+              className="bg-black/20 border border-white/10 rounded px-2 py-1 text-xs"
+              value={tools.paintBlend}
+              onChange={(e) => tools.setPaintBlend(e.target.value as PaintBlend)}
+            >
+              {blends.map((b) => (
+                <option key={b.value} value={b.value}>{b.label}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex items-center gap-2">
+            <label className="text-[10px] opacity-70">Size</label>
+            <input
+              type="range"
+              min={0.05}
+              max={3}
+              step={0.01}
+              value={tools.brushRadius}
+              onChange={(e) => tools.setBrushRadius(parseFloat(e.target.value))}
+              className="h-1 w-32 bg-white/10 rounded appearance-none outline-none [accent-color:#9aa0a6]"
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <label className="text-[10px] opacity-70">Strength</label>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.01}
+              value={tools.brushStrength}
+              onChange={(e) => tools.setBrushStrength(parseFloat(e.target.value))}
+              className="h-1 w-32 bg-white/10 rounded appearance-none outline-none [accent-color:#9aa0a6]"
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <label className="text-[10px] opacity-70">Falloff</label>
+            <select
+              className="bg-black/20 border border-white/10 rounded px-2 py-1 text-xs"
+              value={tools.brushFalloff}
+              onChange={(e) => tools.setBrushFalloff(e.target.value as BrushFalloff)}
+            >
+              <option value="smooth">Smooth</option>
+              <option value="linear">Linear</option>
+              <option value="sharp">Sharp</option>
+              <option value="constant">Constant</option>
+              <option value="curve">Custom Curve</option>
+            </select>
+            {tools.brushFalloff === 'curve' && <FalloffCurveEditor points={tools.brushCurve} onChange={tools.setBrushCurve} />}
+          </div>
+          <PenPressureControls brush="paint" />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VertexPaintToolbar;
@@ -4,4 +4,5 @@ export { SelectionModeToolbar } from './components/selection-mode-toolbar';
 export { ViewModeToolbar } from './components/viewmode-toolbar';
 export { default as EditToolsToolbar } from './components/edit-tools-toolbar';
 export { SculptToolsToolbar } from './components/sculpt-tools-toolbar';
+export { VertexPaintToolbar } from './components/vertex-paint-toolbar';
 export { CameraSwitcher } from './components/camera-switcher';
@@ -1,11 +1,33 @@
 import React from 'react';
-import { useToolStore } from '@/stores/tool-store';
+import { useToolStore, type ToolMode } from '@/stores/tool-store';
+import { evaluateNumericAxes, evaluateNumericExpression } from '@/utils/numeric-input';
+
+const fmt = (v: number) => +v.toFixed(4);
+
+// Typed value with what it evaluates to, e.g. "2cm+1 → X 1.02"
+function describeNumeric(tool: ToolMode, input: string, axisLock: 'none' | 'x' | 'y' | 'z'): string {
+  if (tool === 'move' || tool === 'scale') {
+    const v = evaluateNumericAxes(input, tool === 'move' ? 'length' : 'factor', axisLock, tool === 'move' ? 0 : 1, tool === 'scale');
+    if (!v) return input;
+    const axes = axisLock !== 'none' ? [axisLock] : input.includes(',') ? ['x', 'y', 'z'] : tool === 'move' ? ['x'] : null;
+    const value = axes
+      ? axes.map((a) => `${a.toUpperCase()} ${fmt(v[a as 'x' | 'y' | 'z'])}`).join(' ')
+      : `${fmt(v.x)}`;
+    return `${input} → ${value}`;
+  }
+  const kind = tool === 'rotate' ? 'angle' : tool === 'extrude' ? 'length' : 'factor';
+  const value = evaluateNumericExpression(input, kind);
+  if (value == null) return input;
+  return `${input} → ${kind === 'angle' ? `${fmt((value * 180) / Math.PI)}°` : fmt(value)}`;
+}
 
 const ToolIndicator: React.FC = () => {
   const toolStore = useToolStore();
   
   if (!toolStore.isActive) return null;
   const implemented = toolStore.tool === 'move' || toolStore.tool === 'rotate' || toolStore.tool === 'scale' || toolStore.tool === 'extrude' || toolStore.tool === 'inset' || toolStore.tool === 'bevel' || toolStore.tool === 'chamfer' || toolStore.tool === 'fillet';
+  const slide = toolStore.localData?.kind === 'slide' ? toolStore.localData : null;
+  const crease = toolStore.localData?.kind === 'crease' ? toolStore.localData : null;
   
   const getToolIcon = () => {
     switch (toolStore.tool) {
@@ -19,6 +41,9 @@ const ToolIndicator: React.FC = () => {
   case 'fillet': return '◩';
   case 'loopcut': return '╱╲';
   case 'knife': return '🔪';
+  case 'edge-slide': return '⇋';
+  case 'vertex-slide': return '⇢';
+  case 'edge-crease': return '⌒';
       default: return '🔧';
     }
   };
@@ -35,10 +60,15 @@ const ToolIndicator: React.FC = () => {
   case 'fillet': return 'Fillet';
   case 'loopcut': return 'Loop Cut';
   case 'knife': return 'Knife';
+  case 'edge-slide': return 'Edge Slide';
+  case 'vertex-slide': return 'Vertex Slide';
+  case 'edge-crease': return 'Edge Crease';
       default: return 'Tool';
     }
   };
   
+  const proportional = toolStore.proportionalEditing && (toolStore.tool === 'move' || toolStore.tool === 'rotate' || toolStore.tool === 'scale');
+
   const getAxisLockDisplay = () => {
     if (toolStore.axisLock === 'none') return '';
     return ` (${toolStore.axisLock.toUpperCase()}-axis)`;
@@ -49,8 +79,22 @@ const ToolIndicator: React.FC = () => {
       <div className="bg-black/50 text-white/90 px-3 py-1.5 rounded-md border border-white/10 text-xs flex items-center gap-2">
         <span className="opacity-80">{getToolIcon()}</span>
         <span className="font-medium">{getToolName()}{implemented ? getAxisLockDisplay() : ''}</span>
-        {implemented ? (
-          <span className="opacity-70">• LMB confirm • ESC cancel • X/Y/Z lock</span>
+        {slide ? (
+          <span className="opacity-70">
+            {slide.numeric || slide.factor.toFixed(3)}{slide.even ? ' • Even' : ''}{slide.even && slide.flip ? ' • Flipped' : ''} • E even • F flip • type value • LMB/Enter confirm • ESC cancel
+          </span>
+        ) : crease ? (
+          <span className="opacity-70">{crease.numeric || crease.value.toFixed(2)} • type value • LMB/Enter confirm • ESC cancel</span>
+        ) : implemented && toolStore.numericInput ? (
+          <span className="opacity-70">
+            <span className="font-mono text-white/90">{describeNumeric(toolStore.tool, toolStore.numericInput, toolStore.axisLock)}</span>
+            {' '}• Enter confirm • Backspace edit • ESC cancel • X/Y/Z lock
+          </span>
+        ) : implemented ? (
+          <span className="opacity-70">
+            {proportional ? `• Proportional ${toolStore.proportionalFalloff} r=${toolStore.proportionalRadius.toFixed(2)}${toolStore.proportionalConnected ? ' (connected)' : ''} • Wheel radius ` : ''}
+            • LMB confirm • ESC cancel • X/Y/Z lock{toolStore.tool === 'move' || toolStore.tool === 'rotate' || toolStore.tool === 'scale' || toolStore.tool === 'extrude' || toolStore.tool === 'inset' ? ' • type value' : ''}
+          </span>
         ) : (
           <span className="opacity-70">• Preview only • ESC to exit</span>
         )}
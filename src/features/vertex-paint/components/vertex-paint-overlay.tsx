@@ -0,0 +1,131 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef } from 'react';
+import { Color, Vector3 } from 'three/webgpu';
+import { useSelectionStore } from '@/stores/selection-store';
+import { brushPressureFor, useToolStore } from '@/stores/tool-store';
+import { useGeometryStore } from '@/stores/geometry-store';
+import { useBrushRay } from '@/features/edit-mode/hooks/use-brush';
+import { useMeshObjectTransform } from '@/features/edit-mode/hooks/use-mesh-object-transform';
+import { buildSpatialIndex, falloffFn, queryRadius } from '@/features/edit-mode/utils/sculpt';
+import { colorToHex, getActiveColorLayer, hexToColor4, paintCorners } from '@/utils/vertex-colors';
+import { pressureFactor, readPen, type PenSample } from '@/utils/pen-pressure';
+import { blendWeight, getActiveVertexGroup, setVertexWeight, vertexWeight, weightToColor } from '@/utils/vertex-groups';
+
+// Vertex / weight paint: a surface brush that blends the paint colour into the active colour layer,
+// or the paint weight into the active vertex group. Shares radius / strength / falloff with sculpt.
+const VertexPaintOverlay: React.FC = () => {
+  const meshId = useSelectionStore((s) => s.selection.meshId);
+  const mesh = useGeometryStore((s) => (meshId ? s.meshes.get(meshId) : undefined)) ?? null;
+  const brushRadius = useToolStore((s) => s.brushRadius);
+  const ringColor = useToolStore((s) => {
+    if (s.paintTarget === 'color') return s.paintColor;
+    return colorToHex(weightToColor(s.paintWeight));
+  });
+  const objTransform = useMeshObjectTransform(meshId);
+  const hover = useBrushRay(mesh, objTransform, brushRadius);
+
+  const hoverRef = useRef(hover);
+  useEffect(() => { hoverRef.current = hover; }, [hover]);
+  const paintingRef = useRef(false);
+  const spatialRef = useRef<{ key: string; index: ReturnType<typeof buildSpatialIndex> } | null>(null);
+
+  useEffect(() => {
+    if (!meshId) return;
+    const { scale } = objTransform;
+    const avgScale = (Math.abs(scale.x) + Math.abs(scale.y) + Math.abs(scale.z)) / 3;
+
+    const dab = (sample: PenSample) => {
+      const hit = hoverRef.current;
+      const geo = useGeometryStore.getState();
+      const m = geo.meshes.get(meshId);
+      if (!hit || !m) return;
+      const tools = useToolStore.getState();
+      const pressure = brushPressureFor(tools, 'paint');
+      const radius = (tools.brushRadius / Math.max(1e-6, avgScale)) * (pressure.size ? pressureFactor(sample, tools.pressureSizeCurve) : 1);
+      const strength = tools.brushStrength * (pressure.strength ? pressureFactor(sample, tools.pressureStrengthCurve) : 1);
+      if (radius < 1e-6) return;
+      // Index positions are stable while painting; rebuild only when topology changes
+      const key = `${m.vertices.length}:${m.faces.length}`;
+      if (spatialRef.current?.key !== key) {
+        spatialRef.current = { key, index: buildSpatialIndex(m, Math.max(0.05, radius * 0.75)) };
+      }
+      const weights = new Map<string, number>();
+      for (const v of queryRadius(spatialRef.current.index, hit.hitPointLocal, radius, m)) {
+        const d = hit.hitPointLocal.distanceTo(new Vector3(v.position.x, v.position.y, v.position.z));
+        const w = falloffFn(d / radius, tools.brushFalloff, tools.brushCurve) * strength;
+        if (w > 0) weights.set(v.id, w);
+      }
+      if (!weights.size) return;
+      if (tools.paintTarget === 'weight') {
+        const groupId = getActiveVertexGroup(m)?.id ?? geo.addVertexGroup(meshId);
+        if (!groupId) return;
+        geo.updateMesh(meshId, (draft) => {
+          for (const v of draft.vertices) {
+            const t = weights.get(v.id);
+            if (t) setVertexWeight(v, groupId, blendWeight(vertexWeight(v, groupId), tools.paintWeight, tools.paintBlend, t));
+          }
+        });
+        return;
+      }
+      const layerId = getActiveColorLayer(m)?.id ?? geo.addColorLayer(meshId);
+      if (!layerId) return;
+      const color = hexToColor4(tools.paintColor);
+      geo.updateMesh(meshId, (draft) => paintCorners(draft, layerId, weights, color, tools.paintBlend));
+    };
+
+    const onDown = (e: PointerEvent) => {
+      if (e.button !== 0 || !hoverRef.current) return;
+      paintingRef.current = true;
+      useToolStore.getState().setSculptStrokeActive(true);
+      dab(readPen(e));
+    };
+    const onMove = (e: PointerEvent) => {
+      if (paintingRef.current) dab(readPen(e));
+    };
+    const onUp = (e: PointerEvent) => {
+      if (e.button !== 0 || !paintingRef.current) return;
+      paintingRef.current = false;
+      useToolStore.getState().setSculptStrokeActive(false);
+    };
+    document.addEventListener('pointerdown', onDown);
+    document.addEventListener('pointermove', onMove);
+    document.addEventListener('pointerup', onUp);
+    return () => {
+      document.removeEventListener('pointerdown', onDown);
+      document.removeEventListener('pointermove', onMove);
+      document.removeEventListener('pointerup', onUp);
+      if (paintingRef.current) useToolStore.getState().setSculptStrokeActive(false);
+      paintingRef.current = false;
+    };
+  }, [meshId, objTransform]);
+
+  // Brush ring in the surface tangent plane, tinted with the paint colour
+  const circle = useMemo(() => {
+    if (!hover) return null;
+    const segments = 64;
+    const verts: number[] = [];
+    const n = hover.hitNormalWorld.clone().normalize();
+    const tmp = Math.abs(n.x) > 0.9 ? new Vector3(0, 1, 0) : new Vector3(1, 0, 0);
+    const right = tmp.cross(n).normalize();
+    const up = new Vector3().crossVectors(n, right).normalize();
+    for (let i = 0; i <= segments; i++) {
+      const t = (i / segments) * Math.PI * 2;
+      const p = hover.hitPointWorld.clone().addScaledVector(right, Math.cos(t) * brushRadius).addScaledVector(up, Math.sin(t) * brushRadius);
+      verts.push(p.x, p.y, p.z);
+    }
+    return new Float32Array(verts);
+  }, [hover, brushRadius]);
+
+  if (!circle) return null;
+  return (
+    <line>
+      <bufferGeometry>
+        <bufferAttribute attach="attributes-position" args={[circle, 3]} />
+      </bufferGeometry>
+      <lineBasicMaterial color={new Color(ringColor)} transparent opacity={0.8} depthTest={false} depthWrite={false} />
+    </line>
+  );
+};
+
+export default VertexPaintOverlay;
@@ -0,0 +1,86 @@
+'use client';
+
+import React, { useEffect, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { useViewportStore } from '@/stores/viewport-store';
+import { useSceneStore } from '@/stores/scene-store';
+import { useGeometryStore } from '@/stores/geometry-store';
+import { castToGroundOrSurface } from '@/features/quick-brush/utils/ray-utils';
+import { findSnap, isGeometrySnap, sceneSnapSources, snapPointToGrid } from '@/utils/snapping';
+
+// 3D cursor: pivot for the 'cursor' pivot mode. Shift + right click places it on the surface
+// under the pointer (or the ground), honouring the snap settings.
+const Cursor3D: React.FC = () => {
+  const cursor = useViewportStore((s) => s.cursor3D);
+  const { camera, gl, scene } = useThree();
+  const groupRef = useRef<THREE.Group>(null);
+
+  // Constant screen size, always facing the camera
+  useFrame(() => {
+    const g = groupRef.current;
+    if (!g) return;
+    g.quaternion.copy(camera.quaternion);
+    g.scale.setScalar(Math.max(0.01, camera.position.distanceTo(g.position) * 0.03));
+  });
+
+  useEffect(() => {
+    const onPointerDown = (e: PointerEvent) => {
+      if (e.button !== 2 || !e.shiftKey || e.target !== gl.domElement) return;
+      // Capture phase: keep the camera controls from panning
+      e.preventDefault();
+      e.stopPropagation();
+      const meshes: THREE.Mesh[] = [];
+      scene.traverse((obj) => {
+        if (obj instanceof THREE.Mesh && obj.visible) meshes.push(obj);
+      });
+      const hit = castToGroundOrSurface(e.clientX, e.clientY, camera, gl.domElement, meshes);
+      if (!hit) return;
+      const { gridSnapping, gridSize, snapMode, setCursor3D } = useViewportStore.getState();
+      let point = { x: hit.point.x, y: hit.point.y, z: hit.point.z };
+      if (gridSnapping && isGeometrySnap(snapMode)) {
+        const rect = gl.domElement.getBoundingClientRect();
+        const snap = findSnap(
+          snapMode,
+          new THREE.Vector2(e.clientX - rect.left, e.clientY - rect.top),
+          { camera, width: rect.width, height: rect.height },
+          sceneSnapSources(useSceneStore.getState().objects, useGeometryStore.getState().meshes),
+        );
+        if (snap) point = { x: snap.point.x, y: snap.point.y, z: snap.point.z };
+      } else if (gridSnapping) {
+        point = snapPointToGrid(point, gridSize);
+      }
+      setCursor3D(point);
+    };
+    const onContextMenu = (e: MouseEvent) => {
+      if (e.shiftKey && e.target === gl.domElement) e.preventDefault();
+    };
+    document.addEventListener('pointerdown', onPointerDown, true);
+    document.addEventListener('contextmenu', onContextMenu, true);
+    return () => {
+      document.removeEventListener('pointerdown', onPointerDown, true);
+      document.removeEventListener('contextmenu', onContextMenu, true);
+    };
+  }, [camera, gl, scene]);
+
+  return (
+    <group ref={groupRef} position={[cursor.x, cursor.y, cursor.z]} renderOrder={999}>
+      {/* Not pickable: clicks and brush rays pass through to the scene */}
+      <mesh renderOrder={999} raycast={() => null}>
+        <ringGeometry args={[0.35, 0.45, 32]} />
+        <meshBasicMaterial color="#ff4d4d" depthTest={false} depthWrite={false} transparent opacity={0.9} side={THREE.DoubleSide} />
+      </mesh>
+      <lineSegments renderOrder={999} raycast={() => null}>
+        <bufferGeometry>
+          <bufferAttribute
+            attach="attributes-position"
+            args={[new Float32Array([-0.8, 0, 0, -0.25, 0, 0, 0.25, 0, 0, 0.8, 0, 0, 0, -0.8, 0, 0, -0.25, 0, 0, 0.25, 0, 0, 0.8, 0]), 3]}
+          />
+        </bufferGeometry>
+        <lineBasicMaterial color="#ffffff" depthTest={false} depthWrite={false} transparent opacity={0.9} />
+      </lineSegments>
+    </group>
+  );
+};
+
+export default Cursor3D;
@@ -0,0 +1,132 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef } from 'react';
+import type { ThreeEvent } from '@react-three/fiber';
+import { Matrix4 } from 'three/webgpu';
+import { useSceneStore } from '@/stores/scene-store';
+import { useSelectionStore, useViewMode } from '@/stores/selection-store';
+import { useCurveStore, useCurveResource, type CurvePointPart } from '@/stores/curve-store';
+import { evaluateCurve } from '@/utils/curve';
+import usePointDrag from '../hooks/use-point-drag';
+
+// Spline overlay for curve objects: the evaluated line (click to select) and, while the
+// object is selected, draggable control points and Bezier handles. Rendered inside the
+// object's transform group, so everything here is in object space.
+
+type Props = { objectId: string };
+
+const POINT_COLOR = '#ffd166';
+const HANDLE_COLOR = '#8ecae6';
+
+const CurveView: React.FC<Props> = ({ objectId }) => {
+  const obj = useSceneStore((s) => s.objects[objectId]);
+  const curve = useCurveResource(obj?.curveId ?? '');
+  const viewMode = useViewMode();
+  const isSelected = useSelectionStore((s) => s.selection.objectIds.includes(objectId));
+  const drawing = useCurveStore((s) => s.drawingCurveId !== null && s.drawingCurveId === obj?.curveId);
+  const { groupRef, startDrag } = usePointDrag<{ index: number; part: CurvePointPart }>(({ index, part }, p) => {
+    if (obj?.curveId) useCurveStore.getState().movePoint(obj.curveId, index, part, p);
+  });
+  const downRef = useRef<{ x: number; y: number } | null>(null);
+
+  const linePositions = useMemo(() => {
+    if (!curve) return new Float32Array(0);
+    const ev = evaluateCurve(curve);
+    const pts = ev.closed && ev.points.length > 2 ? [...ev.points, ev.points[0]] : ev.points;
+    return new Float32Array(pts.flatMap((p) => [p.x, p.y, p.z]));
+  }, [curve]);
+
+  const handleSegments = useMemo(() => {
+    if (!curve || curve.type !== 'bezier') return new Float32Array(0);
+    const arr: number[] = [];
+    for (const p of curve.points) {
+      for (const h of [p.handleIn, p.handleOut]) arr.push(p.position.x, p.position.y, p.position.z, h.x, h.y, h.z);
+    }
+    return new Float32Array(arr);
+  }, [curve]);
+
+  // Enter/Escape finish drawing
+  useEffect(() => {
+    if (!drawing) return;
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' || e.key === 'Enter') useCurveStore.getState().setDrawing(null);
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [drawing]);
+
+  if (!obj || !curve) return null;
+  const editable = viewMode === 'object' && isSelected && !obj.locked;
+
+  const onLineDown = (e: React.PointerEvent) => {
+    if (viewMode !== 'object' || obj.locked) return;
+    downRef.current = { x: e.clientX, y: e.clientY };
+  };
+  const onLineUp = (e: React.PointerEvent) => {
+    const start = downRef.current;
+    downRef.current = null;
+    if (!start || Math.hypot(e.clientX - start.x, e.clientY - start.y) > 10) return;
+    e.stopPropagation();
+    if (e.shiftKey) useSelectionStore.getState().toggleObjectSelection(objectId);
+    else useSelectionStore.getState().selectObjects([objectId], false);
+    useSceneStore.getState().selectObject(objectId);
+  };
+
+  const onDrawClick = (e: ThreeEvent<PointerEvent>) => {
+    if (e.button !== 0 || !obj.curveId) return;
+    e.stopPropagation();
+    const local = e.point.clone().applyMatrix4(new Matrix4().copy(groupRef.current.matrixWorld).invert());
+    useCurveStore.getState().addPoint(obj.curveId, { x: local.x, y: 0, z: local.z });
+  };
+
+  // Editing overlay only: export keeps the swept mesh rendered by MeshView
+  return (
+    <group ref={groupRef} userData={{ __helper: true }}>
+      {linePositions.length >= 6 && (
+        <line onPointerDown={onLineDown} onPointerUp={onLineUp}>
+          <bufferGeometry key={linePositions.length}>
+            <bufferAttribute attach="attributes-position" args={[linePositions, 3]} />
+          </bufferGeometry>
+          <lineBasicMaterial color={isSelected ? '#ffa500' : '#d0d0d0'} />
+        </line>
+      )}
+
+      {(editable || drawing) && (
+        <>
+          {handleSegments.length > 0 && (
+            <lineSegments>
+              <bufferGeometry key={handleSegments.length}>
+                <bufferAttribute attach="attributes-position" args={[handleSegments, 3]} />
+              </bufferGeometry>
+              <lineBasicMaterial color={HANDLE_COLOR} depthTest={false} transparent opacity={0.8} />
+            </lineSegments>
+          )}
+          {curve.points.map((p, i) => (
+            <React.Fragment key={p.id}>
+              <mesh position={[p.position.x, p.position.y, p.position.z]} renderOrder={10} onPointerDown={(e) => startDrag(e, { index: i, part: 'position' }, p.position)}>
+                <sphereGeometry args={[0.06, 12, 8]} />
+                <meshBasicMaterial color={POINT_COLOR} depthTest={false} transparent />
+              </mesh>
+              {curve.type === 'bezier' && (['handleIn', 'handleOut'] as const).map((part) => (
+                <mesh key={part} position={[p[part].x, p[part].y, p[part].z]} renderOrder={10} onPointerDown={(e) => startDrag(e, { index: i, part }, p[part])}>
+                  <sphereGeometry args={[0.04, 10, 6]} />
+                  <meshBasicMaterial color={HANDLE_COLOR} depthTest={false} transparent />
+                </mesh>
+              ))}
+            </React.Fragment>
+          ))}
+        </>
+      )}
+
+      {drawing && (
+        // Click catcher on the object's XZ plane; new points are appended in order
+        <mesh rotation={[-Math.PI / 2, 0, 0]} onPointerDown={onDrawClick}>
+          <planeGeometry args={[1000, 1000]} />
+          <meshBasicMaterial visible={false} />
+        </mesh>
+      )}
+    </group>
+  );
+};
+
+export default CurveView;
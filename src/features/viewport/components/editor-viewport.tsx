@@ -41,7 +41,8 @@ const EditorViewport: React.FC = () => {
   const sculptStrokeActive = useToolStore((s) => s.sculptStrokeActive);
   const marqueeActive = useToolStore((s) => s.marqueeActive);
   const brushPlacing = useToolStore((s) => s.brushPlacing);
-  const brushCameraLocked = viewMode === 'brush' && activeBrush !== 'select';
+  const pointDragActive = useToolStore((s) => s.pointDragActive);
+  const brushCameraLocked = (viewMode === 'brush' && activeBrush !== 'select') || pointDragActive;
   const syncCameraFromOrbit = useCallback(() => {
     const controls = orbitRef.current;
     if (!controls) return;
@@ -0,0 +1,83 @@
+'use client';
+
+import React, { useMemo, useRef } from 'react';
+import { useSceneStore } from '@/stores/scene-store';
+import { useSelectionStore, useViewMode } from '@/stores/selection-store';
+import { useLatticeResource, useLatticeStore } from '@/stores/lattice-store';
+import { latticeIndex } from '@/utils/lattice';
+import usePointDrag from '../hooks/use-point-drag';
+
+// Lattice cage: grid lines between neighbouring control points (click to select) and, while the
+// object is selected, draggable points. Rendered inside the object's transform group.
+
+type Props = { objectId: string };
+
+const LatticeView: React.FC<Props> = ({ objectId }) => {
+  const obj = useSceneStore((s) => s.objects[objectId]);
+  const lattice = useLatticeResource(obj?.latticeId ?? '');
+  const viewMode = useViewMode();
+  const isSelected = useSelectionStore((s) => s.selection.objectIds.includes(objectId));
+  const { groupRef, startDrag } = usePointDrag<number>((index, p) => {
+    if (obj?.latticeId) useLatticeStore.getState().movePoint(obj.latticeId, index, p);
+  });
+  const downRef = useRef<{ x: number; y: number } | null>(null);
+
+  const segments = useMemo(() => {
+    if (!lattice) return new Float32Array(0);
+    const { u, v, w } = lattice.resolution;
+    const arr: number[] = [];
+    const link = (a: number, b: number) => {
+      const p = lattice.points[a], q = lattice.points[b];
+      if (p && q) arr.push(p.x, p.y, p.z, q.x, q.y, q.z);
+    };
+    for (let k = 0; k < w; k++) {
+      for (let j = 0; j < v; j++) {
+        for (let i = 0; i < u; i++) {
+          const idx = latticeIndex(lattice.resolution, i, j, k);
+          if (i + 1 < u) link(idx, latticeIndex(lattice.resolution, i + 1, j, k));
+          if (j + 1 < v) link(idx, latticeIndex(lattice.resolution, i, j + 1, k));
+          if (k + 1 < w) link(idx, latticeIndex(lattice.resolution, i, j, k + 1));
+        }
+      }
+    }
+    return new Float32Array(arr);
+  }, [lattice]);
+
+  if (!obj || !lattice) return null;
+  const editable = viewMode === 'object' && isSelected && !obj.locked;
+
+  const onLineDown = (e: React.PointerEvent) => {
+    if (viewMode !== 'object' || obj.locked) return;
+    downRef.current = { x: e.clientX, y: e.clientY };
+  };
+  const onLineUp = (e: React.PointerEvent) => {
+    const start = downRef.current;
+    downRef.current = null;
+    if (!start || Math.hypot(e.clientX - start.x, e.clientY - start.y) > 10) return;
+    e.stopPropagation();
+    if (e.shiftKey) useSelectionStore.getState().toggleObjectSelection(objectId);
+    else useSelectionStore.getState().selectObjects([objectId], false);
+    useSceneStore.getState().selectObject(objectId);
+  };
+
+  return (
+    <group ref={groupRef}>
+      {segments.length > 0 && (
+        <lineSegments onPointerDown={onLineDown} onPointerUp={onLineUp}>
+          <bufferGeometry key={segments.length}>
+            <bufferAttribute attach="attributes-position" args={[segments, 3]} />
+          </bufferGeometry>
+          <lineBasicMaterial color={isSelected ? '#ffa500' : '#9aa4b2'} transparent opacity={0.85} />
+        </lineSegments>
+      )}
+      {editable && lattice.points.map((p, i) => (
+        <mesh key={i} position={[p.x, p.y, p.z]} renderOrder={10} onPointerDown={(e) => startDrag(e, i, p)}>
+          <sphereGeometry args={[0.025, 10, 6]} />
+          <meshBasicMaterial color="#ffd166" depthTest={false} transparent />
+        </mesh>
+      ))}
+    </group>
+  );
+};
+
+export default LatticeView;
@@ -13,6 +13,9 @@ import { useObjectModifiers } from '@/stores/modifier-store';
 import useShaderMaterialRenderer from './use-shader-material-renderer';
 import { useFloorPlanStore } from '@/stores/floor-plan-store';
 import { getOrCreateDownloadUrl } from '@/stores/files-store';
+import { getActiveVertexGroup } from '@/utils/vertex-groups';
+import { hasMask } from '@/utils/sculpt-mask';
+import { hasFaceSets } from '@/utils/face-sets';
 
 type Props = { objectId: string; noTransform?: boolean };
 
@@ -30,13 +33,21 @@ const MeshView: React.FC<Props> = ({ objectId, noTransform = false }) => {
   const toolLocalData = useToolStore((s) => s.localData);
   const isLocked = !!obj?.locked;
   const modifiers = useObjectModifiers(objectId);
-  const displayMesh = useDisplayMesh({ mesh, modifiers, viewMode, editMeshId, objMeshId: obj?.meshId });
+  const transformOverrides = toolIsActive && toolLocalData?.kind === 'object-transform' ? toolLocalData.transforms : undefined;
+  // Sculpting this mesh: multires sculpt level, mask / face set overlay once either is in use
+  const sculpting = useToolStore((s) => s.editPalette === 'sculpt') && viewMode === 'edit' && !!obj?.meshId && obj.meshId === editMeshId;
+  const displayMesh = useDisplayMesh({ mesh, modifiers, viewMode, editMeshId, objMeshId: obj?.meshId, objectId, transformOverrides, sculpting });
   const floorPlan = useFloorPlanStore((s) => s.plans[objectId]);
 
-  const geomAndMat = useGeometryAndMaterial({ displayMesh, shading, isSelected, materials });
+  const painting = viewMode === 'paint' && !!obj?.meshId && obj.meshId === editMeshId;
+  const paintTarget = useToolStore((s) => s.paintTarget);
+  const weightGroupId = painting && paintTarget === 'weight' && displayMesh ? (getActiveVertexGroup(displayMesh)?.id ?? null) : undefined;
+  const sculptColors = useMemo(() => sculpting && !!displayMesh && (hasMask(displayMesh) || hasFaceSets(displayMesh)), [sculpting, displayMesh]);
+  const sculpt = useMemo(() => (sculpting ? { colors: sculptColors } : undefined), [sculpting, sculptColors]);
+  const geomAndMat = useGeometryAndMaterial({ displayMesh, shading, isSelected, materials, weightGroupId, sculpt });
 
   // Material renderer hook returns the final material (node material preferred)
-  const activeMaterial = useShaderMaterialRenderer({ displayMesh, shading, isSelected, materials });
+  const activeMaterial = useShaderMaterialRenderer({ displayMesh, shading, isSelected, materials, vertexColors: painting || sculptColors });
   const [floorTexture, setFloorTexture] = useState<Texture | null>(null);
 
   useEffect(() => {
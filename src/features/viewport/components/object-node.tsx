@@ -4,6 +4,8 @@ import React, { useEffect, useMemo, useRef } from 'react';
 import { useSceneStore } from '@/stores/scene-store';
 import MeshView from './mesh-view';
 import TerrainView from '@/features/viewport/components/terrain-view';
+import CurveView from './curve-view';
+import LatticeView from './lattice-view';
 import { useToolStore } from '@/stores/tool-store';
 import {
   Color,
@@ -24,6 +26,7 @@ import { useCameraResource } from '@/stores/geometry-store';
 import { registerCamera, unregisterCamera } from '../hooks/camera-registry';
 import { registerObject3D, unregisterObject3D } from '../hooks/object3d-registry';
 import { useAnimationStore } from '@/stores/animation-store';
+import { useCurveResource } from '@/stores/curve-store';
 // Light helper wrappers
 const DirectionalLightNode: React.FC<{ color: Color; intensity: number }> = ({ color, intensity }) => {
   const ref = useRef<DirectionalLight>(null!);
@@ -316,6 +319,18 @@ const CameraObjectNode: React.FC<{ objectId: string; cameraId: string; isMateria
     );
   };
 
+// Curves: swept mesh only when a profile is set (an empty mesh would upload zero-size buffers)
+const CurveNode: React.FC<{ objectId: string }> = ({ objectId }) => {
+  const curveId = useSceneStore((s) => s.objects[objectId]?.curveId);
+  const profile = useCurveResource(curveId ?? '')?.profile ?? 'none';
+  return (
+    <>
+      {profile !== 'none' && <MeshView objectId={objectId} noTransform />}
+      <CurveView objectId={objectId} />
+    </>
+  );
+};
+
 const ObjectNode: React.FC<Props> = ({ objectId }) => {
   const obj = useSceneStore((s) => s.objects[objectId]);
   const light = useSceneStore((s) => {
@@ -378,6 +393,8 @@ const ObjectNode: React.FC<Props> = ({ objectId }) => {
     <group ref={groupRef} visible={obj.visible} {...transformProps} userData={{ ...((groupRef.current?.userData as any) ?? {}), sceneObjectId: objectId }}>
   { (obj.type === 'mesh' || obj.type === 'text') && <MeshView objectId={objectId} noTransform /> }
   { obj.type === 'terrain' && <TerrainView objectId={objectId} noTransform /> }
+  { obj.type === 'curve' && <CurveNode objectId={objectId} /> }
+  { obj.type === 'lattice' && <LatticeView objectId={objectId} /> }
       {obj.type === 'light' && obj.lightId && (() => {
         if (!light) return null;
         const color = new Color(light.color.x, light.color.y, light.color.z);
@@ -2,12 +2,23 @@
 
 import React, { useEffect, useRef, useState } from 'react';
 import { useThree } from '@react-three/fiber';
-import { Vector3, Euler, Camera } from 'three/webgpu';
+import { Vector3, Euler, Camera, Quaternion } from 'three/webgpu';
 import { useToolStore } from '@/stores/tool-store';
 import { useSelectionStore } from '@/stores/selection-store';
 import { useSceneStore } from '@/stores/scene-store';
 import { useViewportStore } from '@/stores/viewport-store';
+import { useGeometryStore } from '@/stores/geometry-store';
 import { snapRotationRadians, snapValue } from '@/utils/grid-snapping';
+import { applyNumericKey, evaluateNumericAxes, evaluateNumericExpression } from '@/utils/numeric-input';
+import { alignToNormal, isGeometrySnap, sceneSnapSources, snapMove, snapPointToGrid, type SnapSource } from '@/utils/snapping';
+import { getObjectWorldMatrix } from '@/utils/world-transform';
+import { pivotCenter } from '@/utils/pivot';
+import type { AxisLock } from '@/stores/tool-store';
+import type { Transform, Vector3 as Vec3 } from '@/types/geometry';
+
+// Points of the moved objects that may snap (origins first, then mesh vertices), capped to keep
+// per-move snapping cheap
+const MAX_SNAP_POINTS = 128;
 
 // Helper to convert mouse delta to world delta like edit-mode
 function mouseToWorldDelta(movementX: number, movementY: number, camera: Camera, distance: number, sensitivity: number = 0.005) {
@@ -34,10 +45,15 @@ export const ObjectToolHandler: React.FC = () => {
   const rotAccum = useRef(0);
   const scaleAccum = useRef(1);
   const pointerLocked = useRef(false);
+  // Snap candidates captured when the tool starts: world points of the moved objects and the
+  // geometry of everything else
+  const snapRef = useRef<{ points: Vector3[]; sources: SnapSource[] } | null>(null);
 
   // When tool starts in object mode, snapshot selected objects
   useEffect(() => {
     if (!toolStore.isActive) {
+      snapRef.current = null;
+      if (useViewportStore.getState().snapIndicator) useViewportStore.getState().setSnapIndicator(null);
       if (pointerLocked.current) {
         document.exitPointerLock();
         pointerLocked.current = false;
@@ -62,6 +78,7 @@ export const ObjectToolHandler: React.FC = () => {
     // compute center
     const c = objs.reduce((acc, o) => acc.add(o.pos), new Vector3()).multiplyScalar(1 / objs.length);
     setCenter(c);
+    snapRef.current = null;
     moveAccum.current.set(0, 0, 0);
     rotAccum.current = 0;
     scaleAccum.current = 1;
@@ -90,6 +107,133 @@ export const ObjectToolHandler: React.FC = () => {
 
   useEffect(() => {
     if (!toolStore.isActive || original.length === 0) return;
+
+    const captureSnap = () => {
+      const objects = useSceneStore.getState().objects;
+      const meshes = useGeometryStore.getState().meshes;
+      const moving = new Set(original.map((o) => o.id));
+      const points: Vector3[] = [center.clone(), ...original.map((o) => o.pos.clone())];
+      for (const o of original) {
+        const mesh = objects[o.id]?.meshId ? meshes.get(objects[o.id].meshId!) : undefined;
+        if (!mesh) continue;
+        const m = getObjectWorldMatrix(objects, o.id);
+        for (const v of mesh.vertices) {
+          if (points.length >= MAX_SNAP_POINTS) break;
+          points.push(new Vector3(v.position.x, v.position.y, v.position.z).applyMatrix4(m));
+        }
+      }
+      // Children move with their parents, so they are not targets either
+      const skip = new Set(moving);
+      for (const o of Object.values(objects)) {
+        for (let p = o.parentId; p; p = objects[p]?.parentId ?? null) if (moving.has(p)) skip.add(o.id);
+      }
+      return { points, sources: sceneSnapSources(objects, meshes, skip) };
+    };
+
+    // Rotate / scale pivot for the viewport pivot mode; null with individual origins, where every
+    // object turns and scales about its own origin
+    const pivotPoint = (): Vector3 | null => {
+      const { pivotMode, cursor3D } = useViewportStore.getState();
+      if (pivotMode === 'individual') return null;
+      if (pivotMode === 'cursor') return new Vector3(cursor3D.x, cursor3D.y, cursor3D.z);
+      if (pivotMode === 'bounds') return pivotCenter(original.map((o) => o.pos), 'bounds');
+      if (pivotMode === 'active') {
+        const active = original.find((o) => o.id === useSceneStore.getState().selectedObjectId);
+        if (active) return active.pos.clone();
+      }
+      return center.clone();
+    };
+    // Origins orbit the pivot by the rotation (around Z when no axis is locked)...
+    const orbit = (t: Transform, o: (typeof original)[number], pivot: Vector3 | null, angle: number, lock: AxisLock) => {
+      if (!pivot) return;
+      const axis = new Vector3(lock === 'x' ? 1 : 0, lock === 'y' ? 1 : 0, lock === 'z' || lock === 'none' ? 1 : 0);
+      const p = o.pos.clone().sub(pivot).applyAxisAngle(axis, angle).add(pivot);
+      t.position = { x: p.x, y: p.y, z: p.z };
+    };
+    // ...and spread from it by the scale factors
+    const spread = (t: Transform, o: (typeof original)[number], pivot: Vector3 | null, f: Vec3) => {
+      if (!pivot) return;
+      t.position = {
+        x: pivot.x + (o.pos.x - pivot.x) * f.x,
+        y: pivot.y + (o.pos.y - pivot.y) * f.y,
+        z: pivot.z + (o.pos.z - pivot.z) * f.z,
+      };
+    };
+
+    // Typed values (tool-store numericInput) set the transform outright: distances, degrees and
+    // scale factors; clearing the input hands control back to the mouse
+    const applyNumeric = () => {
+      const state = useToolStore.getState();
+      const local = Object.fromEntries(
+        original.map((o) => [
+          o.id,
+          {
+            position: { x: o.pos.x, y: o.pos.y, z: o.pos.z },
+            rotation: { x: o.rot.x, y: o.rot.y, z: o.rot.z },
+            scale: { x: o.scale.x, y: o.scale.y, z: o.scale.z },
+          },
+        ])
+      );
+      moveAccum.current.set(0, 0, 0);
+      rotAccum.current = 0;
+      scaleAccum.current = 1;
+      const input = state.numericInput;
+      const lock = state.axisLock;
+      if (input && state.tool === 'move') {
+        const v = evaluateNumericAxes(input, 'length', lock, 0);
+        if (!v) return;
+        for (const t of Object.values(local)) {
+          t.position.x += v.x;
+          t.position.y += v.y;
+          t.position.z += v.z;
+        }
+      } else if (input && state.tool === 'rotate') {
+        const angle = evaluateNumericExpression(input, 'angle');
+        if (angle == null) return;
+        // Around Z when no axis is locked, like the mouse
+        const pivot = pivotPoint();
+        for (const o of original) {
+          const t = local[o.id];
+          if (lock === 'x') t.rotation.x += angle;
+          else if (lock === 'y') t.rotation.y += angle;
+          else t.rotation.z += angle;
+          orbit(t, o, pivot, angle, lock);
+        }
+      } else if (input && state.tool === 'scale') {
+        const f = evaluateNumericAxes(input, 'factor', lock, 1, true);
+        if (!f) return;
+        const pivot = pivotPoint();
+        for (const o of original) {
+          const t = local[o.id];
+          t.scale.x *= f.x;
+          t.scale.y *= f.y;
+          t.scale.z *= f.z;
+          spread(t, o, pivot, f);
+        }
+      }
+      state.setLocalData({ kind: 'object-transform', transforms: local });
+    };
+
+    const commit = () => {
+      // Write local transforms to the scene store, then clear tool state
+      const state = useToolStore.getState();
+      const local = state.localData?.kind === 'object-transform' ? state.localData.transforms : null;
+      if (local) {
+        Object.entries(local).forEach(([id, t]) => {
+          const obj = sceneStore.objects[id];
+          if (!obj || obj.locked) return;
+          sceneStore.setTransform(id, {
+            position: { ...t.position },
+            rotation: { ...t.rotation },
+            scale: { ...t.scale },
+          });
+        });
+      }
+      useToolStore.getState().endOperation(true);
+      moveAccum.current.set(0, 0, 0);
+      snapRef.current = null;
+    };
+
   const onMouseMove = (e: MouseEvent) => {
       const sel = useSelectionStore.getState().selection;
       if (sel.viewMode !== 'object') return;
@@ -97,7 +241,7 @@ export const ObjectToolHandler: React.FC = () => {
       // Always mutate the local transforms for preview
       const state = useToolStore.getState();
       const local = state.localData?.kind === 'object-transform' ? state.localData.transforms : null;
-      if (!local) return;
+      if (!local || state.numericInput) return; // typed values win over the mouse
       if (toolStore.tool === 'move') {
         const delta = mouseToWorldDelta(e.movementX, e.movementY, camera, distance, useToolStore.getState().moveSensitivity);
         // Apply axis lock
@@ -109,19 +253,51 @@ export const ObjectToolHandler: React.FC = () => {
           );
         }
         moveAccum.current.add(delta);
-        const snappedMove = viewport.gridSnapping
+        const { snapMode: mode, snapAlignRotation, setSnapIndicator } = useViewportStore.getState();
+        let snappedMove = viewport.gridSnapping && mode === 'increment'
           ? new Vector3(
               snapValue(moveAccum.current.x, viewport.gridSize),
               snapValue(moveAccum.current.y, viewport.gridSize),
               snapValue(moveAccum.current.z, viewport.gridSize)
             )
-          : moveAccum.current;
+          : moveAccum.current.clone();
+        let alignNormal: Vector3 | null = null;
+        if (viewport.gridSnapping && mode === 'grid') {
+          // Absolute grid: the selection centre lands on grid points
+          const g = snapPointToGrid({ x: center.x + snappedMove.x, y: center.y + snappedMove.y, z: center.z + snappedMove.z }, viewport.gridSize);
+          snappedMove = new Vector3(g.x - center.x, g.y - center.y, g.z - center.z);
+        } else if (viewport.gridSnapping && isGeometrySnap(mode)) {
+          const snap = snapRef.current ?? (snapRef.current = captureSnap());
+          const moved = snap.points.map((p) => p.clone().add(snappedMove));
+          const rect = gl.domElement.getBoundingClientRect();
+          const result = snapMove(mode, moved, { camera, width: rect.width, height: rect.height }, snap.sources);
+          if (result) {
+            snappedMove.add(result.offset);
+            alignNormal = snapAlignRotation && result.hit.normal ? result.hit.normal : null;
+            const { point, normal } = result.hit;
+            setSnapIndicator({ kind: mode, point: { x: point.x, y: point.y, z: point.z }, normal: normal && { x: normal.x, y: normal.y, z: normal.z } });
+          } else if (useViewportStore.getState().snapIndicator) {
+            setSnapIndicator(null);
+          }
+        }
+        if (toolStore.axisLock !== 'none') {
+          snappedMove.set(
+            toolStore.axisLock === 'x' ? snappedMove.x : 0,
+            toolStore.axisLock === 'y' ? snappedMove.y : 0,
+            toolStore.axisLock === 'z' ? snappedMove.z : 0
+          );
+        }
         original.forEach((o) => {
           const t = local[o.id];
           if (t) {
             t.position.x = o.pos.x + snappedMove.x;
             t.position.y = o.pos.y + snappedMove.y;
             t.position.z = o.pos.z + snappedMove.z;
+            // Face snapping can stand objects on the surface
+            const rot = alignNormal ? new Euler().setFromQuaternion(alignToNormal(new Quaternion().setFromEuler(o.rot), alignNormal)) : o.rot;
+            t.rotation.x = rot.x;
+            t.rotation.y = rot.y;
+            t.rotation.z = rot.z;
           }
         });
         // trigger store update so subscribers (MeshView) re-render
@@ -132,6 +308,7 @@ export const ObjectToolHandler: React.FC = () => {
         const snappedRotation = viewport.gridSnapping
           ? snapRotationRadians(rotAccum.current, viewport.gridSize)
           : rotAccum.current;
+        const pivot = pivotPoint();
         original.forEach((o) => {
           // Default: rotate around Z when no axis is locked (view-like behavior)
           const rx = toolStore.axisLock === 'x' ? snappedRotation : 0;
@@ -142,6 +319,7 @@ export const ObjectToolHandler: React.FC = () => {
             t.rotation.x = o.rot.x + rx;
             t.rotation.y = o.rot.y + ry;
             t.rotation.z = o.rot.z + rz;
+            orbit(t, o, pivot, snappedRotation, toolStore.axisLock);
           }
         });
         useToolStore.getState().setLocalData({ kind: 'object-transform', transforms: { ...local } });
@@ -149,6 +327,7 @@ export const ObjectToolHandler: React.FC = () => {
         const sDelta = 1 + e.movementX * useToolStore.getState().scaleSensitivity;
         scaleAccum.current *= Math.max(0.01, sDelta);
         const scaleFactor = scaleAccum.current;
+        const pivot = pivotPoint();
         original.forEach((o) => {
           const applyX = toolStore.axisLock === 'x' || toolStore.axisLock === 'none';
           const applyY = toolStore.axisLock === 'y' || toolStore.axisLock === 'none';
@@ -168,6 +347,7 @@ export const ObjectToolHandler: React.FC = () => {
             t.scale.x = Math.max(0.01, snappedX);
             t.scale.y = Math.max(0.01, snappedY);
             t.scale.z = Math.max(0.01, snappedZ);
+            spread(t, o, pivot, { x: applyX ? scaleFactor : 1, y: applyY ? scaleFactor : 1, z: applyZ ? scaleFactor : 1 });
           }
         });
         useToolStore.getState().setLocalData({ kind: 'object-transform', transforms: { ...local } });
@@ -175,29 +355,25 @@ export const ObjectToolHandler: React.FC = () => {
     };
 
     const onMouseDown = (e: MouseEvent) => {
-      if (e.button === 0) {
-        // Commit: write local transforms to the scene store, then clear tool state
-        const state = useToolStore.getState();
-        const local = state.localData?.kind === 'object-transform' ? state.localData.transforms : null;
-        if (local) {
-          Object.entries(local).forEach(([id, t]) => {
-            const obj = sceneStore.objects[id];
-            if (!obj || obj.locked) return;
-            sceneStore.setTransform(id, {
-              position: { ...t.position },
-              rotation: { ...t.rotation },
-              scale: { ...t.scale },
-            });
-          });
-        }
-        useToolStore.getState().endOperation(true);
-        moveAccum.current.set(0, 0, 0);
-      }
+      if (e.button === 0) commit();
     };
 
     const onKeyDown = (e: KeyboardEvent) => {
+      if (useSelectionStore.getState().selection.viewMode !== 'object') return;
       const k = e.key.toLowerCase();
-      if (k === 'escape') {
+      const state = useToolStore.getState();
+      if (state.tool === 'move' || state.tool === 'rotate' || state.tool === 'scale') {
+        const numeric = applyNumericKey(state.numericInput, e.key, true);
+        if (numeric != null) {
+          e.preventDefault();
+          state.setNumericInput(numeric);
+          applyNumeric();
+          return;
+        }
+      }
+      if (k === 'enter') {
+        commit();
+      } else if (k === 'escape') {
   // Cancel: discard local changes, keep scene store as last committed state
   useToolStore.getState().setLocalData(null);
         useToolStore.getState().endOperation(false);
@@ -206,6 +382,7 @@ export const ObjectToolHandler: React.FC = () => {
         const axis = k as 'x' | 'y' | 'z';
         const current = useToolStore.getState().axisLock;
         useToolStore.getState().setAxisLock(current === axis ? 'none' : axis);
+        if (useToolStore.getState().numericInput) applyNumeric();
       }
     };
 
@@ -217,7 +394,7 @@ export const ObjectToolHandler: React.FC = () => {
       document.removeEventListener('mousedown', onMouseDown);
       document.removeEventListener('keydown', onKeyDown);
     };
-  }, [toolStore.isActive, toolStore.tool, toolStore.axisLock, center, camera, original, sceneStore, viewport.gridSnapping, viewport.gridSize]);
+  }, [toolStore.isActive, toolStore.tool, toolStore.axisLock, center, camera, gl, original, sceneStore, viewport.gridSnapping, viewport.gridSize]);
 
   // Axis visual when a transform is active and an axis is locked
   const showAxis = toolStore.isActive && toolStore.axisLock !== 'none' && original.length > 0;
@@ -8,7 +8,10 @@ import { useSceneStore } from '@/stores/scene-store';
 import { useViewMode } from '@/stores/selection-store';
 import ObjectNode from './object-node';
 import EditModeOverlay from '@/features/edit-mode/components/edit-mode-overlay';
+import VertexPaintOverlay from '@/features/vertex-paint/components/vertex-paint-overlay';
 import ObjectToolHandler from './object-tool-handler';
+import SnapIndicator from './snap-indicator';
+import Cursor3D from './cursor-3d';
 import QuickBrushHandler from '@/features/quick-brush/components/quick-brush-handler';
 import PolygonBrushHandler from '@/features/quick-brush/components/polygon-brush-handler';
 
@@ -23,6 +26,8 @@ const SceneContent: React.FC = () => {
   return (
     <>
       <ObjectToolHandler />
+      <SnapIndicator />
+      <Cursor3D />
       <QuickBrushHandler />
       <PolygonBrushHandler />
       {showGrid && (
@@ -44,6 +49,7 @@ const SceneContent: React.FC = () => {
         <ObjectNode key={id} objectId={id} />
       ))}
       {viewMode === 'edit' && <EditModeOverlay />}
+      {viewMode === 'paint' && <VertexPaintOverlay />}
     </>
   );
 };
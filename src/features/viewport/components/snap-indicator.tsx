@@ -0,0 +1,49 @@
+'use client';
+
+import React from 'react';
+import { useThree } from '@react-three/fiber';
+import { Vector3 } from 'three/webgpu';
+import { useViewportStore } from '@/stores/viewport-store';
+import type { SnapMode } from '@/utils/snapping';
+
+const SNAP_COLORS: Record<SnapMode, string> = {
+  increment: '#ffffff',
+  grid: '#ffffff',
+  vertex: '#ffa726',
+  'edge-midpoint': '#66bb6a',
+  edge: '#42a5f5',
+  face: '#ab47bc',
+};
+
+// Marker at the current snap target (plus the surface normal for face snaps), sized to stay
+// roughly constant on screen
+const SnapIndicator: React.FC = () => {
+  const indicator = useViewportStore((s) => s.snapIndicator);
+  const { camera } = useThree();
+  if (!indicator) return null;
+  const p = new Vector3(indicator.point.x, indicator.point.y, indicator.point.z);
+  const size = Math.max(0.005, camera.position.distanceTo(p) * 0.012);
+  const color = SNAP_COLORS[indicator.kind];
+  const n = indicator.normal;
+  return (
+    <group>
+      <mesh position={p} renderOrder={1000} raycast={() => null}>
+        <sphereGeometry args={[size, 12, 8]} />
+        <meshBasicMaterial color={color} depthTest={false} depthWrite={false} transparent opacity={0.95} />
+      </mesh>
+      {n && (
+        <lineSegments renderOrder={1000} raycast={() => null}>
+          <bufferGeometry>
+            <bufferAttribute
+              attach="attributes-position"
+              args={[new Float32Array([p.x, p.y, p.z, p.x + n.x * size * 6, p.y + n.y * size * 6, p.z + n.z * size * 6]), 3]}
+            />
+          </bufferGeometry>
+          <lineBasicMaterial color={color} depthTest={false} depthWrite={false} transparent opacity={0.9} />
+        </lineSegments>
+      )}
+    </group>
+  );
+};
+
+export default SnapIndicator;
@@ -1,6 +1,7 @@
 import { useEffect, useMemo, useRef } from 'react';
 import { MeshStandardMaterial, Color, DoubleSide, Material } from 'three/webgpu';
 import { useMaterialNodes } from '@/features/materials/hooks/use-material-nodes';
+import { usesFlatShading } from '@/utils/normals';
 // Terrain maps are applied in TerrainView; this hook only builds the base material.
 
 type MeshRes = any;
@@ -10,9 +11,11 @@ type Params = {
   shading: string;
   isSelected: boolean;
   materials: Map<string, any> | undefined;
+  // Show the active colour layer (vertex paint); the standard material is tinted by it
+  vertexColors?: boolean;
 };
 
-export function useShaderMaterialRenderer({ displayMesh, shading, isSelected, materials }: Params): Material {
+export function useShaderMaterialRenderer({ displayMesh, shading, isSelected, materials, vertexColors = false }: Params): Material {
   // Get node material (hook must be called at top-level)
   const nodeMaterial = useMaterialNodes(shading === 'material' ? displayMesh?.materialId : undefined) as unknown as Material | undefined;
   const stdRef = useRef<MeshStandardMaterial | null>(null);
@@ -51,6 +54,8 @@ export function useShaderMaterialRenderer({ displayMesh, shading, isSelected, ma
     if (isSelected && shading !== 'material') {
       color = new Color('#ff9900');
     }
+    const showColors = vertexColors && shading !== 'material';
+    if (showColors) color = new Color(1, 1, 1);
 
     const std = stdRef.current!;
     std.color.copy(color);
@@ -59,15 +64,16 @@ export function useShaderMaterialRenderer({ displayMesh, shading, isSelected, ma
     std.emissive.copy(emissive);
     std.emissiveIntensity = emissiveIntensity;
     std.wireframe = shading === 'wireframe';
+    std.vertexColors = showColors;
     std.side = DoubleSide;
-    std.flatShading = (displayMesh?.shading ?? 'flat') === 'flat';
+    std.flatShading = usesFlatShading(displayMesh);
     std.shadowSide = 1;
     std.needsUpdate = true;
 
     if (nodeMaterial) {
       try {
         (nodeMaterial as any).wireframe = shading === 'wireframe';
-        (nodeMaterial as any).flatShading = (displayMesh?.shading ?? 'flat') === 'flat';
+        (nodeMaterial as any).flatShading = usesFlatShading(displayMesh);
         (nodeMaterial as any).side = DoubleSide;
         (nodeMaterial as any).emissiveIntensity = emissiveIntensity;
       } catch {
@@ -76,7 +82,7 @@ export function useShaderMaterialRenderer({ displayMesh, shading, isSelected, ma
     }
 
     return (nodeMaterial ?? std) as Material;
-  }, [displayMesh, shading, isSelected, materials, nodeMaterial]);
+  }, [displayMesh, shading, isSelected, materials, nodeMaterial, vertexColors]);
 
   return mat;
 }
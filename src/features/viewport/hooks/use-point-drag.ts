@@ -0,0 +1,50 @@
+import { useEffect, useRef, useState } from 'react';
+import { useThree, type ThreeEvent } from '@react-three/fiber';
+import { Group, Matrix4, Plane, Raycaster, Vector2, Vector3 } from 'three/webgpu';
+import { useToolStore } from '@/stores/tool-store';
+
+// Drag control points (curve points/handles, lattice points) rendered inside an object's group.
+// The point moves on a camera-facing plane through its start position; onMove receives the new
+// position in the group's local space. Camera orbit is disabled while a drag is active.
+export default function usePointDrag<T>(onMove: (target: T, local: { x: number; y: number; z: number }) => void) {
+  const { camera, gl } = useThree();
+  const groupRef = useRef<Group>(null!);
+  const [drag, setDrag] = useState<{ target: T; plane: Plane } | null>(null);
+  const onMoveRef = useRef(onMove);
+  useEffect(() => { onMoveRef.current = onMove; });
+
+  useEffect(() => {
+    if (!drag) return;
+    const ray = new Raycaster();
+    const onPointerMove = (e: PointerEvent) => {
+      const rect = gl.domElement.getBoundingClientRect();
+      const ndc = new Vector2(((e.clientX - rect.left) / rect.width) * 2 - 1, -((e.clientY - rect.top) / rect.height) * 2 + 1);
+      ray.setFromCamera(ndc, camera);
+      const hit = ray.ray.intersectPlane(drag.plane, new Vector3());
+      if (!hit) return;
+      hit.applyMatrix4(new Matrix4().copy(groupRef.current.matrixWorld).invert());
+      onMoveRef.current(drag.target, { x: hit.x, y: hit.y, z: hit.z });
+    };
+    const onPointerUp = () => {
+      setDrag(null);
+      useToolStore.getState().setPointDragActive(false);
+    };
+    window.addEventListener('pointermove', onPointerMove);
+    window.addEventListener('pointerup', onPointerUp);
+    return () => {
+      window.removeEventListener('pointermove', onPointerMove);
+      window.removeEventListener('pointerup', onPointerUp);
+    };
+  }, [drag, camera, gl]);
+
+  const startDrag = (e: ThreeEvent<PointerEvent>, target: T, local: { x: number; y: number; z: number }) => {
+    if (e.button !== 0) return;
+    e.stopPropagation();
+    const world = new Vector3(local.x, local.y, local.z).applyMatrix4(groupRef.current.matrixWorld);
+    const normal = camera.getWorldDirection(new Vector3());
+    setDrag({ target, plane: new Plane().setFromNormalAndCoplanarPoint(normal, world) });
+    useToolStore.getState().setPointDragActive(true);
+  };
+
+  return { groupRef, startDrag };
+}
@@ -1,5 +1,14 @@
-import { useMemo } from 'react';
-import { applyModifiersToMesh } from '@/utils/modifiers';
+import { useMemo, useSyncExternalStore } from 'react';
+import { useShallow } from 'zustand/react/shallow';
+import { applyModifiersToMesh, getModifierFiles, getModifierReferences, multiresSculptTarget, usesMetaballs } from '@/utils/modifiers';
+import { buildModifierContext, useGeometryStore } from '@/stores/geometry-store';
+import { useSceneStore } from '@/stores/scene-store';
+import { useMetaballStore } from '@/stores/metaball-store';
+import { useLatticeStore } from '@/stores/lattice-store';
+import { getImagePixelsSnapshot, subscribeImagePixels } from '@/stores/files-store';
+import { withAncestors } from '@/utils/world-transform';
+import { getVolumePreviews, subscribeVolumePreviews } from '@/utils/volume';
+import type { Transform } from '@/types/geometry';
 
 type UseDisplayMeshParams = {
   mesh?: any;
@@ -7,19 +16,64 @@ type UseDisplayMeshParams = {
   viewMode: string;
   editMeshId?: string | null;
   objMeshId?: string | null;
+  objectId?: string;
+  // Live transforms from an active object tool so referencing modifiers follow drags
+  transformOverrides?: Record<string, Transform>;
+  // Sculpting this mesh: show the multires sculpt level instead of the base
+  sculpting?: boolean;
 };
 
-export default function useDisplayMesh({ mesh, modifiers, viewMode, editMeshId, objMeshId }: UseDisplayMeshParams) {
+export default function useDisplayMesh({ mesh, modifiers, viewMode, editMeshId, objMeshId, objectId, transformOverrides, sculpting }: UseDisplayMeshParams) {
+  // Objects referenced by modifiers (e.g. boolean cutters, metaballs): re-evaluate when they or we move/change
+  const refIds = useMemo(() => getModifierReferences(modifiers), [modifiers]);
+  const metaballSource = useMemo(() => usesMetaballs(modifiers), [modifiers]);
+  const dependsOn = useSceneStore(useShallow((s) => {
+    if (!objectId || (!refIds.length && !metaballSource)) return [];
+    const ids = metaballSource ? [...refIds, ...Object.values(s.objects).filter((o) => o.type === 'metaball').map((o) => o.id)] : refIds;
+    return withAncestors(s.objects, [objectId, ...ids]);
+  }));
+  // Their transforms (parents included), with live tool drags applied; unrelated drags keep it stable
+  const transforms = useSceneStore(useShallow((s) => {
+    if (!dependsOn.length) return undefined;
+    return Object.fromEntries(dependsOn.filter((id) => s.objects[id]).map((id) => [id, transformOverrides?.[id] ?? s.objects[id].transform]));
+  }));
+  const metaballs = useMetaballStore((s) => (metaballSource ? s.metaballs : null));
+  const refMeshes = useGeometryStore(useShallow((s) => {
+    const objects = useSceneStore.getState().objects;
+    return Object.fromEntries(refIds.map((id) => {
+      const meshId = objects[id]?.meshId;
+      return [id, meshId ? s.meshes.get(meshId) : undefined];
+    }));
+  }));
+
+  const refLattices = useLatticeStore(useShallow((s) => {
+    const objects = useSceneStore.getState().objects;
+    return Object.fromEntries(refIds.map((id) => {
+      const latticeId = objects[id]?.latticeId;
+      return [id, latticeId ? s.lattices[latticeId] : undefined];
+    }));
+  }));
+
+  // Texture-driven modifiers re-evaluate once their images finish decoding
+  const samplesImages = useMemo(() => getModifierFiles(modifiers).length > 0, [modifiers]);
+  const images = useSyncExternalStore(subscribeImagePixels, () => (samplesImages ? getImagePixelsSnapshot() : undefined), () => undefined);
+  // Volume to Mesh rebuilds in the background; re-evaluate when a result lands
+  const hasVolume = useMemo(() => modifiers.some((m) => m.enabled && m.type === 'volume-to-mesh'), [modifiers]);
+  const volumePreviews = useSyncExternalStore(subscribeVolumePreviews, () => (hasVolume ? getVolumePreviews() : undefined), () => undefined);
+
   return useMemo(() => {
     if (!mesh) return undefined;
-    const editingThis = viewMode === 'edit' && objMeshId && objMeshId === editMeshId;
-    if (editingThis) return mesh;
+    const editingThis = (viewMode === 'edit' || viewMode === 'paint') && objMeshId && objMeshId === editMeshId;
+    if (editingThis) return (sculpting && multiresSculptTarget(mesh, modifiers)?.mesh) || mesh;
     const activeMods = modifiers.filter((m) => m.enabled);
     if (activeMods.length === 0) return mesh;
     try {
-      return applyModifiersToMesh(mesh, activeMods);
+      const ctx = objectId
+        ? buildModifierContext(objectId, transforms, { meshes: refMeshes, lattices: refLattices, metaballs, images, volumePreviews })
+        : undefined;
+      return applyModifiersToMesh(mesh, activeMods, ctx);
     } catch {
       return mesh;
     }
-  }, [mesh, modifiers, viewMode, editMeshId, objMeshId]);
+  }, [mesh, modifiers, viewMode, editMeshId, objMeshId, objectId, transforms, refMeshes, refLattices, metaballs, images, volumePreviews, sculpting]);
 }
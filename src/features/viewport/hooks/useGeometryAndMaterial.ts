@@ -1,37 +1,47 @@
 import { useMemo } from 'react';
-import { BufferGeometry, Float32BufferAttribute, Vector3 } from 'three/webgpu';
+import { BufferGeometry, Float32BufferAttribute } from 'three/webgpu';
+import type { Vertex } from '@/types/geometry';
 import { convertQuadToTriangles } from '@/utils/geometry';
+import { computeCornerNormals } from '@/utils/normals';
+import { getActiveColorLayer, loopColor } from '@/utils/vertex-colors';
+import { vertexWeight, weightToColor } from '@/utils/vertex-groups';
+import { vertexMask } from '@/utils/sculpt-mask';
+import { faceSetColor } from '@/utils/face-sets';
 
 type Params = {
     displayMesh: any | undefined;
     shading: string;
     isSelected: boolean;
     materials: Map<string, any> | Record<string, any>;
+    // Weight paint display: colour by this vertex group's weights instead of the colour layer
+    weightGroupId?: string | null;
+    // Sculpting: skip hidden faces; 'colors' shades face sets and darkens masked vertices
+    sculpt?: { colors: boolean };
 };
 
-export default function useGeometryAndMaterial({ displayMesh, shading, isSelected, materials }: Params) {
+export default function useGeometryAndMaterial({ displayMesh, shading, isSelected, materials, weightGroupId, sculpt }: Params) {
     return useMemo<{ geom: BufferGeometry } | null>(() => {
         const dmesh = displayMesh;
         if (!dmesh) return null;
 
         const geo = new BufferGeometry();
-        const vertexMap = new Map(dmesh.vertices.map((v: any) => [v.id, v] as const));
+        const vertexMap = new Map<string, Vertex>(dmesh.vertices.map((v: Vertex) => [v.id, v] as const));
         const positions: number[] = [];
         const normals: number[] = [];
         const uvs: number[] = [];
         const uvs2: number[] = [];
+        const colors: number[] = [];
 
-        dmesh.faces.forEach((face: any) => {
+        const cornerNormals = computeCornerNormals(dmesh);
+        const colorLayerId = getActiveColorLayer(dmesh)?.id;
+
+        dmesh.faces.forEach((face: any, fi: number) => {
+            if (sculpt && face.hidden) return;
+            const faceSetTint = sculpt?.colors ? faceSetColor(face.faceSet ?? 0) : null;
             const tris = convertQuadToTriangles(face.vertexIds);
             tris.forEach((tri: string[]) => {
                 const v0: any = vertexMap.get(tri[0])!; const v1: any = vertexMap.get(tri[1])!; const v2: any = vertexMap.get(tri[2])!;
-                const p0 = new Vector3(v0.position.x, v0.position.y, v0.position.z);
-                const p1 = new Vector3(v1.position.x, v1.position.y, v1.position.z);
-                const p2 = new Vector3(v2.position.x, v2.position.y, v2.position.z);
-                const faceNormal = new Vector3()
-                    .subVectors(p1, p0)
-                    .cross(new Vector3().subVectors(p2, p0))
-                    .normalize();
+                const p0 = v0.position; const p1 = v1.position; const p2 = v2.position;
                 positions.push(
                     p0.x,
                     p0.y,
@@ -52,12 +62,20 @@ export default function useGeometryAndMaterial({ displayMesh, shading, isSelecte
                 uvs.push(uv0.x, uv0.y, uv1.x, uv1.y, uv2_.x, uv2_.y);
                 const u20 = v0.uv2 ?? uv0; const u21 = v1.uv2 ?? uv1; const u22 = v2.uv2 ?? uv2_;
                 uvs2.push(u20.x, u20.y, u21.x, u21.y, u22.x, u22.y);
-                const useSmooth = (dmesh.shading ?? 'flat') === 'smooth';
-                if (useSmooth) {
-                    const n0 = v0.normal; const n1 = v1.normal; const n2 = v2.normal;
-                    normals.push(n0.x, n0.y, n0.z, n1.x, n1.y, n1.z, n2.x, n2.y, n2.z);
-                } else {
-                    for (let i = 0; i < 3; i++) normals.push(faceNormal.x, faceNormal.y, faceNormal.z);
+                for (const vid of tri) {
+                    const n = cornerNormals[fi][face.vertexIds.indexOf(vid)];
+                    normals.push(n.x, n.y, n.z);
+                    const vertex = vertexMap.get(vid);
+                    if (faceSetTint) {
+                        const shade = 1 - 0.7 * (vertex ? vertexMask(vertex) : 0);
+                        colors.push(faceSetTint.r * shade, faceSetTint.g * shade, faceSetTint.b * shade, 1);
+                    } else if (weightGroupId !== undefined) {
+                        const c = weightToColor(weightGroupId && vertex ? vertexWeight(vertex, weightGroupId) : 0);
+                        colors.push(c.r, c.g, c.b, 1);
+                    } else if (colorLayerId) {
+                        const c = loopColor(face, colorLayerId, vid);
+                        colors.push(c.r, c.g, c.b, c.a);
+                    }
                 }
             });
         });
@@ -66,9 +84,10 @@ export default function useGeometryAndMaterial({ displayMesh, shading, isSelecte
         geo.setAttribute('normal', new Float32BufferAttribute(normals, 3));
         if (uvs.length) geo.setAttribute('uv', new Float32BufferAttribute(uvs, 2));
         if (uvs2.length) geo.setAttribute('uv2', new Float32BufferAttribute(uvs2, 2));
+        if (colors.length) geo.setAttribute('color', new Float32BufferAttribute(colors, 4));
         geo.computeBoundingSphere();
 
         return { geom: geo };
         // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, [displayMesh]);
+    }, [displayMesh, weightGroupId, sculpt]);
 }
@@ -0,0 +1,187 @@
+import { create } from 'zustand';
+import { immer } from 'zustand/middleware/immer';
+import { nanoid } from 'nanoid';
+import type { Curve3D, CurvePoint, SceneObject, Vector3 } from '@/types/geometry';
+import { useGeometryStore } from './geometry-store';
+import { useSceneStore } from './scene-store';
+import { createMeshFromGeometry, vec3 } from '@/utils/geometry';
+import { buildCurveGeometry, buildCurvePolyline, createCurvePoint, updateAutoHandles } from '@/utils/curve';
+
+export type CurvePreset = 'bezier' | 'circle' | 'nurbs' | 'empty';
+export type CurvePointPart = 'position' | 'handleIn' | 'handleOut';
+
+interface CurveState {
+  curves: Record<string, Curve3D>;
+  // Curve currently receiving points from viewport clicks
+  drawingCurveId: string | null;
+}
+
+interface CurveActions {
+  createCurve: (params?: Partial<Omit<Curve3D, 'id' | 'meshId'>>, preset?: CurvePreset) => { curveId: string; objectId: string };
+  updateCurve: (curveId: string, updater: (c: Curve3D) => void) => void;
+  movePoint: (curveId: string, index: number, part: CurvePointPart, position: Vector3) => void;
+  addPoint: (curveId: string, position: Vector3) => void;
+  removePoint: (curveId: string, index: number) => void;
+  setDrawing: (curveId: string | null) => void;
+  convertToMesh: (curveId: string) => void; // converts owning object to mesh type
+  removeCurve: (curveId: string) => void;
+  hydrateCurves: (curves: Record<string, Curve3D>) => void;
+  reset: () => void;
+}
+
+type CurveStore = CurveState & CurveActions;
+
+const presetPoints = (preset: CurvePreset): { points: CurvePoint[]; closed: boolean } => {
+  switch (preset) {
+    case 'circle': {
+      const pts = Array.from({ length: 4 }, (_, i) => {
+        const a = (i / 4) * Math.PI * 2;
+        return createCurvePoint(vec3(Math.cos(a), 0, -Math.sin(a)));
+      });
+      // Handle length for a quarter-circle cubic
+      const k = 0.5523;
+      pts.forEach((p, i) => {
+        const a = (i / 4) * Math.PI * 2;
+        const t = vec3(-Math.sin(a) * k, 0, -Math.cos(a) * k);
+        p.handleType = 'aligned';
+        p.handleIn = vec3(p.position.x - t.x, 0, p.position.z - t.z);
+        p.handleOut = vec3(p.position.x + t.x, 0, p.position.z + t.z);
+      });
+      return { points: pts, closed: true };
+    }
+    case 'nurbs':
+      return { points: [vec3(-2, 0, 0), vec3(-1, 0, 1), vec3(1, 0, -1), vec3(2, 0, 0)].map((p) => createCurvePoint(p)), closed: false };
+    case 'empty':
+      return { points: [], closed: false };
+    case 'bezier':
+    default:
+      return { points: [createCurvePoint(vec3(-1, 0, 0)), createCurvePoint(vec3(1, 0, 0))].map((p, i) => {
+        p.handleType = 'aligned';
+        p.handleIn = vec3(p.position.x - 0.5, 0, i === 0 ? 0.5 : -0.5);
+        p.handleOut = vec3(p.position.x + 0.5, 0, i === 0 ? -0.5 : 0.5);
+        return p;
+      }), closed: false };
+  }
+};
+
+const findObjectId = (curveId: string) =>
+  Object.values(useSceneStore.getState().objects).find((o) => o.curveId === curveId)?.id;
+
+// Regenerate the swept mesh for a curve (outside of set: writes into the geometry store)
+const rebuild = (curve: Curve3D) => {
+  if (!curve.meshId) return;
+  const { vertices, faces } = buildCurveGeometry(curve);
+  useGeometryStore.getState().replaceGeometry(curve.meshId, vertices, faces);
+};
+
+export const useCurveStore = create<CurveStore>()(immer((set, get) => ({
+  curves: {},
+  drawingCurveId: null,
+  createCurve: (params = {}, preset = 'bezier') => {
+    const id = nanoid();
+    const base = presetPoints(preset);
+    const curve: Curve3D = {
+      id,
+      type: preset === 'nurbs' ? 'nurbs' : 'bezier',
+      points: base.points,
+      closed: base.closed,
+      resolution: 12,
+      order: 4,
+      profile: 'none',
+      thickness: 0.05,
+      profileSegments: 8,
+      capEnds: true,
+      meshId: '',
+      ...params,
+    };
+    updateAutoHandles(curve.points, curve.closed);
+    const { vertices, faces } = buildCurveGeometry(curve);
+    const mesh = createMeshFromGeometry('Curve', vertices, faces, { shading: 'smooth' });
+    useGeometryStore.getState().addMesh(mesh);
+    curve.meshId = mesh.id;
+    set((state) => { state.curves[id] = curve; });
+
+    const scene = useSceneStore.getState();
+    const object: SceneObject = {
+      id: nanoid(),
+      name: preset === 'circle' ? 'Circle Curve' : preset === 'nurbs' ? 'NURBS Curve' : 'Curve',
+      type: 'curve',
+      parentId: null,
+      children: [],
+      transform: { position: { x: 0, y: 0, z: 0 }, rotation: { x: 0, y: 0, z: 0 }, scale: { x: 1, y: 1, z: 1 } },
+      visible: true,
+      locked: false,
+      render: true,
+      curveId: id,
+      meshId: mesh.id,
+    };
+    scene.addObject(object);
+    scene.selectObject(object.id);
+    return { curveId: id, objectId: object.id };
+  },
+  updateCurve: (curveId, updater) => {
+    set((state) => {
+      const c = state.curves[curveId];
+      if (!c) return;
+      updater(c);
+      updateAutoHandles(c.points, c.closed);
+    });
+    const c = get().curves[curveId];
+    if (c) rebuild(c);
+  },
+  movePoint: (curveId, index, part, position) => {
+    get().updateCurve(curveId, (c) => {
+      const p = c.points[index];
+      if (!p) return;
+      if (part === 'position') {
+        const dx = position.x - p.position.x, dy = position.y - p.position.y, dz = position.z - p.position.z;
+        p.position = { ...position };
+        for (const h of [p.handleIn, p.handleOut]) { h.x += dx; h.y += dy; h.z += dz; }
+        return;
+      }
+      // Dragging a generated handle takes it over
+      if (p.handleType === 'auto' || p.handleType === 'vector') p.handleType = 'aligned';
+      p[part] = { ...position };
+      if (p.handleType !== 'aligned') return;
+      const other = part === 'handleIn' ? 'handleOut' : 'handleIn';
+      const P = p.position;
+      const d = { x: P.x - position.x, y: P.y - position.y, z: P.z - position.z };
+      const dl = Math.hypot(d.x, d.y, d.z);
+      if (dl < 1e-9) return;
+      const ol = Math.hypot(p[other].x - P.x, p[other].y - P.y, p[other].z - P.z);
+      p[other] = vec3(P.x + (d.x / dl) * ol, P.y + (d.y / dl) * ol, P.z + (d.z / dl) * ol);
+    });
+  },
+  addPoint: (curveId, position) => {
+    get().updateCurve(curveId, (c) => { c.points.push(createCurvePoint(position)); });
+  },
+  removePoint: (curveId, index) => {
+    get().updateCurve(curveId, (c) => { c.points.splice(index, 1); });
+  },
+  setDrawing: (curveId) => set((state) => { state.drawingCurveId = curveId; }),
+  convertToMesh: (curveId) => {
+    const c = get().curves[curveId];
+    if (!c) return;
+    // Without a profile the result is the evaluated polyline as loose edges
+    if (c.profile === 'none' && c.meshId) {
+      const { vertices, edges } = buildCurvePolyline(c);
+      useGeometryStore.getState().updateMesh(c.meshId, (m) => { m.vertices = vertices; m.faces = []; m.edges = edges; });
+    }
+    const objectId = findObjectId(curveId);
+    if (objectId) useSceneStore.getState().updateObject(objectId, (o) => { o.type = 'mesh'; delete o.curveId; });
+    set((state) => {
+      delete state.curves[curveId];
+      if (state.drawingCurveId === curveId) state.drawingCurveId = null;
+    });
+  },
+  removeCurve: (curveId) => {
+    set((state) => {
+      delete state.curves[curveId];
+      if (state.drawingCurveId === curveId) state.drawingCurveId = null;
+    });
+  },
+  hydrateCurves: (curves) => set((state) => { state.curves = curves || {}; state.drawingCurveId = null; }),
+  reset: () => set({ curves: {}, drawingCurveId: null }),
+})));
+
+export const useCurveResource = (curveId: string) => useCurveStore((s) => s.curves[curveId]);
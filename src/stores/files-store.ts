@@ -71,3 +71,79 @@ export function getOrCreateDownloadUrl(id: FileId): string | null {
 export function getSuggestedFilename(id: FileId): string | undefined {
   return nameById.get(id);
 }
+
+// Decoded RGBA pixels of image files for CPU-side sampling (e.g. displacement). Decoding is async:
+// getImagePixels returns null and starts a decode; subscribers are notified once it lands.
+export type ImagePixels = { width: number; height: number; data: Uint8ClampedArray };
+
+const pixelsById = new Map<FileId, ImagePixels | null>(); // null = decode pending or failed
+const pixelListeners = new Set<() => void>();
+// Decoded pixels so far; replaced (not mutated) on every decode so subscribers can compare it
+let pixelsSnapshot: ReadonlyMap<FileId, ImagePixels> = new Map();
+
+function publishPixels(id: FileId, pixels: ImagePixels) {
+  pixelsById.set(id, pixels);
+  pixelsSnapshot = new Map(pixelsSnapshot).set(id, pixels);
+  pixelListeners.forEach((l) => l());
+}
+
+async function decodeImagePixels(sf: StoredFile): Promise<ImagePixels | null> {
+  if (typeof createImageBitmap === 'undefined' || typeof OffscreenCanvas === 'undefined') return null;
+  const bitmap = await createImageBitmap(sf.blob);
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  const img = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  return { width: img.width, height: img.height, data: img.data };
+}
+
+export function getImagePixels(id: FileId): ImagePixels | null {
+  if (pixelsById.has(id)) return pixelsById.get(id) ?? null;
+  const sf = filesById.get(id);
+  if (!sf) return null;
+  pixelsById.set(id, null);
+  decodeImagePixels(sf)
+    .catch(() => null)
+    .then((pixels) => {
+      if (pixels) publishPixels(id, pixels);
+    });
+  return null;
+}
+
+export function subscribeImagePixels(listener: () => void): () => void {
+  pixelListeners.add(listener);
+  return () => { pixelListeners.delete(listener); };
+}
+
+export const getImagePixelsSnapshot = () => pixelsSnapshot;
+
+// Bilinear, repeating luminance lookup (0..1); v runs bottom-up like mesh UVs
+export function sampleImageLuminance(img: ImagePixels, u: number, v: number): number {
+  const { width: w, height: h, data } = img;
+  const x = (u - Math.floor(u)) * w - 0.5;
+  const y = (1 - (v - Math.floor(v))) * h - 0.5;
+  const x0 = Math.floor(x), y0 = Math.floor(y);
+  const tx = x - x0, ty = y - y0;
+  const lum = (px: number, py: number) => {
+    const i = ((((py % h) + h) % h) * w + (((px % w) + w) % w)) * 4;
+    return (data[i] + data[i + 1] + data[i + 2]) / 765;
+  };
+  const a = lum(x0, y0) * (1 - tx) + lum(x0 + 1, y0) * tx;
+  const b = lum(x0, y0 + 1) * (1 - tx) + lum(x0 + 1, y0 + 1) * tx;
+  return a * (1 - ty) + b * ty;
+}
+
+// Store generated pixels (e.g. baked maps) as a PNG file; the pixels are cached so sampling
+// them doesn't wait for a decode
+export async function storeImagePixels(pixels: ImagePixels, name: string): Promise<FileId> {
+  const canvas = new OffscreenCanvas(pixels.width, pixels.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('2D canvas unavailable');
+  ctx.putImageData(new ImageData(new Uint8ClampedArray(pixels.data), pixels.width, pixels.height), 0, 0);
+  const blob = await canvas.convertToBlob({ type: 'image/png' });
+  const id = await ensureFileIdForBlob(blob, name);
+  publishPixels(id, pixels);
+  return id;
+}
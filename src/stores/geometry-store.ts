@@ -2,12 +2,25 @@ import { create } from 'zustand';
 import { immer } from 'zustand/middleware/immer';
 import { subscribeWithSelector } from 'zustand/middleware';
 import { useMemo } from 'react';
-import { Mesh, Material, CameraResource } from '../types/geometry';
+import { Mesh, Material, CameraResource, Transform, type Lattice3D, type SceneObject } from '../types/geometry';
 import type { ShaderGraph } from '@/types/shader';
 import type { TerrainGraph } from '@/types/terrain';
 import { nanoid } from 'nanoid';
 import { useSceneStore } from './scene-store';
-import { applyModifiersToMesh, type ModifierStackItem, type ModifierType, createDefaultSettings } from '../utils/modifiers';
+import { useMetaballStore, type Metaball } from './metaball-store';
+import { applyModifiersToMesh, type ModifierContext, type ModifierStackItem, type ModifierType, createDefaultSettings } from '../utils/modifiers';
+import { getObjectWorldMatrix } from '../utils/world-transform';
+import { meshToPath } from '../utils/path';
+import { evaluateCurve } from '../utils/curve';
+import { useCurveStore } from './curve-store';
+import { useLatticeStore } from './lattice-store';
+import { useTerrainStore } from './terrain-store';
+import { createTerrainHeightSampler } from '../utils/terrain/heightfield';
+import type { VolumePreview } from '../utils/volume';
+import { customNormalState, dropStaleCustomNormals } from '../utils/normals';
+import { getImagePixels, type ImagePixels } from './files-store';
+import { removeVertexWeight, setVertexWeight } from '../utils/vertex-groups';
+import { Vector3 } from 'three/webgpu';
 import {
   createCubeMesh,
   calculateVertexNormals,
@@ -48,6 +61,21 @@ interface GeometryActions {
   // UV seams
   setEdgeSeams: (meshId: string, edgeIds: string[], seam: boolean) => void;
   clearAllSeams: (meshId: string) => void;
+  setEdgeCreases: (meshId: string, edgeIds: string[], crease: number) => void;
+  setEdgesSharp: (meshId: string, edgeIds: string[], sharp: boolean) => void;
+  clearCustomNormals: (meshId: string) => void;
+  // Vertex colour layers
+  addColorLayer: (meshId: string, name?: string) => string | null;
+  removeColorLayer: (meshId: string, layerId: string) => void;
+  renameColorLayer: (meshId: string, layerId: string, name: string) => void;
+  setActiveColorLayer: (meshId: string, layerId: string) => void;
+  // Vertex groups
+  addVertexGroup: (meshId: string, name?: string) => string | null;
+  removeVertexGroup: (meshId: string, groupId: string) => void;
+  renameVertexGroup: (meshId: string, groupId: string, name: string) => void;
+  setActiveVertexGroup: (meshId: string, groupId: string) => void;
+  assignToVertexGroup: (meshId: string, groupId: string, vertexIds: string[], weight: number) => void;
+  removeFromVertexGroup: (meshId: string, groupId: string, vertexIds: string[]) => void;
 
   // Material operations
   addMaterial: (material: Material) => void;
@@ -96,7 +124,7 @@ type GeometryStore = GeometryState & GeometryActions;
 export const useGeometryStore = create<GeometryStore>()(
   temporal(
     subscribeWithSelector(
-      immer((set) => ({
+      immer((set, get) => ({
         // Initial state
         meshes: new Map(),
         materials: new Map(),
@@ -126,7 +154,10 @@ export const useGeometryStore = create<GeometryStore>()(
           set((state) => {
             const mesh = state.meshes.get(meshId);
             if (mesh) {
+              const normalsBefore = customNormalState(mesh);
               updater(mesh);
+              // Edits that move or re-wire faces leave their custom normals stale
+              if (normalsBefore) dropStaleCustomNormals(mesh, normalsBefore);
               // Ensure array identity changes so memoized consumers update
               mesh.vertices = mesh.vertices.slice();
               // Also clone faces/edges arrays to propagate topology changes to renderers
@@ -153,6 +184,139 @@ export const useGeometryStore = create<GeometryStore>()(
             mesh.edges = mesh.edges.slice();
           });
         },
+        setEdgeCreases: (meshId, edgeIds, crease) => {
+          set((state) => {
+            const mesh = state.meshes.get(meshId);
+            if (!mesh) return;
+            const set = new Set(edgeIds);
+            const c = Math.max(0, Math.min(1, crease));
+            for (const e of mesh.edges) {
+              if (!set.has(e.id)) continue;
+              if (c > 0) e.crease = c; else delete e.crease;
+            }
+            mesh.edges = mesh.edges.slice();
+          });
+        },
+        setEdgesSharp: (meshId, edgeIds, sharp) => {
+          set((state) => {
+            const mesh = state.meshes.get(meshId);
+            if (!mesh) return;
+            const set = new Set(edgeIds);
+            for (const e of mesh.edges) {
+              if (!set.has(e.id)) continue;
+              if (sharp) e.sharp = true; else delete e.sharp;
+            }
+            mesh.edges = mesh.edges.slice();
+          });
+        },
+        clearCustomNormals: (meshId) => {
+          set((state) => {
+            const mesh = state.meshes.get(meshId);
+            if (!mesh) return;
+            for (const f of mesh.faces) delete f.normals;
+            mesh.faces = mesh.faces.slice();
+          });
+        },
+        addColorLayer: (meshId, name) => {
+          const mesh = get().meshes.get(meshId);
+          if (!mesh) return null;
+          const id = nanoid();
+          const layers = mesh.colorLayers ?? [];
+          set((state) => {
+            const m = state.meshes.get(meshId);
+            if (!m) return;
+            m.colorLayers = [...layers, { id, name: name || `Color${layers.length ? `.${String(layers.length).padStart(3, '0')}` : ''}` }];
+            m.activeColorLayerId = id;
+          });
+          return id;
+        },
+        removeColorLayer: (meshId, layerId) => {
+          set((state) => {
+            const mesh = state.meshes.get(meshId);
+            if (!mesh) return;
+            mesh.colorLayers = (mesh.colorLayers ?? []).filter((l) => l.id !== layerId);
+            for (const f of mesh.faces) {
+              if (!f.colors?.[layerId]) continue;
+              delete f.colors[layerId];
+              if (Object.keys(f.colors).length === 0) delete f.colors;
+            }
+            mesh.faces = mesh.faces.slice();
+            if (mesh.activeColorLayerId === layerId) mesh.activeColorLayerId = mesh.colorLayers[0]?.id;
+            if (mesh.colorLayers.length === 0) {
+              delete mesh.colorLayers;
+              delete mesh.activeColorLayerId;
+            }
+          });
+        },
+        renameColorLayer: (meshId, layerId, name) => {
+          set((state) => {
+            const layer = state.meshes.get(meshId)?.colorLayers?.find((l) => l.id === layerId);
+            if (layer && name.trim()) layer.name = name.trim();
+          });
+        },
+        setActiveColorLayer: (meshId, layerId) => {
+          set((state) => {
+            const mesh = state.meshes.get(meshId);
+            if (mesh?.colorLayers?.some((l) => l.id === layerId)) mesh.activeColorLayerId = layerId;
+          });
+        },
+        addVertexGroup: (meshId, name) => {
+          const mesh = get().meshes.get(meshId);
+          if (!mesh) return null;
+          const id = nanoid();
+          const groups = mesh.vertexGroups ?? [];
+          set((state) => {
+            const m = state.meshes.get(meshId);
+            if (!m) return;
+            m.vertexGroups = [...groups, { id, name: name || `Group${groups.length ? `.${String(groups.length).padStart(3, '0')}` : ''}` }];
+            m.activeVertexGroupId = id;
+          });
+          return id;
+        },
+        removeVertexGroup: (meshId, groupId) => {
+          set((state) => {
+            const mesh = state.meshes.get(meshId);
+            if (!mesh) return;
+            mesh.vertexGroups = (mesh.vertexGroups ?? []).filter((g) => g.id !== groupId);
+            for (const v of mesh.vertices) removeVertexWeight(v, groupId);
+            mesh.vertices = mesh.vertices.slice();
+            if (mesh.activeVertexGroupId === groupId) mesh.activeVertexGroupId = mesh.vertexGroups[0]?.id;
+            if (mesh.vertexGroups.length === 0) {
+              delete mesh.vertexGroups;
+              delete mesh.activeVertexGroupId;
+            }
+          });
+        },
+        renameVertexGroup: (meshId, groupId, name) => {
+          set((state) => {
+            const group = state.meshes.get(meshId)?.vertexGroups?.find((g) => g.id === groupId);
+            if (group && name.trim()) group.name = name.trim();
+          });
+        },
+        setActiveVertexGroup: (meshId, groupId) => {
+          set((state) => {
+            const mesh = state.meshes.get(meshId);
+            if (mesh?.vertexGroups?.some((g) => g.id === groupId)) mesh.activeVertexGroupId = groupId;
+          });
+        },
+        assignToVertexGroup: (meshId, groupId, vertexIds, weight) => {
+          set((state) => {
+            const mesh = state.meshes.get(meshId);
+            if (!mesh?.vertexGroups?.some((g) => g.id === groupId)) return;
+            const ids = new Set(vertexIds);
+            for (const v of mesh.vertices) if (ids.has(v.id)) setVertexWeight(v, groupId, weight);
+            mesh.vertices = mesh.vertices.slice();
+          });
+        },
+        removeFromVertexGroup: (meshId, groupId, vertexIds) => {
+          set((state) => {
+            const mesh = state.meshes.get(meshId);
+            if (!mesh) return;
+            const ids = new Set(vertexIds);
+            for (const v of mesh.vertices) if (ids.has(v.id)) removeVertexWeight(v, groupId);
+            mesh.vertices = mesh.vertices.slice();
+          });
+        },
 
         selectMesh: (meshId: string | null) => {
           set((state) => {
@@ -361,7 +525,9 @@ export const useGeometryStore = create<GeometryStore>()(
           const id = nanoid();
           set((state) => {
             const stack = state.modifierStacks[objectId] ?? [];
-            const next = [...stack, { id, type, enabled: true, settings: createDefaultSettings(type) }];
+            const item = { id, type, enabled: true, settings: createDefaultSettings(type) };
+            // Multires works on the original mesh, so it always goes first
+            const next = type === 'multires' ? [item, ...stack] : [...stack, item];
             state.modifierStacks[objectId] = next;
           });
           return id;
@@ -416,6 +582,8 @@ export const useGeometryStore = create<GeometryStore>()(
             const next = stack.slice();
             const [item] = next.splice(from, 1);
             next.splice(to, 0, item);
+            // Keep a multires on top of the stack
+            if (next.findIndex((m: ModifierStackItem) => m.type === 'multires') > 0) return;
             state.modifierStacks[objectId] = next;
           });
         },
@@ -435,6 +603,7 @@ export const useGeometryStore = create<GeometryStore>()(
         },
 
         updateModifierSettings: (objectId, modifierId, updater) => {
+          let newCutter: string | null = null;
           set((state) => {
             const stack = state.modifierStacks[objectId];
             if (!stack) return;
@@ -446,8 +615,13 @@ export const useGeometryStore = create<GeometryStore>()(
               const next = stack.slice();
               next[idx] = { ...prev, settings: nextSettings };
               state.modifierStacks[objectId] = next;
+              if (prev.type === 'boolean' && nextSettings.objectId && nextSettings.objectId !== prev.settings?.objectId) {
+                newCutter = nextSettings.objectId;
+              }
             }
           });
+          // Boolean cutters are construction helpers: keep them out of the final render
+          if (newCutter) useSceneStore.getState().setRender(newCutter, false);
         },
 
         applyModifier: (objectId, modifierId) => {
@@ -464,7 +638,7 @@ export const useGeometryStore = create<GeometryStore>()(
             if (idx < 0) return;
 
             const toApply = stack.slice(0, idx + 1);
-            const evaluated: Mesh = applyModifiersToMesh(mesh, toApply);
+            const evaluated: Mesh = applyModifiersToMesh(mesh, toApply, buildModifierContext(objectId));
 
             // Bake into base mesh (inline to keep a single set)
             mesh.vertices = evaluated.vertices;
@@ -521,6 +695,78 @@ export const useGeometryStore = create<GeometryStore>()(
   )
 );
 
+// Data a context resolves references against, e.g. what a component subscribed to; anything not
+// given is read from the stores. Meshes and lattices are keyed by object id.
+export interface ModifierSources {
+  meshes?: Record<string, Mesh | undefined>;
+  lattices?: Record<string, Lattice3D | undefined>;
+  metaballs?: Record<string, Metaball> | null;
+  images?: ReadonlyMap<string, ImagePixels>;
+  volumePreviews?: ReadonlyMap<string, VolumePreview>;
+}
+
+// Scene context for evaluating an object's modifier stack (object references, world transforms).
+// `transformOverrides` substitutes uncommitted transforms, e.g. while an object tool is dragging.
+export const buildModifierContext = (
+  objectId: string,
+  transformOverrides?: Record<string, Transform>,
+  sources?: ModifierSources,
+): ModifierContext => {
+  const objects = useSceneStore.getState().objects;
+  const meshOf = (obj: SceneObject) => (sources?.meshes && obj.id in sources.meshes
+    ? sources.meshes[obj.id]
+    : obj.meshId ? useGeometryStore.getState().meshes.get(obj.meshId) : undefined);
+  return {
+    objectId,
+    worldMatrix: getObjectWorldMatrix(objects, objectId, transformOverrides),
+    resolveObject: (id) => {
+      const obj = objects[id];
+      const mesh = obj ? meshOf(obj) : undefined;
+      if (!obj || obj.type !== 'mesh' || !mesh) return null;
+      return { mesh, worldMatrix: getObjectWorldMatrix(objects, id, transformOverrides) };
+    },
+    resolveTransform: (id) => (objects[id] ? getObjectWorldMatrix(objects, id, transformOverrides) : null),
+    resolvePath: (id) => {
+      const obj = objects[id];
+      const curve = obj?.type === 'curve' && obj.curveId ? useCurveStore.getState().curves[obj.curveId] : undefined;
+      const mesh = obj?.type === 'mesh' ? meshOf(obj) : undefined;
+      const path = curve ? evaluateCurve(curve) : mesh ? meshToPath(mesh) : null;
+      if (!path) return null;
+      const m = getObjectWorldMatrix(objects, id, transformOverrides);
+      const p = new Vector3();
+      return { closed: path.closed, points: path.points.map((v) => { p.set(v.x, v.y, v.z).applyMatrix4(m); return { x: p.x, y: p.y, z: p.z }; }) };
+    },
+    resolveLattice: (id) => {
+      const obj = objects[id];
+      if (obj?.type !== 'lattice') return null;
+      const lattice = sources?.lattices && id in sources.lattices
+        ? sources.lattices[id]
+        : obj.latticeId ? useLatticeStore.getState().lattices[obj.latticeId] : undefined;
+      return lattice ? { lattice, worldMatrix: getObjectWorldMatrix(objects, id, transformOverrides) } : null;
+    },
+    resolveSurface: (id) => {
+      const obj = objects[id];
+      if (!obj || (obj.type !== 'mesh' && obj.type !== 'terrain')) return null;
+      const mesh = meshOf(obj);
+      if (!mesh) return null;
+      const terrain = obj.type === 'terrain' && obj.terrainId ? useTerrainStore.getState().terrains[obj.terrainId] : undefined;
+      const heightAt = terrain ? createTerrainHeightSampler(terrain) ?? undefined : undefined;
+      return { mesh, worldMatrix: getObjectWorldMatrix(objects, id, transformOverrides), heightAt };
+    },
+    resolveImage: (fileId) => sources?.images?.get(fileId) ?? getImagePixels(fileId),
+    volumePreviews: sources?.volumePreviews,
+    metaballs: () => {
+      const metaballs = sources?.metaballs ?? useMetaballStore.getState().metaballs;
+      return Object.values(objects).flatMap((o) => {
+        const m = o.type === 'metaball' && o.metaballId ? metaballs[o.metaballId] : undefined;
+        if (!m) return [];
+        const e = getObjectWorldMatrix(objects, o.id, transformOverrides).elements;
+        return [{ position: { x: e[12], y: e[13], z: e[14] }, radius: m.radius, strength: m.strength, group: m.materialId || 'default' }];
+      });
+    },
+  };
+};
+
 // Selector hooks for optimized re-renders
 export const useMeshes = () => {
   const meshesMap = useGeometryStore((state) => state.meshes);
@@ -555,3 +801,16 @@ export const geometryRedo = () => {
     api?.redo?.();
   } catch { }
 };
+
+// Stop / restart recording history, for edits previewed live and committed as one step
+export const pauseGeometryHistory = () => {
+  try {
+    (useGeometryStore as any).temporal?.getState?.()?.pause?.();
+  } catch { }
+};
+
+export const resumeGeometryHistory = () => {
+  try {
+    (useGeometryStore as any).temporal?.getState?.()?.resume?.();
+  } catch { }
+};
@@ -0,0 +1,90 @@
+import { create } from 'zustand';
+import { immer } from 'zustand/middleware/immer';
+import { nanoid } from 'nanoid';
+import type { Lattice3D, SceneObject, Vector3 } from '@/types/geometry';
+import { useSceneStore } from './scene-store';
+import { clampLatticeResolution, createLatticePoints, resampleLattice, type LatticeResolution } from '@/utils/lattice';
+
+interface LatticeState {
+  lattices: Record<string, Lattice3D>;
+}
+
+interface LatticeActions {
+  createLattice: (params?: Partial<Omit<Lattice3D, 'id' | 'points'>>) => { latticeId: string; objectId: string };
+  updateLattice: (latticeId: string, updater: (l: Lattice3D) => void) => void;
+  setResolution: (latticeId: string, resolution: Partial<LatticeResolution>) => void; // keeps the current deformation
+  movePoint: (latticeId: string, index: number, position: Vector3) => void;
+  resetPoints: (latticeId: string) => void;
+  removeLattice: (latticeId: string) => void;
+  hydrateLattices: (lattices: Record<string, Lattice3D>) => void;
+  reset: () => void;
+}
+
+type LatticeStore = LatticeState & LatticeActions;
+
+export const useLatticeStore = create<LatticeStore>()(immer((set, get) => ({
+  lattices: {},
+  createLattice: (params = {}) => {
+    const id = nanoid();
+    const resolution = params.resolution ?? { u: 3, v: 3, w: 3 };
+    const lattice: Lattice3D = {
+      id,
+      interpolation: 'bspline',
+      ...params,
+      resolution,
+      points: createLatticePoints(resolution),
+    };
+    set((state) => { state.lattices[id] = lattice; });
+
+    const scene = useSceneStore.getState();
+    const object: SceneObject = {
+      id: nanoid(),
+      name: 'Lattice',
+      type: 'lattice',
+      parentId: null,
+      children: [],
+      transform: { position: { x: 0, y: 0, z: 0 }, rotation: { x: 0, y: 0, z: 0 }, scale: { x: 2, y: 2, z: 2 } },
+      visible: true,
+      locked: false,
+      // Deformers are helpers and never part of the final render
+      render: false,
+      latticeId: id,
+    };
+    scene.addObject(object);
+    scene.selectObject(object.id);
+    return { latticeId: id, objectId: object.id };
+  },
+  updateLattice: (latticeId, updater) => set((state) => {
+    const l = state.lattices[latticeId];
+    if (l) updater(l);
+  }),
+  setResolution: (latticeId, resolution) => {
+    const l = get().lattices[latticeId];
+    if (!l) return;
+    const next = {
+      u: clampLatticeResolution(resolution.u ?? l.resolution.u),
+      v: clampLatticeResolution(resolution.v ?? l.resolution.v),
+      w: clampLatticeResolution(resolution.w ?? l.resolution.w),
+    };
+    const points = resampleLattice(l, next);
+    set((state) => {
+      const cur = state.lattices[latticeId];
+      if (!cur) return;
+      cur.resolution = next;
+      cur.points = points;
+    });
+  },
+  movePoint: (latticeId, index, position) => set((state) => {
+    const l = state.lattices[latticeId];
+    if (l && l.points[index]) l.points[index] = { ...position };
+  }),
+  resetPoints: (latticeId) => set((state) => {
+    const l = state.lattices[latticeId];
+    if (l) l.points = createLatticePoints(l.resolution);
+  }),
+  removeLattice: (latticeId) => set((state) => { delete state.lattices[latticeId]; }),
+  hydrateLattices: (lattices) => set((state) => { state.lattices = lattices || {}; }),
+  reset: () => set({ lattices: {} }),
+})));
+
+export const useLatticeResource = (latticeId: string) => useLatticeStore((s) => s.lattices[latticeId]);
@@ -148,6 +148,18 @@ export const useSceneStore = create<SceneStore>()(
                   useMetaballStore.getState().removeMetaball((obj as any).metaballId);
                 } catch { }
               }
+              if (obj.curveId) {
+                try {
+                  const { useCurveStore } = require('./curve-store');
+                  useCurveStore.getState().removeCurve(obj.curveId);
+                } catch { }
+              }
+              if (obj.latticeId) {
+                try {
+                  const { useLatticeStore } = require('./lattice-store');
+                  useLatticeStore.getState().removeLattice(obj.latticeId);
+                } catch { }
+              }
               try {
                 const { useFloorPlanStore } = require('./floor-plan-store');
                 useFloorPlanStore.getState().removeByObjectId(id);
@@ -28,6 +28,7 @@ interface SelectionActions {
   getSelectionCount: () => number;
   enterEditMode: (meshId: string) => void;
   exitEditMode: () => void;
+  enterPaintMode: (meshId: string) => void;
   reset: () => void;
 }
 
@@ -177,7 +178,7 @@ export const useSelectionStore = create<SelectionStore>()(
       },
       
       enterEditMode: (meshId: string) => {
-        // Prevent entering edit mode for Text3D objects unless rasterized
+        // Prevent entering edit mode for Text3D objects unless rasterized, and for curve objects
         try {
           // eslint-disable-next-line @typescript-eslint/no-require-imports
           const scene = require('./scene-store').useSceneStore.getState();
@@ -188,6 +189,8 @@ export const useSelectionStore = create<SelectionStore>()(
             const t = textStore.texts[obj.textId];
             if (t && !t.rasterized) return; // block
           }
+          // Curves are edited through their control points until converted to a mesh
+          if (obj && obj.type === 'curve') return;
         } catch {}
         set((state) => {
           useToolStore.getState().reset();
@@ -217,6 +220,18 @@ export const useSelectionStore = create<SelectionStore>()(
         });
       },
       
+      // Vertex paint works on one mesh like edit mode; exitEditMode returns to object mode
+      enterPaintMode: (meshId: string) => {
+        set((state) => {
+          useToolStore.getState().reset();
+          state.selection.viewMode = 'paint';
+          state.selection.meshId = meshId;
+          state.selection.vertexIds = [];
+          state.selection.edgeIds = [];
+          state.selection.faceIds = [];
+        });
+      },
+      
       selectMesh: (meshId: string | null) => {
         set((state) => {
           state.selection.meshId = meshId;
@@ -1,14 +1,22 @@
 import { create } from 'zustand';
 import { subscribeWithSelector } from 'zustand/middleware';
 
+// A Displace modifier whose 'graph' source is open in the editor instead of a terrain
+export interface DisplaceGraphTarget {
+  objectId: string;
+  modifierId: string;
+}
+
 interface TerrainEditorState {
   open: boolean;
   terrainId?: string;
+  displace?: DisplaceGraphTarget;
 }
 
 interface TerrainEditorActions {
   setOpen: (open: boolean) => void;
   openFor: (terrainId: string) => void;
+  openForDisplace: (objectId: string, modifierId: string) => void;
   setTerrainId: (terrainId?: string) => void;
   reset: () => void;
 }
@@ -19,9 +27,11 @@ export const useTerrainEditorStore = create<TerrainEditorStore>()(
   subscribeWithSelector((set) => ({
     open: false,
     terrainId: undefined,
+    displace: undefined,
     setOpen: (open) => set({ open }),
-    openFor: (terrainId) => set({ open: true, terrainId }),
-    setTerrainId: (terrainId) => set({ terrainId }),
-    reset: () => set({ open: false, terrainId: undefined }),
+    openFor: (terrainId) => set({ open: true, terrainId, displace: undefined }),
+    openForDisplace: (objectId, modifierId) => set({ open: true, terrainId: undefined, displace: { objectId, modifierId } }),
+    setTerrainId: (terrainId) => set({ terrainId, displace: undefined }),
+    reset: () => set({ open: false, terrainId: undefined, displace: undefined }),
   }))
 );
@@ -1,20 +1,39 @@
 import { create } from 'zustand';
 import type { Transform } from '@/types/geometry';
+import type { PaintBlend } from '@/utils/vertex-colors';
+import { DEFAULT_FALLOFF_CURVE, LINEAR_CURVE, normalizeCurve, type CurvePoint } from '@/utils/brush-curve';
+
+export type BrushFalloff = 'smooth' | 'linear' | 'sharp' | 'constant' | 'curve';
+// space: dabs every `strokeSpacing` × radius; dots: a dab per pointer event; drag-dot: a single
+// dab that follows the pointer; line: dabs along a straight line on release; anchored: one dab
+// at the press point, sized by how far the pointer is dragged
+export type StrokeMethod = 'space' | 'dots' | 'drag-dot' | 'line' | 'anchored';
 
 export type ToolMode =
   | 'none'
   // Mesh editing transforms
   | 'move' | 'rotate' | 'scale' | 'extrude' | 'inset' | 'bevel' | 'chamfer' | 'fillet' | 'loopcut' | 'knife'
+  | 'edge-slide' | 'vertex-slide' | 'edge-crease'
   // Sculpt brushes
   | 'sculpt-draw' | 'sculpt-clay' | 'sculpt-inflate' | 'sculpt-blob' | 'sculpt-crease'
   | 'sculpt-smooth' | 'sculpt-flatten' | 'sculpt-contrast' | 'sculpt-fill' | 'sculpt-deepen'
   | 'sculpt-scrape' | 'sculpt-peaks' | 'sculpt-pinch' | 'sculpt-magnify' | 'sculpt-grab'
-  | 'sculpt-snake-hook' | 'sculpt-thumb' | 'sculpt-nudge' | 'sculpt-rotate' | 'sculpt-simplify';
+  | 'sculpt-snake-hook' | 'sculpt-thumb' | 'sculpt-nudge' | 'sculpt-rotate' | 'sculpt-simplify'
+  // Sculpt masking / face sets
+  | 'sculpt-mask' | 'sculpt-face-set';
 export type AxisLock = 'none' | 'x' | 'y' | 'z';
+export type ProportionalFalloff = 'smooth' | 'sphere' | 'root' | 'linear' | 'sharp' | 'constant' | 'random';
+// Pen pressure toggles per brush; 'paint' covers vertex / weight paint. Quick brush placement
+// and floor-plan drawing only use the size mapping.
+export type PressureBrush = ToolMode | 'paint' | 'quick-brush' | 'floor-plan';
+export type BrushPressure = { size: boolean; strength: boolean };
+const DEFAULT_BRUSH_PRESSURE: BrushPressure = { size: false, strength: true };
 
 type LocalData =
   | { kind: 'object-transform'; transforms: Record<string, Transform> }
   | { kind: 'loopcut'; objectId: string; meshId: string; faceId: string; edge: [string, string]; segments: number }
+  | { kind: 'slide'; factor: number; even: boolean; flip: boolean; numeric: string }
+  | { kind: 'crease'; value: number; numeric: string }
   | { kind: 'knife'; meshId: string; cutPoints: Array<{ x: number; y: number; z: number; faceId: string }>; previewPath: Array<{ a: { x: number; y: number; z: number }; b: { x: number; y: number; z: number } }>; hoverLine?: { a: { x: number; y: number; z: number }; b: { x: number; y: number; z: number } } }
   | null;
 
@@ -22,6 +41,9 @@ interface ToolState {
   tool: ToolMode;
   isActive: boolean;
   axisLock: AxisLock;
+  // Typed value / expression for move, rotate, scale, extrude and inset (utils/numeric-input);
+  // while set it overrides the mouse
+  numericInput: string;
   localData: LocalData; // Holds a local copy of selected data during operation
   // Visual grouping while in Edit mode: which tool palette is shown (mesh vs sculpt)
   editPalette: 'mesh' | 'sculpt';
@@ -35,6 +57,7 @@ interface ToolState {
   startOperation: (tool: ToolMode, localData: LocalData) => void;
   setLocalData: (localData: LocalData) => void;
   setAxisLock: (axis: AxisLock) => void;
+  setNumericInput: (input: string) => void;
   endOperation: (commit: boolean) => void;
   reset: () => void;
   // Sensitivity controls
@@ -44,13 +67,67 @@ interface ToolState {
   setMoveSensitivity: (value: number) => void;
   setRotateSensitivity: (value: number) => void;
   setScaleSensitivity: (value: number) => void;
+  // Proportional (soft) editing: move / rotate / scale also pull unselected vertices within the
+  // radius (object units), weighted by the falloff; connected-only measures along edges
+  proportionalEditing: boolean;
+  proportionalFalloff: ProportionalFalloff;
+  proportionalRadius: number;
+  proportionalConnected: boolean;
+  setProportionalEditing: (v: boolean) => void;
+  setProportionalFalloff: (f: ProportionalFalloff) => void;
+  setProportionalRadius: (r: number) => void;
+  setProportionalConnected: (v: boolean) => void;
   // Sculpt brush defaults
   brushRadius: number; // world units
   brushStrength: number; // 0..1 per sample
-  brushFalloff: 'smooth' | 'linear' | 'sharp';
+  brushFalloff: BrushFalloff;
+  brushCurve: CurvePoint[]; // used by the 'curve' falloff
   setBrushRadius: (r: number) => void;
   setBrushStrength: (s: number) => void;
-  setBrushFalloff: (f: 'smooth' | 'linear' | 'sharp') => void;
+  setBrushFalloff: (f: BrushFalloff) => void;
+  setBrushCurve: (points: CurvePoint[]) => void;
+  // Sculpt texture alpha: grayscale image (files-store id) scaling the brush in its plane
+  brushAlphaId: string | null;
+  brushAlphaRotation: number; // degrees
+  brushAlphaScale: number; // 1 = one copy of the image across the brush
+  brushAlphaTiling: 'stamp' | 'tiled';
+  setBrushAlphaId: (id: string | null) => void;
+  setBrushAlphaRotation: (deg: number) => void;
+  setBrushAlphaScale: (v: number) => void;
+  setBrushAlphaTiling: (t: 'stamp' | 'tiled') => void;
+  // Sculpt stroke method and lazy mouse (the brush trails the cursor on a string)
+  strokeMethod: StrokeMethod;
+  strokeSpacing: number; // fraction of the brush radius between dabs
+  lazyMouse: boolean;
+  lazyRadius: number; // string length as a fraction of the brush radius
+  lazyFactor: number; // 0..1; lower values follow more slowly
+  setStrokeMethod: (m: StrokeMethod) => void;
+  setStrokeSpacing: (v: number) => void;
+  setLazyMouse: (v: boolean) => void;
+  setLazyRadius: (v: number) => void;
+  setLazyFactor: (v: number) => void;
+  // Pen tablets: pressure scales the brush radius and / or strength through response curves
+  // (x = pressure, y = factor); tilt can turn the texture alpha
+  brushPressure: Partial<Record<PressureBrush, BrushPressure>>;
+  pressureSizeCurve: CurvePoint[];
+  pressureStrengthCurve: CurvePoint[];
+  penTiltRotatesAlpha: boolean;
+  setBrushPressure: (brush: PressureBrush, patch: Partial<BrushPressure>) => void;
+  setPressureSizeCurve: (points: CurvePoint[]) => void;
+  setPressureStrengthCurve: (points: CurvePoint[]) => void;
+  setPenTiltRotatesAlpha: (v: boolean) => void;
+  // Vertex paint brush (radius/strength/falloff shared with sculpt)
+  paintTarget: 'color' | 'weight'; // colour layer or active vertex group
+  paintColor: string; // hex
+  paintWeight: number; // 0..1 target weight
+  paintBlend: PaintBlend;
+  setPaintTarget: (t: 'color' | 'weight') => void;
+  setPaintColor: (hex: string) => void;
+  setPaintWeight: (w: number) => void;
+  setPaintBlend: (b: PaintBlend) => void;
+  // Restrict sculpt brushes to a vertex group of the edited mesh (weights scale the effect)
+  sculptVertexGroupId: string | null;
+  setSculptVertexGroupId: (id: string | null) => void;
   // Optional per-brush options
   pinchFactor: number; // 0..2 (1 default)
   rakeFactor: number; // 0..1
@@ -58,20 +135,38 @@ interface ToolState {
   setPinchFactor: (v: number) => void;
   setRakeFactor: (v: number) => void;
   setPlaneOffset: (v: number) => void;
-  // Sculpt symmetry
-  symmetryEnabled: boolean;
-  symmetryAxis: 'x' | 'y' | 'z';
-  setSymmetryEnabled: (v: boolean) => void;
-  setSymmetryAxis: (a: 'x' | 'y' | 'z') => void;
+  // Sculpt symmetry: strokes are mirrored across every enabled local axis
+  symmetry: { x: boolean; y: boolean; z: boolean };
+  toggleSymmetryAxis: (a: 'x' | 'y' | 'z') => void;
+  // Face set targeted by isolate / hide and extended by Ctrl face set strokes
+  activeFaceSet: number | null;
+  setActiveFaceSet: (id: number | null) => void;
+  // Dynamic topology: split / collapse edges under the brush towards a detail size, either in
+  // screen pixels (relative) or world units (constant)
+  dyntopoEnabled: boolean;
+  dyntopoMode: 'relative' | 'constant';
+  dyntopoDetailPx: number;
+  dyntopoDetailSize: number;
+  setDyntopoEnabled: (v: boolean) => void;
+  setDyntopoMode: (m: 'relative' | 'constant') => void;
+  setDyntopoDetailPx: (v: number) => void;
+  setDyntopoDetailSize: (v: number) => void;
+  // Sculpt voxel remesh resolution (object units)
+  remeshVoxelSize: number;
+  setRemeshVoxelSize: (v: number) => void;
   // Quick brush placement (disables camera orbit while dragging)
   brushPlacing: boolean;
   setBrushPlacing: (v: boolean) => void;
+  // Curve / lattice control point drag (disables camera orbit while dragging)
+  pointDragActive: boolean;
+  setPointDragActive: (v: boolean) => void;
 }
 
 export const useToolStore = create<ToolState>((set) => ({
   tool: 'none',
   isActive: false,
   axisLock: 'none',
+  numericInput: '',
   localData: null,
   editPalette: 'mesh',
   setEditPalette: (p) => set({ editPalette: p }),
@@ -79,11 +174,12 @@ export const useToolStore = create<ToolState>((set) => ({
   setSculptStrokeActive: (active) => set({ sculptStrokeActive: active }),
   marqueeActive: false,
   setMarqueeActive: (active) => set({ marqueeActive: active }),
-  startOperation: (tool, localData) => set({ tool, isActive: true, localData }),
+  startOperation: (tool, localData) => set({ tool, isActive: true, localData, numericInput: '' }),
   setLocalData: (localData) => set({ localData }),
   setAxisLock: (axis) => set({ axisLock: axis }),
-  endOperation: () => set({ tool: 'none', isActive: false, axisLock: 'none', localData: null }),
-  reset: () => set({ tool: 'none', isActive: false, axisLock: 'none', localData: null }),
+  setNumericInput: (input) => set({ numericInput: input }),
+  endOperation: () => set({ tool: 'none', isActive: false, axisLock: 'none', localData: null, numericInput: '' }),
+  reset: () => set({ tool: 'none', isActive: false, axisLock: 'none', localData: null, numericInput: '' }),
   // Sensitivity defaults (tuned lower than previous hardcoded values)
   moveSensitivity: 0.0025,
   rotateSensitivity: 0.005,
@@ -91,6 +187,14 @@ export const useToolStore = create<ToolState>((set) => ({
   setMoveSensitivity: (value) => set({ moveSensitivity: Math.max(0, value) }),
   setRotateSensitivity: (value) => set({ rotateSensitivity: Math.max(0, value) }),
   setScaleSensitivity: (value) => set({ scaleSensitivity: Math.max(0, value) }),
+  proportionalEditing: false,
+  proportionalFalloff: 'smooth',
+  proportionalRadius: 1,
+  proportionalConnected: false,
+  setProportionalEditing: (v) => set({ proportionalEditing: v }),
+  setProportionalFalloff: (f) => set({ proportionalFalloff: f }),
+  setProportionalRadius: (r) => set({ proportionalRadius: Math.max(0.001, r) }),
+  setProportionalConnected: (v) => set({ proportionalConnected: v }),
   // Sculpt brush defaults
   brushRadius: 0.5,
   brushStrength: 0.5,
@@ -98,6 +202,46 @@ export const useToolStore = create<ToolState>((set) => ({
   setBrushRadius: (r) => set({ brushRadius: Math.max(0.001, r) }),
   setBrushStrength: (s) => set({ brushStrength: Math.max(0, Math.min(1, s)) }),
   setBrushFalloff: (f) => set({ brushFalloff: f }),
+  brushCurve: DEFAULT_FALLOFF_CURVE,
+  setBrushCurve: (points) => set({ brushCurve: normalizeCurve(points) }),
+  brushAlphaId: null,
+  brushAlphaRotation: 0,
+  brushAlphaScale: 1,
+  brushAlphaTiling: 'stamp',
+  setBrushAlphaId: (id) => set({ brushAlphaId: id }),
+  setBrushAlphaRotation: (deg) => set({ brushAlphaRotation: deg }),
+  setBrushAlphaScale: (v) => set({ brushAlphaScale: Math.max(0.01, v) }),
+  setBrushAlphaTiling: (t) => set({ brushAlphaTiling: t }),
+  strokeMethod: 'dots',
+  strokeSpacing: 0.2,
+  lazyMouse: false,
+  lazyRadius: 0.5,
+  lazyFactor: 0.9,
+  setStrokeMethod: (m) => set({ strokeMethod: m }),
+  setStrokeSpacing: (v) => set({ strokeSpacing: Math.max(0.01, v) }),
+  setLazyMouse: (v) => set({ lazyMouse: v }),
+  setLazyRadius: (v) => set({ lazyRadius: Math.max(0, v) }),
+  setLazyFactor: (v) => set({ lazyFactor: Math.max(0.01, Math.min(1, v)) }),
+  brushPressure: {},
+  pressureSizeCurve: LINEAR_CURVE,
+  pressureStrengthCurve: LINEAR_CURVE,
+  penTiltRotatesAlpha: false,
+  setBrushPressure: (brush, patch) => set((s) => ({
+    brushPressure: { ...s.brushPressure, [brush]: { ...brushPressureFor(s, brush), ...patch } },
+  })),
+  setPressureSizeCurve: (points) => set({ pressureSizeCurve: normalizeCurve(points, LINEAR_CURVE) }),
+  setPressureStrengthCurve: (points) => set({ pressureStrengthCurve: normalizeCurve(points, LINEAR_CURVE) }),
+  setPenTiltRotatesAlpha: (v) => set({ penTiltRotatesAlpha: v }),
+  paintTarget: 'color',
+  paintColor: '#e03c3c',
+  paintWeight: 1,
+  paintBlend: 'mix',
+  setPaintTarget: (t) => set({ paintTarget: t }),
+  setPaintColor: (hex) => set({ paintColor: hex }),
+  setPaintWeight: (w) => set({ paintWeight: Math.max(0, Math.min(1, w)) }),
+  setPaintBlend: (b) => set({ paintBlend: b }),
+  sculptVertexGroupId: null,
+  setSculptVertexGroupId: (id) => set({ sculptVertexGroupId: id }),
   pinchFactor: 1,
   rakeFactor: 0,
   planeOffset: 0,
@@ -105,10 +249,25 @@ export const useToolStore = create<ToolState>((set) => ({
   setRakeFactor: (v) => set({ rakeFactor: Math.max(0, Math.min(1, v)) }),
   setPlaneOffset: (v) => set({ planeOffset: Math.max(-1, Math.min(1, v)) }),
   // Symmetry defaults
-  symmetryEnabled: false,
-  symmetryAxis: 'x',
-  setSymmetryEnabled: (v) => set({ symmetryEnabled: v }),
-  setSymmetryAxis: (a) => set({ symmetryAxis: a }),
+  symmetry: { x: false, y: false, z: false },
+  toggleSymmetryAxis: (a) => set((s) => ({ symmetry: { ...s.symmetry, [a]: !s.symmetry[a] } })),
+  activeFaceSet: null,
+  setActiveFaceSet: (id) => set({ activeFaceSet: id }),
+  dyntopoEnabled: false,
+  dyntopoMode: 'relative',
+  dyntopoDetailPx: 12,
+  dyntopoDetailSize: 0.05,
+  setDyntopoEnabled: (v) => set({ dyntopoEnabled: v }),
+  setDyntopoMode: (m) => set({ dyntopoMode: m }),
+  setDyntopoDetailPx: (v) => set({ dyntopoDetailPx: Math.max(1, v) }),
+  setDyntopoDetailSize: (v) => set({ dyntopoDetailSize: Math.max(0.001, v) }),
+  remeshVoxelSize: 0.05,
+  setRemeshVoxelSize: (v) => set({ remeshVoxelSize: Math.max(0.005, v) }),
   brushPlacing: false,
   setBrushPlacing: (v) => set({ brushPlacing: v }),
+  pointDragActive: false,
+  setPointDragActive: (v) => set({ pointDragActive: v }),
 }));
+
+export const brushPressureFor = (s: Pick<ToolState, 'brushPressure'>, brush: PressureBrush): BrushPressure =>
+  s.brushPressure[brush] ?? DEFAULT_BRUSH_PRESSURE;
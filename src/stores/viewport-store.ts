@@ -1,8 +1,10 @@
 import { create } from 'zustand';
 import { immer } from 'zustand/middleware/immer';
 import { subscribeWithSelector } from 'zustand/middleware';
-import { ViewportState, CameraState, ShadingMode } from '../types/geometry';
+import { ViewportState, CameraState, ShadingMode, Vector3 } from '../types/geometry';
 import { vec3 } from '../utils/geometry';
+import type { SnapMode } from '../utils/snapping';
+import type { PivotMode } from '../utils/pivot';
 
 interface ViewportActions {
   setCamera: (camera: Partial<CameraState>) => void;
@@ -13,6 +15,11 @@ interface ViewportActions {
   setGridSize: (size: number) => void;
   setGridSnapping: (enabled: boolean) => void;
   toggleGridSnapping: () => void;
+  setSnapMode: (mode: SnapMode) => void;
+  setSnapAlignRotation: (align: boolean) => void;
+  setSnapIndicator: (indicator: SnapIndicator | null) => void;
+  setPivotMode: (mode: PivotMode) => void;
+  setCursor3D: (position: Vector3) => void;
   setBackgroundColor: (color: [number, number, number]) => void;
   resetCamera: () => void;
   focusOnObject: (center: [number, number, number], size: number) => void;
@@ -21,7 +28,28 @@ interface ViewportActions {
   reset: () => void;
 }
 
-type ViewportStore = ViewportState & ViewportActions;
+// Where a transform / placement is currently snapping to, drawn in the viewport
+export interface SnapIndicator {
+  kind: SnapMode;
+  point: Vector3; // world
+  normal?: Vector3;
+}
+
+// Snapping (enabled by gridSnapping): what to snap to, and whether face snaps also turn objects
+// to the surface normal
+interface SnapSettings {
+  snapMode: SnapMode;
+  snapAlignRotation: boolean;
+  snapIndicator: SnapIndicator | null;
+}
+
+// Rotate / scale pivot and the 3D cursor (world position) used by the 'cursor' pivot
+interface PivotSettings {
+  pivotMode: PivotMode;
+  cursor3D: Vector3;
+}
+
+type ViewportStore = ViewportState & SnapSettings & PivotSettings & ViewportActions;
 
 const defaultCameraState: CameraState = {
   position: vec3(5, 5, 5),
@@ -43,6 +71,11 @@ export const useViewportStore = create<ViewportStore>()(
       showAxes: true,
       gridSize: 1,
       gridSnapping: false,
+      snapMode: 'increment' as SnapMode,
+      snapAlignRotation: false,
+      snapIndicator: null,
+      pivotMode: 'median' as PivotMode,
+      cursor3D: vec3(0, 0, 0),
       backgroundColor: vec3(0.01, 0.01, 0.01),
   autoOrbitIntervalSec: 0,
 
@@ -94,6 +127,36 @@ export const useViewportStore = create<ViewportStore>()(
         });
       },
 
+      setSnapMode: (mode: SnapMode) => {
+        set((state) => {
+          state.snapMode = mode;
+        });
+      },
+
+      setSnapAlignRotation: (align: boolean) => {
+        set((state) => {
+          state.snapAlignRotation = align;
+        });
+      },
+
+      setSnapIndicator: (indicator: SnapIndicator | null) => {
+        set((state) => {
+          state.snapIndicator = indicator;
+        });
+      },
+
+      setPivotMode: (mode: PivotMode) => {
+        set((state) => {
+          state.pivotMode = mode;
+        });
+      },
+
+      setCursor3D: (position: Vector3) => {
+        set((state) => {
+          state.cursor3D = vec3(position.x, position.y, position.z);
+        });
+      },
+
       setBackgroundColor: (color: [number, number, number]) => {
         set((state) => {
           state.backgroundColor = vec3(color[0], color[1], color[2]);
@@ -150,6 +213,11 @@ export const useViewportStore = create<ViewportStore>()(
           state.showAxes = true;
           state.gridSize = 1;
           state.gridSnapping = false;
+          state.snapMode = 'increment';
+          state.snapAlignRotation = false;
+          state.snapIndicator = null;
+          state.pivotMode = 'median';
+          state.cursor3D = vec3(0, 0, 0);
           state.backgroundColor = vec3(.1, .1, .1);
           state.autoOrbitIntervalSec = 0;
         });
@@ -12,6 +12,14 @@ export interface Vector2 {
   y: number;
 }
 
+// Linear RGBA, components 0..1
+export interface Color4 {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
 export interface Vertex {
   id: string;
   position: Vector3;
@@ -20,6 +28,10 @@ export interface Vertex {
   // Optional second UV channel (for AO/lightmaps)
   uv2?: Vector2;
   selected: boolean;
+  // Vertex group weights (0..1) keyed by Mesh.vertexGroups id; absent = not in the group
+  weights?: Record<string, number>;
+  // Sculpt mask 0..1 (1 = fully protected from brushes); absent = unmasked
+  mask?: number;
 }
 
 export interface Edge {
@@ -29,6 +41,10 @@ export interface Edge {
   selected: boolean;
   // If true, this edge is marked as a UV seam (cuts when unwrapping)
   seam?: boolean;
+  // Subdivision crease weight 0..1 (1 = fully sharp)
+  crease?: number;
+  // Hard edge for smooth shading: normals split across it
+  sharp?: boolean;
 }
 
 export interface Face {
@@ -39,6 +55,26 @@ export interface Face {
   selected: boolean;
   // Per-face-corner (loop) UVs – length matches vertexIds. Enables seams without duplicating geometry vertices.
   uvs?: Vector2[];
+  // Per-face-corner (loop) custom normals – length matches vertexIds. Override computed shading.
+  normals?: Vector3[];
+  // Per-face-corner colours keyed by Mesh.colorLayers id – length matches vertexIds
+  colors?: Record<string, Color4[]>;
+  // Sculpt face set id; absent = the default set (0)
+  faceSet?: number;
+  // Hidden while sculpting (face set isolate / hide)
+  hidden?: boolean;
+}
+
+// Named weight map (vertex group); weights live on Vertex.weights
+export interface VertexGroup {
+  id: string;
+  name: string;
+}
+
+// Named per-corner colour attribute (vertex paint)
+export interface ColorLayer {
+  id: string;
+  name: string;
 }
 
 export interface Mesh {
@@ -56,6 +92,14 @@ export interface Mesh {
   castShadow?: boolean;
   receiveShadow?: boolean;
   shading?: 'flat' | 'smooth';
+  // Smooth shading only: split normals at edges sharper than this many degrees (unset = never)
+  autoSmoothAngle?: number;
+  // Vertex colour layers; corner data lives in Face.colors. The active layer is painted and rendered.
+  colorLayers?: ColorLayer[];
+  activeColorLayerId?: string;
+  // Vertex groups restrict modifiers and sculpt brushes; the active one is assigned / weight painted
+  vertexGroups?: VertexGroup[];
+  activeVertexGroupId?: string;
 }
 
 export interface Transform {
@@ -75,7 +119,7 @@ export interface Material {
 }
 
 // View and Selection types
-export type ViewMode = 'object' | 'edit' | 'brush';
+export type ViewMode = 'object' | 'edit' | 'brush' | 'paint';
 export type SelectionMode = 'vertex' | 'edge' | 'face';
 
 export interface Selection {
@@ -92,7 +136,7 @@ export interface Selection {
 export interface SceneObject {
   id: string;
   name: string;
-  type: 'mesh' | 'light' | 'camera' | 'group' | 'particles' | 'force' | 'fluid' | 'text' | 'metaball' | 'terrain';
+  type: 'mesh' | 'light' | 'camera' | 'group' | 'particles' | 'force' | 'fluid' | 'text' | 'metaball' | 'terrain' | 'curve' | 'lattice';
   parentId: string | null;
   children: string[];
   transform: Transform;
@@ -116,6 +160,10 @@ export interface SceneObject {
   metaballId?: string;
   // Terrain component reference (for type === 'terrain')
   terrainId?: string;
+  // Spline resource reference (for type === 'curve')
+  curveId?: string;
+  // Deformation cage reference (for type === 'lattice')
+  latticeId?: string;
 }
 
 // Parametric Text3D resource (procedural until rasterized)
@@ -135,6 +183,44 @@ export interface Text3D {
   rasterized: boolean; // if true, resource is ready to be removed & object converted to mesh
 }
 
+// Spline control point; handles are absolute positions in object space (Bezier only)
+export interface CurvePoint {
+  id: string;
+  position: Vector3;
+  handleIn: Vector3;
+  handleOut: Vector3;
+  // auto: handles follow neighbouring points; aligned: moving one handle mirrors the other's direction;
+  // free: independent handles; vector: handles point at the neighbours (sharp corner)
+  handleType: 'auto' | 'aligned' | 'free' | 'vector';
+  weight: number; // NURBS weight
+  tilt: number; // radians, twists the profile around the curve
+}
+
+// Parametric spline resource (procedural until converted to a mesh)
+export interface Curve3D {
+  id: string;
+  type: 'bezier' | 'nurbs';
+  points: CurvePoint[];
+  closed: boolean;
+  resolution: number; // samples per segment (Bezier) / per control point (NURBS)
+  order: number; // NURBS order, 2..6
+  profile: 'none' | 'round' | 'square' | 'ribbon';
+  thickness: number; // profile radius / half-width
+  profileSegments: number; // round profile resolution
+  capEnds: boolean;
+  meshId: string; // underlying generated mesh (kept in geometry-store)
+}
+
+export type LatticeInterpolation = 'linear' | 'cardinal' | 'bspline';
+
+// Free-form deformation cage; points are in lattice object space, rest grid spans -0.5..0.5
+export interface Lattice3D {
+  id: string;
+  resolution: { u: number; v: number; w: number }; // control points per axis, 2..16
+  interpolation: LatticeInterpolation;
+  points: Vector3[]; // u-fastest, then v, then w
+}
+
 // Scene component data types
 export type LightType = 'directional' | 'spot' | 'point' | 'ambient';
 
@@ -53,7 +53,7 @@ export type ShaderNodeType =
   | 'oscTriangle'
   | 'oscSawtooth'
   // Attributes / camera / world
-  | 'positionAttr' | 'normalAttr' | 'uvAttr' | 'viewPosition' | 'worldPosition' | 'cameraPosition'
+  | 'positionAttr' | 'normalAttr' | 'uvAttr' | 'vertexColor' | 'viewPosition' | 'worldPosition' | 'cameraPosition'
   // Time
   | 'time' | 'timeSine' | 'timeCos' | 'animTime' | 'animFrame'
   // Model builtins
@@ -319,6 +319,7 @@ export const NodeInputs: Record<ShaderNodeType, Record<string, SocketType>> = {
   'positionAttr': {},
   'normalAttr': {},
   'uvAttr': {},
+  'vertexColor': {},
   'viewPosition': {},
   'worldPosition': {},
   'cameraPosition': {},
@@ -494,6 +495,7 @@ export const NodeOutputs: Record<ShaderNodeType, Record<string, SocketType>> = {
   'positionAttr': { out: 'vec3' },
   'normalAttr': { out: 'vec3' },
   'uvAttr': { out: 'vec2' },
+  'vertexColor': { rgb: 'vec3', alpha: 'float' },
   'viewPosition': { out: 'vec3' },
   'worldPosition': { out: 'vec3' },
   'cameraPosition': { out: 'vec3' },
@@ -26,12 +26,19 @@ export interface T3DMesh {
     normal: { x: number; y: number; z: number };
     uv: { x: number; y: number };
     selected: boolean;
+    // Vertex group weights by group id
+    weights?: Record<string, number>;
+    // Sculpt mask 0..1
+    mask?: number;
   }>;
   edges: Array<{
     id: string;
     vertexIds: [string, string];
     faceIds: string[];
     selected: boolean;
+    sharp?: boolean;
+    // Subdivision crease weight 0..1
+    crease?: number;
   }>;
   faces: Array<{
     id: string;
@@ -39,6 +46,13 @@ export interface T3DMesh {
     normal: { x: number; y: number; z: number };
     materialId?: string;
     selected: boolean;
+    // Per-corner custom normals
+    normals?: Array<{ x: number; y: number; z: number }>;
+    // Per-corner colours by colour layer id
+    colors?: Record<string, Array<{ r: number; g: number; b: number; a: number }>>;
+    // Sculpt face set id and visibility
+    faceSet?: number;
+    hidden?: boolean;
   }>;
   transform: {
     position: { x: number; y: number; z: number };
@@ -47,6 +61,12 @@ export interface T3DMesh {
   };
   visible: boolean;
   locked: boolean;
+  shading?: 'flat' | 'smooth';
+  autoSmoothAngle?: number;
+  colorLayers?: Array<{ id: string; name: string }>;
+  activeColorLayerId?: string;
+  vertexGroups?: Array<{ id: string; name: string }>;
+  activeVertexGroupId?: string;
 }
 
 export interface T3DMaterial {
@@ -62,7 +82,7 @@ export interface T3DMaterial {
 export interface T3DSceneObject {
   id: string;
   name: string;
-  type: 'mesh' | 'light' | 'camera' | 'group' | 'force' | 'fluid';
+  type: 'mesh' | 'light' | 'camera' | 'group' | 'force' | 'fluid' | 'curve' | 'lattice';
   parentId: string | null;
   children: string[];
   transform: {
@@ -83,6 +103,10 @@ export interface T3DSceneObject {
   forceFieldId?: string;
   // Optional fluid system link (editor extension)
   fluidSystemId?: string;
+  // Optional spline resource link (editor extension)
+  curveId?: string;
+  // Optional lattice resource link (editor extension)
+  latticeId?: string;
 }
 
 export interface T3DCamera {
@@ -232,6 +256,35 @@ export interface T3DScene {
       text?: string;
     }>;
   }>;
+  // Spline resources keyed by id; control points and handles are in object space
+  curves?: Record<string, {
+    id: string;
+    type: 'bezier' | 'nurbs';
+    points: Array<{
+      id: string;
+      position: { x: number; y: number; z: number };
+      handleIn: { x: number; y: number; z: number };
+      handleOut: { x: number; y: number; z: number };
+      handleType: 'auto' | 'aligned' | 'free' | 'vector';
+      weight: number;
+      tilt: number;
+    }>;
+    closed: boolean;
+    resolution: number;
+    order: number;
+    profile: 'none' | 'round' | 'square' | 'ribbon';
+    thickness: number;
+    profileSegments: number;
+    capEnds: boolean;
+    meshId: string;
+  }>;
+  // Lattice deformers keyed by id; points are in lattice object space (rest grid -0.5..0.5)
+  lattices?: Record<string, {
+    id: string;
+    resolution: { u: number; v: number; w: number };
+    interpolation: 'linear' | 'cardinal' | 'bspline';
+    points: Array<{ x: number; y: number; z: number }>;
+  }>;
 }
 
 export interface T3DExportFilter {
@@ -163,12 +163,16 @@ export interface TerrainEdge {
   targetHandle: string; // 'in' or named
 }
 
-export interface TerrainGraph {
-  terrainId: string;
+// Nodes wired into an 'output' node; terrains and the Displace modifier's graph source use it
+export interface TerrainNodeGraph {
   nodes: TerrainNode[];
   edges: TerrainEdge[];
 }
 
+export interface TerrainGraph extends TerrainNodeGraph {
+  terrainId: string;
+}
+
 // Terrain resource and settings
 export interface TerrainResource {
   id: string;
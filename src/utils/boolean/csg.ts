@@ -0,0 +1,234 @@
+import type { Vector2, Vector3 } from '@/types/geometry';
+
+// BSP-tree constructive solid geometry on convex planar polygons.
+// Polygons carry per-corner UVs and a material id so attributes survive splitting.
+// Trees are built and walked iteratively so large meshes don't blow the call stack.
+
+export interface CsgVertex {
+  pos: Vector3;
+  uv: Vector2;
+}
+
+export interface CsgPlane {
+  normal: Vector3;
+  w: number;
+}
+
+export interface CsgPolygon {
+  vertices: CsgVertex[];
+  plane: CsgPlane;
+  materialId?: string;
+}
+
+interface BspNode {
+  plane: CsgPlane | null;
+  front: BspNode | null;
+  back: BspNode | null;
+  polygons: CsgPolygon[];
+}
+
+// Distance tolerance used to classify points as on-plane (handles coplanar faces)
+export const PLANE_EPSILON = 1e-5;
+
+const COPLANAR = 0;
+const FRONT = 1;
+const BACK = 2;
+const SPANNING = 3;
+
+const dot = (a: Vector3, b: Vector3) => a.x * b.x + a.y * b.y + a.z * b.z;
+
+export function planeFromPoints(a: Vector3, b: Vector3, c: Vector3): CsgPlane | null {
+  const ux = b.x - a.x, uy = b.y - a.y, uz = b.z - a.z;
+  const vx = c.x - a.x, vy = c.y - a.y, vz = c.z - a.z;
+  const nx = uy * vz - uz * vy;
+  const ny = uz * vx - ux * vz;
+  const nz = ux * vy - uy * vx;
+  const len = Math.sqrt(nx * nx + ny * ny + nz * nz);
+  if (len < 1e-12) return null; // degenerate
+  const normal = { x: nx / len, y: ny / len, z: nz / len };
+  return { normal, w: dot(normal, a) };
+}
+
+const flipPlane = (p: CsgPlane): CsgPlane => ({ normal: { x: -p.normal.x, y: -p.normal.y, z: -p.normal.z }, w: -p.w });
+
+const lerpVertex = (a: CsgVertex, b: CsgVertex, t: number): CsgVertex => ({
+  pos: {
+    x: a.pos.x + (b.pos.x - a.pos.x) * t,
+    y: a.pos.y + (b.pos.y - a.pos.y) * t,
+    z: a.pos.z + (b.pos.z - a.pos.z) * t,
+  },
+  uv: { x: a.uv.x + (b.uv.x - a.uv.x) * t, y: a.uv.y + (b.uv.y - a.uv.y) * t },
+});
+
+const flipPolygon = (p: CsgPolygon): CsgPolygon => ({
+  vertices: p.vertices.slice().reverse(),
+  plane: flipPlane(p.plane),
+  materialId: p.materialId,
+});
+
+// Split `polygon` by `plane`, pushing fragments into the matching lists.
+// Coplanar polygons go to coplanarFront/coplanarBack depending on facing.
+function splitPolygon(
+  plane: CsgPlane,
+  polygon: CsgPolygon,
+  coplanarFront: CsgPolygon[],
+  coplanarBack: CsgPolygon[],
+  front: CsgPolygon[],
+  back: CsgPolygon[],
+) {
+  let polygonType = 0;
+  const types: number[] = [];
+  for (const v of polygon.vertices) {
+    const d = dot(plane.normal, v.pos) - plane.w;
+    const type = d < -PLANE_EPSILON ? BACK : d > PLANE_EPSILON ? FRONT : COPLANAR;
+    polygonType |= type;
+    types.push(type);
+  }
+  switch (polygonType) {
+    case COPLANAR:
+      (dot(plane.normal, polygon.plane.normal) > 0 ? coplanarFront : coplanarBack).push(polygon);
+      break;
+    case FRONT:
+      front.push(polygon);
+      break;
+    case BACK:
+      back.push(polygon);
+      break;
+    case SPANNING: {
+      const f: CsgVertex[] = [];
+      const b: CsgVertex[] = [];
+      const n = polygon.vertices.length;
+      for (let i = 0; i < n; i++) {
+        const j = (i + 1) % n;
+        const ti = types[i], tj = types[j];
+        const vi = polygon.vertices[i], vj = polygon.vertices[j];
+        if (ti !== BACK) f.push(vi);
+        if (ti !== FRONT) b.push(ti !== BACK ? { pos: { ...vi.pos }, uv: { ...vi.uv } } : vi);
+        if ((ti | tj) === SPANNING) {
+          const denom = dot(plane.normal, { x: vj.pos.x - vi.pos.x, y: vj.pos.y - vi.pos.y, z: vj.pos.z - vi.pos.z });
+          const t = (plane.w - dot(plane.normal, vi.pos)) / denom;
+          const v = lerpVertex(vi, vj, t);
+          f.push(v);
+          b.push({ pos: { ...v.pos }, uv: { ...v.uv } });
+        }
+      }
+      if (f.length >= 3) front.push({ vertices: f, plane: polygon.plane, materialId: polygon.materialId });
+      if (b.length >= 3) back.push({ vertices: b, plane: polygon.plane, materialId: polygon.materialId });
+      break;
+    }
+  }
+}
+
+const createNode = (): BspNode => ({ plane: null, front: null, back: null, polygons: [] });
+
+function buildNode(root: BspNode, polygons: CsgPolygon[]) {
+  const stack: { node: BspNode; polygons: CsgPolygon[] }[] = [{ node: root, polygons }];
+  while (stack.length) {
+    const { node, polygons: polys } = stack.pop()!;
+    if (polys.length === 0) continue;
+    if (!node.plane) node.plane = { normal: { ...polys[0].plane.normal }, w: polys[0].plane.w };
+    const front: CsgPolygon[] = [];
+    const back: CsgPolygon[] = [];
+    for (const p of polys) splitPolygon(node.plane, p, node.polygons, node.polygons, front, back);
+    if (front.length) {
+      if (!node.front) node.front = createNode();
+      stack.push({ node: node.front, polygons: front });
+    }
+    if (back.length) {
+      if (!node.back) node.back = createNode();
+      stack.push({ node: node.back, polygons: back });
+    }
+  }
+}
+
+function collectNodes(root: BspNode): BspNode[] {
+  const out: BspNode[] = [];
+  const stack = [root];
+  while (stack.length) {
+    const n = stack.pop()!;
+    out.push(n);
+    if (n.front) stack.push(n.front);
+    if (n.back) stack.push(n.back);
+  }
+  return out;
+}
+
+// Remove the parts of `polygons` that lie inside the solid represented by `root`
+function clipPolygons(root: BspNode, polygons: CsgPolygon[]): CsgPolygon[] {
+  const out: CsgPolygon[] = [];
+  const stack: { node: BspNode; polygons: CsgPolygon[] }[] = [{ node: root, polygons }];
+  while (stack.length) {
+    const { node, polygons: polys } = stack.pop()!;
+    if (!node.plane) { out.push(...polys); continue; }
+    const front: CsgPolygon[] = [];
+    const back: CsgPolygon[] = [];
+    for (const p of polys) splitPolygon(node.plane, p, front, back, front, back);
+    if (front.length) {
+      if (node.front) stack.push({ node: node.front, polygons: front });
+      else out.push(...front);
+    }
+    if (back.length && node.back) stack.push({ node: node.back, polygons: back });
+  }
+  return out;
+}
+
+function clipTo(a: BspNode, b: BspNode) {
+  for (const n of collectNodes(a)) n.polygons = clipPolygons(b, n.polygons);
+}
+
+function invert(root: BspNode) {
+  for (const n of collectNodes(root)) {
+    n.polygons = n.polygons.map(flipPolygon);
+    if (n.plane) n.plane = flipPlane(n.plane);
+    const tmp = n.front;
+    n.front = n.back;
+    n.back = tmp;
+  }
+}
+
+const allPolygons = (root: BspNode): CsgPolygon[] => collectNodes(root).flatMap((n) => n.polygons);
+
+const toTree = (polygons: CsgPolygon[]): BspNode => {
+  const node = createNode();
+  buildNode(node, polygons);
+  return node;
+};
+
+export function csgUnion(aPolys: CsgPolygon[], bPolys: CsgPolygon[]): CsgPolygon[] {
+  const a = toTree(aPolys);
+  const b = toTree(bPolys);
+  clipTo(a, b);
+  clipTo(b, a);
+  invert(b);
+  clipTo(b, a);
+  invert(b);
+  buildNode(a, allPolygons(b));
+  return allPolygons(a);
+}
+
+export function csgSubtract(aPolys: CsgPolygon[], bPolys: CsgPolygon[]): CsgPolygon[] {
+  const a = toTree(aPolys);
+  const b = toTree(bPolys);
+  invert(a);
+  clipTo(a, b);
+  clipTo(b, a);
+  invert(b);
+  clipTo(b, a);
+  invert(b);
+  buildNode(a, allPolygons(b));
+  invert(a);
+  return allPolygons(a);
+}
+
+export function csgIntersect(aPolys: CsgPolygon[], bPolys: CsgPolygon[]): CsgPolygon[] {
+  const a = toTree(aPolys);
+  const b = toTree(bPolys);
+  invert(a);
+  clipTo(b, a);
+  invert(b);
+  clipTo(a, b);
+  clipTo(b, a);
+  buildNode(a, allPolygons(b));
+  invert(a);
+  return allPolygons(a);
+}
@@ -0,0 +1,220 @@
+import type { Matrix4 } from 'three/webgpu';
+import type { Face, Mesh, Vertex } from '@/types/geometry';
+import { convertQuadToTriangles, createFace, createVertex, vec3 } from '@/utils/geometry';
+import { transformPoint } from '@/utils/world-transform';
+import { csgIntersect, csgSubtract, csgUnion, planeFromPoints, type CsgPolygon } from './csg';
+
+export type BooleanOperation = 'union' | 'difference' | 'intersect';
+
+export interface BooleanOperand {
+  mesh: Mesh;
+  // Matrix taking the mesh's local coordinates into the shared evaluation space (usually world)
+  matrix?: Matrix4;
+}
+
+// Vertices closer than this are welded when rebuilding topology from CSG fragments
+const WELD_PRECISION = 1e-5;
+
+// Convert a mesh into CSG polygons. Faces are fan-triangulated (same as the renderer) so every
+// polygon is planar and convex; degenerate and zero-area faces are dropped, which lets
+// non-manifold or partially broken input still produce a usable result.
+export function meshToCsgPolygons(mesh: Mesh, matrix?: Matrix4): CsgPolygon[] {
+  const vmap = new Map(mesh.vertices.map((v) => [v.id, v] as const));
+  // A mirroring matrix turns the winding inside out; reverse it to keep outward planes
+  const mirrored = !!matrix && matrix.determinant() < 0;
+  const polys: CsgPolygon[] = [];
+  for (const face of mesh.faces) {
+    if (face.vertexIds.length < 3) continue;
+    const materialId = face.materialId ?? mesh.materialId;
+    const cornerUv = (vid: string) => {
+      const idx = face.vertexIds.indexOf(vid);
+      const uv = face.uvs?.[idx] ?? vmap.get(vid)?.uv ?? { x: 0, y: 0 };
+      return { x: uv.x, y: uv.y };
+    };
+    for (const tri of convertQuadToTriangles(face.vertexIds)) {
+      const verts = tri.map((vid) => vmap.get(vid));
+      if (verts.some((v) => !v)) continue;
+      const corners = (verts as Vertex[]).map((v, i) => ({
+        pos: matrix ? transformPoint(matrix, v.position) : { ...v.position },
+        uv: cornerUv(tri[i]),
+      }));
+      if (mirrored) corners.reverse();
+      const plane = planeFromPoints(corners[0].pos, corners[1].pos, corners[2].pos);
+      if (!plane) continue;
+      polys.push({ vertices: corners, plane, materialId });
+    }
+  }
+  return polys;
+}
+
+// Rebuild shared-vertex topology from CSG output. Positions are welded; UVs stay per face corner.
+// BSP splitting leaves T-junctions (a vertex of one fragment lying on another fragment's edge),
+// so those edges are split at the vertices on them to keep the result watertight.
+export function csgPolygonsToGeometry(polygons: CsgPolygon[], matrix?: Matrix4): { vertices: Vertex[]; faces: Face[] } {
+  const vertices: Vertex[] = [];
+  const cells = new Map<string, Vertex[]>();
+  const inv = 1 / WELD_PRECISION;
+  const idFor = (p: { x: number; y: number; z: number }, uv: { x: number; y: number }) => {
+    const pos = matrix ? transformPoint(matrix, p) : p;
+    const cx = Math.round(pos.x * inv), cy = Math.round(pos.y * inv), cz = Math.round(pos.z * inv);
+    // Neighbouring cells too: points a hair apart can round to different cells
+    for (let dx = -1; dx <= 1; dx++) for (let dy = -1; dy <= 1; dy++) for (let dz = -1; dz <= 1; dz++) {
+      for (const v of cells.get(`${cx + dx},${cy + dy},${cz + dz}`) ?? []) {
+        const q = v.position;
+        if (Math.abs(q.x - pos.x) <= WELD_PRECISION && Math.abs(q.y - pos.y) <= WELD_PRECISION && Math.abs(q.z - pos.z) <= WELD_PRECISION) return v.id;
+      }
+    }
+    const v = createVertex(vec3(pos.x, pos.y, pos.z), vec3(0, 0, 0), { x: uv.x, y: uv.y });
+    vertices.push(v);
+    const key = `${cx},${cy},${cz}`;
+    cells.set(key, [...(cells.get(key) ?? []), v]);
+    return v.id;
+  };
+
+  const polys: { ids: string[]; uvs: { x: number; y: number }[]; materialId?: string }[] = [];
+  for (const poly of polygons) {
+    const ids: string[] = [];
+    const uvs: { x: number; y: number }[] = [];
+    for (const c of poly.vertices) {
+      const id = idFor(c.pos, c.uv);
+      // Collapse consecutive duplicates produced by welding tiny fragments
+      if (ids.length && ids[ids.length - 1] === id) continue;
+      ids.push(id);
+      uvs.push({ x: c.uv.x, y: c.uv.y });
+    }
+    if (ids.length > 1 && ids[0] === ids[ids.length - 1]) { ids.pop(); uvs.pop(); }
+    if (ids.length < 3 || new Set(ids).size !== ids.length) continue;
+    polys.push({ ids, uvs, materialId: poly.materialId });
+  }
+
+  const positions = new Map(vertices.map((v) => [v.id, v.position] as const));
+  splitTJunctions(polys, positions);
+
+  // Mapping back through a mirroring matrix flips the winding again
+  if (matrix && matrix.determinant() < 0) {
+    for (const poly of polys) { poly.ids.reverse(); poly.uvs.reverse(); }
+  }
+  const faces: Face[] = [];
+  for (const poly of polys) {
+    const start = firstCorner(poly.ids, positions);
+    const face = createFace(
+      [...poly.ids.slice(start), ...poly.ids.slice(0, start)],
+      [...poly.uvs.slice(start), ...poly.uvs.slice(0, start)],
+    );
+    if (poly.materialId) face.materialId = poly.materialId;
+    faces.push(face);
+  }
+  return { vertices, faces };
+}
+
+type Vec = { x: number; y: number; z: number };
+
+// Insert every vertex lying inside an open edge into the polygon owning that edge, until the
+// edges pair up. Only vertices of open edges can sit on another open edge.
+function splitTJunctions(polys: { ids: string[]; uvs: { x: number; y: number }[] }[], positions: Map<string, Vec>) {
+  const tolerance = WELD_PRECISION * 4;
+  for (let pass = 0; pass < 8; pass++) {
+    const uses = new Map<string, number>();
+    const key = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+    for (const { ids } of polys) ids.forEach((a, i) => {
+      const k = key(a, ids[(i + 1) % ids.length]);
+      uses.set(k, (uses.get(k) ?? 0) + 1);
+    });
+    const open = new Set<string>();
+    for (const { ids } of polys) ids.forEach((a, i) => {
+      const b = ids[(i + 1) % ids.length];
+      if (uses.get(key(a, b)) === 1) { open.add(a); open.add(b); }
+    });
+    if (!open.size) return;
+    // Candidates sorted by x for range lookups
+    const sorted = [...open].map((id) => ({ id, p: positions.get(id)! })).sort((u, v) => u.p.x - v.p.x);
+    const lowerBound = (x: number) => {
+      let lo = 0, hi = sorted.length;
+      while (lo < hi) { const mid = (lo + hi) >> 1; if (sorted[mid].p.x < x) lo = mid + 1; else hi = mid; }
+      return lo;
+    };
+
+    let changed = false;
+    for (const poly of polys) {
+      const ids: string[] = [];
+      const uvs: { x: number; y: number }[] = [];
+      poly.ids.forEach((a, i) => {
+        const j = (i + 1) % poly.ids.length;
+        const b = poly.ids[j];
+        ids.push(a);
+        uvs.push(poly.uvs[i]);
+        if (uses.get(key(a, b)) !== 1) return;
+        const pa = positions.get(a)!, pb = positions.get(b)!;
+        const d = { x: pb.x - pa.x, y: pb.y - pa.y, z: pb.z - pa.z };
+        const lenSq = d.x * d.x + d.y * d.y + d.z * d.z;
+        if (lenSq < tolerance * tolerance) return;
+        const len = Math.sqrt(lenSq);
+        const inside: { id: string; t: number }[] = [];
+        for (let k = lowerBound(Math.min(pa.x, pb.x) - tolerance); k < sorted.length; k++) {
+          const { id, p } = sorted[k];
+          if (p.x > Math.max(pa.x, pb.x) + tolerance) break;
+          if (id === a || id === b) continue;
+          const t = ((p.x - pa.x) * d.x + (p.y - pa.y) * d.y + (p.z - pa.z) * d.z) / lenSq;
+          if (t * len <= tolerance || (1 - t) * len <= tolerance) continue;
+          const ex = pa.x + d.x * t - p.x, ey = pa.y + d.y * t - p.y, ez = pa.z + d.z * t - p.z;
+          if (ex * ex + ey * ey + ez * ez <= tolerance * tolerance) inside.push({ id, t });
+        }
+        if (!inside.length) return;
+        inside.sort((u, v) => u.t - v.t);
+        const ua = poly.uvs[i], ub = poly.uvs[j];
+        for (const { id, t } of inside) {
+          if (ids.includes(id) || poly.ids.includes(id)) continue;
+          ids.push(id);
+          uvs.push({ x: ua.x + (ub.x - ua.x) * t, y: ua.y + (ub.y - ua.y) * t });
+          changed = true;
+        }
+      });
+      poly.ids = ids;
+      poly.uvs = uvs;
+    }
+    if (!changed) return;
+  }
+}
+
+// Index of a corner whose next two vertices aren't collinear with it, so split polygons still
+// get a valid normal from their first three vertices
+function firstCorner(ids: string[], positions: Map<string, Vec>): number {
+  const n = ids.length;
+  let best = 0, bestArea = -1;
+  for (let i = 0; i < n; i++) {
+    const a = positions.get(ids[i])!, b = positions.get(ids[(i + 1) % n])!, c = positions.get(ids[(i + 2) % n])!;
+    const ux = b.x - a.x, uy = b.y - a.y, uz = b.z - a.z;
+    const vx = c.x - a.x, vy = c.y - a.y, vz = c.z - a.z;
+    const cx = uy * vz - uz * vy, cy = uz * vx - ux * vz, cz = ux * vy - uy * vx;
+    const area = cx * cx + cy * cy + cz * cz;
+    if (area > bestArea) { bestArea = area; best = i; }
+    if (n === 3) break;
+  }
+  return best;
+}
+
+export function booleanPolygons(op: BooleanOperation, a: CsgPolygon[], b: CsgPolygon[]): CsgPolygon[] {
+  switch (op) {
+    case 'union': return csgUnion(a, b);
+    case 'difference': return csgSubtract(a, b);
+    case 'intersect': return csgIntersect(a, b);
+  }
+}
+
+// Fold the operation over all operands: union/intersect combine everything,
+// difference subtracts every following operand from the first.
+// `outputMatrix` maps evaluation space back into the result mesh's local space.
+export function booleanMeshes(
+  operands: BooleanOperand[],
+  op: BooleanOperation,
+  outputMatrix?: Matrix4,
+): { vertices: Vertex[]; faces: Face[] } | null {
+  if (operands.length < 2) return null;
+  let acc = meshToCsgPolygons(operands[0].mesh, operands[0].matrix);
+  for (let i = 1; i < operands.length; i++) {
+    acc = booleanPolygons(op, acc, meshToCsgPolygons(operands[i].mesh, operands[i].matrix));
+  }
+  return csgPolygonsToGeometry(acc, outputMatrix);
+}
+
+export type { CsgPolygon } from './csg';
@@ -0,0 +1,64 @@
+import { Matrix4 } from 'three/webgpu';
+import { buildModifierContext, useGeometryStore } from '@/stores/geometry-store';
+import { useSceneStore } from '@/stores/scene-store';
+import { useSelectionStore } from '@/stores/selection-store';
+import { createMeshFromGeometry } from '@/utils/geometry';
+import { applyModifiersToMesh } from '@/utils/modifiers';
+import { getObjectWorldMatrix } from '@/utils/world-transform';
+import { booleanMeshes, type BooleanOperand, type BooleanOperation } from './index';
+
+const LABELS: Record<BooleanOperation, string> = {
+  union: 'Union',
+  difference: 'Difference',
+  intersect: 'Intersect',
+};
+
+// One-shot boolean on the current object selection.
+// The first selected mesh is the base: the result takes its parent, transform and material,
+// and for 'difference' every other selected mesh is cut out of it. Operands are evaluated with
+// their modifier stacks and hidden afterwards (not deleted) so they can be re-used.
+// Returns the new object id, or null when fewer than two meshes are selected or nothing remains.
+export function booleanSelectedObjects(op: BooleanOperation): string | null {
+  const selection = useSelectionStore.getState().selection;
+  if (selection.viewMode !== 'object') return null;
+  const scene = useSceneStore.getState();
+  const geo = useGeometryStore.getState();
+
+  const ids = selection.objectIds.filter((id) => {
+    const o = scene.objects[id];
+    return o?.type === 'mesh' && !!o.meshId && geo.meshes.has(o.meshId);
+  });
+  if (ids.length < 2) return null;
+
+  const operands: BooleanOperand[] = ids.map((id) => {
+    const obj = scene.objects[id];
+    const mesh = geo.meshes.get(obj.meshId!)!;
+    const stack = (geo.modifierStacks[id] ?? []).filter((m) => m.enabled);
+    return {
+      mesh: stack.length ? applyModifiersToMesh(mesh, stack, buildModifierContext(id)) : mesh,
+      matrix: getObjectWorldMatrix(scene.objects, id),
+    };
+  });
+
+  const base = scene.objects[ids[0]];
+  const baseMesh = geo.meshes.get(base.meshId!)!;
+  const toBaseLocal = new Matrix4().copy(operands[0].matrix!).invert();
+  const result = booleanMeshes(operands, op, toBaseLocal);
+  if (!result || result.faces.length === 0) return null;
+
+  const mesh = createMeshFromGeometry(`${baseMesh.name} ${LABELS[op]}`, result.vertices, result.faces, { shading: baseMesh.shading });
+  mesh.materialId = baseMesh.materialId;
+  mesh.castShadow = baseMesh.castShadow;
+  mesh.receiveShadow = baseMesh.receiveShadow;
+  for (const f of mesh.faces) if (f.materialId === mesh.materialId) delete f.materialId;
+  geo.addMesh(mesh);
+
+  const objectId = scene.createMeshObject(`${base.name} ${LABELS[op]}`, mesh.id);
+  scene.setParent(objectId, base.parentId);
+  scene.updateObject(objectId, (o) => { o.transform = JSON.parse(JSON.stringify(base.transform)); });
+  ids.forEach((id) => scene.setVisible(id, false));
+
+  scene.selectObject(objectId);
+  useSelectionStore.getState().selectObjects([objectId]);
+  return objectId;
+}
@@ -0,0 +1,343 @@
+import { Mesh, Face, Vertex, Vector3 } from '@/types/geometry';
+import { createFace, createVertex, normalizeVec3, rebuildEdges, vec2 } from '@/utils/geometry';
+import { buildAdjacency, computeEdgeLoop, getBoundaryEdges } from '@/utils/selection/loops';
+
+// Bridge Edge Loops, Grid Fill and Fill Hole. All three mutate `mesh` in place (call inside
+// `geometryStore.updateMesh`) and return the ids of the faces they created.
+
+export interface EdgeChain {
+  vertexIds: string[];
+  closed: boolean;
+}
+
+export interface BridgeOptions {
+  segments: number; // rows of faces between the loops
+  twist: number; // extra rotation (in vertices) of the second closed loop
+  smoothness: number; // 0 = straight rows, 1 = rows bulge to follow the surrounding surface
+}
+
+// Ordered vertex chains of the given edges, one per connected run
+export function edgeChains(mesh: Mesh, edgeIds: string[]): EdgeChain[] {
+  const { edgeById } = buildAdjacency(mesh);
+  const next = new Map<string, string[]>();
+  for (const id of edgeIds) {
+    const e = edgeById.get(id);
+    if (!e) continue;
+    const [a, b] = e.vertexIds;
+    next.set(a, [...(next.get(a) ?? []), b]);
+    next.set(b, [...(next.get(b) ?? []), a]);
+  }
+  const seen = new Set<string>();
+  const chains: EdgeChain[] = [];
+  // Start from chain ends first so open runs come out whole
+  const starts = [...next.keys()].sort((a, b) => (next.get(a)!.length === 1 ? 0 : 1) - (next.get(b)!.length === 1 ? 0 : 1));
+  for (const start of starts) {
+    if (seen.has(start)) continue;
+    const ids = [start];
+    seen.add(start);
+    let cur = start;
+    for (;;) {
+      const n = next.get(cur)!.find((v) => !seen.has(v));
+      if (!n) break;
+      ids.push(n);
+      seen.add(n);
+      cur = n;
+    }
+    const closed = ids.length > 2 && next.get(cur)!.includes(start);
+    if (ids.length > 1) chains.push({ vertexIds: ids, closed });
+  }
+  return chains;
+}
+
+// True when the chain can't grow into a longer loop: it is closed, or both ends reach the mesh
+// border across interior edges (an open run between two boundaries)
+export function isWholeChain(mesh: Mesh, chain: EdgeChain): boolean {
+  if (chain.closed) return true;
+  const boundary = new Set(getBoundaryEdges(mesh));
+  const { edgesByVertex } = buildAdjacency(mesh);
+  const ids = chain.vertexIds;
+  const endsOnBorder = (end: string, prev: string) => {
+    const edges = edgesByVertex.get(end) ?? [];
+    const last = edges.find((e) => e.vertexIds.includes(prev));
+    return !!last && !boundary.has(last.id) && edges.some((e) => boundary.has(e.id));
+  };
+  return endsOnBorder(ids[0], ids[1]) && endsOnBorder(ids[ids.length - 1], ids[ids.length - 2]);
+}
+
+// Whole loops through the given edges: boundary edges grow along the hole they border, other
+// edges along their edge loop. Lets a single clicked edge stand for its loop.
+export function expandToLoops(mesh: Mesh, edgeIds: string[]): string[] {
+  const boundary = new Set(getBoundaryEdges(mesh));
+  const { edgeById, edgesByVertex } = buildAdjacency(mesh);
+  const out = new Set<string>();
+  for (const id of edgeIds) {
+    if (out.has(id)) continue;
+    if (!boundary.has(id)) {
+      computeEdgeLoop(mesh, id).forEach((e) => out.add(e));
+      continue;
+    }
+    const queue = [id];
+    out.add(id);
+    while (queue.length) {
+      const e = edgeById.get(queue.shift()!)!;
+      for (const v of e.vertexIds) {
+        for (const n of edgesByVertex.get(v) ?? []) {
+          if (boundary.has(n.id) && !out.has(n.id)) {
+            out.add(n.id);
+            queue.push(n.id);
+          }
+        }
+      }
+    }
+  }
+  return [...out];
+}
+
+const sub = (a: Vector3, b: Vector3): Vector3 => ({ x: a.x - b.x, y: a.y - b.y, z: a.z - b.z });
+const dist = (a: Vector3, b: Vector3) => Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+const lerp3 = (a: Vector3, b: Vector3, t: number): Vector3 => ({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t, z: a.z + (b.z - a.z) * t });
+
+// Direction the surface would continue past a border vertex: away from its neighbours off the chain
+function outward(mesh: Mesh, chain: string[], pos: Map<string, Vertex>): Map<string, Vector3> {
+  const { edgesByVertex } = buildAdjacency(mesh);
+  const inChain = new Set(chain);
+  const out = new Map<string, Vector3>();
+  for (const id of chain) {
+    const p = pos.get(id)!.position;
+    let x = 0, y = 0, z = 0;
+    for (const e of edgesByVertex.get(id) ?? []) {
+      const o = e.vertexIds[0] === id ? e.vertexIds[1] : e.vertexIds[0];
+      if (inChain.has(o)) continue;
+      const d = normalizeVec3(sub(p, pos.get(o)!.position));
+      x += d.x; y += d.y; z += d.z;
+    }
+    out.set(id, normalizeVec3({ x, y, z }));
+  }
+  return out;
+}
+
+// Cumulative arc-length parameter (0..1) of each chain vertex
+function params(chain: string[], closed: boolean, pos: Map<string, Vertex>): number[] {
+  const t = [0];
+  const n = chain.length;
+  for (let i = 1; i < n; i++) t.push(t[i - 1] + dist(pos.get(chain[i - 1])!.position, pos.get(chain[i])!.position));
+  const total = closed ? t[n - 1] + dist(pos.get(chain[n - 1])!.position, pos.get(chain[0])!.position) : t[n - 1];
+  return t.map((v) => (total > 0 ? v / total : 0));
+}
+
+// Orient and rotate loop B so its vertices line up with loop A
+function alignChains(a: string[], b: string[], closed: boolean, pos: Map<string, Vertex>, twist: number): string[] {
+  const p = (id: string) => pos.get(id)!.position;
+  if (!closed) {
+    const direct = dist(p(a[0]), p(b[0])) + dist(p(a[a.length - 1]), p(b[b.length - 1]));
+    const flipped = dist(p(a[0]), p(b[b.length - 1])) + dist(p(a[a.length - 1]), p(b[0]));
+    return flipped < direct ? [...b].reverse() : b;
+  }
+  const m = b.length;
+  let best = { cost: Infinity, ids: b };
+  for (const candidate of [b, [...b].reverse()]) {
+    for (let k = 0; k < m; k++) {
+      let cost = 0;
+      for (let i = 0; i < a.length; i++) cost += dist(p(a[i]), p(candidate[(Math.round((i * m) / a.length) + k) % m]));
+      if (cost < best.cost) best = { cost, ids: [...candidate.slice(k), ...candidate.slice(0, k)] };
+    }
+  }
+  const s = ((Math.round(twist) % m) + m) % m;
+  return [...best.ids.slice(s), ...best.ids.slice(0, s)];
+}
+
+// Does an existing face walk the edge u → v?
+function faceWalks(mesh: Mesh, u: string, v: string): boolean | null {
+  for (const f of mesh.faces) {
+    const ids = f.vertexIds;
+    for (let i = 0; i < ids.length; i++) {
+      const x = ids[i], y = ids[(i + 1) % ids.length];
+      if (x === u && y === v) return true;
+      if (x === v && y === u) return false;
+    }
+  }
+  return null;
+}
+
+// New faces must walk shared border edges opposite to the faces already there
+function orientFaces(mesh: Mesh, faces: Face[], border: [string, string]) {
+  const newWalk = faces.some((f) => f.vertexIds.some((id, i) => id === border[0] && f.vertexIds[(i + 1) % f.vertexIds.length] === border[1]));
+  if (faceWalks(mesh, border[0], border[1]) === newWalk) faces.forEach((f) => f.vertexIds.reverse());
+}
+
+const adjacentMaterial = (mesh: Mesh, vertexId: string) => mesh.faces.find((f) => f.vertexIds.includes(vertexId))?.materialId;
+
+// Join two rows of vertices with quads (equal counts) or a strip of quads and triangles
+function stitch(p: string[], q: string[], closed: boolean, tp: number[], tq: number[]): string[][] {
+  const faces: string[][] = [];
+  if (p.length === q.length) {
+    const n = p.length;
+    for (let i = 0; i < (closed ? n : n - 1); i++) {
+      const j = (i + 1) % n;
+      faces.push([p[i], p[j], q[j], q[i]]);
+    }
+    return faces;
+  }
+  // Unequal counts: advance along whichever row is behind, emitting triangles
+  const np = p.length, nq = q.length;
+  const endP = closed ? np : np - 1, endQ = closed ? nq : nq - 1;
+  let i = 0, j = 0;
+  const at = (t: number[], k: number, n: number) => (k >= n ? 1 + t[k - n] : t[k]);
+  while (i < endP || j < endQ) {
+    const nextP = i < endP ? at(tp, i + 1, np) : Infinity;
+    const nextQ = j < endQ ? at(tq, j + 1, nq) : Infinity;
+    if (nextP <= nextQ) {
+      faces.push([p[i % np], p[(i + 1) % np], q[j % nq]]);
+      i++;
+    } else {
+      faces.push([p[i % np], q[(j + 1) % nq], q[j % nq]]);
+      j++;
+    }
+  }
+  return faces;
+}
+
+// Connect two edge loops (closed or open) with `segments` rows of faces
+export function bridgeEdgeLoops(mesh: Mesh, edgeIds: string[], options: BridgeOptions): string[] {
+  const chains = edgeChains(mesh, edgeIds);
+  if (chains.length !== 2 || chains[0].closed !== chains[1].closed) return [];
+  const closed = chains[0].closed;
+  const pos = new Map(mesh.vertices.map((v) => [v.id, v] as const));
+  const a = chains[0].vertexIds;
+  const b = alignChains(a, chains[1].vertexIds, closed, pos, options.twist);
+  const ta = params(a, closed, pos), tb = params(b, closed, pos);
+  const outA = outward(mesh, a, pos), outB = outward(mesh, b, pos);
+  const segments = Math.max(1, Math.round(options.segments));
+
+  // Intermediate rows follow loop A's vertex count, positioned along B at the same parameter
+  const onB = (t: number) => {
+    const n = b.length;
+    let k = 0;
+    while (k < n - 1 && tb[k + 1] <= t) k++;
+    const k2 = closed ? (k + 1) % n : Math.min(k + 1, n - 1);
+    const t0 = tb[k], t1 = k2 === 0 ? 1 : tb[k2];
+    const s = t1 > t0 ? (t - t0) / (t1 - t0) : 0;
+    const v0 = pos.get(b[k])!, v1 = pos.get(b[k2])!;
+    return {
+      position: lerp3(v0.position, v1.position, s),
+      normal: lerp3(v0.normal, v1.normal, s),
+      uv: vec2(v0.uv.x + (v1.uv.x - v0.uv.x) * s, v0.uv.y + (v1.uv.y - v0.uv.y) * s),
+      tangent: lerp3(outB.get(b[k])!, outB.get(b[k2])!, s),
+    };
+  };
+  const rows: string[][] = [a];
+  const sameCount = a.length === b.length;
+  for (let r = 1; r < segments; r++) {
+    const t = r / segments;
+    const row: string[] = [];
+    a.forEach((id, i) => {
+      const va = pos.get(id)!;
+      const vb = pos.get(b[i])!;
+      const end = sameCount ? { position: vb.position, normal: vb.normal, uv: vb.uv, tangent: outB.get(b[i])! } : onB(ta[i]);
+      // Cubic Hermite between the loops; smoothness scales the end tangents
+      const len = dist(va.position, end.position) * options.smoothness;
+      const h00 = 2 * t ** 3 - 3 * t ** 2 + 1, h10 = t ** 3 - 2 * t ** 2 + t, h01 = -2 * t ** 3 + 3 * t ** 2, h11 = t ** 3 - t ** 2;
+      const ta0 = outA.get(id)!, tb0 = end.tangent;
+      const p: Vector3 = {
+        x: h00 * va.position.x + h10 * ta0.x * len + h01 * end.position.x - h11 * tb0.x * len,
+        y: h00 * va.position.y + h10 * ta0.y * len + h01 * end.position.y - h11 * tb0.y * len,
+        z: h00 * va.position.z + h10 * ta0.z * len + h01 * end.position.z - h11 * tb0.z * len,
+      };
+      const v = createVertex(p, normalizeVec3(lerp3(va.normal, end.normal, t)), vec2(va.uv.x + (end.uv.x - va.uv.x) * t, va.uv.y + (end.uv.y - va.uv.y) * t));
+      mesh.vertices.push(v);
+      row.push(v.id);
+    });
+    rows.push(row);
+  }
+  rows.push(b);
+
+  const material = adjacentMaterial(mesh, a[0]);
+  const faces: Face[] = [];
+  for (let r = 0; r < rows.length - 1; r++) {
+    const tq = r + 1 === rows.length - 1 ? tb : ta;
+    for (const ids of stitch(rows[r], rows[r + 1], closed, ta, tq)) {
+      if (new Set(ids).size < 3) continue;
+      const f = createFace(ids);
+      if (material) f.materialId = material;
+      faces.push(f);
+    }
+  }
+  if (!faces.length) return [];
+  orientFaces(mesh, faces, [a[0], a[1]]);
+  mesh.faces.push(...faces);
+  rebuildEdges(mesh);
+  return faces.map((f) => f.id);
+}
+
+// Cap a closed loop with a single n-gon
+export function fillHole(mesh: Mesh, edgeIds: string[]): string[] {
+  const created: string[] = [];
+  for (const chain of edgeChains(mesh, edgeIds)) {
+    if (!chain.closed || chain.vertexIds.length < 3) continue;
+    const f = createFace([...chain.vertexIds]);
+    const material = adjacentMaterial(mesh, chain.vertexIds[0]);
+    if (material) f.materialId = material;
+    orientFaces(mesh, [f], [chain.vertexIds[0], chain.vertexIds[1]]);
+    mesh.faces.push(f);
+    created.push(f.id);
+  }
+  if (created.length) rebuildEdges(mesh);
+  return created;
+}
+
+// Fill a closed loop with an even vertex count with a quad grid. The loop is split into four
+// sides of span / (n/2 - span) edges, starting `offset` vertices along; interior vertices come
+// from a Coons patch over the four sides.
+export function gridFill(mesh: Mesh, edgeIds: string[], span?: number, offset = 0): string[] {
+  const created: string[] = [];
+  for (const chain of edgeChains(mesh, edgeIds)) {
+    const n = chain.vertexIds.length;
+    if (!chain.closed || n < 4 || n % 2) continue;
+    const half = n / 2;
+    const a = Math.max(1, Math.min(half - 1, Math.round(span ?? Math.floor(half / 2))));
+    const b = half - a;
+    const o = ((Math.round(offset) % n) + n) % n;
+    const loop = [...chain.vertexIds.slice(o), ...chain.vertexIds.slice(0, o)];
+    const pos = new Map(mesh.vertices.map((v) => [v.id, v] as const));
+
+    // grid[i][j], i = 0..a along the first side, j = 0..b along the second
+    const grid: string[][] = Array.from({ length: a + 1 }, () => new Array<string>(b + 1));
+    for (let i = 0; i <= a; i++) grid[i][0] = loop[i];
+    for (let j = 0; j <= b; j++) grid[a][j] = loop[a + j];
+    for (let i = 0; i <= a; i++) grid[a - i][b] = loop[(a + b + i) % n];
+    for (let j = 0; j <= b; j++) grid[0][b - j] = loop[(2 * a + b + j) % n];
+
+    const P = (i: number, j: number) => pos.get(grid[i][j])!;
+    for (let i = 1; i < a; i++) {
+      for (let j = 1; j < b; j++) {
+        const u = i / a, w = j / b;
+        const mix = (f: (v: Vertex) => number) =>
+          (1 - w) * f(P(i, 0)) + w * f(P(i, b)) + (1 - u) * f(P(0, j)) + u * f(P(a, j))
+          - ((1 - u) * (1 - w) * f(P(0, 0)) + u * (1 - w) * f(P(a, 0)) + (1 - u) * w * f(P(0, b)) + u * w * f(P(a, b)));
+        const v = createVertex(
+          { x: mix((v) => v.position.x), y: mix((v) => v.position.y), z: mix((v) => v.position.z) },
+          normalizeVec3({ x: mix((v) => v.normal.x), y: mix((v) => v.normal.y), z: mix((v) => v.normal.z) }),
+          vec2(mix((v) => v.uv.x), mix((v) => v.uv.y)),
+        );
+        mesh.vertices.push(v);
+        pos.set(v.id, v);
+        grid[i][j] = v.id;
+      }
+    }
+
+    const material = adjacentMaterial(mesh, loop[0]);
+    const faces: Face[] = [];
+    for (let i = 0; i < a; i++) {
+      for (let j = 0; j < b; j++) {
+        const f = createFace([grid[i][j], grid[i + 1][j], grid[i + 1][j + 1], grid[i][j + 1]]);
+        if (material) f.materialId = material;
+        faces.push(f);
+      }
+    }
+    orientFaces(mesh, faces, [loop[0], loop[1]]);
+    mesh.faces.push(...faces);
+    created.push(...faces.map((f) => f.id));
+  }
+  if (created.length) rebuildEdges(mesh);
+  return created;
+}
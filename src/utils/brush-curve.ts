@@ -0,0 +1,36 @@
+// Custom brush curves: points (x = distance from the brush centre 0..1, or pen pressure, y =
+// strength 0..1) joined linearly, evaluated flat beyond the first / last point.
+
+export interface CurvePoint { x: number; y: number }
+
+export const DEFAULT_FALLOFF_CURVE: CurvePoint[] = [
+  { x: 0, y: 1 },
+  { x: 0.3, y: 0.9 },
+  { x: 0.6, y: 0.4 },
+  { x: 1, y: 0 },
+];
+
+export const LINEAR_CURVE: CurvePoint[] = [
+  { x: 0, y: 0 },
+  { x: 1, y: 1 },
+];
+
+export function evaluateCurve(points: CurvePoint[], t: number): number {
+  if (!points.length) return 0;
+  if (t <= points[0].x) return points[0].y;
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1], b = points[i];
+    if (t <= b.x) return b.x - a.x < 1e-9 ? b.y : a.y + ((t - a.x) / (b.x - a.x)) * (b.y - a.y);
+  }
+  return points[points.length - 1].y;
+}
+
+// Sorted by x with the ends pinned to 0 and 1
+export function normalizeCurve(points: CurvePoint[], fallback = DEFAULT_FALLOFF_CURVE): CurvePoint[] {
+  const clamp = (v: number) => Math.max(0, Math.min(1, v));
+  const sorted = points.map((p) => ({ x: clamp(p.x), y: clamp(p.y) })).sort((a, b) => a.x - b.x);
+  if (sorted.length < 2) return fallback;
+  sorted[0].x = 0;
+  sorted[sorted.length - 1].x = 1;
+  return sorted;
+}
@@ -0,0 +1,219 @@
+import { nanoid } from 'nanoid';
+import type { Curve3D, CurvePoint, Edge, Face, Vector3, Vertex } from '@/types/geometry';
+import { createFace, createVertex, vec2, vec3 } from '@/utils/geometry';
+import { createPathSampler } from '@/utils/path';
+
+// Spline evaluation (cubic Bezier / rational B-spline) and mesh generation for curve objects.
+
+export interface EvaluatedCurve {
+  points: Vector3[];
+  tilts: number[];
+  closed: boolean;
+}
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+export const createCurvePoint = (position: Vector3, partial: Partial<CurvePoint> = {}): CurvePoint => ({
+  id: nanoid(),
+  position: { ...position },
+  handleIn: { ...position },
+  handleOut: { ...position },
+  handleType: 'auto',
+  weight: 1,
+  tilt: 0,
+  ...partial,
+});
+
+// Recompute 'auto' and 'vector' handles from the neighbouring points (in place)
+export function updateAutoHandles(points: CurvePoint[], closed: boolean): void {
+  const n = points.length;
+  for (let i = 0; i < n; i++) {
+    const p = points[i];
+    if (p.handleType !== 'auto' && p.handleType !== 'vector') continue;
+    const prev = i > 0 ? points[i - 1] : closed && n > 2 ? points[n - 1] : null;
+    const next = i < n - 1 ? points[i + 1] : closed && n > 2 ? points[0] : null;
+    const P = p.position;
+    if (p.handleType === 'vector') {
+      p.handleIn = prev ? vec3(lerp(P.x, prev.position.x, 1 / 3), lerp(P.y, prev.position.y, 1 / 3), lerp(P.z, prev.position.z, 1 / 3)) : { ...P };
+      p.handleOut = next ? vec3(lerp(P.x, next.position.x, 1 / 3), lerp(P.y, next.position.y, 1 / 3), lerp(P.z, next.position.z, 1 / 3)) : { ...P };
+      continue;
+    }
+    const a = prev?.position ?? P, b = next?.position ?? P;
+    let dx = b.x - a.x, dy = b.y - a.y, dz = b.z - a.z;
+    const len = Math.hypot(dx, dy, dz);
+    if (len < 1e-9) { p.handleIn = { ...P }; p.handleOut = { ...P }; continue; }
+    dx /= len; dy /= len; dz /= len;
+    const lin = prev ? Math.hypot(P.x - a.x, P.y - a.y, P.z - a.z) / 3 : 0;
+    const lout = next ? Math.hypot(b.x - P.x, b.y - P.y, b.z - P.z) / 3 : 0;
+    p.handleIn = vec3(P.x - dx * lin, P.y - dy * lin, P.z - dz * lin);
+    p.handleOut = vec3(P.x + dx * lout, P.y + dy * lout, P.z + dz * lout);
+  }
+}
+
+function evaluateBezier(curve: Curve3D): EvaluatedCurve {
+  const pts = curve.points;
+  const n = pts.length;
+  const closed = curve.closed && n > 2;
+  const res = Math.max(1, Math.floor(curve.resolution));
+  const points: Vector3[] = [];
+  const tilts: number[] = [];
+  const segments = closed ? n : n - 1;
+  for (let s = 0; s < segments; s++) {
+    const a = pts[s], b = pts[(s + 1) % n];
+    const p0 = a.position, p1 = a.handleOut, p2 = b.handleIn, p3 = b.position;
+    const last = !closed && s === segments - 1;
+    for (let i = 0; i < res + (last ? 1 : 0); i++) {
+      const t = i / res, u = 1 - t;
+      const w0 = u * u * u, w1 = 3 * u * u * t, w2 = 3 * u * t * t, w3 = t * t * t;
+      points.push(vec3(
+        p0.x * w0 + p1.x * w1 + p2.x * w2 + p3.x * w3,
+        p0.y * w0 + p1.y * w1 + p2.y * w2 + p3.y * w3,
+        p0.z * w0 + p1.z * w1 + p2.z * w2 + p3.z * w3,
+      ));
+      tilts.push(lerp(a.tilt, b.tilt, t));
+    }
+  }
+  return { points, tilts, closed };
+}
+
+// Rational B-spline: clamped uniform knots when open, periodic (wrapped control points) when closed
+function evaluateNurbs(curve: Curve3D): EvaluatedCurve {
+  const src = curve.points;
+  const closed = curve.closed && src.length > 2;
+  const k = Math.max(2, Math.min(Math.floor(curve.order), src.length));
+  const ctrl = closed ? [...src, ...src.slice(0, k - 1)] : src;
+  const m = ctrl.length;
+  const knots: number[] = [];
+  for (let i = 0; i < m + k; i++) knots.push(closed ? i : Math.min(Math.max(i - k + 1, 0), m - k + 1));
+  const u0 = knots[k - 1], u1 = knots[m];
+  const res = Math.max(1, Math.floor(curve.resolution));
+  const count = (closed ? src.length : src.length - 1) * res;
+
+  const basis = (u: number) => {
+    // Cox-de Boor, order-k basis values for all control points
+    let span = k - 1;
+    while (span < m - 1 && u >= knots[span + 1]) span++;
+    const N = new Array<number>(m + k).fill(0);
+    N[span] = 1;
+    for (let d = 2; d <= k; d++) {
+      for (let i = Math.max(0, span - d + 1); i <= span; i++) {
+        const l = knots[i + d - 1] - knots[i], r = knots[i + d] - knots[i + 1];
+        N[i] = (l > 0 ? ((u - knots[i]) / l) * N[i] : 0) + (r > 0 ? ((knots[i + d] - u) / r) * N[i + 1] : 0);
+      }
+    }
+    return N;
+  };
+
+  const points: Vector3[] = [];
+  const tilts: number[] = [];
+  for (let s = 0; s < count + (closed ? 0 : 1); s++) {
+    const u = lerp(u0, u1, s / count);
+    const N = basis(Math.min(u, u1 - 1e-9));
+    let x = 0, y = 0, z = 0, w = 0, tilt = 0;
+    for (let i = 0; i < m; i++) {
+      const b = N[i] * ctrl[i].weight;
+      if (!b) continue;
+      x += ctrl[i].position.x * b; y += ctrl[i].position.y * b; z += ctrl[i].position.z * b;
+      tilt += ctrl[i].tilt * b; w += b;
+    }
+    if (w <= 0) continue;
+    points.push(vec3(x / w, y / w, z / w));
+    tilts.push(tilt / w);
+  }
+  return { points, tilts, closed };
+}
+
+export function evaluateCurve(curve: Curve3D): EvaluatedCurve {
+  if (curve.points.length < 2) return { points: curve.points.map((p) => ({ ...p.position })), tilts: curve.points.map((p) => p.tilt), closed: false };
+  return curve.type === 'nurbs' ? evaluateNurbs(curve) : evaluateBezier(curve);
+}
+
+// Profile in the path's (binormal, normal) plane, counter-clockwise around the tangent
+function profilePoints(curve: Curve3D): { pts: [number, number][]; closed: boolean; perimeter: number } | null {
+  const r = Math.max(1e-4, curve.thickness);
+  switch (curve.profile) {
+    case 'round': {
+      const segs = Math.max(3, Math.floor(curve.profileSegments));
+      const pts = Array.from({ length: segs }, (_, j) => {
+        const a = (j / segs) * Math.PI * 2;
+        return [Math.sin(a) * r, Math.cos(a) * r] as [number, number];
+      });
+      return { pts, closed: true, perimeter: 2 * Math.PI * r };
+    }
+    case 'square':
+      return { pts: [[r, r], [r, -r], [-r, -r], [-r, r]], closed: true, perimeter: 8 * r };
+    case 'ribbon':
+      return { pts: [[-r, 0], [r, 0]], closed: false, perimeter: 2 * r };
+    default:
+      return null;
+  }
+}
+
+// Sweep the profile along the curve. Faces carry per-corner UVs (u around the profile, v along the
+// curve scaled by the profile perimeter) so closed profiles need no duplicated seam vertices.
+export function buildCurveGeometry(curve: Curve3D): { vertices: Vertex[]; faces: Face[] } {
+  const profile = profilePoints(curve);
+  const ev = evaluateCurve(curve);
+  if (!profile || ev.points.length < 2) return { vertices: [], faces: [] };
+  const sampler = createPathSampler(ev.points, ev.closed);
+  if (!sampler) return { vertices: [], faces: [] };
+
+  const dist = [0];
+  for (let i = 1; i < ev.points.length; i++) {
+    const a = ev.points[i - 1], b = ev.points[i];
+    dist.push(dist[i - 1] + Math.hypot(b.x - a.x, b.y - a.y, b.z - a.z));
+  }
+  const rings: Vertex[][] = ev.points.map((_, i) => {
+    const f = sampler.sample(dist[i]);
+    const c = Math.cos(ev.tilts[i] ?? 0), s = Math.sin(ev.tilts[i] ?? 0);
+    return profile.pts.map(([bx, ny]) => {
+      const x = bx * c - ny * s, y = bx * s + ny * c;
+      const pos = vec3(
+        f.position.x + f.binormal.x * x + f.normal.x * y,
+        f.position.y + f.binormal.y * x + f.normal.y * y,
+        f.position.z + f.binormal.z * x + f.normal.z * y,
+      );
+      return createVertex(pos, vec3(0, 0, 0), vec2(0, 0));
+    });
+  });
+
+  const P = profile.pts.length;
+  const edgesPerRing = profile.closed ? P : P - 1;
+  const vScale = 1 / profile.perimeter;
+  const faces: Face[] = [];
+  const ringCount = rings.length;
+  const spans = ev.closed ? ringCount : ringCount - 1;
+  for (let i = 0; i < spans; i++) {
+    const i2 = (i + 1) % ringCount;
+    const v0 = dist[i] * vScale;
+    const v1 = (i2 === 0 ? sampler.length : dist[i2]) * vScale;
+    for (let j = 0; j < edgesPerRing; j++) {
+      const j2 = (j + 1) % P;
+      const u0 = j / edgesPerRing, u1 = (j + 1) / edgesPerRing;
+      faces.push(createFace(
+        [rings[i][j].id, rings[i][j2].id, rings[i2][j2].id, rings[i2][j].id],
+        [vec2(u0, v0), vec2(u1, v0), vec2(u1, v1), vec2(u0, v1)],
+      ));
+    }
+  }
+  if (curve.capEnds && !ev.closed && profile.closed) {
+    const capUv = (v: Vertex) => { const j = rings[0].indexOf(v); return vec2(0.5 + profile.pts[j][0] * vScale, 0.5 + profile.pts[j][1] * vScale); };
+    const start = rings[0].slice().reverse();
+    faces.push(createFace(start.map((v) => v.id), start.map(capUv)));
+    const end = rings[ringCount - 1];
+    faces.push(createFace(end.map((v) => v.id), end.map((_, j) => capUv(rings[0][j]))));
+  }
+  return { vertices: rings.flat(), faces };
+}
+
+// Edge-only polyline of the evaluated curve (used when converting a curve without a profile)
+export function buildCurvePolyline(curve: Curve3D): { vertices: Vertex[]; edges: Edge[] } {
+  const ev = evaluateCurve(curve);
+  const vertices = ev.points.map((p, i) => createVertex({ ...p }, vec3(0, 1, 0), vec2(i / Math.max(1, ev.points.length - 1), 0)));
+  const edges: Edge[] = [];
+  const count = ev.closed ? vertices.length : vertices.length - 1;
+  for (let i = 0; i < count; i++) {
+    edges.push({ id: nanoid(), vertexIds: [vertices[i].id, vertices[(i + 1) % vertices.length].id], faceIds: [], selected: false });
+  }
+  return { vertices, edges };
+}
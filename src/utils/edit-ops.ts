@@ -1,5 +1,5 @@
 import { Mesh } from '@/types/geometry';
-import { buildEdgesFromFaces } from '@/utils/geometry';
+import { rebuildEdges } from '@/utils/geometry';
 
 // Remove selected vertices and any faces that reference them. Rebuild edges.
 export function deleteVerticesInMesh(mesh: Mesh, vertexIds: string[]) {
@@ -10,7 +10,7 @@ export function deleteVerticesInMesh(mesh: Mesh, vertexIds: string[]) {
   // Drop faces that reference any deleted vertex
   mesh.faces = mesh.faces.filter(f => !f.vertexIds.some(id => toDelete.has(id)));
   // Rebuild edges from remaining faces
-  mesh.edges = buildEdgesFromFaces(mesh.vertices, mesh.faces);
+  rebuildEdges(mesh);
   // Try to repair any leftover topology issues
   repairMeshTopology(mesh);
 }
@@ -20,7 +20,7 @@ export function deleteFacesInMesh(mesh: Mesh, faceIds: string[]) {
   if (!mesh || faceIds.length === 0) return;
   const drop = new Set(faceIds);
   mesh.faces = mesh.faces.filter(f => !drop.has(f.id));
-  mesh.edges = buildEdgesFromFaces(mesh.vertices, mesh.faces);
+  rebuildEdges(mesh);
   repairMeshTopology(mesh);
 }
 
@@ -46,7 +46,7 @@ export function deleteEdgesInMesh(mesh: Mesh, edgeIds: string[]) {
     return false;
   };
   mesh.faces = mesh.faces.filter(f => !dropFace(f.vertexIds));
-  mesh.edges = buildEdgesFromFaces(mesh.vertices, mesh.faces);
+  rebuildEdges(mesh);
   repairMeshTopology(mesh);
 }
 
@@ -111,7 +111,7 @@ export function mergeVerticesInMesh(mesh: Mesh, vertexIds: string[], mode: 'cent
   }
   mesh.faces = resultFaces;
   // Rebuild edges
-  mesh.edges = buildEdgesFromFaces(mesh.vertices, mesh.faces);
+  rebuildEdges(mesh);
   // Ensure topology is consistent after merge
   repairMeshTopology(mesh);
 }
@@ -137,7 +137,7 @@ export function repairMeshTopology(mesh: Mesh) {
   mesh.vertices = mesh.vertices.filter((v) => used.has(v.id));
 
   // Rebuild edges from faces
-  mesh.edges = buildEdgesFromFaces(mesh.vertices, mesh.faces);
+  rebuildEdges(mesh);
 }
 
 // Merge selected vertices which are within `distance` of each other. Clusters are merged to their centroid.
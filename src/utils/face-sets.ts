@@ -0,0 +1,61 @@
+import type { Face, Mesh } from '@/types/geometry';
+
+// Face sets: integer ids on Face.faceSet grouping faces for sculpting. Faces without an id belong
+// to the default set 0. Sets can be isolated or hidden (Face.hidden), which also protects their
+// vertices from brushes.
+
+export const faceSetOf = (f: Pick<Face, 'faceSet'>) => f.faceSet ?? 0;
+
+export function faceSetIds(mesh: Pick<Mesh, 'faces'>): number[] {
+  return Array.from(new Set(mesh.faces.map(faceSetOf))).sort((a, b) => a - b);
+}
+
+export function nextFaceSetId(mesh: Pick<Mesh, 'faces'>): number {
+  return mesh.faces.reduce((m, f) => Math.max(m, faceSetOf(f)), 0) + 1;
+}
+
+export function assignFaceSet(mesh: Mesh, faceIds: Iterable<string>, id: number) {
+  const ids = new Set(faceIds);
+  for (const f of mesh.faces) {
+    if (!ids.has(f.id)) continue;
+    if (id) f.faceSet = id; else delete f.faceSet;
+  }
+}
+
+// Show only the given set
+export function isolateFaceSet(mesh: Mesh, id: number) {
+  for (const f of mesh.faces) {
+    if (faceSetOf(f) === id) delete f.hidden; else f.hidden = true;
+  }
+}
+
+export function hideFaceSet(mesh: Mesh, id: number) {
+  for (const f of mesh.faces) if (faceSetOf(f) === id) f.hidden = true;
+}
+
+export function showAllFaces(mesh: Mesh) {
+  for (const f of mesh.faces) delete f.hidden;
+}
+
+export const hasFaceSets = (mesh: Pick<Mesh, 'faces'>) => mesh.faces.some((f) => !!f.faceSet || !!f.hidden);
+
+// Vertices used only by hidden faces; brushes must not move them
+export function hiddenVertexIds(mesh: Pick<Mesh, 'faces'>): Set<string> {
+  const hidden = new Set<string>();
+  const shown = new Set<string>();
+  for (const f of mesh.faces) for (const id of f.vertexIds) (f.hidden ? hidden : shown).add(id);
+  for (const id of shown) hidden.delete(id);
+  return hidden;
+}
+
+// Stable pastel colour per set (golden-angle hue walk); the default set stays white
+export function faceSetColor(id: number): { r: number; g: number; b: number } {
+  if (!id) return { r: 1, g: 1, b: 1 };
+  const h = ((id * 137.508) % 360) / 60;
+  const s = 0.45, l = 0.72;
+  const c = (1 - Math.abs(2 * l - 1)) * s;
+  const x = c * (1 - Math.abs((h % 2) - 1));
+  const [r, g, b] = h < 1 ? [c, x, 0] : h < 2 ? [x, c, 0] : h < 3 ? [0, c, x] : h < 4 ? [0, x, c] : h < 5 ? [x, 0, c] : [c, 0, x];
+  const m = l - c / 2;
+  return { r: r + m, g: g + m, b: b + m };
+}
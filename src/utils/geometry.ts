@@ -169,6 +169,39 @@ export const buildEdgesFromFaces = (vertices: Vertex[], faces: Face[]): Edge[] =
   return edges;
 };
 
+/**
+ * Rebuilds `mesh.edges` from its faces after a topology edit, keeping the ids and attributes
+ * (seam, crease, sharp, selection) of edges whose vertex pair still exists. `splits` maps
+ * vertices inserted on an old edge to that edge's endpoints, so its pieces keep the seam, crease
+ * and sharp flags too.
+ */
+export const rebuildEdges = (mesh: Mesh, splits?: Map<string, [string, string]>) => {
+  const key = (a: string, b: string) => (a < b ? `${a}-${b}` : `${b}-${a}`);
+  const old = new Map(mesh.edges.map((e) => [key(e.vertexIds[0], e.vertexIds[1]), e] as const));
+  // The old edge a new edge lies on, when both its ends are on it
+  const splitOf = (a: string, b: string) => {
+    const sa = splits?.get(a), sb = splits?.get(b);
+    const on = sa ?? sb;
+    if (!on) return undefined;
+    const k = key(on[0], on[1]);
+    const ends = (id: string, s?: [string, string]) => (s ? key(s[0], s[1]) === k : id === on[0] || id === on[1]);
+    return ends(a, sa) && ends(b, sb) ? old.get(k) : undefined;
+  };
+  mesh.edges = buildEdgesFromFaces(mesh.vertices, mesh.faces).map((e) => {
+    const [a, b] = e.vertexIds;
+    const prev = old.get(key(a, b));
+    if (prev) return { ...prev, vertexIds: e.vertexIds, faceIds: e.faceIds };
+    const parent = splitOf(a, b);
+    if (!parent) return e;
+    return {
+      ...e,
+      ...(parent.seam ? { seam: true } : {}),
+      ...(parent.crease ? { crease: parent.crease } : {}),
+      ...(parent.sharp ? { sharp: true } : {}),
+    };
+  });
+};
+
 /**
  * Splits an edge at the given position, inserting a new vertex M and updating adjacent faces.
  * Each adjacent face is split into two proper sub-faces (no n+1 polygons left behind),
@@ -251,7 +284,7 @@ export const splitEdge = (mesh: Mesh, edgeId: string, newPosition: Vector3): str
 
   mesh.faces = mesh.faces.filter(f => !facesToRemove.has(f.id));
   mesh.faces.push(...newFaces);
-  mesh.edges = buildEdgesFromFaces(mesh.vertices, mesh.faces);
+  rebuildEdges(mesh, new Map([[mId, [aId, bId]]]));
 
   return mId;
 };
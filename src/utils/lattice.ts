@@ -0,0 +1,79 @@
+import type { Lattice3D, LatticeInterpolation, Vector3 } from '@/types/geometry';
+
+// Free-form deformation lattice. Control points live in the lattice object's space; the rest grid
+// spans -0.5..0.5 on every axis (the object's scale sizes the cage). Deformation interpolates the
+// control point displacements, so an untouched lattice is the identity for every interpolation.
+
+export type LatticeResolution = Lattice3D['resolution'];
+
+export const clampLatticeResolution = (n: number) => Math.max(2, Math.min(16, Math.round(n)));
+
+export const latticeIndex = (res: LatticeResolution, i: number, j: number, k: number) => i + res.u * (j + res.v * k);
+
+export function latticeRestPoint(res: LatticeResolution, i: number, j: number, k: number): Vector3 {
+  return { x: i / (res.u - 1) - 0.5, y: j / (res.v - 1) - 0.5, z: k / (res.w - 1) - 0.5 };
+}
+
+export function createLatticePoints(res: LatticeResolution): Vector3[] {
+  const pts: Vector3[] = [];
+  for (let k = 0; k < res.w; k++) for (let j = 0; j < res.v; j++) for (let i = 0; i < res.u; i++) pts.push(latticeRestPoint(res, i, j, k));
+  return pts;
+}
+
+// 1D interpolation weights for grid coordinate s in [0, n-1]; indices are clamped to the grid
+function axisWeights(s: number, n: number, mode: LatticeInterpolation): [number, number][] {
+  const i = Math.min(Math.floor(s), n - 2);
+  const t = s - i;
+  const at = (d: number) => Math.max(0, Math.min(n - 1, i + d));
+  if (mode === 'linear') return [[at(0), 1 - t], [at(1), t]];
+  const t2 = t * t, t3 = t2 * t;
+  if (mode === 'cardinal') {
+    // Catmull-Rom
+    return [
+      [at(-1), -0.5 * t3 + t2 - 0.5 * t],
+      [at(0), 1.5 * t3 - 2.5 * t2 + 1],
+      [at(1), -1.5 * t3 + 2 * t2 + 0.5 * t],
+      [at(2), 0.5 * t3 - 0.5 * t2],
+    ];
+  }
+  // Uniform cubic B-spline (smoothest, does not pass through the points)
+  const u = 1 - t;
+  return [
+    [at(-1), (u * u * u) / 6],
+    [at(0), (3 * t3 - 6 * t2 + 4) / 6],
+    [at(1), (-3 * t3 + 3 * t2 + 3 * t + 1) / 6],
+    [at(2), t3 / 6],
+  ];
+}
+
+// Deformed position of a point given in lattice space; null when it lies outside the cage
+export function deformByLattice(lattice: Lattice3D, p: Vector3): Vector3 | null {
+  const eps = 1e-6;
+  if (Math.abs(p.x) > 0.5 + eps || Math.abs(p.y) > 0.5 + eps || Math.abs(p.z) > 0.5 + eps) return null;
+  const res = lattice.resolution;
+  const clamp01 = (v: number) => Math.max(0, Math.min(1, v + 0.5));
+  const wu = axisWeights(clamp01(p.x) * (res.u - 1), res.u, lattice.interpolation);
+  const wv = axisWeights(clamp01(p.y) * (res.v - 1), res.v, lattice.interpolation);
+  const ww = axisWeights(clamp01(p.z) * (res.w - 1), res.w, lattice.interpolation);
+  let dx = 0, dy = 0, dz = 0;
+  for (const [k, fk] of ww) {
+    for (const [j, fj] of wv) {
+      const fjk = fj * fk;
+      if (!fjk) continue;
+      for (const [i, fi] of wu) {
+        const f = fi * fjk;
+        if (!f) continue;
+        const cp = lattice.points[latticeIndex(res, i, j, k)];
+        if (!cp) continue;
+        const rest = latticeRestPoint(res, i, j, k);
+        dx += (cp.x - rest.x) * f; dy += (cp.y - rest.y) * f; dz += (cp.z - rest.z) * f;
+      }
+    }
+  }
+  return { x: p.x + dx, y: p.y + dy, z: p.z + dz };
+}
+
+// Control points for a new resolution that keep the current deformation
+export function resampleLattice(lattice: Lattice3D, res: LatticeResolution): Vector3[] {
+  return createLatticePoints(res).map((p) => deformByLattice(lattice, p) ?? p);
+}
@@ -7,6 +7,7 @@ import { getObject3D } from '@/features/viewport/hooks/object3d-registry';
 import { useSceneStore } from '@/stores/scene-store';
 import { useGeometryStore } from '@/stores/geometry-store';
 import type { ExportFormat } from '@/utils/three-export';
+import { usesFlatShading } from '@/utils/normals';
 
 type BuildFromLiveParams = {
   includeObjectIds: string[];
@@ -79,7 +80,7 @@ const normalizeMaterialsForFormat = (group: Object3D, owningObjectId: string, fo
           m.emissiveIntensity = matRes.emissiveIntensity ?? 1;
         }
         // Preserve shading flags
-        (m as any).flatShading = (meshRes?.shading ?? 'flat') === 'flat';
+        (m as any).flatShading = usesFlatShading(meshRes);
         (m as any).side = (child.material as any).side ?? m.side;
         (m as any).wireframe = false; // never export wireframe
         child.material = m;
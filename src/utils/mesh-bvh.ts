@@ -0,0 +1,41 @@
+import { BufferAttribute, BufferGeometry } from 'three/webgpu';
+import { MeshBVH } from 'three-mesh-bvh';
+import type { Mesh } from '@/types/geometry';
+
+// BVH over a mesh's fan-triangulated faces. Built indirect, so the geometry index keeps build order:
+// a hit's faceIndex is a triangle of `geometry` and `triangleFaces` maps it back to Mesh.faces.
+export interface MeshBvh {
+  bvh: MeshBVH;
+  geometry: BufferGeometry;
+  triangleFaces: Uint32Array;
+}
+
+// Keyed by the (immutable) mesh object, so repeated queries reuse the tree until the mesh changes
+const cache = new WeakMap<Mesh, MeshBvh | null>();
+
+export function meshBvh(mesh: Mesh): MeshBvh | null {
+  const cached = cache.get(mesh);
+  if (cached !== undefined) return cached;
+  const index = new Map(mesh.vertices.map((v, i) => [v.id, i] as const));
+  const positions = new Float32Array(mesh.vertices.length * 3);
+  mesh.vertices.forEach((v, i) => { positions[i * 3] = v.position.x; positions[i * 3 + 1] = v.position.y; positions[i * 3 + 2] = v.position.z; });
+  const tris: number[] = [];
+  const faces: number[] = [];
+  mesh.faces.forEach((f, fi) => {
+    const ids = f.vertexIds.map((id) => index.get(id));
+    if (ids.some((i) => i === undefined)) return;
+    for (let k = 1; k < ids.length - 1; k++) {
+      tris.push(ids[0]!, ids[k]!, ids[k + 1]!);
+      faces.push(fi);
+    }
+  });
+  let entry: MeshBvh | null = null;
+  if (tris.length) {
+    const geometry = new BufferGeometry();
+    geometry.setAttribute('position', new BufferAttribute(positions, 3));
+    geometry.setIndex(tris);
+    entry = { bvh: new MeshBVH(geometry, { indirect: true }), geometry, triangleFaces: Uint32Array.from(faces) };
+  }
+  cache.set(mesh, entry);
+  return entry;
+}
@@ -1,6 +1,6 @@
 import { buildEdgesFromFaces, calculateVertexNormals } from '@/utils/geometry';
 import type { Mesh } from '@/types/geometry';
-import type { ModifierStackItem } from './types';
+import type { ModifierContext, ModifierStackItem } from './types';
 import { mirrorModifier } from './mirror';
 import { subdivideModifier } from './subdivide';
 import { arrayModifier } from './array';
@@ -13,15 +13,22 @@ import { screwModifier } from './screw';
 import { bevelModifier } from './bevel';
 import { remeshModifier } from './remesh';
 import { volumeToMeshModifier } from './volume-to-mesh';
+import { booleanModifier } from './boolean';
+import { latticeModifier } from './lattice';
+import { shrinkwrapModifier } from './shrinkwrap';
+import { displaceModifier } from './displace';
+import { weightedNormalModifier } from './weighted-normal';
+import { multiresModifier } from './multires';
 
-export function applyModifiersToMesh(base: Mesh, stack: ModifierStackItem[]): Mesh {
+export function applyModifiersToMesh(base: Mesh, stack: ModifierStackItem[], ctx?: ModifierContext): Mesh {
   // Start from a shallow copy of base but with cloned topology arrays
-  let cur: Mesh = {
+  const start: Mesh = {
     ...base,
     vertices: base.vertices.map(v => ({ ...v, position: { ...v.position }, normal: { ...v.normal }, uv: { ...v.uv } })),
     faces: base.faces.map(f => ({ ...f, vertexIds: [...f.vertexIds] })),
     edges: base.edges.slice(),
   };
+  let cur = start;
 
   for (const item of stack) {
     if (!item.enabled) continue;
@@ -33,7 +40,7 @@ export function applyModifiersToMesh(base: Mesh, stack: ModifierStackItem[]): Me
         cur = subdivideModifier(cur, item.settings);
         break;
       case 'array':
-        cur = arrayModifier(cur, item.settings);
+        cur = arrayModifier(cur, item.settings, ctx);
         break;
       case 'weld':
         cur = weldModifier(cur, item.settings);
@@ -60,15 +67,41 @@ export function applyModifiersToMesh(base: Mesh, stack: ModifierStackItem[]): Me
         cur = remeshModifier(cur, item.settings);
         break;
       case 'volume-to-mesh':
-        cur = volumeToMeshModifier(cur);
+        cur = volumeToMeshModifier(cur, item.settings, ctx, item.id);
         break;
+      case 'boolean':
+        cur = booleanModifier(cur, item.settings, ctx);
+        break;
+      case 'lattice':
+        cur = latticeModifier(cur, item.settings, ctx);
+        break;
+      case 'shrinkwrap':
+        cur = shrinkwrapModifier(cur, item.settings, ctx);
+        break;
+      case 'displace':
+        cur = displaceModifier(cur, item.settings, ctx);
+        break;
+      case 'weighted-normal':
+        cur = weightedNormalModifier(cur, item.settings);
+        break;
+      case 'multires': {
+        // Needs the original mesh: only evaluated first, on the store mesh its level cache is keyed by
+        if (cur !== start) break;
+        const out = multiresModifier(base, item.settings);
+        if (out !== base) cur = out;
+        break;
+      }
       default:
         break;
     }
   }
 
-  // Rebuild edges and normals once at end for stability
-  const edges = buildEdgesFromFaces(cur.vertices, cur.faces);
+  // Rebuild edges and normals once at end for stability, keeping per-edge flags that survived the stack
+  const flags = new Map(cur.edges.filter((e) => e.seam || e.crease || e.sharp).map((e) => [[...e.vertexIds].sort().join('-'), e] as const));
+  const edges = buildEdgesFromFaces(cur.vertices, cur.faces).map((e) => {
+    const f = flags.get([...e.vertexIds].sort().join('-'));
+    return f ? { ...e, seam: f.seam, crease: f.crease, sharp: f.sharp } : e;
+  });
   const vertices = calculateVertexNormals({ ...cur, edges } as Mesh);
   return { ...cur, edges, vertices };
 }
@@ -1,41 +1,106 @@
 import { nanoid } from 'nanoid';
-import type { Mesh, Vertex, Face } from '@/types/geometry';
-import type { ArrayModifierSettings } from './types';
+import { Matrix4, Vector3 as ThreeVector3 } from 'three/webgpu';
+import type { Mesh, Vertex, Face, Vector3 } from '@/types/geometry';
+import { createPathSampler, pathUpFor } from '@/utils/path';
+import type { ArrayModifierSettings, ModifierContext } from './types';
 
-export function arrayModifier(mesh: Mesh, settings: ArrayModifierSettings): Mesh {
-  const count = Math.max(2, Math.floor(settings.count ?? 2));
-  const off = settings.offset ?? { x: 1, y: 0, z: 0 };
-  if (count <= 1) return mesh;
-  const baseVerts = mesh.vertices.map(v => ({ ...v, position: { ...v.position }, normal: { ...v.normal }, uv: { ...v.uv } }));
-  const baseFaces = mesh.faces.map(f => ({ ...f, vertexIds: [...f.vertexIds] }));
+// Guard against runaway fit-length / fit-curve counts
+const MAX_INSTANCES = 1000;
+
+export function arrayModifier(mesh: Mesh, settings: ArrayModifierSettings, ctx?: ModifierContext): Mesh {
+  if (!mesh.vertices.length) return mesh;
+  const min = { x: Infinity, y: Infinity, z: Infinity };
+  const max = { x: -Infinity, y: -Infinity, z: -Infinity };
+  for (const v of mesh.vertices) {
+    min.x = Math.min(min.x, v.position.x); min.y = Math.min(min.y, v.position.y); min.z = Math.min(min.z, v.position.z);
+    max.x = Math.max(max.x, v.position.x); max.y = Math.max(max.y, v.position.y); max.z = Math.max(max.z, v.position.z);
+  }
+
+  // Per-instance step: constant + relative translation, followed by the object offset transform
+  const t = new ThreeVector3();
+  if (settings.useConstantOffset ?? true) {
+    const off = settings.offset ?? { x: 1, y: 0, z: 0 };
+    t.set(off.x, off.y, off.z);
+  }
+  if (settings.useRelativeOffset) {
+    const rel = settings.relativeOffset ?? { x: 1, y: 0, z: 0 };
+    t.x += rel.x * (max.x - min.x); t.y += rel.y * (max.y - min.y); t.z += rel.z * (max.z - min.z);
+  }
+  const step = new Matrix4().makeTranslation(t.x, t.y, t.z);
+  const ownerInverse = ctx ? new Matrix4().copy(ctx.worldMatrix).invert() : null;
+  const offsetId = settings.useObjectOffset ? settings.offsetObjectId : null;
+  const offsetWorld = ctx && offsetId && offsetId !== ctx.objectId ? ctx.resolveTransform(offsetId) : null;
+  if (ownerInverse && offsetWorld) step.multiply(new Matrix4().copy(ownerInverse).multiply(offsetWorld));
+
+  // Path in this object's local space
+  const curveId = settings.curveObjectId;
+  const path = ctx && curveId && curveId !== ctx.objectId ? ctx.resolvePath(curveId) : null;
+  const sampler = path && ownerInverse
+    ? createPathSampler(path.points.map((p) => {
+      const v = new ThreeVector3(p.x, p.y, p.z).applyMatrix4(ownerInverse);
+      return { x: v.x, y: v.y, z: v.z };
+    }), path.closed)
+    : null;
+
+  const fit = settings.fitType ?? 'count';
+  let count = Math.max(1, Math.floor(settings.count ?? 2));
+  if (fit !== 'count') {
+    const span = fit === 'curve' ? (sampler?.length ?? 0) : Math.max(0, settings.length ?? 0);
+    const dist = new ThreeVector3().setFromMatrixPosition(step).length();
+    count = dist > 1e-6 ? Math.floor(span / dist + 1e-6) + 1 : 1;
+  }
+  count = Math.min(count, MAX_INSTANCES);
+  if (count <= 1 && !sampler) return mesh;
 
   const instances: { verts: Vertex[]; faces: Face[] }[] = [];
+  const m = new Matrix4();
+  const p = new ThreeVector3();
   for (let i = 0; i < count; i++) {
     const vIdMap = new Map<string, string>();
-    const verts = baseVerts.map((v) => {
+    const verts = mesh.vertices.map((v) => {
       const id = nanoid();
       vIdMap.set(v.id, id);
+      p.set(v.position.x, v.position.y, v.position.z).applyMatrix4(m);
       return {
         ...v,
         id,
-        position: {
-          x: v.position.x + off.x * i,
-          y: v.position.y + off.y * i,
-          z: v.position.z + off.z * i,
-        },
+        position: { x: p.x, y: p.y, z: p.z },
+        normal: { ...v.normal },
+        uv: { ...v.uv },
         selected: false,
       } as Vertex;
     });
-    const faces = baseFaces.map((f) => ({
+    const faces = mesh.faces.map((f) => ({
       ...f,
       id: nanoid(),
       vertexIds: f.vertexIds.map((vid) => vIdMap.get(vid)!),
       selected: false,
     }));
     instances.push({ verts, faces });
+    m.multiply(step);
   }
 
   const vertices = instances.flatMap(i => i.verts);
   const faces = instances.flatMap(i => i.faces);
+
+  // Curve deform: the chosen axis becomes arc length from the path start, the two remaining
+  // axes map onto the path's normal ("up") and binormal, so a straight path is the identity.
+  if (sampler) {
+    const axis = settings.curveAxis ?? 'x';
+    const a = { x: 0, y: 0, z: 0, [axis]: 1 } as Vector3;
+    const up = pathUpFor(a);
+    const side = { x: a.y * up.z - a.z * up.y, y: a.z * up.x - a.x * up.z, z: a.x * up.y - a.y * up.x };
+    for (const v of vertices) {
+      const q = v.position;
+      const f = sampler.sample(q[axis]);
+      const u = q.x * up.x + q.y * up.y + q.z * up.z;
+      const s = q.x * side.x + q.y * side.y + q.z * side.z;
+      v.position = {
+        x: f.position.x + f.normal.x * u + f.binormal.x * s,
+        y: f.position.y + f.normal.y * u + f.binormal.y * s,
+        z: f.position.z + f.normal.z * u + f.binormal.z * s,
+      };
+    }
+  }
   return { ...mesh, vertices, faces };
 }
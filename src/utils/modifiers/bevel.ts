@@ -1,6 +1,7 @@
 import { nanoid } from 'nanoid';
 import type { Mesh, Vertex, Face, Vector3 } from '@/types/geometry';
 import type { BevelModifierSettings } from './types';
+import { vertexGroupFactor } from '@/utils/vertex-groups';
 
 type V3 = Vector3;
 const sub = (a: V3, b: V3): V3 => ({ x: a.x - b.x, y: a.y - b.y, z: a.z - b.z });
@@ -18,6 +19,7 @@ function bevelOnce(
   miter: 'sharp'|'chamfer'|'arc',
   clampWidth: boolean,
   cullDegenerate: boolean,
+  weightOf: ((v: Vertex) => number) | null,
 ): Mesh {
   if (distance <= 0) return mesh;
   const vMap = new Map(mesh.vertices.map(v => [v.id, v] as const));
@@ -60,7 +62,8 @@ function bevelOnce(
       const cosA = Math.max(-1, Math.min(1, dot(mul(ePrev, -1), eNext)));
       const angleRad = Math.acos(cosA);
       const angle = angleRad * 180 / Math.PI;
-      const bevelThisCorner = angle >= angleDeg;
+      const w = weightOf ? weightOf(vMap.get(cur)!) : 1;
+      const bevelThisCorner = angle >= angleDeg && w > 0;
       let newPos = { ...cv };
       if (bevelThisCorner) {
         // Compute local clamp based on adjacent edge lengths and interior angle
@@ -68,7 +71,7 @@ function bevelOnce(
         const lenNext = len(sub(nv, cv));
         const sinHalf = Math.sin(Math.max(1e-6, angleRad / 2));
         const tMax = 0.49 * Math.min(lenPrev, lenNext) * sinHalf; // conservative safe inset
-        const d = clampWidth ? Math.min(distance, tMax) : distance;
+        const d = clampWidth ? Math.min(distance * w, tMax) : distance * w;
         let dir = norm(add(pPrev, pNext));
         if (miter === 'sharp') {
           // favor pPrev direction to keep a sharp corner bias
@@ -81,7 +84,9 @@ function bevelOnce(
         if (miter !== 'arc') newPos = add(cv, mul(dir, d));
       }
       const id = nanoid();
-      newVerts.push({ id, position: newPos, normal: { x: 0, y: 0, z: 0 }, uv: { ...vMap.get(cur)!.uv }, selected: false });
+      const src = vMap.get(cur)!;
+      // Inset vertices keep the corner's group weights so further segments stay restricted
+      newVerts.push({ id, position: newPos, normal: { x: 0, y: 0, z: 0 }, uv: { ...src.uv }, selected: false, ...(src.weights ? { weights: { ...src.weights } } : {}) });
       insetId[f.id][cur] = id;
       insetPos.set(id, newPos);
       const arr = vertexCorners.get(cur) ?? [];
@@ -195,10 +200,11 @@ export function bevelModifier(mesh: Mesh, settings: BevelModifierSettings): Mesh
   const clampWidth = settings.clampWidth !== false; // default true
   const cullDegenerate = settings.cullDegenerate !== false; // default true
   if (width === 0) return mesh;
+  const factor = vertexGroupFactor(mesh, settings.vertexGroup, settings.invertVertexGroup);
   let cur = mesh;
   const step = width / segments;
   for (let i = 0; i < segments; i++) {
-    cur = bevelOnce(cur, step, angleThreshold, miter, clampWidth, cullDegenerate);
+    cur = bevelOnce(cur, step, angleThreshold, miter, clampWidth, cullDegenerate, factor);
   }
   return cur;
 }
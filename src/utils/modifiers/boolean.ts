@@ -0,0 +1,20 @@
+import { Matrix4 } from 'three/webgpu';
+import type { Mesh } from '@/types/geometry';
+import { booleanPolygons, csgPolygonsToGeometry, meshToCsgPolygons } from '@/utils/boolean';
+import type { BooleanModifierSettings, ModifierContext } from './types';
+
+// Non-destructive boolean against another scene object. The cutter's base mesh (without its own
+// modifiers, which also rules out reference cycles) is brought into this object's local space.
+export function booleanModifier(mesh: Mesh, settings: BooleanModifierSettings, ctx?: ModifierContext): Mesh {
+  const targetId = settings.objectId;
+  if (!ctx || !targetId || targetId === ctx.objectId) return mesh;
+  const target = ctx.resolveObject(targetId);
+  if (!target || target.mesh.faces.length === 0) return mesh;
+
+  const toLocal = new Matrix4().copy(ctx.worldMatrix).invert().multiply(target.worldMatrix);
+  const a = meshToCsgPolygons(mesh);
+  const b = meshToCsgPolygons(target.mesh, toLocal);
+  const { vertices, faces } = csgPolygonsToGeometry(booleanPolygons(settings.operation ?? 'difference', a, b));
+  for (const f of faces) if (f.materialId === mesh.materialId) delete f.materialId;
+  return { ...mesh, vertices, faces };
+}
@@ -1,13 +1,441 @@
-import type { Mesh } from '@/types/geometry';
+import type { Mesh, Vertex, Face, Vector2, Vector3, Color4 } from '@/types/geometry';
+import { convertQuadToTriangles, createFace } from '@/utils/geometry';
+import { cornerColor } from '@/utils/vertex-colors';
 import type { DecimateModifierSettings } from './types';
 
-// Very naive decimation: keeps a ratio of faces uniformly and drops unused vertices.
+// Quadric error metric (Garland–Heckbert) edge-collapse decimation.
+//
+// The mesh is triangulated, each vertex accumulates the plane quadrics of its triangles and edges
+// are collapsed cheapest-first until the target triangle count is reached. "Hard" edges – open
+// boundaries, UV seams (Edge.seam or a UV discontinuity between face corners), material borders
+// and non-manifold edges – get extra penalty quadrics and restrict how their vertices may move:
+//   - free vertex (no hard edges): may move to the optimal position
+//   - line vertex (exactly 2 hard edges): may only slide along its hard edges
+//   - locked vertex (corners/junctions, or boundary with preserveBoundary): never moves
+// Every collapse is checked against the link condition (keeps the mesh manifold) and for normal
+// flips, so the result never folds over or tears holes.
+
+const FEATURE_WEIGHT = 1000;
+// Flat regions otherwise collapse into huge fans, which are slow to update and shade badly
+const MAX_VALENCE = 24;
+const UV_EPS = 1e-6;
+
+type Klass = 'free' | 'line' | 'locked';
+
+interface HeapEntry { cost: number; u: number; v: number; vu: number; vv: number }
+
+// New UV and extra corner attributes (colours, custom normal) for a surviving triangle's moved corner
+interface CornerRewrite { uv: [number, number]; attr: number[] }
+
+const edgeKey = (a: number, b: number) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+function heapPush(heap: HeapEntry[], e: HeapEntry) {
+  heap.push(e);
+  let i = heap.length - 1;
+  while (i > 0) {
+    const p = (i - 1) >> 1;
+    if (heap[p].cost <= heap[i].cost) break;
+    [heap[p], heap[i]] = [heap[i], heap[p]];
+    i = p;
+  }
+}
+
+function heapPop(heap: HeapEntry[]): HeapEntry | undefined {
+  const top = heap[0];
+  const last = heap.pop();
+  if (heap.length && last) {
+    heap[0] = last;
+    let i = 0;
+    for (;;) {
+      const l = i * 2 + 1, r = l + 1;
+      let m = i;
+      if (l < heap.length && heap[l].cost < heap[m].cost) m = l;
+      if (r < heap.length && heap[r].cost < heap[m].cost) m = r;
+      if (m === i) break;
+      [heap[m], heap[i]] = [heap[i], heap[m]];
+      i = m;
+    }
+  }
+  return top;
+}
+
+export interface DecimateOptions {
+  // Stop once the triangle count reaches this
+  targetTriangles?: number;
+  // Stop once the cheapest collapse exceeds this quadric error (area-weighted squared distance)
+  maxError?: number;
+  preserveBoundary?: boolean;
+}
+
 export function decimateModifier(mesh: Mesh, settings: DecimateModifierSettings): Mesh {
-  const ratio = Math.max(0.01, Math.min(1, settings.ratio ?? 1));
-  if (ratio >= 0.999) return mesh;
-  const faces = mesh.faces.filter((_f, i) => (i / Math.max(1, mesh.faces.length - 1)) <= ratio);
-  const used = new Set<string>();
-  for (const f of faces) f.vertexIds.forEach((id) => used.add(id));
-  const vertices = mesh.vertices.filter((v) => used.has(v.id));
+  const triCount = mesh.faces.reduce((n, f) => n + Math.max(0, f.vertexIds.length - 2), 0);
+  const targetTriangles = settings.target === 'triangles'
+    ? Math.max(1, Math.floor(settings.triangleCount ?? triCount))
+    : Math.max(1, Math.floor(triCount * Math.max(0.01, Math.min(1, settings.ratio ?? 1))));
+  return decimateMesh(mesh, { targetTriangles, preserveBoundary: settings.preserveBoundary ?? true });
+}
+
+export function decimateMesh(mesh: Mesh, opts: DecimateOptions): Mesh {
+  const preserveBoundary = opts.preserveBoundary ?? true;
+  const maxError = opts.maxError ?? Infinity;
+
+  // --- Triangulate into flat arrays -------------------------------------------------------
+  const index = new Map<string, number>();
+  mesh.vertices.forEach((v, i) => index.set(v.id, i));
+  const n = mesh.vertices.length;
+  const pos = new Float64Array(n * 3);
+  mesh.vertices.forEach((v, i) => { pos[i * 3] = v.position.x; pos[i * 3 + 1] = v.position.y; pos[i * 3 + 2] = v.position.z; });
+
+  // Extra per-corner data rides along with the UVs: RGBA per colour layer, then the custom normal
+  // (NaN when the corner has none). Interpolated with the UVs, never used to pick collapses.
+  const layerIds = (mesh.colorLayers ?? []).map((l) => l.id);
+  const hasNormals = mesh.faces.some((f) => f.normals);
+  const dim = layerIds.length * 4 + (hasNormals ? 3 : 0);
+  const tris: number[] = [];
+  const triUv: number[] = [];
+  const triAttr: number[] = [];
+  const triMat: (string | undefined)[] = [];
+  const triFaceSet: (number | undefined)[] = [];
+  for (const f of mesh.faces) {
+    for (const tri of convertQuadToTriangles(f.vertexIds)) {
+      const ids = tri.map((id) => index.get(id));
+      if (ids.some((i) => i === undefined)) continue;
+      const [a, b, c] = ids as number[];
+      if (a === b || b === c || a === c) continue;
+      tris.push(a, b, c);
+      for (const vid of tri) {
+        const k = f.vertexIds.indexOf(vid);
+        const uv = f.uvs?.[k] ?? mesh.vertices[index.get(vid)!].uv;
+        triUv.push(uv.x, uv.y);
+        for (const id of layerIds) { const c = cornerColor(f, id, k); triAttr.push(c.r, c.g, c.b, c.a); }
+        if (hasNormals) { const nm = f.normals?.[k]; triAttr.push(nm?.x ?? NaN, nm?.y ?? NaN, nm?.z ?? NaN); }
+      }
+      triMat.push(f.materialId);
+      triFaceSet.push(f.faceSet);
+    }
+  }
+  const triCount = tris.length / 3;
+  const target = Math.max(1, opts.targetTriangles ?? 1);
+  if (target >= triCount) return mesh;
+
+  const triAlive = new Uint8Array(triCount).fill(1);
+  const vertTris: number[][] = Array.from({ length: n }, () => []);
+  for (let t = 0; t < triCount; t++) for (let k = 0; k < 3; k++) vertTris[tris[t * 3 + k]].push(t);
+
+  const triNormal = (t: number, override?: { v: number; x: number; y: number; z: number }) => {
+    const p = (k: number) => {
+      const vi = tris[t * 3 + k];
+      if (override && vi === override.v) return [override.x, override.y, override.z];
+      return [pos[vi * 3], pos[vi * 3 + 1], pos[vi * 3 + 2]];
+    };
+    const [a, b, c] = [p(0), p(1), p(2)];
+    const ux = b[0] - a[0], uy = b[1] - a[1], uz = b[2] - a[2];
+    const vx = c[0] - a[0], vy = c[1] - a[1], vz = c[2] - a[2];
+    return [uy * vz - uz * vy, uz * vx - ux * vz, ux * vy - uy * vx];
+  };
+
+  // --- Classify edges -----------------------------------------------------------------------
+  const seamPairs = new Set<string>();
+  for (const e of mesh.edges) {
+    if (!e.seam) continue;
+    const a = index.get(e.vertexIds[0]); const b = index.get(e.vertexIds[1]);
+    if (a !== undefined && b !== undefined) seamPairs.add(edgeKey(a, b));
+  }
+  const edgeTris = new Map<string, number[]>();
+  for (let t = 0; t < triCount; t++) {
+    for (let k = 0; k < 3; k++) {
+      const key = edgeKey(tris[t * 3 + k], tris[t * 3 + (k + 1) % 3]);
+      const list = edgeTris.get(key);
+      if (list) list.push(t); else edgeTris.set(key, [t]);
+    }
+  }
+  const cornerOf = (t: number, v: number) => (tris[t * 3] === v ? 0 : tris[t * 3 + 1] === v ? 1 : tris[t * 3 + 2] === v ? 2 : -1);
+  const uvOf = (t: number, v: number): [number, number] => {
+    const k = cornerOf(t, v);
+    return [triUv[t * 6 + k * 2], triUv[t * 6 + k * 2 + 1]];
+  };
+  const attrOf = (t: number, v: number) => {
+    const o = (t * 3 + cornerOf(t, v)) * dim;
+    return triAttr.slice(o, o + dim);
+  };
+  const sameUv = (a: [number, number], b: [number, number]) => Math.abs(a[0] - b[0]) < UV_EPS && Math.abs(a[1] - b[1]) < UV_EPS;
+
+  const hard = new Set<string>();
+  const boundary = new Set<string>();
+  for (const [key, list] of edgeTris) {
+    const [a, b] = key.split('|').map(Number);
+    if (list.length === 1) { hard.add(key); boundary.add(key); continue; }
+    if (list.length > 2 || seamPairs.has(key)) { hard.add(key); continue; }
+    const [t0, t1] = list;
+    if (triMat[t0] !== triMat[t1] || !sameUv(uvOf(t0, a), uvOf(t1, a)) || !sameUv(uvOf(t0, b), uvOf(t1, b))) hard.add(key);
+  }
+
+  // --- Quadrics -----------------------------------------------------------------------------
+  const Q = new Float64Array(n * 10);
+  const addPlane = (vi: number, nx: number, ny: number, nz: number, d: number, w: number) => {
+    const o = vi * 10;
+    Q[o] += w * nx * nx; Q[o + 1] += w * nx * ny; Q[o + 2] += w * nx * nz; Q[o + 3] += w * nx * d;
+    Q[o + 4] += w * ny * ny; Q[o + 5] += w * ny * nz; Q[o + 6] += w * ny * d;
+    Q[o + 7] += w * nz * nz; Q[o + 8] += w * nz * d; Q[o + 9] += w * d * d;
+  };
+  for (let t = 0; t < triCount; t++) {
+    const [nx, ny, nz] = triNormal(t);
+    const len = Math.hypot(nx, ny, nz);
+    if (len < 1e-20) continue;
+    const ux = nx / len, uy = ny / len, uz = nz / len;
+    const a = tris[t * 3];
+    const d = -(ux * pos[a * 3] + uy * pos[a * 3 + 1] + uz * pos[a * 3 + 2]);
+    const area = len / 2;
+    for (let k = 0; k < 3; k++) addPlane(tris[t * 3 + k], ux, uy, uz, d, area);
+  }
+  // Penalty planes through hard edges, perpendicular to the adjacent face
+  for (const key of hard) {
+    const [a, b] = key.split('|').map(Number);
+    const ex = pos[b * 3] - pos[a * 3], ey = pos[b * 3 + 1] - pos[a * 3 + 1], ez = pos[b * 3 + 2] - pos[a * 3 + 2];
+    const len2 = ex * ex + ey * ey + ez * ez;
+    for (const t of edgeTris.get(key)!) {
+      const [nx, ny, nz] = triNormal(t);
+      let mx = ey * nz - ez * ny, my = ez * nx - ex * nz, mz = ex * ny - ey * nx;
+      const ml = Math.hypot(mx, my, mz);
+      if (ml < 1e-20) continue;
+      mx /= ml; my /= ml; mz /= ml;
+      const d = -(mx * pos[a * 3] + my * pos[a * 3 + 1] + mz * pos[a * 3 + 2]);
+      addPlane(a, mx, my, mz, d, FEATURE_WEIGHT * len2);
+      addPlane(b, mx, my, mz, d, FEATURE_WEIGHT * len2);
+    }
+  }
+
+  const quadricCost = (o1: number, o2: number, x: number, y: number, z: number) => {
+    const q = (i: number) => Q[o1 + i] + Q[o2 + i];
+    return q(0) * x * x + 2 * q(1) * x * y + 2 * q(2) * x * z + 2 * q(3) * x
+      + q(4) * y * y + 2 * q(5) * y * z + 2 * q(6) * y
+      + q(7) * z * z + 2 * q(8) * z + q(9);
+  };
+
+  // --- Vertex topology helpers --------------------------------------------------------------
+  const version = new Int32Array(n);
+  const dead = new Uint8Array(n);
+  const aliveTris = (v: number) => vertTris[v].filter((t) => triAlive[t]);
+  const neighbours = (v: number) => {
+    const s = new Set<number>();
+    for (const t of vertTris[v]) {
+      if (!triAlive[t]) continue;
+      for (let k = 0; k < 3; k++) { const w = tris[t * 3 + k]; if (w !== v) s.add(w); }
+    }
+    return s;
+  };
+  const classCache: (Klass | undefined)[] = new Array(n);
+  const classify = (v: number): Klass => classCache[v] ??= computeClass(v);
+  const computeClass = (v: number): Klass => {
+    let hardCount = 0;
+    let onBoundary = false;
+    for (const w of neighbours(v)) {
+      const key = edgeKey(v, w);
+      if (hard.has(key)) hardCount++;
+      if (boundary.has(key)) onBoundary = true;
+    }
+    if (onBoundary && preserveBoundary) return 'locked';
+    return hardCount === 0 ? 'free' : hardCount === 2 ? 'line' : 'locked';
+  };
+
+  // Plan a collapse of edge (a,b): returns the surviving vertex, removed vertex and new position
+  type Plan = { keep: number; drop: number; x: number; y: number; z: number; cost: number; full: boolean };
+  const plan = (a: number, b: number): Plan | null => {
+    const ca = classify(a), cb = classify(b);
+    const oa = a * 10, ob = b * 10;
+    const at = (v: number): [number, number, number] => [pos[v * 3], pos[v * 3 + 1], pos[v * 3 + 2]];
+    const halfEdge = (drop: number, keep: number): Plan => {
+      const [x, y, z] = at(keep);
+      return { keep, drop, x, y, z, cost: quadricCost(oa, ob, x, y, z), full: false };
+    };
+    if (ca === 'free' && cb === 'free') {
+      // Optimal position from the combined quadric, falling back to endpoints/midpoint
+      const q = (i: number) => Q[oa + i] + Q[ob + i];
+      const m00 = q(0), m01 = q(1), m02 = q(2), m11 = q(4), m12 = q(5), m22 = q(7);
+      const r0 = -q(3), r1 = -q(6), r2 = -q(8);
+      const det = m00 * (m11 * m22 - m12 * m12) - m01 * (m01 * m22 - m12 * m02) + m02 * (m01 * m12 - m11 * m02);
+      const candidates: [number, number, number][] = [at(a), at(b)];
+      const [ax, ay, az] = at(a); const [bx, by, bz] = at(b);
+      candidates.push([(ax + bx) / 2, (ay + by) / 2, (az + bz) / 2]);
+      if (Math.abs(det) > 1e-12) {
+        const x = (r0 * (m11 * m22 - m12 * m12) - m01 * (r1 * m22 - m12 * r2) + m02 * (r1 * m12 - m11 * r2)) / det;
+        const y = (m00 * (r1 * m22 - m12 * r2) - r0 * (m01 * m22 - m12 * m02) + m02 * (m01 * r2 - r1 * m02)) / det;
+        const z = (m00 * (m11 * r2 - r1 * m12) - m01 * (m01 * r2 - r1 * m02) + r0 * (m01 * m12 - m11 * m02)) / det;
+        // Keep the optimum near the edge; far-away solutions come from near-singular quadrics
+        const ex = bx - ax, ey = by - ay, ez = bz - az;
+        const el = Math.hypot(ex, ey, ez);
+        const mx = (ax + bx) / 2, my = (ay + by) / 2, mz = (az + bz) / 2;
+        if (Math.hypot(x - mx, y - my, z - mz) <= el) candidates.unshift([x, y, z]);
+      }
+      let best: Plan | null = null;
+      for (const [x, y, z] of candidates) {
+        const cost = quadricCost(oa, ob, x, y, z);
+        if (!best || cost < best.cost) best = { keep: b, drop: a, x, y, z, cost, full: true };
+      }
+      return best;
+    }
+    if (ca === 'free') return halfEdge(a, b);
+    if (cb === 'free') return halfEdge(b, a);
+    // Both constrained: only slide a line vertex along the hard edge it belongs to
+    if (!hard.has(edgeKey(a, b))) return null;
+    if (ca === 'line' && cb === 'line') {
+      const p1 = halfEdge(a, b), p2 = halfEdge(b, a);
+      return p1.cost <= p2.cost ? p1 : p2;
+    }
+    if (ca === 'line') return halfEdge(a, b);
+    if (cb === 'line') return halfEdge(b, a);
+    return null;
+  };
+
+  // Validate a plan; returns per-triangle corner rewrites on success
+  const validate = (p: Plan): Map<number, CornerRewrite> | null => {
+    const { keep, drop } = p;
+    const shared = aliveTris(drop).filter((t) => cornerOf(t, keep) !== -1);
+    if (shared.length === 0) return null;
+    // Link condition: common neighbours must be exactly the opposite corners of shared triangles
+    const nk = neighbours(keep);
+    const opposite = new Set<number>();
+    for (const t of shared) for (let k = 0; k < 3; k++) { const w = tris[t * 3 + k]; if (w !== keep && w !== drop) opposite.add(w); }
+    const nd = neighbours(drop);
+    for (const w of nd) if (w !== keep && nk.has(w) && !opposite.has(w)) return null;
+    if (nk.size + nd.size - opposite.size - 2 > MAX_VALENCE) return null;
+    // Don't collapse the last triangles of a tiny closed component down to nothing
+    if (nk.size <= 2) return null;
+
+    // Flip check on every surviving triangle around both vertices
+    const movers = new Set([...aliveTris(drop), ...aliveTris(keep)]);
+    for (const t of shared) movers.delete(t);
+    for (const t of movers) {
+      const [ox, oy, oz] = triNormal(t);
+      const k = cornerOf(t, drop);
+      if (k !== -1) tris[t * 3 + k] = keep;
+      const [nx, ny, nz] = triNormal(t, { v: keep, x: p.x, y: p.y, z: p.z });
+      if (k !== -1) tris[t * 3 + k] = drop;
+      const nl = Math.hypot(nx, ny, nz), ol = Math.hypot(ox, oy, oz);
+      if (nl < 1e-20) return null;
+      if (ol > 1e-20 && (ox * nx + oy * ny + oz * nz) / (ol * nl) < 0.2) return null;
+    }
+
+    // UV and attribute rewrites for the dropped vertex's corners
+    const rewrites = new Map<number, CornerRewrite>();
+    if (p.full) {
+      const [ax, ay, az] = [pos[drop * 3], pos[drop * 3 + 1], pos[drop * 3 + 2]];
+      const [bx, by, bz] = [pos[keep * 3], pos[keep * 3 + 1], pos[keep * 3 + 2]];
+      const ex = bx - ax, ey = by - ay, ez = bz - az;
+      const el2 = ex * ex + ey * ey + ez * ez;
+      const s = el2 > 0 ? Math.max(0, Math.min(1, ((p.x - ax) * ex + (p.y - ay) * ey + (p.z - az) * ez) / el2)) : 0.5;
+      const ua = uvOf(shared[0], drop), ub = uvOf(shared[0], keep);
+      const uv: [number, number] = [ua[0] + (ub[0] - ua[0]) * s, ua[1] + (ub[1] - ua[1]) * s];
+      const aa = attrOf(shared[0], drop), ab = attrOf(shared[0], keep);
+      const attr = aa.map((x, i) => x + (ab[i] - x) * s);
+      for (const t of movers) rewrites.set(t, { uv, attr });
+    } else {
+      for (const t of aliveTris(drop)) {
+        if (shared.includes(t)) continue;
+        const mine = uvOf(t, drop);
+        const match = shared.find((e) => sameUv(uvOf(e, drop), mine));
+        if (match === undefined) return null;
+        rewrites.set(t, { uv: uvOf(match, keep), attr: attrOf(match, keep) });
+      }
+    }
+    return rewrites;
+  };
+
+  const heap: HeapEntry[] = [];
+  const pushEdges = (v: number) => {
+    for (const w of neighbours(v)) {
+      const p = plan(v, w);
+      if (p) heapPush(heap, { cost: p.cost, u: v, v: w, vu: version[v], vv: version[w] });
+    }
+  };
+  const seeded = new Set<string>();
+  for (let t = 0; t < triCount; t++) {
+    for (let k = 0; k < 3; k++) {
+      const a = tris[t * 3 + k], b = tris[t * 3 + (k + 1) % 3];
+      const key = edgeKey(a, b);
+      if (seeded.has(key)) continue;
+      seeded.add(key);
+      const p = plan(a, b);
+      if (p) heapPush(heap, { cost: p.cost, u: a, v: b, vu: 0, vv: 0 });
+    }
+  }
+
+  // --- Collapse loop ------------------------------------------------------------------------
+  let live = triCount;
+  while (live > target && heap.length) {
+    const e = heapPop(heap)!;
+    if (dead[e.u] || dead[e.v] || version[e.u] !== e.vu || version[e.v] !== e.vv) continue;
+    const p = plan(e.u, e.v);
+    if (!p) continue;
+    if (p.cost > maxError) break;
+    const rewrites = validate(p);
+    if (!rewrites) continue;
+    const { keep, drop } = p;
+
+    for (const t of aliveTris(drop)) {
+      if (cornerOf(t, keep) !== -1) { triAlive[t] = 0; live--; continue; }
+      tris[t * 3 + cornerOf(t, drop)] = keep;
+      vertTris[keep].push(t);
+    }
+    for (const [t, { uv, attr }] of rewrites) {
+      if (!triAlive[t]) continue;
+      const k = cornerOf(t, keep);
+      triUv[t * 6 + k * 2] = uv[0];
+      triUv[t * 6 + k * 2 + 1] = uv[1];
+      for (let i = 0; i < dim; i++) triAttr[(t * 3 + k) * dim + i] = attr[i];
+    }
+    vertTris[keep] = aliveTris(keep);
+    vertTris[drop] = [];
+    // Carry hard/boundary edge flags over to the surviving vertex
+    for (const w of neighbours(keep)) {
+      const from = edgeKey(drop, w), to = edgeKey(keep, w);
+      if (hard.has(from)) hard.add(to);
+      if (boundary.has(from)) boundary.add(to);
+    }
+    pos[keep * 3] = p.x; pos[keep * 3 + 1] = p.y; pos[keep * 3 + 2] = p.z;
+    for (let i = 0; i < 10; i++) Q[keep * 10 + i] += Q[drop * 10 + i];
+    dead[drop] = 1;
+    version[keep]++;
+    classCache[keep] = undefined;
+    for (const w of neighbours(keep)) classCache[w] = undefined;
+    pushEdges(keep);
+  }
+
+  // --- Rebuild mesh ---------------------------------------------------------------------------
+  const used = new Uint8Array(n);
+  const faces: Face[] = [];
+  for (let t = 0; t < triCount; t++) {
+    if (!triAlive[t]) continue;
+    const ids = [tris[t * 3], tris[t * 3 + 1], tris[t * 3 + 2]];
+    ids.forEach((i) => { used[i] = 1; });
+    const uvs: Vector2[] = [0, 1, 2].map((k) => ({ x: triUv[t * 6 + k * 2], y: triUv[t * 6 + k * 2 + 1] }));
+    const face = createFace(ids.map((i) => mesh.vertices[i].id), uvs);
+    if (triMat[t]) face.materialId = triMat[t];
+    if (triFaceSet[t] !== undefined) face.faceSet = triFaceSet[t];
+    if (layerIds.length) {
+      face.colors = {};
+      layerIds.forEach((id, li) => {
+        face.colors![id] = [0, 1, 2].map((k): Color4 => {
+          const o = (t * 3 + k) * dim + li * 4;
+          return { r: triAttr[o], g: triAttr[o + 1], b: triAttr[o + 2], a: triAttr[o + 3] };
+        });
+      });
+    }
+    if (hasNormals) {
+      const normals = [0, 1, 2].map((k): Vector3 | null => {
+        const o = (t * 3 + k) * dim + layerIds.length * 4;
+        const [x, y, z] = [triAttr[o], triAttr[o + 1], triAttr[o + 2]];
+        const l = Math.hypot(x, y, z);
+        return Number.isFinite(l) && l > 1e-12 ? { x: x / l, y: y / l, z: z / l } : null;
+      });
+      if (normals.every((nm) => nm)) face.normals = normals as Vector3[];
+    }
+    faces.push(face);
+  }
+  const vertices: Vertex[] = [];
+  mesh.vertices.forEach((v, i) => {
+    if (!used[i]) return;
+    vertices.push({ ...v, position: { x: pos[i * 3], y: pos[i * 3 + 1], z: pos[i * 3 + 2] }, normal: { ...v.normal }, uv: { ...v.uv } });
+  });
   return { ...mesh, vertices, faces };
 }
@@ -0,0 +1,73 @@
+import type { Mesh } from '@/types/geometry';
+import type { TerrainNode } from '@/types/terrain';
+import { sampleImageLuminance } from '@/stores/files-store';
+import { calculateVertexNormals } from '@/utils/geometry';
+import { compileTerrainGraph, evaluateTerrainNodes } from '@/utils/terrain/generate';
+import { vertexGroupFactor } from '@/utils/vertex-groups';
+import type { DisplaceModifierSettings, ModifierContext } from './types';
+
+// Scalar field for the configured source at 2D coordinates (already divided by scale); null when unavailable
+function createSampler(settings: DisplaceModifierSettings, ctx?: ModifierContext): ((a: number, b: number) => number) | null {
+  const seed = settings.seed ?? 1;
+  switch (settings.source) {
+    case 'texture': {
+      const img = settings.textureId && ctx ? ctx.resolveImage(settings.textureId) : null;
+      return img ? (a, b) => sampleImageLuminance(img, a, b) : null;
+    }
+    case 'perlin': {
+      const node = { id: 'displace', type: 'perlin', position: { x: 0, y: 0 }, data: { seed, scale: 1, octaves: settings.octaves ?? 4, persistence: 0.5, lacunarity: 2, amplitude: 1, operation: 'add', amount: 1 } } as TerrainNode;
+      return (a, b) => evaluateTerrainNodes([node], a, b, 1, 1);
+    }
+    case 'voronoi': {
+      const node = { id: 'displace', type: 'voronoi', position: { x: 0, y: 0 }, data: { seed, density: 1, jitter: 1, metric: 'euclidean', feature: 'f1', amplitude: 1, operation: 'add', amount: 1 } } as TerrainNode;
+      return (a, b) => evaluateTerrainNodes([node], a, b, 1, 1);
+    }
+    case 'graph': {
+      const graph = settings.graph ? compileTerrainGraph(settings.graph) : null;
+      return graph ? (a, b) => graph(a, b, 1, 1) : null;
+    }
+    default:
+      return null;
+  }
+}
+
+// Offset vertices by a scalar field: (value - midlevel) * strength along the vertex normal or a
+// local axis. Fields are 2D; object-space coordinates blend three planar projections by normal.
+export function displaceModifier(mesh: Mesh, settings: DisplaceModifierSettings, ctx?: ModifierContext): Mesh {
+  const strength = settings.strength ?? 1;
+  if (!strength) return mesh;
+  const sample = createSampler(settings, ctx);
+  if (!sample) return mesh;
+  const midlevel = settings.midlevel ?? 0.5;
+  const inv = 1 / Math.max(1e-6, settings.scale ?? 1);
+  const direction = settings.direction ?? 'normal';
+  const objectSpace = settings.coords === 'object';
+  const normals = direction === 'normal' || objectSpace ? calculateVertexNormals(mesh) : null;
+  const factor = vertexGroupFactor(mesh, settings.vertexGroup, settings.invertVertexGroup);
+
+  const vertices = mesh.vertices.map((v, i) => {
+    const w = factor ? factor(v) : 1;
+    if (!w) return v;
+    const p = v.position;
+    let value: number;
+    if (objectSpace) {
+      const n = normals![i].normal;
+      // Sharpened triplanar weights
+      const wx = n.x ** 4, wy = n.y ** 4, wz = n.z ** 4;
+      const sum = wx + wy + wz;
+      value = sum > 1e-12
+        ? (sample(p.z * inv, p.y * inv) * wx + sample(p.x * inv, p.z * inv) * wy + sample(p.x * inv, p.y * inv) * wz) / sum
+        : sample(p.x * inv, p.z * inv);
+    } else {
+      value = sample(v.uv.x * inv, v.uv.y * inv);
+    }
+    const d = (value - midlevel) * strength * w;
+    if (!d) return v;
+    if (direction === 'normal') {
+      const n = normals![i].normal;
+      return { ...v, position: { x: p.x + n.x * d, y: p.y + n.y * d, z: p.z + n.z * d } };
+    }
+    return { ...v, position: { ...p, [direction]: p[direction] + d } };
+  });
+  return { ...mesh, vertices };
+}
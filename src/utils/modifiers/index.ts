@@ -13,3 +13,9 @@ export * from './screw';
 export * from './bevel';
 export * from './remesh';
 export * from './volume-to-mesh';
+export * from './boolean';
+export * from './lattice';
+export * from './shrinkwrap';
+export * from './displace';
+export * from './weighted-normal';
+export * from './multires';
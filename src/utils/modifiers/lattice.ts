@@ -0,0 +1,31 @@
+import { Matrix4, Vector3 as ThreeVector3 } from 'three/webgpu';
+import type { Mesh } from '@/types/geometry';
+import { deformByLattice } from '@/utils/lattice';
+import { vertexGroupFactor } from '@/utils/vertex-groups';
+import type { LatticeModifierSettings, ModifierContext } from './types';
+
+// Free-form deformation by a lattice object. Vertices are taken into the lattice's space, moved by
+// the interpolated control point displacements and brought back; vertices outside the cage stay put.
+export function latticeModifier(mesh: Mesh, settings: LatticeModifierSettings, ctx?: ModifierContext): Mesh {
+  const targetId = settings.objectId;
+  if (!ctx || !targetId || targetId === ctx.objectId) return mesh;
+  const target = ctx.resolveLattice(targetId);
+  if (!target) return mesh;
+  const strength = settings.strength ?? 1;
+  if (strength === 0) return mesh;
+
+  const toLattice = new Matrix4().copy(target.worldMatrix).invert().multiply(ctx.worldMatrix);
+  const fromLattice = new Matrix4().copy(toLattice).invert();
+  const factor = vertexGroupFactor(mesh, settings.vertexGroup, settings.invertVertexGroup);
+  const p = new ThreeVector3();
+  const vertices = mesh.vertices.map((v) => {
+    const s = factor ? strength * factor(v) : strength;
+    if (!s) return v;
+    p.set(v.position.x, v.position.y, v.position.z).applyMatrix4(toLattice);
+    const d = deformByLattice(target.lattice, p);
+    if (!d) return v;
+    p.set(p.x + (d.x - p.x) * s, p.y + (d.y - p.y) * s, p.z + (d.z - p.z) * s).applyMatrix4(fromLattice);
+    return { ...v, position: { x: p.x, y: p.y, z: p.z } };
+  });
+  return { ...mesh, vertices };
+}
@@ -0,0 +1,313 @@
+import type { Mesh, Vector3 } from '@/types/geometry';
+import type { ImagePixels } from '@/stores/files-store';
+import { buildEdgesFromFaces, calculateVertexNormals } from '@/utils/geometry';
+import { subdivideSurface } from '@/utils/subdivision';
+import type { ModifierStackItem, MultiresModifierSettings } from './types';
+
+// Multiresolution: Catmull-Clark levels stacked on the base mesh, each with its own per-vertex
+// displacement. Level k subdivides the displaced level k-1, so detail follows edits made further
+// down. Offsets live in each vertex's tangent/bitangent/normal frame and are keyed by vertex index,
+// which subdivision keeps stable for a given base topology; an array whose length no longer
+// matches its level (the base topology changed) is ignored. Like Blender's it needs the original
+// mesh, so it only runs as the first enabled modifier and the store keeps it at the top.
+
+export const MULTIRES_MAX_LEVELS = 4;
+
+// Undisplaced subdivision level (edges and normals built)
+export interface MultiresLevel {
+  mesh: Mesh;
+  frames: Float32Array; // 9 per vertex: tangent, bitangent, normal
+  indexById: Map<string, number>;
+}
+
+interface CacheEntry {
+  inputs: (number[] | undefined)[]; // displacement arrays of the levels below
+  rest: MultiresLevel;
+  displaced?: { disp: number[] | undefined; mesh: Mesh };
+}
+
+// Per store mesh object, shared by stack evaluation and sculpting; strokes edit only the modifier
+// settings, so the base stays identical and lower levels are reused across evaluations and strokes
+const cache = new WeakMap<Mesh, CacheEntry[]>();
+
+const clampLevel = (s: MultiresModifierSettings, level: number) =>
+  Math.max(0, Math.min(Math.floor(level || 0), Math.floor(s.levels || 0), MULTIRES_MAX_LEVELS));
+
+const validDisplacement = (d: number[] | undefined, count: number) => (d && d.length === count * 3 ? d : undefined);
+
+function vertexFrames(mesh: Mesh, indexById: Map<string, number>): Float32Array {
+  const n = mesh.vertices.length;
+  const frames = new Float32Array(n * 9);
+  // Tangent reference: the next corner of the first face using the vertex
+  const next = new Int32Array(n).fill(-1);
+  for (const f of mesh.faces) {
+    const ids = f.vertexIds;
+    for (let k = 0; k < ids.length; k++) {
+      const i = indexById.get(ids[k])!;
+      if (next[i] < 0) next[i] = indexById.get(ids[(k + 1) % ids.length])!;
+    }
+  }
+  mesh.vertices.forEach((v, i) => {
+    let { x: nx, y: ny, z: nz } = v.normal;
+    const nl = Math.hypot(nx, ny, nz) || 1;
+    nx /= nl; ny /= nl; nz /= nl;
+    let tx = 1, ty = 0, tz = 0;
+    if (next[i] >= 0) {
+      const p = mesh.vertices[next[i]].position;
+      tx = p.x - v.position.x; ty = p.y - v.position.y; tz = p.z - v.position.z;
+    }
+    let d = tx * nx + ty * ny + tz * nz;
+    tx -= nx * d; ty -= ny * d; tz -= nz * d;
+    if (Math.hypot(tx, ty, tz) < 1e-12) {
+      // Degenerate reference: any perpendicular
+      [tx, ty, tz] = Math.abs(nx) > 0.9 ? [0, 1, 0] : [1, 0, 0];
+      d = tx * nx + ty * ny + tz * nz;
+      tx -= nx * d; ty -= ny * d; tz -= nz * d;
+    }
+    const tl = Math.hypot(tx, ty, tz) || 1;
+    tx /= tl; ty /= tl; tz /= tl;
+    frames.set([tx, ty, tz, ny * tz - nz * ty, nz * tx - nx * tz, nx * ty - ny * tx, nx, ny, nz], i * 9);
+  });
+  return frames;
+}
+
+function withNormals(mesh: Mesh): Mesh {
+  return { ...mesh, vertices: calculateVertexNormals(mesh) };
+}
+
+function restLevel(base: Mesh, displacements: number[][], level: number): MultiresLevel {
+  let entries = cache.get(base);
+  if (!entries) cache.set(base, (entries = []));
+  const inputs = Array.from({ length: level - 1 }, (_, i) => (displacements[i]?.length ? displacements[i] : undefined));
+  const hit = entries[level - 1];
+  if (hit && hit.inputs.length === inputs.length && hit.inputs.every((d, i) => d === inputs[i])) return hit.rest;
+
+  const parent = level === 1 ? base : displacedLevel(base, displacements, level - 1);
+  const sub = subdivideSurface(parent, { scheme: 'catmull-clark', levels: 1, boundary: 'keep-corners', uvMode: 'keep-corners' });
+  const mesh = withNormals({ ...sub, edges: buildEdgesFromFaces(sub.vertices, sub.faces) });
+  const indexById = new Map(mesh.vertices.map((v, i) => [v.id, i] as const));
+  const rest: MultiresLevel = { mesh, frames: vertexFrames(mesh, indexById), indexById };
+  entries[level - 1] = { inputs, rest };
+  return rest;
+}
+
+function displacedLevel(base: Mesh, displacements: number[][], level: number): Mesh {
+  const rest = restLevel(base, displacements, level);
+  const entry = cache.get(base)![level - 1];
+  const disp = validDisplacement(displacements[level - 1], rest.mesh.vertices.length);
+  if (entry.displaced && entry.displaced.disp === disp) return entry.displaced.mesh;
+  let mesh = rest.mesh;
+  if (disp) {
+    const f = rest.frames;
+    mesh = withNormals({
+      ...mesh,
+      vertices: mesh.vertices.map((v, i) => {
+        const dx = disp[i * 3], dy = disp[i * 3 + 1], dz = disp[i * 3 + 2];
+        if (!dx && !dy && !dz) return v;
+        const o = i * 9;
+        return {
+          ...v,
+          position: {
+            x: v.position.x + f[o] * dx + f[o + 3] * dy + f[o + 6] * dz,
+            y: v.position.y + f[o + 1] * dx + f[o + 4] * dy + f[o + 7] * dz,
+            z: v.position.z + f[o + 2] * dx + f[o + 5] * dy + f[o + 8] * dz,
+          },
+        };
+      }),
+    });
+  }
+  entry.displaced = { disp, mesh };
+  return mesh;
+}
+
+// Displaced mesh at `level` (clamped to the levels built); level 0 is the base itself
+export function evaluateMultires(base: Mesh, settings: MultiresModifierSettings, level: number): Mesh {
+  const top = clampLevel(settings, level);
+  return top > 0 ? displacedLevel(base, settings.displacements ?? [], top) : base;
+}
+
+// `base` is the store mesh rather than the stack's working copy, so the level cache survives
+export function multiresModifier(base: Mesh, settings: MultiresModifierSettings): Mesh {
+  return evaluateMultires(base, settings, settings.viewLevel);
+}
+
+// The stack's multires when it is the first enabled modifier (anywhere else it has no effect)
+export const findMultires = (stack: ModifierStackItem[]) => {
+  const first = stack.find((m) => m.enabled);
+  return first?.type === 'multires' ? first : undefined;
+};
+
+// Level sculpt strokes edit through the stack's multires modifier; null when sculpting the base
+export function multiresSculptTarget(base: Mesh, stack: ModifierStackItem[]) {
+  const mod = findMultires(stack);
+  if (!mod) return null;
+  const settings = mod.settings as MultiresModifierSettings;
+  const level = clampLevel(settings, settings.sculptLevel);
+  if (!level) return null;
+  const displacements = settings.displacements ?? [];
+  return { modifierId: mod.id, level, rest: restLevel(base, displacements, level), mesh: displacedLevel(base, displacements, level) };
+}
+
+// Working copy of a level's displacement for a sculpt stroke (zeros when the level has none yet)
+export function multiresStrokeDisplacement(rest: MultiresLevel, prev: number[] | undefined): number[] {
+  const count = rest.mesh.vertices.length;
+  return validDisplacement(prev, count)?.slice() ?? new Array<number>(count * 3).fill(0);
+}
+
+// Write the offsets of some moved level vertices (by id) into a stroke's displacement, in place
+export function writeMultiresDisplacement(rest: MultiresLevel, disp: number[], moved: Map<string, { position: Vector3 }>) {
+  const f = rest.frames;
+  for (const [id, { position: p }] of moved) {
+    const i = rest.indexById.get(id);
+    if (i === undefined) continue;
+    const r = rest.mesh.vertices[i].position;
+    const dx = p.x - r.x, dy = p.y - r.y, dz = p.z - r.z;
+    const o = i * 9;
+    disp[i * 3] = dx * f[o] + dy * f[o + 1] + dz * f[o + 2];
+    disp[i * 3 + 1] = dx * f[o + 3] + dy * f[o + 4] + dz * f[o + 5];
+    disp[i * 3 + 2] = dx * f[o + 6] + dy * f[o + 7] + dz * f[o + 8];
+  }
+}
+
+export interface MultiresBakeOptions {
+  type: 'normal' | 'displacement';
+  size: number;
+  low: number; // detail above this level is baked...
+  high: number; // ...up to this one
+  margin?: number; // pixels grown past UV island borders (default 4)
+}
+
+// Bake the difference between two levels into UV space. Normal maps hold the high level's normals
+// in the tangent space of the undetailed surface; displacement maps hold the offset along its
+// normal around mid grey, scaled so that `range` maps to white (a Displace modifier with strength
+// 2 × range and midlevel 0.5 reproduces it).
+export function bakeMultires(base: Mesh, settings: MultiresModifierSettings, opts: MultiresBakeOptions): { pixels: ImagePixels; range: number } | null {
+  const high = clampLevel(settings, opts.high);
+  const low = Math.max(0, Math.min(Math.floor(opts.low || 0), high - 1));
+  if (high <= low) return null;
+  const displacements = settings.displacements ?? [];
+  const detailed = displacedLevel(base, displacements, high);
+  // Same topology with the detail above `low` left out
+  const smooth = displacedLevel(base, displacements.slice(0, low), high);
+  const verts = smooth.vertices;
+  const n = verts.length;
+  const indexById = new Map(verts.map((v, i) => [v.id, i] as const));
+  const corners = (f: Mesh['faces'][number]) => f.vertexIds.map((id, k) => ({ i: indexById.get(id)!, uv: f.uvs?.[k] ?? verts[indexById.get(id)!].uv }));
+
+  const channels = opts.type === 'normal' ? 3 : 1;
+  const values = new Float32Array(n * channels);
+  let range = 0;
+  if (opts.type === 'displacement') {
+    for (let i = 0; i < n; i++) {
+      const a = detailed.vertices[i].position, b = verts[i].position, nn = verts[i].normal;
+      values[i] = (a.x - b.x) * nn.x + (a.y - b.y) * nn.y + (a.z - b.z) * nn.z;
+      range = Math.max(range, Math.abs(values[i]));
+    }
+  } else {
+    // UV tangents of the smooth surface, accumulated per vertex
+    const tan = new Float32Array(n * 3);
+    const bit = new Float32Array(n * 3);
+    for (const f of smooth.faces) {
+      const c = corners(f);
+      for (let k = 1; k + 1 < c.length; k++) {
+        const [a, b, d] = [c[0], c[k], c[k + 1]];
+        const pa = verts[a.i].position, pb = verts[b.i].position, pd = verts[d.i].position;
+        const e1 = [pb.x - pa.x, pb.y - pa.y, pb.z - pa.z], e2 = [pd.x - pa.x, pd.y - pa.y, pd.z - pa.z];
+        const du1 = b.uv.x - a.uv.x, dv1 = b.uv.y - a.uv.y, du2 = d.uv.x - a.uv.x, dv2 = d.uv.y - a.uv.y;
+        const det = du1 * dv2 - du2 * dv1;
+        if (Math.abs(det) < 1e-20) continue;
+        const r = 1 / det;
+        for (const { i } of [a, b, d]) {
+          for (let j = 0; j < 3; j++) {
+            tan[i * 3 + j] += (e1[j] * dv2 - e2[j] * dv1) * r;
+            bit[i * 3 + j] += (e2[j] * du1 - e1[j] * du2) * r;
+          }
+        }
+      }
+    }
+    for (let i = 0; i < n; i++) {
+      const nn = verts[i].normal;
+      let tx = tan[i * 3], ty = tan[i * 3 + 1], tz = tan[i * 3 + 2];
+      const d = tx * nn.x + ty * nn.y + tz * nn.z;
+      tx -= nn.x * d; ty -= nn.y * d; tz -= nn.z * d;
+      const tl = Math.hypot(tx, ty, tz);
+      if (tl < 1e-12) { values.set([0, 0, 1], i * 3); continue; }
+      tx /= tl; ty /= tl; tz /= tl;
+      let bx = nn.y * tz - nn.z * ty, by = nn.z * tx - nn.x * tz, bz = nn.x * ty - nn.y * tx;
+      if (bx * bit[i * 3] + by * bit[i * 3 + 1] + bz * bit[i * 3 + 2] < 0) { bx = -bx; by = -by; bz = -bz; }
+      const h = detailed.vertices[i].normal;
+      values.set([h.x * tx + h.y * ty + h.z * tz, h.x * bx + h.y * by + h.z * bz, h.x * nn.x + h.y * nn.y + h.z * nn.z], i * 3);
+    }
+  }
+
+  // Rasterise faces in UV space (v runs bottom-up), interpolating per-vertex values
+  const size = Math.max(16, Math.min(4096, Math.floor(opts.size || 1024)));
+  const texels = new Float32Array(size * size * channels);
+  const filled = new Uint8Array(size * size);
+  for (const f of smooth.faces) {
+    const c = corners(f);
+    for (let k = 1; k + 1 < c.length; k++) {
+      const tri = [c[0], c[k], c[k + 1]];
+      const xs = tri.map((t) => t.uv.x * size - 0.5), ys = tri.map((t) => (1 - t.uv.y) * size - 0.5);
+      const area = (xs[1] - xs[0]) * (ys[2] - ys[0]) - (xs[2] - xs[0]) * (ys[1] - ys[0]);
+      if (Math.abs(area) < 1e-12) continue;
+      const x0 = Math.max(0, Math.ceil(Math.min(...xs))), x1 = Math.min(size - 1, Math.floor(Math.max(...xs)));
+      const y0 = Math.max(0, Math.ceil(Math.min(...ys))), y1 = Math.min(size - 1, Math.floor(Math.max(...ys)));
+      for (let y = y0; y <= y1; y++) {
+        for (let x = x0; x <= x1; x++) {
+          const w1 = ((x - xs[0]) * (ys[2] - ys[0]) - (xs[2] - xs[0]) * (y - ys[0])) / area;
+          const w2 = ((xs[1] - xs[0]) * (y - ys[0]) - (x - xs[0]) * (ys[1] - ys[0])) / area;
+          const w0 = 1 - w1 - w2;
+          if (w0 < -1e-6 || w1 < -1e-6 || w2 < -1e-6) continue;
+          const p = y * size + x;
+          for (let j = 0; j < channels; j++) {
+            texels[p * channels + j] = w0 * values[tri[0].i * channels + j] + w1 * values[tri[1].i * channels + j] + w2 * values[tri[2].i * channels + j];
+          }
+          filled[p] = 1;
+        }
+      }
+    }
+  }
+
+  // Grow islands outwards so filtering at UV borders doesn't pull in the background
+  for (let pass = 0; pass < (opts.margin ?? 4); pass++) {
+    const grown: number[] = [];
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        const p = y * size + x;
+        if (filled[p]) continue;
+        const sum = new Array<number>(channels).fill(0);
+        let count = 0;
+        for (const [ox, oy] of [[1, 0], [-1, 0], [0, 1], [0, -1]]) {
+          const qx = x + ox, qy = y + oy;
+          if (qx < 0 || qy < 0 || qx >= size || qy >= size || filled[qy * size + qx] !== 1) continue;
+          for (let j = 0; j < channels; j++) sum[j] += texels[(qy * size + qx) * channels + j];
+          count++;
+        }
+        if (!count) continue;
+        for (let j = 0; j < channels; j++) texels[p * channels + j] = sum[j] / count;
+        grown.push(p);
+      }
+    }
+    if (!grown.length) break;
+    for (const p of grown) filled[p] = 1;
+  }
+
+  const data = new Uint8ClampedArray(size * size * 4);
+  const scale = range > 1e-12 ? 0.5 / range : 0;
+  for (let p = 0; p < size * size; p++) {
+    if (opts.type === 'normal') {
+      let x = 0, y = 0, z = 1;
+      if (filled[p]) {
+        x = texels[p * 3]; y = texels[p * 3 + 1]; z = texels[p * 3 + 2];
+        const l = Math.hypot(x, y, z) || 1;
+        x /= l; y /= l; z /= l;
+      }
+      data.set([(x * 0.5 + 0.5) * 255, (y * 0.5 + 0.5) * 255, (z * 0.5 + 0.5) * 255, 255], p * 4);
+    } else {
+      const g = (0.5 + (filled[p] ? texels[p] * scale : 0)) * 255;
+      data.set([g, g, g, 255], p * 4);
+    }
+  }
+  return { pixels: { width: size, height: size, data }, range };
+}
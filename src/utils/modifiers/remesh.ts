@@ -1,36 +1,110 @@
-import type { Mesh, Vertex } from '@/types/geometry';
+import type { Mesh, Vector2, Vector3 } from '@/types/geometry';
+import { boxProjectUvs, createSurfaceProjector, extractBlocks, extractSurface, meshToSdf, smoothGrid } from '@/utils/volume';
 import type { RemeshModifierSettings } from './types';
-import { weldModifier } from './weld';
 import { laplacianSmooth } from './subdivide';
 
-function snap(v: number, size: number) { return Math.round(v / size) * size; }
+// Relax vertices towards their neighbours' centroid within the tangent plane only, which evens
+// out quad sizes without shrinking the surface.
+function relaxTangential(mesh: Mesh, iterations: number, lambda = 0.5): Mesh {
+  const index = new Map(mesh.vertices.map((v, i) => [v.id, i] as const));
+  const neighbours: Set<number>[] = mesh.vertices.map(() => new Set());
+  for (const f of mesh.faces) {
+    const ids = f.vertexIds.map((id) => index.get(id)!);
+    for (let i = 0; i < ids.length; i++) {
+      const a = ids[i], b = ids[(i + 1) % ids.length];
+      neighbours[a].add(b); neighbours[b].add(a);
+    }
+  }
+  const pos = mesh.vertices.map((v) => ({ ...v.position }));
+  for (let it = 0; it < iterations; it++) {
+    const normals = pos.map(() => ({ x: 0, y: 0, z: 0 }));
+    for (const f of mesh.faces) {
+      const ps = f.vertexIds.map((id) => pos[index.get(id)!]);
+      let nx = 0, ny = 0, nz = 0;
+      for (let i = 0; i < ps.length; i++) {
+        const a = ps[i], b = ps[(i + 1) % ps.length];
+        nx += (a.y - b.y) * (a.z + b.z); ny += (a.z - b.z) * (a.x + b.x); nz += (a.x - b.x) * (a.y + b.y);
+      }
+      for (const id of f.vertexIds) { const n = normals[index.get(id)!]; n.x += nx; n.y += ny; n.z += nz; }
+    }
+    const next = pos.map((p, i) => {
+      const nb = neighbours[i];
+      if (!nb.size) return p;
+      let cx = 0, cy = 0, cz = 0;
+      for (const j of nb) { cx += pos[j].x; cy += pos[j].y; cz += pos[j].z; }
+      let dx = cx / nb.size - p.x, dy = cy / nb.size - p.y, dz = cz / nb.size - p.z;
+      const n = normals[i];
+      const nl = Math.hypot(n.x, n.y, n.z) || 1;
+      const d = (dx * n.x + dy * n.y + dz * n.z) / (nl * nl);
+      dx -= n.x * d; dy -= n.y * d; dz -= n.z * d;
+      return { x: p.x + dx * lambda, y: p.y + dy * lambda, z: p.z + dz * lambda };
+    });
+    next.forEach((p, i) => { pos[i] = p; });
+  }
+  return { ...mesh, vertices: mesh.vertices.map((v, i) => ({ ...v, position: pos[i] })) };
+}
 
-export function remeshModifier(mesh: Mesh, settings: RemeshModifierSettings): Mesh {
-  const voxel = Math.max(0.001, settings.voxelSize ?? 0.1);
+// Voxel remesh: rebuild the mesh from its signed distance field.
+//   blocks – stacked voxel cubes
+//   quads  – surface-net quads, relaxed into an even quad-dominant grid
+//   smooth – filtered field plus Laplacian smoothing, rounds off small detail
+// Optionally snaps the new vertices back onto the input surface and transfers UVs (per UV island,
+// so seams stay sharp) and face materials from the nearest input triangles.
+export function voxelRemesh(mesh: Mesh, settings: RemeshModifierSettings): Mesh {
+  const voxel = Math.max(0.005, settings.voxelSize ?? 0.1);
   const mode = settings.mode ?? 'quads';
+  const reproject = mode !== 'blocks' && (settings.reproject ?? true);
+  const transfer = settings.transferAttributes ?? true;
 
-  // Snap vertices to voxel grid
-  const snappedVerts: Vertex[] = mesh.vertices.map((v) => ({
-    ...v,
-    position: {
-      x: snap(v.position.x, voxel),
-      y: snap(v.position.y, voxel),
-      z: snap(v.position.z, voxel),
-    },
-  }));
-  let cur: Mesh = { ...mesh, vertices: snappedVerts };
-
-  // Weld duplicates introduced by snapping
-  cur = weldModifier(cur, { distance: voxel * 0.01 });
+  const grid = meshToSdf(mesh, voxel, voxel * 3);
+  if (!grid) return mesh;
+  if (mode === 'smooth') smoothGrid(grid, 2);
+  const { vertices, faces } = mode === 'blocks' ? extractBlocks(grid) : extractSurface(grid);
+  if (!faces.length) return mesh;
+  let out: Mesh = { ...mesh, vertices, faces, edges: [] };
+  if (mode === 'quads') out = relaxTangential(out, 3);
+  else if (mode === 'smooth') out = laplacianSmooth(out, 2, 0.5);
 
-  // Optional smoothing based on mode
-  if (mode === 'smooth') {
-    cur = laplacianSmooth(cur, 2, 0.3);
-  } else if (mode === 'quads') {
-    // light smoothing to regularize
-    cur = laplacianSmooth(cur, 1, 0.15);
+  const projector = reproject || transfer ? createSurfaceProjector(mesh) : null;
+  if (projector && reproject) {
+    out.vertices = out.vertices.map((v) => {
+      const hit = projector.closest(v.position);
+      return hit ? { ...v, position: hit.point } : v;
+    });
+  }
+  if (projector && transfer) {
+    const posOf = new Map(out.vertices.map((v) => [v.id, v.position] as const));
+    const cache = new Map<string, Vector2>();
+    for (const f of out.faces) {
+      const ps = f.vertexIds.map((id) => posOf.get(id)!);
+      const c: Vector3 = { x: 0, y: 0, z: 0 };
+      for (const p of ps) { c.x += p.x / ps.length; c.y += p.y / ps.length; c.z += p.z / ps.length; }
+      const hit = projector.closest(c);
+      if (!hit) continue;
+      const materialId = projector.materialAt(hit);
+      if (materialId) f.materialId = materialId;
+      const chart = projector.chartOf(hit.tri);
+      f.uvs = f.vertexIds.map((id, i) => {
+        const key = `${id}|${chart}`;
+        let uv = cache.get(key);
+        if (!uv) {
+          const h = projector.closest(ps[i], chart) ?? hit;
+          uv = projector.uvAt(h);
+          cache.set(key, uv);
+        }
+        return { ...uv };
+      });
+    }
+    out.vertices = out.vertices.map((v) => {
+      const hit = projector.closest(v.position);
+      return hit ? { ...v, uv: projector.uvAt(hit) } : v;
+    });
   } else {
-    // 'blocks' keep it faceted; no smoothing
+    boxProjectUvs(out.vertices, out.faces);
   }
-  return cur;
+  return out;
+}
+
+export function remeshModifier(mesh: Mesh, settings: RemeshModifierSettings): Mesh {
+  return voxelRemesh(mesh, settings);
 }
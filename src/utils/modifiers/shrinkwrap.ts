@@ -0,0 +1,107 @@
+import { DoubleSide, Matrix3, Matrix4, Ray, Triangle, Vector3 as ThreeVector3 } from 'three/webgpu';
+import type { Mesh } from '@/types/geometry';
+import { calculateVertexNormals } from '@/utils/geometry';
+import { meshBvh } from '@/utils/mesh-bvh';
+import { vertexGroupFactor } from '@/utils/vertex-groups';
+import type { ModifierContext, ShrinkwrapModifierSettings } from './types';
+
+// Project vertices onto another object's surface: nearest point, along vertex normals, or along a
+// local axis. Terrain targets projected along their vertical sample the heightmap directly.
+export function shrinkwrapModifier(mesh: Mesh, settings: ShrinkwrapModifierSettings, ctx?: ModifierContext): Mesh {
+  const targetId = settings.objectId;
+  if (!ctx || !targetId || targetId === ctx.objectId) return mesh;
+  const target = ctx.resolveSurface(targetId);
+  if (!target) return mesh;
+  const mode = settings.mode ?? 'nearest';
+  const offset = settings.offset ?? 0;
+  const allowNegative = settings.negative ?? true;
+  const allowPositive = settings.positive ?? true;
+
+  const toTarget = new Matrix4().copy(target.worldMatrix).invert().multiply(ctx.worldMatrix);
+  const toLocal = new Matrix4().copy(toTarget).invert();
+  const dirToTarget = new Matrix3().setFromMatrix4(toTarget);
+  const normalToLocal = new Matrix3().getNormalMatrix(toLocal);
+
+  const built = meshBvh(target.mesh);
+  if (!built && !target.heightAt) return mesh;
+  const pos = built?.geometry.getAttribute('position');
+  const index = built?.geometry.getIndex();
+  const tri = new Triangle();
+  const faceNormal = (faceIndex: number, out: ThreeVector3) => {
+    if (!pos || !index) return out.set(0, 1, 0);
+    tri.setFromAttributeAndIndices(pos, index.getX(faceIndex * 3), index.getX(faceIndex * 3 + 1), index.getX(faceIndex * 3 + 2));
+    return tri.getNormal(out);
+  };
+
+  const axis = settings.axis ?? 'y';
+  const axisDir = new ThreeVector3(axis === 'x' ? 1 : 0, axis === 'y' ? 1 : 0, axis === 'z' ? 1 : 0).applyMatrix3(dirToTarget).normalize();
+  // Heightfield shortcut only applies when the projection axis is the terrain's vertical
+  const useHeightfield = mode === 'axis' && !!target.heightAt && Math.abs(axisDir.y) > 0.999;
+  const normals = mode === 'normal' ? calculateVertexNormals(mesh) : null;
+  const factor = vertexGroupFactor(mesh, settings.vertexGroup, settings.invertVertexGroup);
+
+  const p = new ThreeVector3();
+  const n = new ThreeVector3();
+  const dir = new ThreeVector3();
+  const ray = new Ray();
+  const hitPoint = new ThreeVector3();
+  const hitNormal = new ThreeVector3();
+
+  // Closest ray hit along +dir / -dir (as allowed), written to hitPoint/hitNormal
+  const castBoth = (origin: ThreeVector3, d: ThreeVector3): boolean => {
+    if (!built) return false;
+    let best = Infinity;
+    for (const sign of [1, -1]) {
+      if ((sign > 0 && !allowPositive) || (sign < 0 && !allowNegative)) continue;
+      ray.origin.copy(origin);
+      ray.direction.copy(d).multiplyScalar(sign);
+      const hit = built.bvh.raycastFirst(ray, DoubleSide);
+      if (!hit || hit.distance >= best) continue;
+      best = hit.distance;
+      hitPoint.copy(hit.point);
+      faceNormal(hit.faceIndex ?? 0, hitNormal);
+    }
+    return best < Infinity;
+  };
+
+  const vertices = mesh.vertices.map((v, vi) => {
+    const w = factor ? factor(v) : 1;
+    if (!w) return v;
+    p.set(v.position.x, v.position.y, v.position.z).applyMatrix4(toTarget);
+    let found = false;
+    if (useHeightfield) {
+      const h = target.heightAt!(p.x, p.z);
+      const alongAxis = (axisDir.y > 0) === (h !== null && h > p.y);
+      if (h !== null && (alongAxis ? allowPositive : allowNegative)) {
+        hitPoint.set(p.x, h, p.z);
+        // Normal from central differences of the heightfield
+        const e = 1e-2;
+        const hx = (target.heightAt!(p.x + e, p.z) ?? h) - (target.heightAt!(p.x - e, p.z) ?? h);
+        const hz = (target.heightAt!(p.x, p.z + e) ?? h) - (target.heightAt!(p.x, p.z - e) ?? h);
+        hitNormal.set(-hx / (2 * e), 1, -hz / (2 * e)).normalize();
+        found = true;
+      }
+    } else if (mode === 'nearest') {
+      const hit = built?.bvh.closestPointToPoint(p);
+      if (hit) {
+        hitPoint.copy(hit.point);
+        faceNormal(hit.faceIndex, hitNormal);
+        found = true;
+      }
+    } else {
+      if (mode === 'normal') {
+        const vn = normals![vi].normal;
+        dir.set(vn.x, vn.y, vn.z).applyMatrix3(dirToTarget);
+      } else {
+        dir.copy(axisDir);
+      }
+      if (dir.lengthSq() > 1e-12) found = castBoth(p, dir.normalize());
+    }
+    if (!found) return v;
+    n.copy(hitNormal).applyMatrix3(normalToLocal).normalize();
+    hitPoint.applyMatrix4(toLocal).addScaledVector(n, offset);
+    // Group weight blends between the original and the projected position
+    return { ...v, position: { x: v.position.x + (hitPoint.x - v.position.x) * w, y: v.position.y + (hitPoint.y - v.position.y) * w, z: v.position.z + (hitPoint.z - v.position.z) * w } };
+  });
+  return { ...mesh, vertices };
+}
@@ -1,6 +1,7 @@
 import type { Mesh, Vertex, Face, Vector3 } from '@/types/geometry';
 import type { SolidifyModifierSettings } from './types';
 import { nanoid } from 'nanoid';
+import { vertexGroupFactor } from '@/utils/vertex-groups';
 
 type V3 = Vector3;
 const sub = (a: V3, b: V3): V3 => ({ x: a.x - b.x, y: a.y - b.y, z: a.z - b.z });
@@ -13,18 +14,20 @@ const norm = (a: V3): V3 => { const l = len(a) || 1; return { x: a.x / l, y: a.y
 export function solidifyModifier(mesh: Mesh, settings: SolidifyModifierSettings): Mesh {
   const t = settings.thickness ?? 0.01;
   if (t === 0) return mesh;
+  const factor = vertexGroupFactor(mesh, settings.vertexGroup, settings.invertVertexGroup);
   const outer = mesh.vertices.map(v => ({ ...v }));
   const innerIdMap = new Map<string, string>();
   const inner: Vertex[] = outer.map((v) => {
     const id = nanoid();
     innerIdMap.set(v.id, id);
+    const tv = factor ? t * factor(v) : t;
     return {
       ...v,
       id,
       position: {
-        x: v.position.x - v.normal.x * t,
-        y: v.position.y - v.normal.y * t,
-        z: v.position.z - v.normal.z * t,
+        x: v.position.x - v.normal.x * tv,
+        y: v.position.y - v.normal.y * tv,
+        z: v.position.z - v.normal.z * tv,
       },
       selected: false,
     } as Vertex;
@@ -1,10 +1,18 @@
 import { nanoid } from 'nanoid';
 import type { Mesh, Vertex, Face, Vector3 } from '@/types/geometry';
 import { convertQuadToTriangles } from '@/utils/geometry';
+import { subdivideSurface } from '@/utils/subdivision';
 import type { SubdivideModifierSettings } from './types';
+import { mixWeights, vertexGroupFactor } from '@/utils/vertex-groups';
 
 export function subdivideModifier(mesh: Mesh, settings: SubdivideModifierSettings): Mesh {
   const level = Math.min(Math.max(Math.floor(settings.level ?? 1), 1), 3);
+  // Files saved before schemes existed use the midpoint split + optional Laplacian smoothing
+  const scheme = settings.scheme ?? 'simple';
+  if (scheme !== 'simple') {
+    const out = subdivideSurface(mesh, { scheme, levels: level, boundary: settings.boundary, uvMode: settings.uvSmooth });
+    return out === mesh ? mesh : { ...out, edges: [] };
+  }
   let cur: Mesh = mesh;
   for (let i = 0; i < level; i++) {
     cur = subdivideOnce(cur);
@@ -13,7 +21,7 @@ export function subdivideModifier(mesh: Mesh, settings: SubdivideModifierSetting
     const iters = Math.min(Math.max(Math.floor(settings.smoothIterations ?? 1), 0), 5);
     const lambda = Math.min(Math.max(settings.smoothStrength ?? 0.2, 0), 1);
     if (iters > 0 && lambda > 0) {
-      cur = laplacianSmooth(cur, iters, lambda);
+      cur = laplacianSmooth(cur, iters, lambda, vertexGroupFactor(cur, settings.vertexGroup, settings.invertVertexGroup));
     }
   }
   return cur;
@@ -48,6 +56,8 @@ export function subdivideOnce(mesh: Mesh): Mesh {
       uv: { x: (a.uv.x + b.uv.x) / 2, y: (a.uv.y + b.uv.y) / 2 },
       selected: false,
     };
+    const weights = mixWeights([a, b]);
+    if (weights) v.weights = weights;
     newVertices.push(v);
     midpointCache.set(key, id);
     return id;
@@ -71,7 +81,8 @@ export function subdivideOnce(mesh: Mesh): Mesh {
   return { ...mesh, vertices: newVertices, faces: newFaces };
 }
 
-export function laplacianSmooth(mesh: Mesh, iterations: number, lambda: number): Mesh {
+// weightOf scales lambda per vertex (vertex group filter)
+export function laplacianSmooth(mesh: Mesh, iterations: number, lambda: number, weightOf?: ((v: Vertex) => number) | null): Mesh {
   // Build neighbor map (vertex id -> set of neighbor vertex ids)
   const neighbors = new Map<string, Set<string>>();
   const ensure = (id: string) => { if (!neighbors.has(id)) neighbors.set(id, new Set()); return neighbors.get(id)!; };
@@ -103,10 +114,11 @@ export function laplacianSmooth(mesh: Mesh, iterations: number, lambda: number):
       }
       const inv = 1 / Math.max(1, count);
       const cx = ax * inv, cy = ay * inv, cz = az * inv;
+      const l = weightOf ? lambda * weightOf(v) : lambda;
       nextPositions[v.id] = {
-        x: v.position.x + lambda * (cx - v.position.x),
-        y: v.position.y + lambda * (cy - v.position.y),
-        z: v.position.z + lambda * (cz - v.position.z),
+        x: v.position.x + l * (cx - v.position.x),
+        y: v.position.y + l * (cy - v.position.y),
+        z: v.position.z + l * (cz - v.position.z),
       };
     }
     curVerts = curVerts.map(v => ({ ...v, position: nextPositions[v.id] }));
@@ -1,4 +1,11 @@
-import type { Mesh, Vertex, Face, Vector3 } from '@/types/geometry';
+import type { Matrix4 } from 'three/webgpu';
+import type { Lattice3D, Mesh, Vertex, Face, Vector3 } from '@/types/geometry';
+import type { BooleanOperation } from '@/utils/boolean';
+import type { TerrainNodeGraph } from '@/types/terrain';
+import type { ImagePixels } from '@/stores/files-store';
+import type { NormalWeighting } from '@/utils/normals';
+import type { SubdivisionBoundary, SubdivisionUvMode } from '@/utils/subdivision';
+import type { VolumePreview } from '@/utils/volume';
 
 export type ModifierType =
   | 'mirror'
@@ -12,7 +19,13 @@ export type ModifierType =
   | 'screw'
   | 'bevel'
   | 'remesh'
-  | 'volume-to-mesh';
+  | 'volume-to-mesh'
+  | 'boolean'
+  | 'lattice'
+  | 'shrinkwrap'
+  | 'displace'
+  | 'weighted-normal'
+  | 'multires';
 
 export type MirrorAxis = 'x' | 'y' | 'z';
 
@@ -22,11 +35,21 @@ export interface MirrorModifierSettings {
   mergeThreshold?: number; // world units
 }
 
-export interface SubdivideModifierSettings {
+// Restrict a modifier to a vertex group (Mesh.vertexGroups id); weights scale its effect per vertex
+export interface VertexGroupFilter {
+  vertexGroup?: string | null;
+  invertVertexGroup?: boolean;
+}
+
+export interface SubdivideModifierSettings extends VertexGroupFilter {
   level: number; // 1..3 typical
+  scheme?: 'simple' | 'catmull-clark' | 'loop'; // missing = 'simple'
+  boundary?: SubdivisionBoundary; // catmull-clark / loop only
+  uvSmooth?: SubdivisionUvMode; // catmull-clark / loop only
+  // 'simple' scheme only:
   smooth?: boolean; // apply Laplacian smoothing after subdivision
   smoothIterations?: number; // 0..5
-  smoothStrength?: number; // 0..1 (lambda)
+  smoothStrength?: number; // 0..1 (lambda); the vertex group scales it
 }
 
 export type ModifierSettings =
@@ -41,7 +64,38 @@ export type ModifierSettings =
   | { type: 'screw'; value: ScrewModifierSettings }
   | { type: 'bevel'; value: BevelModifierSettings }
   | { type: 'remesh'; value: RemeshModifierSettings }
-  | { type: 'volume-to-mesh'; value?: VolumeToMeshModifierSettings };
+  | { type: 'volume-to-mesh'; value?: VolumeToMeshModifierSettings }
+  | { type: 'boolean'; value: BooleanModifierSettings }
+  | { type: 'lattice'; value: LatticeModifierSettings }
+  | { type: 'shrinkwrap'; value: ShrinkwrapModifierSettings }
+  | { type: 'displace'; value: DisplaceModifierSettings }
+  | { type: 'weighted-normal'; value: WeightedNormalModifierSettings }
+  | { type: 'multires'; value: MultiresModifierSettings };
+
+// Scene context for modifiers that reference other objects (e.g. boolean cutters).
+// Built by the geometry store so modifier functions themselves stay store-free.
+export interface ModifierContext {
+  objectId: string;
+  // World matrix of the object owning the stack
+  worldMatrix: Matrix4;
+  // Base mesh and world matrix of another scene object; null when missing or not a mesh
+  resolveObject: (objectId: string) => { mesh: Mesh; worldMatrix: Matrix4 } | null;
+  // World matrix of any scene object; null when missing
+  resolveTransform: (objectId: string) => Matrix4 | null;
+  // World-space polyline of an object usable as a path (curves, mesh edge chains); null otherwise
+  resolvePath: (objectId: string) => { points: Vector3[]; closed: boolean } | null;
+  // Lattice resource and world matrix of a lattice object; null otherwise
+  resolveLattice: (objectId: string) => { lattice: Lattice3D; worldMatrix: Matrix4 } | null;
+  // Surface of a mesh or terrain object; terrains also expose their heightmap (object space, y up)
+  resolveSurface: (objectId: string) => { mesh: Mesh; worldMatrix: Matrix4; heightAt?: (x: number, z: number) => number | null } | null;
+  // Decoded pixels of an image file; null while decoding or when the file is missing
+  resolveImage: (fileId: string) => ImagePixels | null;
+  // Metaballs in the scene, world space; group is the metaball material key ('default' when unset)
+  metaballs: () => { position: Vector3; radius: number; strength: number; group: string }[];
+  // Viewport evaluation only: finished background Volume to Mesh results by modifier id. When set,
+  // those modifiers don't build inline but show their last result until a rebuild lands
+  volumePreviews?: ReadonlyMap<string, VolumePreview>;
+}
 
 export interface ModifierStackItem {
   id: string;
@@ -53,8 +107,18 @@ export interface ModifierStackItem {
 
 // New modifier settings
 export interface ArrayModifierSettings {
-  count: number; // >= 2
+  // count: fixed count; length: as many as fit in `length`; curve: as many as fit along the curve
+  fitType?: 'count' | 'length' | 'curve';
+  count: number; // >= 1
+  length?: number; // fit length, local units
+  useConstantOffset?: boolean; // missing = true
   offset: Vector3; // per-instance offset
+  useRelativeOffset?: boolean;
+  relativeOffset?: Vector3; // per-instance offset in bounding box sizes
+  useObjectOffset?: boolean;
+  offsetObjectId?: string | null; // transform relative to this object is applied per instance
+  curveObjectId?: string | null; // deform the result along this path
+  curveAxis?: 'x' | 'y' | 'z'; // local axis mapped onto the path
 }
 
 export interface WeldModifierSettings {
@@ -67,9 +131,12 @@ export interface EdgeSplitModifierSettings {
 
 export interface DecimateModifierSettings {
   ratio: number; // 0..1 keep ratio (1 keeps all)
+  target?: 'ratio' | 'triangles'; // how the stop condition is given (default ratio)
+  triangleCount?: number; // target triangle count when target = 'triangles'
+  preserveBoundary?: boolean; // keep open boundary vertices fixed (default true)
 }
 
-export interface SolidifyModifierSettings {
+export interface SolidifyModifierSettings extends VertexGroupFilter {
   thickness: number; // world units
 }
 
@@ -81,7 +148,7 @@ export interface ScrewModifierSettings {
 
 export type TriangulateModifierSettings = Record<string, never>;
 
-export interface BevelModifierSettings {
+export interface BevelModifierSettings extends VertexGroupFilter {
   width: number; // world units
   segments: number; // 1..5
   miter?: 'sharp' | 'chamfer' | 'arc';
@@ -93,10 +160,71 @@ export interface BevelModifierSettings {
 export interface RemeshModifierSettings {
   mode: 'blocks' | 'quads' | 'smooth';
   voxelSize: number; // approximate size
+  reproject?: boolean; // snap the result back onto the input surface (default true, not for blocks)
+  transferAttributes?: boolean; // copy UVs and face materials from the input (default true)
 }
 
 export interface VolumeToMeshModifierSettings {
-  threshold: number;
+  threshold: number; // metaball field iso level
+  source?: 'mesh' | 'metaballs'; // volume input (default mesh)
+  metaballGroup?: string | null; // metaball material group ('default' = no material); null = all
+  voxelSize?: number; // grid spacing in object units
+  offset?: number; // grow (+) / shrink (-) the mesh SDF surface, object units
+  smoothing?: number; // field smoothing iterations
+  adaptivity?: number; // 0..1 simplify flat regions of the extracted surface
+}
+
+export interface BooleanModifierSettings {
+  objectId: string | null; // cutter scene object
+  operation: BooleanOperation;
+}
+
+export interface LatticeModifierSettings extends VertexGroupFilter {
+  objectId: string | null; // lattice scene object
+  strength?: number; // 0..1 blend towards the deformed position (default 1)
+}
+
+export interface ShrinkwrapModifierSettings extends VertexGroupFilter {
+  objectId: string | null; // target mesh or terrain object
+  mode?: 'nearest' | 'normal' | 'axis'; // default nearest
+  axis?: 'x' | 'y' | 'z'; // local projection axis for mode 'axis' (default y)
+  negative?: boolean; // normal/axis: cast against the direction (default true)
+  positive?: boolean; // normal/axis: cast along the direction (default true)
+  offset: number; // distance kept from the surface along its normal
+}
+
+export type DisplaceSource = 'texture' | 'perlin' | 'voronoi' | 'graph';
+
+export interface DisplaceModifierSettings extends VertexGroupFilter {
+  source: DisplaceSource;
+  textureId?: string | null; // files-store id for 'texture'
+  graph?: TerrainNodeGraph; // 'graph': float reaching the graph's output node (terrain node editor)
+  direction?: 'normal' | 'x' | 'y' | 'z'; // default normal
+  coords?: 'uv' | 'object'; // object space projects triplanar (default uv)
+  strength: number;
+  midlevel?: number; // value that leaves vertices in place (default 0.5)
+  scale?: number; // texture repeat / noise feature size in coordinate units (default 1)
+  seed?: number; // perlin / voronoi
+  octaves?: number; // perlin
+}
+
+export interface WeightedNormalModifierSettings {
+  mode: NormalWeighting;
+  weight: number; // 1..100, 50 = plain mode weighting
+  threshold?: number; // relative metric difference treated as equal (default 0.01)
+  keepSharp?: boolean; // respect sharp edges / auto smooth (default true)
+}
+
+export interface MultiresModifierSettings {
+  levels: number; // Catmull-Clark levels built so far (0..MULTIRES_MAX_LEVELS)
+  viewLevel: number; // level shown outside sculpting
+  sculptLevel: number; // level sculpt strokes edit; 0 sculpts the base mesh
+  // Per level (index 0 = level 1): xyz offsets per vertex in that vertex's tangent/bitangent/normal frame
+  displacements: number[][];
+  bakeType?: 'normal' | 'displacement';
+  bakeSize?: number; // square texture size in pixels
+  bakeLow?: number; // bake the detail of levels above this one
+  bakeHigh?: number; // up to this level
 }
 
 // Re-export geometry types for convenience in consumers
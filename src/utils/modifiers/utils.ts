@@ -11,6 +11,13 @@ import type {
   BevelModifierSettings,
   RemeshModifierSettings,
   VolumeToMeshModifierSettings,
+  BooleanModifierSettings,
+  LatticeModifierSettings,
+  ShrinkwrapModifierSettings,
+  DisplaceModifierSettings,
+  WeightedNormalModifierSettings,
+  MultiresModifierSettings,
+  ModifierStackItem,
 } from './types';
 
 export const createDefaultSettings = (type: ModifierType): any => {
@@ -18,9 +25,15 @@ export const createDefaultSettings = (type: ModifierType): any => {
     case 'mirror':
       return { axis: 'x', merge: true, mergeThreshold: 0.0001 } as MirrorModifierSettings;
     case 'subdivide':
-      return { level: 1, smooth: true, smoothIterations: 1, smoothStrength: 0.2 } as SubdivideModifierSettings;
+      return { level: 1, scheme: 'catmull-clark', boundary: 'keep-corners', uvSmooth: 'keep-corners', smooth: false, smoothIterations: 1, smoothStrength: 0.2 } as SubdivideModifierSettings;
     case 'array':
-      return { count: 2, offset: { x: 1, y: 0, z: 0 } } as ArrayModifierSettings;
+      return {
+        fitType: 'count', count: 2, length: 4,
+        useConstantOffset: true, offset: { x: 1, y: 0, z: 0 },
+        useRelativeOffset: false, relativeOffset: { x: 1, y: 0, z: 0 },
+        useObjectOffset: false, offsetObjectId: null,
+        curveObjectId: null, curveAxis: 'x',
+      } as ArrayModifierSettings;
     case 'weld':
       return { distance: 0.0001 } as WeldModifierSettings;
     case 'triangulate':
@@ -28,7 +41,7 @@ export const createDefaultSettings = (type: ModifierType): any => {
     case 'edge-split':
       return { angle: 30 } as EdgeSplitModifierSettings;
     case 'decimate':
-      return { ratio: 0.5 } as DecimateModifierSettings;
+      return { ratio: 0.5, target: 'ratio', triangleCount: 1000, preserveBoundary: true } as DecimateModifierSettings;
     case 'solidify':
       return { thickness: 0.02 } as SolidifyModifierSettings;
     case 'screw':
@@ -36,10 +49,44 @@ export const createDefaultSettings = (type: ModifierType): any => {
     case 'bevel':
       return { width: 0.02, segments: 1, miter: 'chamfer', angleThreshold: 30, clampWidth: true, cullDegenerate: true } as BevelModifierSettings;
     case 'remesh':
-      return { mode: 'quads', voxelSize: 0.1 } as RemeshModifierSettings;
+      return { mode: 'quads', voxelSize: 0.1, reproject: true, transferAttributes: true } as RemeshModifierSettings;
     case 'volume-to-mesh':
-      return { threshold: 0.5 } as VolumeToMeshModifierSettings;
+      return { threshold: 0.5, source: 'mesh', metaballGroup: null, voxelSize: 0.05, offset: 0, smoothing: 1, adaptivity: 0 } as VolumeToMeshModifierSettings;
+    case 'boolean':
+      return { objectId: null, operation: 'difference' } as BooleanModifierSettings;
+    case 'lattice':
+      return { objectId: null, strength: 1 } as LatticeModifierSettings;
+    case 'shrinkwrap':
+      return { objectId: null, mode: 'nearest', axis: 'y', negative: true, positive: true, offset: 0 } as ShrinkwrapModifierSettings;
+    case 'displace':
+      return { source: 'perlin', textureId: null, direction: 'normal', coords: 'object', strength: 0.1, midlevel: 0.5, scale: 0.5, seed: 1, octaves: 4 } as DisplaceModifierSettings;
+    case 'weighted-normal':
+      return { mode: 'area', weight: 50, threshold: 0.01, keepSharp: true } as WeightedNormalModifierSettings;
+    case 'multires':
+      return { levels: 0, viewLevel: 0, sculptLevel: 0, displacements: [], bakeType: 'normal', bakeSize: 1024, bakeLow: 0, bakeHigh: 1 } as MultiresModifierSettings;
     default:
       return {};
   }
 };
+
+// Scene object ids a stack depends on besides its owner (re-evaluate when these change)
+export const getModifierReferences = (stack: ModifierStackItem[]): string[] => {
+  const ids = new Set<string>();
+  for (const m of stack) {
+    if (!m.enabled) continue;
+    if ((m.type === 'boolean' || m.type === 'lattice' || m.type === 'shrinkwrap') && m.settings?.objectId) ids.add(m.settings.objectId);
+    if (m.type === 'array') {
+      if (m.settings?.useObjectOffset && m.settings.offsetObjectId) ids.add(m.settings.offsetObjectId);
+      if (m.settings?.curveObjectId) ids.add(m.settings.curveObjectId);
+    }
+  }
+  return Array.from(ids);
+};
+
+// Whether a stack samples scene metaballs (re-evaluate when any metaball changes)
+export const usesMetaballs = (stack: ModifierStackItem[]): boolean =>
+  stack.some((m) => m.enabled && m.type === 'volume-to-mesh' && m.settings?.source === 'metaballs');
+
+// Image files a stack samples (re-evaluate when their pixels finish decoding)
+export const getModifierFiles = (stack: ModifierStackItem[]): string[] =>
+  stack.flatMap((m) => (m.enabled && m.type === 'displace' && m.settings?.source === 'texture' && m.settings.textureId ? [m.settings.textureId as string] : []));
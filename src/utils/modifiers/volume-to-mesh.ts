@@ -1,6 +1,63 @@
 import type { Mesh } from '@/types/geometry';
+import { transformPoint } from '@/utils/world-transform';
+import { boxProjectUvs, extractSurface, meshSignature, meshToSdf, metaballsToGrid, offsetGrid, scheduleVolumePreview, smoothGrid, type VolumeGrid } from '@/utils/volume';
+import { decimateMesh } from './decimate';
+import type { ModifierContext, VolumeToMeshModifierSettings } from './types';
 
-// Placeholder volume to mesh: returns mesh unchanged. TODO: Convert SDF/volume to surface mesh.
-export function volumeToMeshModifier(mesh: Mesh): Mesh {
-  return mesh;
+// Voxelize the input into a signed distance field and extract a closed surface from it.
+// With source 'mesh' the (possibly overlapping) pieces of the mesh are fused into one shell;
+// with 'metaballs' the scene's metaball field is meshed instead, in this object's local space.
+// In the viewport (`ctx.volumePreviews` set) the surface is rebuilt once edits settle and the
+// previous result is shown meanwhile; applying the modifier builds it right away.
+export function volumeToMeshModifier(mesh: Mesh, settings?: VolumeToMeshModifierSettings, ctx?: ModifierContext, modifierId?: string): Mesh {
+  const voxel = Math.max(0.005, settings?.voxelSize ?? 0.05);
+  const offset = settings?.offset ?? 0;
+  const smoothing = Math.max(0, Math.round(settings?.smoothing ?? 0));
+  const adaptivity = Math.max(0, Math.min(1, settings?.adaptivity ?? 0));
+
+  let input: string;
+  let buildGrid: () => VolumeGrid | null;
+  if (settings?.source === 'metaballs') {
+    if (!ctx) return mesh;
+    const toLocal = ctx.worldMatrix.clone().invert();
+    const scale = toLocal.getMaxScaleOnAxis();
+    const group = settings.metaballGroup ?? null;
+    const balls = ctx.metaballs()
+      .filter((b) => group === null || b.group === group)
+      .map((b) => ({ position: transformPoint(toLocal, b.position), radius: b.radius * scale, strength: b.strength }));
+    // The field only depends on the balls, so unrelated stack re-evaluations reuse the result
+    input = JSON.stringify(balls);
+    buildGrid = () => metaballsToGrid(balls, voxel, settings.threshold ?? 0.5);
+  } else {
+    // The stack hands us a fresh clone every evaluation, so match on content rather than identity
+    input = meshSignature(mesh);
+    buildGrid = () => {
+      // Band must cover the offset plus a couple of voxels for the extraction to interpolate
+      const grid = meshToSdf(mesh, voxel, Math.abs(offset) + voxel * 3);
+      if (grid) offsetGrid(grid, offset);
+      return grid;
+    };
+  }
+
+  const build = (): Mesh => {
+    const grid = buildGrid();
+    if (!grid) return mesh;
+    smoothGrid(grid, smoothing);
+    const { vertices, faces } = extractSurface(grid);
+    let out: Mesh = { ...mesh, vertices, faces, edges: [] };
+    if (adaptivity > 0 && faces.length) {
+      // Error budget grows with the voxel size so the result doesn't depend on scale
+      const tol = adaptivity * grid.voxelSize;
+      out = decimateMesh(out, { targetTriangles: 1, maxError: tol * tol * grid.voxelSize * grid.voxelSize, preserveBoundary: true });
+    }
+    boxProjectUvs(out.vertices, out.faces);
+    return out;
+  };
+
+  if (!ctx?.volumePreviews || !modifierId) return build();
+  const key = JSON.stringify([settings?.source ?? 'mesh', voxel, offset, settings?.threshold ?? 0.5, smoothing, adaptivity]);
+  const preview = ctx.volumePreviews.get(modifierId);
+  if (preview && preview.input === input && preview.key === key) return preview.result;
+  scheduleVolumePreview(modifierId, input, key, build);
+  return preview?.result ?? mesh;
 }
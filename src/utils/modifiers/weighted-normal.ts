@@ -0,0 +1,15 @@
+import type { Mesh } from '@/types/geometry';
+import { computeWeightedCornerNormals } from '@/utils/normals';
+import type { WeightedNormalModifierSettings } from './types';
+
+// Bake weighted face-corner normals into Face.normals. Best placed last: modifiers after it that
+// move or mirror geometry would carry the baked normals along unchanged.
+export function weightedNormalModifier(mesh: Mesh, settings: WeightedNormalModifierSettings): Mesh {
+  const corners = computeWeightedCornerNormals(mesh, {
+    mode: settings.mode ?? 'area',
+    weight: settings.weight ?? 50,
+    threshold: settings.threshold ?? 0.01,
+    keepSharp: settings.keepSharp ?? true,
+  });
+  return { ...mesh, shading: 'smooth', faces: mesh.faces.map((f, i) => ({ ...f, normals: corners[i] })) };
+}
@@ -0,0 +1,214 @@
+import type { Mesh, Vector3 } from '@/types/geometry';
+
+// Per face-corner shading normals. Face.normals (custom) win; flat meshes use face normals; smooth
+// meshes average the faces around each vertex, split into fans at sharp edges and, when
+// Mesh.autoSmoothAngle is set, at edges whose dihedral angle exceeds it.
+
+export type NormalWeighting = 'area' | 'angle' | 'area-angle';
+
+export type WeightedNormalOptions = {
+  mode: NormalWeighting;
+  weight?: number; // 1..100; 50 weights by the mode alone, higher lets larger faces dominate
+  threshold?: number; // relative difference under which faces share a rank
+  keepSharp?: boolean; // respect sharp edges and the auto smooth angle
+};
+
+const edgeKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+// Newell normal (unnormalized; length is twice the polygon area)
+function polygonNormal(points: Vector3[]): Vector3 {
+  let x = 0, y = 0, z = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i], b = points[(i + 1) % points.length];
+    x += (a.y - b.y) * (a.z + b.z);
+    y += (a.z - b.z) * (a.x + b.x);
+    z += (a.x - b.x) * (a.y + b.y);
+  }
+  return { x, y, z };
+}
+
+const normalize = (v: Vector3): Vector3 => {
+  const l = Math.hypot(v.x, v.y, v.z);
+  return l > 1e-12 ? { x: v.x / l, y: v.y / l, z: v.z / l } : { x: 0, y: 1, z: 0 };
+};
+
+function cornerAngle(prev: Vector3, p: Vector3, next: Vector3): number {
+  const ax = prev.x - p.x, ay = prev.y - p.y, az = prev.z - p.z;
+  const bx = next.x - p.x, by = next.y - p.y, bz = next.z - p.z;
+  const la = Math.hypot(ax, ay, az), lb = Math.hypot(bx, by, bz);
+  if (la < 1e-12 || lb < 1e-12) return 0;
+  return Math.acos(Math.max(-1, Math.min(1, (ax * bx + ay * by + az * bz) / (la * lb))));
+}
+
+// Face geometry shared by the smooth and weighted paths
+function faceData(mesh: Mesh) {
+  const vmap = new Map(mesh.vertices.map((v) => [v.id, v.position] as const));
+  return mesh.faces.map((f) => {
+    const pts = f.vertexIds.map((id) => vmap.get(id) ?? { x: 0, y: 0, z: 0 });
+    const raw = polygonNormal(pts);
+    const area = Math.hypot(raw.x, raw.y, raw.z) / 2;
+    const angles = pts.map((p, i) => cornerAngle(pts[(i + pts.length - 1) % pts.length], p, pts[(i + 1) % pts.length]));
+    return { normal: normalize(raw), area, angles };
+  });
+}
+
+export const hasSplitNormals = (mesh: Mesh) =>
+  mesh.autoSmoothAngle !== undefined || mesh.edges.some((e) => e.sharp) || mesh.faces.some((f) => !!f.normals);
+
+// Fan id for every face corner (flattened face-major). Corners around a vertex join across
+// manifold edges unless `split` says the edge is a hard edge.
+function cornerFans(mesh: Mesh, split: (key: string, fa: number, fb: number) => boolean): { offsets: number[]; fan: Int32Array } {
+  const offsets: number[] = [];
+  let total = 0;
+  for (const f of mesh.faces) { offsets.push(total); total += f.vertexIds.length; }
+  const parent = new Int32Array(total).map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) { parent[i] = parent[parent[i]]; i = parent[i]; }
+    return i;
+  };
+  const union = (a: number, b: number) => { const ra = find(a), rb = find(b); if (ra !== rb) parent[ra] = rb; };
+
+  // Half-edges by undirected key: face index and the corner of each endpoint
+  const halves = new Map<string, { face: number; cornerOf: Map<string, number> }[]>();
+  mesh.faces.forEach((f, fi) => {
+    const n = f.vertexIds.length;
+    for (let i = 0; i < n; i++) {
+      const a = f.vertexIds[i], b = f.vertexIds[(i + 1) % n];
+      const key = edgeKey(a, b);
+      const list = halves.get(key) ?? [];
+      list.push({ face: fi, cornerOf: new Map([[a, offsets[fi] + i], [b, offsets[fi] + (i + 1) % n]]) });
+      halves.set(key, list);
+    }
+  });
+  for (const [key, list] of halves) {
+    if (list.length !== 2) continue; // boundary / non-manifold edges always split
+    const [h0, h1] = list;
+    if (split(key, h0.face, h1.face)) continue;
+    for (const [vid, c0] of h0.cornerOf) {
+      const c1 = h1.cornerOf.get(vid);
+      if (c1 !== undefined) union(c0, c1);
+    }
+  }
+  const fan = new Int32Array(total);
+  for (let i = 0; i < total; i++) fan[i] = find(i);
+  return { offsets, fan };
+}
+
+function hardEdgeTest(mesh: Mesh, normals: Vector3[]) {
+  const sharp = new Set(mesh.edges.filter((e) => e.sharp).map((e) => edgeKey(e.vertexIds[0], e.vertexIds[1])));
+  const angle = mesh.autoSmoothAngle;
+  const cosLimit = angle !== undefined ? Math.cos((angle * Math.PI) / 180) : -Infinity;
+  return (key: string, fa: number, fb: number) => {
+    if (sharp.has(key)) return true;
+    if (angle === undefined) return false;
+    const a = normals[fa], b = normals[fb];
+    return a.x * b.x + a.y * b.y + a.z * b.z < cosLimit - 1e-9;
+  };
+}
+
+// Sum weighted face normals per fan and hand each corner its fan's normal
+function resolveFans(mesh: Mesh, fans: { offsets: number[]; fan: Int32Array }, faceNormals: Vector3[], weightOf: (fi: number, ci: number) => Vector3): Vector3[][] {
+  const sums = new Map<number, Vector3>();
+  mesh.faces.forEach((f, fi) => {
+    for (let ci = 0; ci < f.vertexIds.length; ci++) {
+      const id = fans.fan[fans.offsets[fi] + ci];
+      const w = weightOf(fi, ci);
+      const s = sums.get(id);
+      if (s) { s.x += w.x; s.y += w.y; s.z += w.z; } else sums.set(id, { ...w });
+    }
+  });
+  return mesh.faces.map((f, fi) => f.vertexIds.map((_, ci) => {
+    const s = sums.get(fans.fan[fans.offsets[fi] + ci])!;
+    return Math.hypot(s.x, s.y, s.z) > 1e-12 ? normalize(s) : faceNormals[fi];
+  }));
+}
+
+export function computeCornerNormals(mesh: Mesh): Vector3[][] {
+  const flat = (mesh.shading ?? 'flat') === 'flat';
+  const custom = (fi: number) => {
+    const f = mesh.faces[fi];
+    return f.normals && f.normals.length === f.vertexIds.length ? f.normals : null;
+  };
+  // Fast path: plain smooth shading is the per-vertex normal
+  if (!flat && !hasSplitNormals(mesh)) {
+    const vmap = new Map(mesh.vertices.map((v) => [v.id, v.normal] as const));
+    return mesh.faces.map((f) => f.vertexIds.map((id) => vmap.get(id) ?? { x: 0, y: 1, z: 0 }));
+  }
+  const data = faceData(mesh);
+  if (flat) return mesh.faces.map((f, fi) => custom(fi) ?? f.vertexIds.map(() => data[fi].normal));
+  const normals = data.map((d) => d.normal);
+  const fans = cornerFans(mesh, hardEdgeTest(mesh, normals));
+  const smooth = resolveFans(mesh, fans, normals, (fi, ci) => {
+    const { normal, area, angles } = data[fi];
+    const w = area * angles[ci];
+    return { x: normal.x * w, y: normal.y * w, z: normal.z * w };
+  });
+  return smooth.map((corners, fi) => custom(fi) ?? corners);
+}
+
+// Weighted normals (face area / corner angle), ranked per fan so that with weight > 50 the
+// largest faces dominate, keeping bevelled hard-surface panels flat.
+export function computeWeightedCornerNormals(mesh: Mesh, opts: WeightedNormalOptions): Vector3[][] {
+  const data = faceData(mesh);
+  const normals = data.map((d) => d.normal);
+  const split = (opts.keepSharp ?? true) ? hardEdgeTest(mesh, normals) : () => false;
+  const fans = cornerFans(mesh, split);
+  const metric = (fi: number, ci: number) => {
+    const d = data[fi];
+    if (opts.mode === 'angle') return d.angles[ci];
+    if (opts.mode === 'area') return d.area;
+    return d.area * d.angles[ci];
+  };
+
+  // Rank corners within each fan by metric (descending); near-equal metrics share a rank
+  const bias = Math.max(1, Math.min(100, opts.weight ?? 50)) / 50;
+  const threshold = Math.max(0, opts.threshold ?? 0.01);
+  const members = new Map<number, { fi: number; ci: number; m: number }[]>();
+  mesh.faces.forEach((f, fi) => {
+    for (let ci = 0; ci < f.vertexIds.length; ci++) {
+      const id = fans.fan[fans.offsets[fi] + ci];
+      const list = members.get(id) ?? [];
+      list.push({ fi, ci, m: metric(fi, ci) });
+      members.set(id, list);
+    }
+  });
+  const factor = new Map<string, number>();
+  for (const list of members.values()) {
+    list.sort((a, b) => b.m - a.m);
+    let rank = 0;
+    let rankMetric = list[0]?.m ?? 0;
+    for (const c of list) {
+      if (rankMetric - c.m > threshold * rankMetric) { rank++; rankMetric = c.m; }
+      factor.set(`${c.fi}:${c.ci}`, c.m * Math.pow(bias, -rank));
+    }
+  }
+  return resolveFans(mesh, fans, normals, (fi, ci) => {
+    const n = normals[fi];
+    const w = factor.get(`${fi}:${ci}`) ?? 0;
+    return { x: n.x * w, y: n.y * w, z: n.z * w };
+  });
+}
+
+// Whether renderers may use derivative (faceted) shading; custom normals always need the attribute
+export const usesFlatShading = (mesh: Pick<Mesh, 'shading' | 'faces'> | undefined) =>
+  (mesh?.shading ?? 'flat') === 'flat' && !mesh?.faces.some((f) => !!f.normals);
+
+// Custom normals only fit the corners and positions they were made for. Record them for the faces
+// that have some (null when none do) so an edit can drop the ones it invalidated afterwards.
+export function customNormalState(mesh: Mesh): Map<string, string> | null {
+  if (!mesh.faces.some((f) => f.normals)) return null;
+  const pos = new Map(mesh.vertices.map((v) => [v.id, v.position] as const));
+  const state = new Map<string, string>();
+  for (const f of mesh.faces) if (f.normals) state.set(f.id, cornerKey(f.vertexIds, pos));
+  return state;
+}
+
+export function dropStaleCustomNormals(mesh: Mesh, before: Map<string, string>) {
+  const pos = new Map(mesh.vertices.map((v) => [v.id, v.position] as const));
+  for (const f of mesh.faces) {
+    if (f.normals && before.get(f.id) !== cornerKey(f.vertexIds, pos)) delete f.normals;
+  }
+}
+
+const cornerKey = (ids: string[], pos: Map<string, Vector3>) =>
+  ids.map((id) => { const p = pos.get(id); return p ? `${id}:${p.x},${p.y},${p.z}` : id; }).join('|');
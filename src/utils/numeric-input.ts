@@ -0,0 +1,174 @@
+import type { Vector3 } from '@/types/geometry';
+
+// Typed value entry while a tool is active (Blender-style `G X 2.5`, `R Z -90`, `S 50%`).
+// Transform tools accept expressions: + - * / ^, parentheses, units and up to three
+// comma-separated components (`1, 0, 2cm`).
+
+export type NumericKind = 'length' | 'angle' | 'factor';
+
+// Units relative to each kind's base: scene units (metres), radians, plain factors
+const UNITS: Record<NumericKind, Record<string, number>> = {
+  length: { mm: 0.001, cm: 0.01, m: 1, km: 1000, in: 0.0254, '"': 0.0254, ft: 0.3048, "'": 0.3048 },
+  angle: { deg: Math.PI / 180, '°': Math.PI / 180, rad: 1 },
+  factor: { '%': 0.01 },
+};
+// What a bare number means: angles are typed in degrees
+const BARE_UNIT: Record<NumericKind, number> = { length: 1, angle: Math.PI / 180, factor: 1 };
+
+const UNIT_CHARS = /^[mckinftdegra"'°%]$/; // letters of the unit names above
+
+/**
+ * Updated buffer for a key press, or null when the key isn't part of the value (so callers can
+ * handle it themselves). With `expressions`, operators and unit letters are taken once a value
+ * has been started; axis keys (X/Y/Z) never are.
+ */
+export function applyNumericKey(buffer: string, key: string, expressions = false): string | null {
+  if (/^[0-9]$/.test(key)) return buffer + key;
+  if (key === '.') {
+    const token = buffer.match(/[0-9.]*$/)![0];
+    return token.includes('.') ? buffer : buffer + (token ? '.' : '0.');
+  }
+  if (key === '-') {
+    // Toggles the sign until a value has been started; after that (with expressions) it subtracts
+    if (!expressions || buffer === '' || buffer === '-') return buffer.startsWith('-') ? buffer.slice(1) : '-' + buffer;
+    return buffer + '-';
+  }
+  if (key === 'Backspace') return buffer.slice(0, -1);
+  if (!expressions) return null;
+  if ('+*/^()'.includes(key) && key.length === 1) return buffer + key;
+  if (!buffer) return null;
+  if (key === ',') return (buffer.match(/,/g)?.length ?? 0) < 2 ? buffer + ',' : buffer;
+  if (key === ' ') return buffer + ' ';
+  return UNIT_CHARS.test(key.toLowerCase()) ? buffer + key.toLowerCase() : null;
+}
+
+type Token = { type: 'num'; value: number } | { type: 'unit'; factor: number } | { type: 'op'; op: string };
+
+function tokenize(input: string, kind: NumericKind): Token[] | null {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < input.length) {
+    const rest = input.slice(i);
+    const space = rest.match(/^\s+/);
+    const num = rest.match(/^(\d+\.?\d*|\.\d+)/);
+    const unit = rest.match(/^([a-z]+|["'°%])/);
+    if (space) {
+      i += space[0].length;
+    } else if (num) {
+      tokens.push({ type: 'num', value: parseFloat(num[0]) });
+      i += num[0].length;
+    } else if (unit) {
+      const factor = UNITS[kind][unit[0]];
+      if (factor == null) return null;
+      tokens.push({ type: 'unit', factor: factor / BARE_UNIT[kind] });
+      i += unit[0].length;
+    } else if ('+-*/^()'.includes(rest[0])) {
+      tokens.push({ type: 'op', op: rest[0] });
+      i += 1;
+    } else {
+      return null;
+    }
+  }
+  return tokens;
+}
+
+/** The value of a typed expression in the kind's base unit, or null while it is incomplete */
+export function evaluateNumericExpression(input: string, kind: NumericKind = 'factor'): number | null {
+  const tokens = tokenize(input.trim(), kind);
+  if (!tokens || !tokens.length) return null;
+  let pos = 0;
+  const peekOp = () => {
+    const t = tokens[pos];
+    return t?.type === 'op' ? t.op : null;
+  };
+
+  // expr := term (('+' | '-') term)* ; term := unary (('*' | '/') unary)* ;
+  // unary := '-' unary | power ; power := primary ('^' unary)? ; primary := (num | '(' expr ')') unit?
+  const expr = (): number => {
+    let v = term();
+    for (let op = peekOp(); op === '+' || op === '-'; op = peekOp()) {
+      pos++;
+      v = op === '+' ? v + term() : v - term();
+    }
+    return v;
+  };
+  const term = (): number => {
+    let v = unary();
+    for (let op = peekOp(); op === '*' || op === '/'; op = peekOp()) {
+      pos++;
+      v = op === '*' ? v * unary() : v / unary();
+    }
+    return v;
+  };
+  const unary = (): number => {
+    const op = peekOp();
+    if (op === '-' || op === '+') {
+      pos++;
+      return op === '-' ? -unary() : unary();
+    }
+    const base = primary();
+    if (peekOp() === '^') {
+      pos++;
+      return Math.pow(base, unary());
+    }
+    return base;
+  };
+  const primary = (): number => {
+    const t = tokens[pos++];
+    let v: number;
+    if (t?.type === 'num') {
+      v = t.value;
+    } else if (t?.type === 'op' && t.op === '(') {
+      v = expr();
+      const close = tokens[pos++];
+      if (close?.type !== 'op' || close.op !== ')') throw new Error('unbalanced');
+    } else {
+      throw new Error('unexpected');
+    }
+    const unit = tokens[pos];
+    if (unit?.type === 'unit') {
+      pos++;
+      v *= unit.factor;
+    }
+    return v;
+  };
+
+  try {
+    const value = expr();
+    if (pos !== tokens.length || !Number.isFinite(value)) return null;
+    return value * BARE_UNIT[kind];
+  } catch {
+    return null;
+  }
+}
+
+/** Comma-separated components (at most three); empty or incomplete ones are null */
+export function evaluateNumericVector(input: string, kind: NumericKind): Array<number | null> {
+  return input.split(',').slice(0, 3).map((part) => evaluateNumericExpression(part, kind));
+}
+
+/**
+ * Per-axis values for move / scale: a single value follows the axis lock (X when unlocked, or
+ * every axis when `uniform`); `x, y, z` sets each axis. Other axes get `rest`.
+ */
+export function evaluateNumericAxes(
+  input: string,
+  kind: NumericKind,
+  axisLock: 'none' | 'x' | 'y' | 'z',
+  rest: number,
+  uniform = false,
+): Vector3 | null {
+  const parts = evaluateNumericVector(input, kind);
+  if (parts.every((p) => p == null)) return null;
+  const value = parts[0] ?? rest;
+  if (axisLock !== 'none') {
+    return { x: axisLock === 'x' ? value : rest, y: axisLock === 'y' ? value : rest, z: axisLock === 'z' ? value : rest };
+  }
+  if (parts.length > 1) return { x: parts[0] ?? rest, y: parts[1] ?? rest, z: parts[2] ?? rest };
+  return uniform ? { x: value, y: value, z: value } : { x: value, y: rest, z: rest };
+}
+
+/** The typed value, or null while nothing (or just a sign) has been typed */
+export function parseNumericInput(buffer: string): number | null {
+  return evaluateNumericExpression(buffer, 'factor');
+}
@@ -0,0 +1,141 @@
+import type { Mesh, Vector3 } from '@/types/geometry';
+
+// Arc-length parameterised polyline with rotation-minimising frames, used to lay geometry along
+// paths (Array modifier curve deform, and anything else that follows a spline).
+
+export interface PathFrame {
+  position: Vector3;
+  tangent: Vector3;
+  normal: Vector3; // "up" side of the path
+  binormal: Vector3; // tangent x normal
+}
+
+export interface PathSampler {
+  length: number;
+  closed: boolean;
+  // Frame at arc length `distance`; open paths extrapolate along the end tangents
+  sample: (distance: number) => PathFrame;
+}
+
+type V = [number, number, number];
+const sub = (a: V, b: V): V => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+const dot = (a: V, b: V) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+const cross = (a: V, b: V): V => [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+const norm = (a: V): V => { const l = Math.hypot(a[0], a[1], a[2]) || 1; return [a[0] / l, a[1] / l, a[2] / l]; };
+const toVec = (a: V): Vector3 => ({ x: a[0], y: a[1], z: a[2] });
+
+// Initial normal: world up (+Y) projected off the tangent, +Z when the tangent is vertical
+export const pathUpFor = (t: Vector3): Vector3 => (Math.abs(t.y) > 0.999 ? { x: 0, y: 0, z: 1 } : { x: 0, y: 1, z: 0 });
+
+// Rotate v about unit axis k by angle a (Rodrigues)
+const rotate = (v: V, k: V, a: number): V => {
+  const c = Math.cos(a), s = Math.sin(a), kv = cross(k, v), d = dot(k, v) * (1 - c);
+  return [v[0] * c + kv[0] * s + k[0] * d, v[1] * c + kv[1] * s + k[1] * d, v[2] * c + kv[2] * s + k[2] * d];
+};
+
+export function createPathSampler(points: Vector3[], closed = false): PathSampler | null {
+  const pts: V[] = [];
+  for (const p of points) {
+    const v: V = [p.x, p.y, p.z];
+    const last = pts[pts.length - 1];
+    if (!last || Math.hypot(...sub(v, last)) > 1e-9) pts.push(v);
+  }
+  if (closed && pts.length > 2 && Math.hypot(...sub(pts[0], pts[pts.length - 1])) <= 1e-9) pts.pop();
+  if (pts.length < 2) return null;
+  const isClosed = closed && pts.length > 2;
+  if (isClosed) pts.push(pts[0]);
+  const n = pts.length;
+
+  const cumulative = [0];
+  for (let i = 1; i < n; i++) cumulative.push(cumulative[i - 1] + Math.hypot(...sub(pts[i], pts[i - 1])));
+  const length = cumulative[n - 1];
+
+  // Vertex tangents: average of adjacent segment directions
+  const seg = (i: number) => norm(sub(pts[i + 1], pts[i]));
+  const closedTangent = () => norm(seg(0).map((c, k) => c + seg(n - 2)[k]) as V);
+  const tangents: V[] = pts.map((_, i) => {
+    if (i === 0) return isClosed ? closedTangent() : seg(0);
+    if (i === n - 1) return isClosed ? closedTangent() : seg(n - 2);
+    return norm(seg(i - 1).map((c, k) => c + seg(i)[k]) as V);
+  });
+
+  // Parallel transport (double reflection, Wang et al. 2008)
+  const t0 = tangents[0];
+  const up = pathUpFor(toVec(t0));
+  const upV: V = [up.x, up.y, up.z];
+  const normals: V[] = [norm(sub(upV, t0.map((c) => c * dot(upV, t0)) as V))];
+  for (let i = 0; i < n - 1; i++) {
+    const v1 = sub(pts[i + 1], pts[i]);
+    const c1 = dot(v1, v1) || 1;
+    const rL = sub(normals[i], v1.map((c) => (2 / c1) * dot(v1, normals[i]) * c) as V);
+    const tL = sub(tangents[i], v1.map((c) => (2 / c1) * dot(v1, tangents[i]) * c) as V);
+    const v2 = sub(tangents[i + 1], tL);
+    const c2 = dot(v2, v2);
+    normals.push(norm(c2 < 1e-12 ? rL : sub(rL, v2.map((c) => (2 / c2) * dot(v2, rL) * c) as V)));
+  }
+  // Closed loops: spread the accumulated twist evenly so the seam lines up
+  if (isClosed) {
+    const end = normals[n - 1];
+    const twist = Math.atan2(dot(cross(end, normals[0]), tangents[0]), dot(end, normals[0]));
+    for (let i = 1; i < n; i++) normals[i] = rotate(normals[i], tangents[i], twist * (cumulative[i] / (length || 1)));
+  }
+
+  const frame = (p: V, t: V, nrm: V): PathFrame => {
+    const tt = norm(t);
+    const nn = norm(sub(nrm, tt.map((c) => c * dot(nrm, tt)) as V));
+    return { position: toVec(p), tangent: toVec(tt), normal: toVec(nn), binormal: toVec(cross(tt, nn)) };
+  };
+
+  const sample = (distance: number): PathFrame => {
+    let d = distance;
+    if (isClosed) d = ((d % length) + length) % length;
+    else if (d <= 0 || d >= length) {
+      const atEnd = d >= length;
+      const i = atEnd ? n - 1 : 0;
+      const t = atEnd ? seg(n - 2) : seg(0);
+      const over = atEnd ? d - length : d;
+      return frame(pts[i].map((c, k) => c + t[k] * over) as V, t, normals[i]);
+    }
+    let lo = 0, hi = n - 1;
+    while (hi - lo > 1) { const mid = (lo + hi) >> 1; if (cumulative[mid] <= d) lo = mid; else hi = mid; }
+    const span = cumulative[hi] - cumulative[lo] || 1;
+    const f = (d - cumulative[lo]) / span;
+    const lerp = (a: V, b: V): V => [a[0] + (b[0] - a[0]) * f, a[1] + (b[1] - a[1]) * f, a[2] + (b[2] - a[2]) * f];
+    return frame(lerp(pts[lo], pts[hi]), lerp(tangents[lo], tangents[hi]), lerp(normals[lo], normals[hi]));
+  };
+
+  return { length, closed: isClosed, sample };
+}
+
+// Longest vertex chain along a mesh's edges, so edge-only meshes (and simple rings) can act as paths
+export function meshToPath(mesh: Mesh): { points: Vector3[]; closed: boolean } | null {
+  const pos = new Map(mesh.vertices.map((v) => [v.id, v.position] as const));
+  const adj = new Map<string, string[]>();
+  const link = (a: string, b: string) => { if (!adj.has(a)) adj.set(a, []); adj.get(a)!.push(b); };
+  for (const e of mesh.edges) {
+    const [a, b] = e.vertexIds;
+    if (!pos.has(a) || !pos.has(b) || a === b) continue;
+    link(a, b); link(b, a);
+  }
+  if (!adj.size) return null;
+  const walk = (start: string) => {
+    const chain = [start];
+    const seen = new Set(chain);
+    let cur = start;
+    for (;;) {
+      const next = adj.get(cur)!.find((v) => !seen.has(v));
+      if (!next) break;
+      chain.push(next); seen.add(next); cur = next;
+    }
+    return chain;
+  };
+  // Start from an end point when there is one
+  const ends = [...adj.keys()].filter((v) => adj.get(v)!.length === 1);
+  let best: string[] = [];
+  for (const s of ends.length ? ends : [adj.keys().next().value as string]) {
+    const chain = walk(s);
+    if (chain.length > best.length) best = chain;
+  }
+  const closed = !ends.length && best.length > 2 && adj.get(best[best.length - 1])!.includes(best[0]);
+  return { points: best.map((id) => ({ ...pos.get(id)! })), closed };
+}
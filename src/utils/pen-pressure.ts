@@ -0,0 +1,39 @@
+import { evaluateCurve, type CurvePoint } from './brush-curve';
+
+// Pen tablet input. Pointer events from pens carry pressure (0..1) and tilt (degrees, -90..90
+// towards +x / +y on screen); mice and touch are treated as a pen pressed all the way down.
+
+export interface PenSample {
+  pen: boolean;
+  pressure: number;
+  tiltX: number;
+  tiltY: number;
+}
+
+export const FULL_PRESSURE: PenSample = { pen: false, pressure: 1, tiltX: 0, tiltY: 0 };
+
+export function readPen(e: MouseEvent): PenSample {
+  if (!('pointerType' in e) || (e as PointerEvent).pointerType !== 'pen') return FULL_PRESSURE;
+  const p = e as PointerEvent;
+  return { pen: true, pressure: Math.max(0, Math.min(1, p.pressure)), tiltX: p.tiltX || 0, tiltY: p.tiltY || 0 };
+}
+
+export const pressureFactor = (sample: PenSample, curve: CurvePoint[]) =>
+  sample.pen ? Math.max(0, Math.min(1, evaluateCurve(curve, sample.pressure))) : 1;
+
+// Direction the pen leans in, as a counter-clockwise screen angle (radians, 0 = right); null for
+// an upright pen or a mouse
+export function tiltAzimuth(sample: PenSample): number | null {
+  if (!sample.pen || (!sample.tiltX && !sample.tiltY)) return null;
+  const tx = Math.tan((sample.tiltX * Math.PI) / 180);
+  const ty = Math.tan((sample.tiltY * Math.PI) / 180);
+  return Math.atan2(-ty, tx);
+}
+
+// Pressure along a stroke between two samples (for dabs spaced between pointer events)
+export const lerpPen = (a: PenSample, b: PenSample, t: number): PenSample => ({
+  pen: b.pen,
+  pressure: a.pressure + (b.pressure - a.pressure) * t,
+  tiltX: a.tiltX + (b.tiltX - a.tiltX) * t,
+  tiltY: a.tiltY + (b.tiltY - a.tiltY) * t,
+});
@@ -0,0 +1,117 @@
+import { Vector3 as ThreeVector3 } from 'three/webgpu';
+import type { Mesh, SceneObject, Selection, Vector3 } from '@/types/geometry';
+import { getObjectWorldMatrix } from './world-transform';
+
+// Rotate / scale pivots, shared by object transforms and edit-mode operations. 'median' and
+// 'bounds' use the centre of what is transformed; 'individual' gives every object (or connected
+// vertex island) its own centre; 'cursor' is the 3D cursor; 'active' is the active object or
+// the most recently selected element.
+export type PivotMode = 'median' | 'bounds' | 'individual' | 'cursor' | 'active';
+
+export const PIVOT_MODES: Array<{ value: PivotMode; label: string }> = [
+  { value: 'median', label: 'Median Point' },
+  { value: 'bounds', label: 'Bounding Box Center' },
+  { value: 'individual', label: 'Individual Origins' },
+  { value: 'cursor', label: '3D Cursor' },
+  { value: 'active', label: 'Active Element' },
+];
+
+export function pivotCenter(points: Vector3[], mode: 'median' | 'bounds'): ThreeVector3 {
+  if (!points.length) return new ThreeVector3();
+  if (mode === 'median') {
+    const sum = new ThreeVector3();
+    for (const p of points) sum.set(sum.x + p.x, sum.y + p.y, sum.z + p.z);
+    return sum.multiplyScalar(1 / points.length);
+  }
+  const min = new ThreeVector3(Infinity, Infinity, Infinity);
+  const max = new ThreeVector3(-Infinity, -Infinity, -Infinity);
+  for (const p of points) {
+    min.set(Math.min(min.x, p.x), Math.min(min.y, p.y), Math.min(min.z, p.z));
+    max.set(Math.max(max.x, p.x), Math.max(max.y, p.y), Math.max(max.z, p.z));
+  }
+  return min.add(max).multiplyScalar(0.5);
+}
+
+// Connected islands of the given vertices, joined by edges between two of them
+export function vertexIslands(mesh: Mesh, vertexIds: string[]): string[][] {
+  const inSet = new Set(vertexIds);
+  const neighbours = new Map<string, string[]>();
+  for (const e of mesh.edges) {
+    const [a, b] = e.vertexIds;
+    if (!inSet.has(a) || !inSet.has(b)) continue;
+    neighbours.set(a, [...(neighbours.get(a) ?? []), b]);
+    neighbours.set(b, [...(neighbours.get(b) ?? []), a]);
+  }
+  const seen = new Set<string>();
+  const islands: string[][] = [];
+  for (const start of vertexIds) {
+    if (seen.has(start)) continue;
+    const island: string[] = [];
+    const stack = [start];
+    seen.add(start);
+    while (stack.length) {
+      const id = stack.pop()!;
+      island.push(id);
+      for (const n of neighbours.get(id) ?? []) {
+        if (!seen.has(n)) {
+          seen.add(n);
+          stack.push(n);
+        }
+      }
+    }
+    islands.push(island);
+  }
+  return islands;
+}
+
+// Local-space centre of the last selected vertex / edge / face (selections keep their order)
+export function activeElementCenter(mesh: Mesh, selection: Selection): ThreeVector3 | null {
+  const byId = new Map(mesh.vertices.map((v) => [v.id, v] as const));
+  const centreOf = (ids: readonly string[]) => {
+    const pts = ids.map((id) => byId.get(id)?.position).filter((p): p is Vector3 => !!p);
+    return pts.length ? pivotCenter(pts, 'median') : null;
+  };
+  if (selection.selectionMode === 'vertex') {
+    const id = selection.vertexIds[selection.vertexIds.length - 1];
+    return id ? centreOf([id]) : null;
+  }
+  if (selection.selectionMode === 'edge') {
+    const id = selection.edgeIds[selection.edgeIds.length - 1];
+    const edge = id ? mesh.edges.find((e) => e.id === id) : undefined;
+    return edge ? centreOf(edge.vertexIds) : null;
+  }
+  const id = selection.faceIds[selection.faceIds.length - 1];
+  const face = id ? mesh.faces.find((f) => f.id === id) : undefined;
+  return face ? centreOf(face.vertexIds) : null;
+}
+
+// World-space median of the current selection: object origins, or the selected elements of the
+// edited mesh (placed by `editedObjectId` when it uses that mesh). Null when nothing is selected.
+export function selectionCenterWorld(
+  selection: Selection,
+  objects: Record<string, SceneObject>,
+  meshes: Map<string, Mesh>,
+  editedObjectId?: string,
+): ThreeVector3 | null {
+  if (selection.viewMode !== 'edit') {
+    const origins = selection.objectIds
+      .filter((id) => objects[id])
+      .map((id) => new ThreeVector3().setFromMatrixPosition(getObjectWorldMatrix(objects, id)));
+    return origins.length ? pivotCenter(origins, 'median') : null;
+  }
+  const mesh = selection.meshId ? meshes.get(selection.meshId) : undefined;
+  if (!mesh) return null;
+  const ids = new Set<string>(selection.selectionMode === 'vertex' ? selection.vertexIds : []);
+  if (selection.selectionMode === 'edge') {
+    for (const e of mesh.edges) if (selection.edgeIds.includes(e.id)) e.vertexIds.forEach((v) => ids.add(v));
+  } else if (selection.selectionMode === 'face') {
+    for (const f of mesh.faces) if (selection.faceIds.includes(f.id)) f.vertexIds.forEach((v) => ids.add(v));
+  }
+  const points = mesh.vertices.filter((v) => ids.has(v.id)).map((v) => v.position);
+  if (!points.length) return null;
+  const objectId = editedObjectId && objects[editedObjectId]?.meshId === mesh.id
+    ? editedObjectId
+    : Object.values(objects).find((o) => o.meshId === mesh.id)?.id;
+  const local = pivotCenter(points, 'median');
+  return objectId ? local.applyMatrix4(getObjectWorldMatrix(objects, objectId)) : local;
+}
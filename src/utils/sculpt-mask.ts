@@ -0,0 +1,48 @@
+import type { Mesh, Vertex } from '@/types/geometry';
+
+// Sculpt masks: per-vertex 0..1 protection stored sparsely on Vertex.mask (1 = brushes leave the
+// vertex alone). Unmasked vertices carry no entry so meshes that never used masking stay lean.
+
+export const vertexMask = (v: Pick<Vertex, 'mask'>) => v.mask ?? 0;
+
+export function setVertexMask(v: Vertex, mask: number) {
+  const m = Math.max(0, Math.min(1, mask));
+  if (m > 0) v.mask = m; else delete v.mask;
+}
+
+export function clearMask(mesh: Mesh) {
+  for (const v of mesh.vertices) delete v.mask;
+}
+
+export function invertMask(mesh: Mesh) {
+  for (const v of mesh.vertices) setVertexMask(v, 1 - vertexMask(v));
+}
+
+function vertexNeighbours(mesh: Mesh): Map<string, string[]> {
+  const adj = new Map<string, string[]>();
+  const link = (a: string, b: string) => {
+    const list = adj.get(a);
+    if (list) list.push(b); else adj.set(a, [b]);
+  };
+  for (const e of mesh.edges) {
+    link(e.vertexIds[0], e.vertexIds[1]);
+    link(e.vertexIds[1], e.vertexIds[0]);
+  }
+  return adj;
+}
+
+// Grow / shrink by one edge ring: each vertex takes the max / min mask of itself and its neighbours
+function spreadMask(mesh: Mesh, pick: (a: number, b: number) => number) {
+  const adj = vertexNeighbours(mesh);
+  const before = new Map(mesh.vertices.map((v) => [v.id, vertexMask(v)] as const));
+  for (const v of mesh.vertices) {
+    let m = before.get(v.id)!;
+    for (const n of adj.get(v.id) ?? []) m = pick(m, before.get(n) ?? 0);
+    setVertexMask(v, m);
+  }
+}
+
+export const growMask = (mesh: Mesh) => spreadMask(mesh, Math.max);
+export const shrinkMask = (mesh: Mesh) => spreadMask(mesh, Math.min);
+
+export const hasMask = (mesh: Pick<Mesh, 'vertices'>) => mesh.vertices.some((v) => (v.mask ?? 0) > 0);
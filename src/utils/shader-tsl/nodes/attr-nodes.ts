@@ -1,4 +1,5 @@
 import * as TSL from 'three/tsl';
+import type { ShaderNode } from '@/types/shader';
 
 export const attrResolvers = {
   // Local vertex position (object space coordinates)
@@ -11,6 +12,11 @@ export const attrResolvers = {
   },
   normalAttr: () => (TSL as any).normalLocal ?? null,
   uvAttr: () => TSL.uv(),
+  // Active vertex colour layer (geometry 'color'); white when the mesh has none
+  vertexColor: (_node: ShaderNode, outHandle: string) => {
+    const c = TSL.vertexColor(0);
+    return outHandle === 'alpha' ? c.w : c.xyz;
+  },
   // View space position (camera relative)
   viewPosition: () => (TSL as any).modelViewPosition ?? null,
   // World space position (scene coordinates, after transform)
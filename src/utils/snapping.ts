@@ -0,0 +1,258 @@
+import { Camera, DoubleSide, Matrix4, Quaternion, Raycaster, Vector2, Vector3 as ThreeVector3 } from 'three/webgpu';
+import type { Mesh, SceneObject, Transform, Vector3 } from '@/types/geometry';
+import { snapValue } from './grid-snapping';
+import { meshBvh } from './mesh-bvh';
+import { getObjectWorldMatrix } from './world-transform';
+
+// Snapping targets shared by object transforms, edit-mode move, quick-brush placement and the
+// knife. 'increment' rounds transform deltas (grid-snapping.ts); 'grid' snaps positions to the
+// absolute grid; the rest pull a point onto nearby geometry under the cursor.
+export type SnapMode = 'increment' | 'grid' | 'vertex' | 'edge-midpoint' | 'edge' | 'face';
+
+export const SNAP_RADIUS_PX = 16;
+
+// Geometry that can be snapped to: a mesh with its local → world matrix
+export interface SnapSource {
+  mesh: Mesh;
+  matrix: Matrix4;
+  excludeVertexIds?: Set<string>; // e.g. the vertices being moved
+}
+
+export interface SnapHit {
+  kind: SnapMode;
+  point: ThreeVector3; // world
+  normal?: ThreeVector3; // world, face snaps only
+  source: SnapSource;
+  elementIds: string[]; // vertex ids of the snapped vertex / edge, or the face id
+}
+
+// Canvas-relative pixel coordinates for a camera
+export interface SnapView {
+  camera: Camera;
+  width: number;
+  height: number;
+}
+
+export const isGeometrySnap = (mode: SnapMode) => mode !== 'increment' && mode !== 'grid';
+
+export const snapPointToGrid = (p: Vector3, size: number): Vector3 => ({
+  x: snapValue(p.x, size),
+  y: snapValue(p.y, size),
+  z: snapValue(p.z, size),
+});
+
+export function toScreen(p: ThreeVector3, view: SnapView): Vector2 | null {
+  const ndc = p.clone().project(view.camera);
+  if (ndc.z > 1 || ndc.z < -1) return null; // behind the camera or clipped
+  return new Vector2((ndc.x + 1) * 0.5 * view.width, (1 - ndc.y) * 0.5 * view.height);
+}
+
+const rayAt = (screen: Vector2, view: SnapView) => {
+  const raycaster = new Raycaster();
+  raycaster.setFromCamera(new Vector2((screen.x / view.width) * 2 - 1, -((screen.y / view.height) * 2 - 1)), view.camera);
+  return raycaster.ray;
+};
+
+const segmentDistance = (p: Vector2, a: Vector2, b: Vector2) => {
+  const ab = b.clone().sub(a);
+  const len = ab.lengthSq();
+  const t = len > 1e-12 ? Math.max(0, Math.min(1, p.clone().sub(a).dot(ab) / len)) : 0;
+  return p.distanceTo(a.clone().addScaledVector(ab, t));
+};
+
+// Mesh and scene object sources: every visible mesh object except `skipObjectIds`
+export function sceneSnapSources(
+  objects: Record<string, SceneObject>,
+  meshes: Map<string, Mesh>,
+  skipObjectIds: Set<string> = new Set(),
+  overrides?: Record<string, Transform>,
+): SnapSource[] {
+  const out: SnapSource[] = [];
+  for (const o of Object.values(objects)) {
+    if (!o.visible || !o.meshId || skipObjectIds.has(o.id)) continue;
+    const mesh = meshes.get(o.meshId);
+    if (mesh) out.push({ mesh, matrix: getObjectWorldMatrix(objects, o.id, overrides) });
+  }
+  return out;
+}
+
+// Targets of a source projected for one view: world and screen positions plus buckets of
+// SNAP_RADIUS_PX cells, so a drag (or hover with a still camera) projects each mesh once and a
+// query only visits the cells around the cursor. Excluded vertices are skipped at query time.
+interface ProjectedSource {
+  world: ThreeVector3[];
+  screen: (Vector2 | null)[];
+  vertexIndex: Map<string, number>;
+  edges: [number, number][];
+  buckets: Partial<Record<'vertex' | 'edge-midpoint' | 'edge', Map<number, number[]>>>;
+}
+
+const CELL_PX = SNAP_RADIUS_PX;
+// Few views per mesh at once (instances, the drag view); older projections are dropped past this
+const MAX_VIEWS_PER_MESH = 8;
+const projections = new WeakMap<Mesh, Map<string, ProjectedSource>>();
+
+const cellKey = (cx: number, cy: number) => cx * 65536 + cy;
+
+const viewKey = (source: SnapSource, view: SnapView) =>
+  [...view.camera.projectionMatrix.elements, ...view.camera.matrixWorldInverse.elements, ...source.matrix.elements, view.width, view.height].join(',');
+
+function projectSource(source: SnapSource, view: SnapView): ProjectedSource {
+  const key = viewKey(source, view);
+  let views = projections.get(source.mesh);
+  if (!views) projections.set(source.mesh, (views = new Map()));
+  const cached = views.get(key);
+  if (cached) return cached;
+  const { mesh, matrix } = source;
+  const world = mesh.vertices.map((v) => new ThreeVector3(v.position.x, v.position.y, v.position.z).applyMatrix4(matrix));
+  const vertexIndex = new Map(mesh.vertices.map((v, i) => [v.id, i] as const));
+  const edges: [number, number][] = [];
+  for (const e of mesh.edges) {
+    const a = vertexIndex.get(e.vertexIds[0]), b = vertexIndex.get(e.vertexIds[1]);
+    if (a !== undefined && b !== undefined) edges.push([a, b]);
+  }
+  const entry: ProjectedSource = { world, screen: world.map((w) => toScreen(w, view)), vertexIndex, edges, buckets: {} };
+  if (views.size >= MAX_VIEWS_PER_MESH) views.clear();
+  views.set(key, entry);
+  return entry;
+}
+
+// Cells within the view (plus one cell of margin) covered by a screen-space box
+function forCells(minX: number, minY: number, maxX: number, maxY: number, view: SnapView, fn: (key: number) => void) {
+  const x0 = Math.max(-1, Math.floor(minX / CELL_PX)), x1 = Math.min(Math.ceil(view.width / CELL_PX), Math.floor(maxX / CELL_PX));
+  const y0 = Math.max(-1, Math.floor(minY / CELL_PX)), y1 = Math.min(Math.ceil(view.height / CELL_PX), Math.floor(maxY / CELL_PX));
+  for (let cx = x0; cx <= x1; cx++) for (let cy = y0; cy <= y1; cy++) fn(cellKey(cx, cy));
+}
+
+function buckets(p: ProjectedSource, mode: 'vertex' | 'edge-midpoint' | 'edge', view: SnapView) {
+  const existing = p.buckets[mode];
+  if (existing) return existing;
+  const grid = new Map<number, number[]>();
+  const add = (key: number, item: number) => {
+    const cell = grid.get(key);
+    if (cell) cell.push(item); else grid.set(key, [item]);
+  };
+  if (mode === 'vertex') {
+    p.screen.forEach((s, i) => { if (s) forCells(s.x, s.y, s.x, s.y, view, (k) => add(k, i)); });
+  } else {
+    p.edges.forEach(([a, b], ei) => {
+      const sa = p.screen[a], sb = p.screen[b];
+      if (!sa || !sb) return;
+      if (mode === 'edge-midpoint') {
+        const sm = toScreen(p.world[a].clone().add(p.world[b]).multiplyScalar(0.5), view);
+        if (sm) forCells(sm.x, sm.y, sm.x, sm.y, view, (k) => add(k, ei));
+      } else {
+        forCells(Math.min(sa.x, sb.x), Math.min(sa.y, sb.y), Math.max(sa.x, sb.x), Math.max(sa.y, sb.y), view, (k) => add(k, ei));
+      }
+    });
+  }
+  p.buckets[mode] = grid;
+  return grid;
+}
+
+// Items bucketed near a screen point (may repeat for edges spanning several cells)
+function nearby(grid: Map<number, number[]>, screen: Vector2, radiusPx: number, view: SnapView, fn: (item: number) => void) {
+  forCells(screen.x - radiusPx, screen.y - radiusPx, screen.x + radiusPx, screen.y + radiusPx, view, (k) => grid.get(k)?.forEach(fn));
+}
+
+// Closest snap target to a screen point, within `radiusPx` (faces: the one under the point)
+export function findSnap(mode: SnapMode, screen: Vector2, view: SnapView, sources: SnapSource[], radiusPx = SNAP_RADIUS_PX): SnapHit | null {
+  if (!isGeometrySnap(mode)) return null;
+  let best: SnapHit | null = null;
+  let bestScore = mode === 'face' ? Infinity : radiusPx;
+  const ray = rayAt(screen, view);
+
+  for (const source of sources) {
+    const { mesh, matrix, excludeVertexIds: skip } = source;
+    if (mode === 'face') {
+      const built = meshBvh(mesh);
+      if (!built) continue;
+      const inverse = matrix.clone().invert();
+      const local = ray.clone().applyMatrix4(inverse);
+      // Nearest hit on a face that isn't moving
+      const hits = built.bvh.raycast(local, DoubleSide).sort((a, b) => a.distance - b.distance);
+      for (const hit of hits) {
+        const fi = built.triangleFaces[hit.faceIndex ?? 0];
+        const f = mesh.faces[fi];
+        if (!f || f.vertexIds.some((id) => skip?.has(id))) continue;
+        const point = hit.point.clone().applyMatrix4(matrix);
+        const d = point.distanceTo(ray.origin);
+        if (d < bestScore) {
+          bestScore = d;
+          const index = built.geometry.getIndex()!;
+          const pos = built.geometry.getAttribute('position');
+          const corner = (k: number) => new ThreeVector3().fromBufferAttribute(pos, index.getX((hit.faceIndex ?? 0) * 3 + k)).applyMatrix4(matrix);
+          const [p0, p1, p2] = [corner(0), corner(1), corner(2)];
+          const normal = p1.sub(p0).cross(p2.sub(p0)).normalize();
+          if (normal.dot(ray.direction) > 0) normal.negate(); // the side facing the viewer
+          best = { kind: mode, point, normal, source, elementIds: [f.id] };
+        }
+        break;
+      }
+      continue;
+    }
+
+    const p = projectSource(source, view);
+    const grid = buckets(p, mode, view);
+    const vertexId = (i: number) => mesh.vertices[i].id;
+    if (mode === 'vertex') {
+      nearby(grid, screen, bestScore, view, (i) => {
+        if (skip?.has(vertexId(i))) return;
+        const d = p.screen[i]!.distanceTo(screen);
+        if (d < bestScore) { bestScore = d; best = { kind: mode, point: p.world[i].clone(), source, elementIds: [vertexId(i)] }; }
+      });
+    } else {
+      nearby(grid, screen, bestScore, view, (ei) => {
+        const [a, b] = p.edges[ei];
+        const ids = [vertexId(a), vertexId(b)];
+        if (skip?.has(ids[0]) || skip?.has(ids[1])) return;
+        const wa = p.world[a], wb = p.world[b];
+        if (mode === 'edge-midpoint') {
+          const mid = wa.clone().add(wb).multiplyScalar(0.5);
+          const sm = toScreen(mid, view);
+          const d = sm ? sm.distanceTo(screen) : Infinity;
+          if (d < bestScore) { bestScore = d; best = { kind: mode, point: mid, source, elementIds: ids }; }
+        } else {
+          const d = segmentDistance(screen, p.screen[a]!, p.screen[b]!);
+          if (d >= bestScore) return;
+          // Point on the 3D edge nearest to the cursor ray
+          const onEdge = new ThreeVector3();
+          ray.distanceSqToSegment(wa, wb, undefined, onEdge);
+          bestScore = d;
+          best = { kind: mode, point: onEdge, source, elementIds: ids };
+        }
+      });
+    }
+  }
+  return best;
+}
+
+// Snap a moving selection: `moved` are candidate world points of the selection at its unsnapped
+// position (pivot first); the one closest on screen to a target wins and the returned offset
+// carries it there. Face snapping only casts from the pivot.
+export function snapMove(
+  mode: SnapMode,
+  moved: ThreeVector3[],
+  view: SnapView,
+  sources: SnapSource[],
+  radiusPx = SNAP_RADIUS_PX,
+): { offset: ThreeVector3; hit: SnapHit } | null {
+  const points = mode === 'face' ? moved.slice(0, 1) : moved;
+  let best: { offset: ThreeVector3; hit: SnapHit; d: number } | null = null;
+  for (const p of points) {
+    const s = toScreen(p, view);
+    if (!s) continue;
+    const hit = findSnap(mode, s, view, sources, best ? Math.min(radiusPx, best.d) : radiusPx);
+    if (!hit) continue;
+    const hs = toScreen(hit.point, view);
+    const d = hs ? hs.distanceTo(s) : 0;
+    if (!best || d < best.d) best = { offset: hit.point.clone().sub(p), hit, d };
+  }
+  return best && { offset: best.offset, hit: best.hit };
+}
+
+// `base` turned so its up axis (+Y) follows a face normal, keeping its heading
+export function alignToNormal(base: Quaternion, normal: ThreeVector3): Quaternion {
+  const up = new ThreeVector3(0, 1, 0).applyQuaternion(base);
+  return new Quaternion().setFromUnitVectors(up, normal.clone().normalize()).multiply(base);
+}
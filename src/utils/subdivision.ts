@@ -0,0 +1,360 @@
+import type { Face, Mesh, Vertex } from '@/types/geometry';
+import { convertQuadToTriangles, createFace, createVertex, vec3 } from '@/utils/geometry';
+import { cornerColor } from '@/utils/vertex-colors';
+import { mixWeights } from '@/utils/vertex-groups';
+
+// Catmull-Clark (any polygons) and Loop (triangles) subdivision surfaces with semi-sharp creases.
+//
+// Both schemes run on an index-based topology carrying a flat attribute array, so the same step
+// subdivides positions (3D, with creases) and face-varying UVs (2D, seams act as boundaries) and
+// colours (4D, with the position creases). Child faces are emitted in the same order for all of
+// them, which keeps corners aligned.
+
+export type SubdivisionScheme = 'catmull-clark' | 'loop';
+// smooth: boundary curves are smoothed; keep-corners: vertices of a single face stay put;
+// sharp: every boundary vertex stays put
+export type SubdivisionBoundary = 'smooth' | 'keep-corners' | 'sharp';
+// linear: plain interpolation; keep-corners: smoothed, island corners/junctions pinned;
+// smooth-all: smoothed including island boundaries
+export type SubdivisionUvMode = 'linear' | 'keep-corners' | 'smooth-all';
+
+export interface SubdivisionOptions {
+  scheme: SubdivisionScheme;
+  levels: number;
+  boundary?: SubdivisionBoundary;
+  uvMode?: SubdivisionUvMode;
+}
+
+interface Topology {
+  faces: number[][];
+  values: number[]; // flat, `dim` per vertex
+  dim: number;
+  sharpness: Map<number, number>; // edge key -> sharpness (Infinity = sharp)
+}
+
+// Result of one step; `sources[i]` are the parent vertices new vertex `n + i` is built from
+interface StepResult { topo: Topology; count: number; sources: number[][] }
+
+interface StepOptions {
+  boundary: SubdivisionBoundary;
+  linear?: boolean; // interpolate only (no smoothing)
+  pinned?: Uint8Array; // extra vertices that keep their value
+}
+
+// Edge crease (0..1) to sharpness in subdivision levels; 1 is fully sharp at any level
+export const creaseToSharpness = (crease: number) => (crease >= 1 ? Infinity : crease * crease * 10);
+
+const edgeKey = (a: number, b: number, n: number) => (a < b ? a * n + b : b * n + a);
+
+interface EdgeInfo { a: number; b: number; faces: number[] }
+
+function collectEdges(faces: number[][], n: number) {
+  const edges: EdgeInfo[] = [];
+  const byKey = new Map<number, number>();
+  const vertexEdges: number[][] = Array.from({ length: n }, () => []);
+  const vertexFaces: number[][] = Array.from({ length: n }, () => []);
+  faces.forEach((f, fi) => {
+    for (let i = 0; i < f.length; i++) {
+      const a = f[i], b = f[(i + 1) % f.length];
+      vertexFaces[a].push(fi);
+      const key = edgeKey(a, b, n);
+      let e = byKey.get(key);
+      if (e === undefined) {
+        e = edges.length;
+        byKey.set(key, e);
+        edges.push({ a, b, faces: [] });
+        vertexEdges[a].push(e);
+        vertexEdges[b].push(e);
+      }
+      edges[e].faces.push(fi);
+    }
+  });
+  return { edges, byKey, vertexEdges, vertexFaces };
+}
+
+const lerpInto = (out: number[], o: number, a: number[], b: number[], t: number) => {
+  for (let d = 0; d < a.length; d++) out[o + d] = a[d] + (b[d] - a[d]) * t;
+};
+
+// Effective sharpness: boundary and non-manifold edges are always sharp
+const edgeSharpness = (topo: Topology, e: EdgeInfo, n: number) =>
+  e.faces.length !== 2 ? Infinity : (topo.sharpness.get(edgeKey(e.a, e.b, n)) ?? 0);
+
+// Vertex rule shared by both schemes: chooses smooth / crease / corner from incident sharp edges
+function vertexRule(
+  topo: Topology, v: number, n: number, opts: StepOptions,
+  edges: EdgeInfo[], vertexEdges: number[][], vertexFaces: number[][],
+  smooth: () => number[],
+): number[] {
+  const { dim, values } = topo;
+  const P = values.slice(v * dim, v * dim + dim);
+  if (opts.linear || opts.pinned?.[v] || vertexEdges[v].length === 0) return P;
+  const ve = vertexEdges[v];
+  const onBoundary = ve.some((e) => edges[e].faces.length === 1);
+  if (onBoundary && (opts.boundary === 'sharp' || (opts.boundary === 'keep-corners' && vertexFaces[v].length === 1))) return P;
+  const sharp = ve.filter((e) => edgeSharpness(topo, edges[e], n) > 0);
+  if (sharp.length < 2) return smooth();
+  const avg = Math.min(1, sharp.reduce((s, e) => s + Math.min(1, edgeSharpness(topo, edges[e], n)), 0) / sharp.length);
+  let target = P;
+  if (sharp.length === 2) {
+    const other = (e: number) => (edges[e].a === v ? edges[e].b : edges[e].a);
+    const o0 = other(sharp[0]) * dim, o1 = other(sharp[1]) * dim;
+    target = P.map((p, d) => (values[o0 + d] + 6 * p + values[o1 + d]) / 8);
+  }
+  if (avg >= 1) return target;
+  const out = new Array<number>(dim);
+  lerpInto(out, 0, smooth(), target, avg);
+  return out;
+}
+
+// Child edges keep the parent's sharpness minus one level
+function childSharpness(topo: Topology, edges: EdgeInfo[], n: number, nn: number, edgePoint: (e: number) => number) {
+  const next = new Map<number, number>();
+  edges.forEach((e, ei) => {
+    const s = topo.sharpness.get(edgeKey(e.a, e.b, n)) ?? 0;
+    if (s <= 1) return;
+    const m = edgePoint(ei);
+    next.set(edgeKey(e.a, m, nn), s - 1);
+    next.set(edgeKey(m, e.b, nn), s - 1);
+  });
+  return next;
+}
+
+function catmullClarkStep(topo: Topology, n: number, opts: StepOptions): StepResult {
+  const { faces, values, dim } = topo;
+  const { edges, byKey, vertexEdges, vertexFaces } = collectEdges(faces, n);
+  const F = faces.length;
+  const count = n + F + edges.length;
+  const out = new Array<number>(count * dim).fill(0);
+
+  // Face points
+  faces.forEach((f, fi) => {
+    const o = (n + fi) * dim;
+    for (const v of f) for (let d = 0; d < dim; d++) out[o + d] += values[v * dim + d] / f.length;
+  });
+  const facePoint = (fi: number) => out.slice((n + fi) * dim, (n + fi + 1) * dim);
+
+  // Edge points
+  edges.forEach((e, ei) => {
+    const o = (n + F + ei) * dim;
+    const mid = Array.from({ length: dim }, (_, d) => (values[e.a * dim + d] + values[e.b * dim + d]) / 2);
+    const s = opts.linear ? Infinity : edgeSharpness(topo, e, n);
+    if (s >= 1) { lerpInto(out, o, mid, mid, 0); return; }
+    const f0 = facePoint(e.faces[0]), f1 = facePoint(e.faces[1]);
+    const smooth = mid.map((m, d) => (2 * m + f0[d] + f1[d]) / 4);
+    lerpInto(out, o, smooth, mid, s);
+  });
+
+  // Vertex points
+  for (let v = 0; v < n; v++) {
+    const smooth = () => {
+      const k = vertexEdges[v].length;
+      const Q = new Array<number>(dim).fill(0), R = new Array<number>(dim).fill(0);
+      for (const fi of vertexFaces[v]) { const fp = facePoint(fi); for (let d = 0; d < dim; d++) Q[d] += fp[d] / vertexFaces[v].length; }
+      for (const ei of vertexEdges[v]) {
+        const e = edges[ei];
+        for (let d = 0; d < dim; d++) R[d] += (values[e.a * dim + d] + values[e.b * dim + d]) / 2 / k;
+      }
+      return Q.map((q, d) => (q + 2 * R[d] + (k - 3) * values[v * dim + d]) / k);
+    };
+    const p = vertexRule(topo, v, n, opts, edges, vertexEdges, vertexFaces, smooth);
+    for (let d = 0; d < dim; d++) out[v * dim + d] = p[d];
+  }
+
+  const edgePoint = (ei: number) => n + F + ei;
+  const ep = (a: number, b: number) => edgePoint(byKey.get(edgeKey(a, b, n))!);
+  const nextFaces: number[][] = [];
+  faces.forEach((f, fi) => {
+    const k = f.length;
+    for (let i = 0; i < k; i++) {
+      nextFaces.push([f[i], ep(f[i], f[(i + 1) % k]), n + fi, ep(f[(i - 1 + k) % k], f[i])]);
+    }
+  });
+  const sources = [...faces, ...edges.map((e) => [e.a, e.b])];
+  return { topo: { faces: nextFaces, values: out, dim, sharpness: childSharpness(topo, edges, n, count, edgePoint) }, count, sources };
+}
+
+function loopStep(topo: Topology, n: number, opts: StepOptions): StepResult {
+  const { faces, values, dim } = topo;
+  const { edges, byKey, vertexEdges, vertexFaces } = collectEdges(faces, n);
+  const count = n + edges.length;
+  const out = new Array<number>(count * dim).fill(0);
+
+  const opposite = (fi: number, e: EdgeInfo) => faces[fi].find((v) => v !== e.a && v !== e.b)!;
+  edges.forEach((e, ei) => {
+    const o = (n + ei) * dim;
+    const mid = Array.from({ length: dim }, (_, d) => (values[e.a * dim + d] + values[e.b * dim + d]) / 2);
+    const s = opts.linear ? Infinity : edgeSharpness(topo, e, n);
+    if (s >= 1) { lerpInto(out, o, mid, mid, 0); return; }
+    const c0 = opposite(e.faces[0], e) * dim, c1 = opposite(e.faces[1], e) * dim;
+    const smooth = mid.map((m, d) => 0.75 * m + (values[c0 + d] + values[c1 + d]) / 8);
+    lerpInto(out, o, smooth, mid, s);
+  });
+
+  for (let v = 0; v < n; v++) {
+    const smooth = () => {
+      const k = vertexEdges[v].length;
+      const beta = k === 3 ? 3 / 16 : 3 / (8 * k);
+      const res = values.slice(v * dim, v * dim + dim).map((p) => p * (1 - k * beta));
+      for (const ei of vertexEdges[v]) {
+        const e = edges[ei];
+        const w = (e.a === v ? e.b : e.a) * dim;
+        for (let d = 0; d < dim; d++) res[d] += beta * values[w + d];
+      }
+      return res;
+    };
+    const p = vertexRule(topo, v, n, opts, edges, vertexEdges, vertexFaces, smooth);
+    for (let d = 0; d < dim; d++) out[v * dim + d] = p[d];
+  }
+
+  const edgePoint = (ei: number) => n + ei;
+  const ep = (a: number, b: number) => edgePoint(byKey.get(edgeKey(a, b, n))!);
+  const nextFaces: number[][] = [];
+  for (const [a, b, c] of faces) {
+    const ab = ep(a, b), bc = ep(b, c), ca = ep(c, a);
+    nextFaces.push([a, ab, ca], [ab, b, bc], [ca, bc, c], [ab, bc, ca]);
+  }
+  const sources = edges.map((e) => [e.a, e.b]);
+  return { topo: { faces: nextFaces, values: out, dim, sharpness: childSharpness(topo, edges, n, count, edgePoint) }, count, sources };
+}
+
+// Face-varying vertices (UVs, colours): face corners of the same mesh vertex with the same value share one index
+function buildCornerTopology(faces: string[][], cornerValues: number[][][], index: Map<string, number>, dim: number) {
+  const byKey = new Map<string, number>();
+  const values: number[] = [];
+  const cornerFaces = faces.map((f, fi) => f.map((vid, k) => {
+    const value = cornerValues[fi][k];
+    const key = `${index.get(vid)}|${value.map((x) => Math.round(x * 1e6)).join(',')}`;
+    let i = byKey.get(key);
+    if (i === undefined) { i = values.length / dim; byKey.set(key, i); values.push(...value); }
+    return i;
+  }));
+  return { faces: cornerFaces, values, dim, sharpness: new Map<number, number>() } as Topology;
+}
+
+// Copy position creases onto a face-varying topology with the same faces
+function inheritSharpness(target: Topology, targetCount: number, geo: Topology, geoCount: number) {
+  geo.faces.forEach((f, fi) => f.forEach((a, k) => {
+    const b = f[(k + 1) % f.length];
+    const s = geo.sharpness.get(edgeKey(a, b, geoCount));
+    if (s === undefined) return;
+    const c = target.faces[fi];
+    target.sharpness.set(edgeKey(c[k], c[(k + 1) % c.length], targetCount), s);
+  }));
+}
+
+// UV vertices whose mesh vertex is split into 3+ UV vertices (island junctions)
+function uvJunctions(geoFaces: number[][], uvFaces: number[][], uvCount: number) {
+  const perVertex = new Map<number, Set<number>>();
+  geoFaces.forEach((f, fi) => f.forEach((v, k) => {
+    let s = perVertex.get(v);
+    if (!s) perVertex.set(v, (s = new Set()));
+    s.add(uvFaces[fi][k]);
+  }));
+  const pinned = new Uint8Array(uvCount);
+  for (const s of perVertex.values()) if (s.size >= 3) for (const u of s) pinned[u] = 1;
+  return pinned;
+}
+
+export function subdivideSurface(mesh: Mesh, opts: SubdivisionOptions): Mesh {
+  const boundary = opts.boundary ?? 'keep-corners';
+  const uvMode = opts.uvMode ?? 'keep-corners';
+  const index = new Map(mesh.vertices.map((v, i) => [v.id, i] as const));
+
+  // Parent faces (Loop needs triangles); UVs per corner, falling back to vertex UVs
+  const srcFaces: { ids: string[]; uvs: { x: number; y: number }[]; face: Face }[] = [];
+  for (const f of mesh.faces) {
+    if (f.vertexIds.some((id) => !index.has(id))) continue;
+    const cornerUv = (id: string) => f.uvs?.[f.vertexIds.indexOf(id)] ?? mesh.vertices[index.get(id)!].uv;
+    const polys = opts.scheme === 'loop' ? convertQuadToTriangles(f.vertexIds) : [f.vertexIds];
+    for (const ids of polys) srcFaces.push({ ids, uvs: ids.map(cornerUv), face: f });
+  }
+  if (!srcFaces.length) return mesh;
+
+  const n0 = mesh.vertices.length;
+  let geo: Topology = {
+    faces: srcFaces.map((s) => s.ids.map((id) => index.get(id)!)),
+    values: mesh.vertices.flatMap((v) => [v.position.x, v.position.y, v.position.z]),
+    dim: 3,
+    sharpness: new Map(),
+  };
+  for (const e of mesh.edges) {
+    if (!e.crease) continue;
+    const a = index.get(e.vertexIds[0]), b = index.get(e.vertexIds[1]);
+    if (a !== undefined && b !== undefined) geo.sharpness.set(edgeKey(a, b, n0), creaseToSharpness(e.crease));
+  }
+  const srcIds = srcFaces.map((s) => s.ids);
+  let uv = buildCornerTopology(srcIds, srcFaces.map((s) => s.uvs.map((u) => [u.x, u.y])), index, 2);
+  let geoCount = n0;
+  let uvCount = uv.values.length / 2;
+  // One face-varying topology per colour layer, subdivided like positions
+  let colors = (mesh.colorLayers ?? []).map((layer) => {
+    const topo = buildCornerTopology(srcIds, srcFaces.map((s) => s.ids.map((id) => {
+      const c = cornerColor(s.face, layer.id, s.face.vertexIds.indexOf(id));
+      return [c.r, c.g, c.b, c.a];
+    })), index, 4);
+    const count = topo.values.length / 4;
+    inheritSharpness(topo, count, geo, n0);
+    return { layerId: layer.id, topo, count };
+  });
+  // Vertex group weights and sculpt masks; new vertices average the vertices they are built from
+  const weighted = mesh.vertices.some((v) => v.weights);
+  let weights = mesh.vertices.map((v) => v.weights);
+  const masked = mesh.vertices.some((v) => v.mask);
+  let masks = mesh.vertices.map((v) => v.mask ?? 0);
+  // Which parent face each current face descends from (materials, face sets, hiding)
+  let parents = srcFaces.map((s) => s.face);
+
+  const step = opts.scheme === 'loop' ? loopStep : catmullClarkStep;
+  for (let level = 0; level < opts.levels; level++) {
+    const pinned = uvMode === 'keep-corners' ? uvJunctions(geo.faces, uv.faces, uvCount) : undefined;
+    const g = step(geo, geoCount, { boundary });
+    const u = step(uv, uvCount, {
+      boundary: uvMode === 'smooth-all' ? 'smooth' : 'keep-corners',
+      linear: uvMode === 'linear',
+      pinned,
+    });
+    colors = colors.map((c) => {
+      const next = step(c.topo, c.count, { boundary });
+      return { layerId: c.layerId, topo: next.topo, count: next.count };
+    });
+    if (weighted) {
+      const prev = weights;
+      weights = [...prev, ...g.sources.map((src) => mixWeights(src.map((i) => ({ weights: prev[i] }))))];
+    }
+    if (masked) {
+      const prev = masks;
+      masks = [...prev, ...g.sources.map((src) => src.reduce((sum, i) => sum + prev[i], 0) / src.length)];
+    }
+    const childrenPerFace = (f: number[]) => (opts.scheme === 'loop' ? 4 : f.length);
+    parents = geo.faces.flatMap((f, fi) => new Array(childrenPerFace(f)).fill(parents[fi]));
+    geo = g.topo; geoCount = g.count;
+    uv = u.topo; uvCount = u.count;
+  }
+
+  const vertices: Vertex[] = [];
+  for (let i = 0; i < geoCount; i++) {
+    const position = vec3(geo.values[i * 3], geo.values[i * 3 + 1], geo.values[i * 3 + 2]);
+    vertices.push(i < n0
+      ? { ...mesh.vertices[i], position, normal: vec3(0, 0, 0), uv: { ...mesh.vertices[i].uv } }
+      : createVertex(position, vec3(0, 0, 0), { x: 0, y: 0 }));
+    if (i >= n0 && weights[i]) vertices[i].weights = weights[i];
+    if (i >= n0 && masks[i] > 0) vertices[i].mask = masks[i];
+  }
+  const faces: Face[] = geo.faces.map((f, fi) => {
+    const uvs = uv.faces[fi].map((u) => ({ x: uv.values[u * 2], y: uv.values[u * 2 + 1] }));
+    f.forEach((v, k) => { if (v >= n0) vertices[v].uv = { ...uvs[k] }; });
+    const face = createFace(f.map((v) => vertices[v].id), uvs);
+    if (parents[fi].materialId) face.materialId = parents[fi].materialId;
+    if (parents[fi].faceSet) face.faceSet = parents[fi].faceSet;
+    if (parents[fi].hidden) face.hidden = true;
+    if (colors.length) {
+      face.colors = Object.fromEntries(colors.map(({ layerId, topo }) => [layerId, topo.faces[fi].map((c) => {
+        const o = c * 4;
+        return { r: topo.values[o], g: topo.values[o + 1], b: topo.values[o + 2], a: topo.values[o + 3] };
+      })]));
+    }
+    return face;
+  });
+  return { ...mesh, vertices, faces };
+}
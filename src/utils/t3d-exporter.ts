@@ -16,7 +16,7 @@ import {
   T3DLight,
   T3DCameraResource,
 } from '../types/t3d';
-import { Mesh, Material, SceneObject, ViewportState, Light, CameraResource } from '../types/geometry';
+import { Mesh, Material, SceneObject, ViewportState, Light, CameraResource, Curve3D, Lattice3D } from '../types/geometry';
 import { useParticlesStore } from '@/stores/particles-store';
 import { useAnimationStore } from '@/stores/animation-store';
 import { useForceFieldStore } from '@/stores/force-field-store';
@@ -52,12 +52,16 @@ function meshToT3D(mesh: Mesh): T3DMesh {
       normal: vector3ToT3D(vertex.normal),
       uv: vector2ToT3D(vertex.uv),
       selected: vertex.selected,
+      weights: vertex.weights ? { ...vertex.weights } : undefined,
+      mask: vertex.mask,
     })),
     edges: mesh.edges.map(edge => ({
       id: edge.id,
       vertexIds: edge.vertexIds,
       faceIds: [...edge.faceIds],
       selected: edge.selected,
+      sharp: edge.sharp || undefined,
+      crease: edge.crease || undefined,
     })),
     faces: mesh.faces.map(face => ({
       id: face.id,
@@ -65,6 +69,10 @@ function meshToT3D(mesh: Mesh): T3DMesh {
       normal: vector3ToT3D(face.normal),
       materialId: face.materialId,
       selected: face.selected,
+      normals: face.normals?.map(vector3ToT3D),
+      colors: face.colors ? Object.fromEntries(Object.entries(face.colors).map(([id, cs]) => [id, cs.map((c) => ({ ...c }))])) : undefined,
+      faceSet: face.faceSet,
+      hidden: face.hidden || undefined,
     })),
     transform: {
       position: vector3ToT3D(mesh.transform.position),
@@ -73,6 +81,12 @@ function meshToT3D(mesh: Mesh): T3DMesh {
     },
     visible: mesh.visible,
     locked: mesh.locked,
+    shading: mesh.shading,
+    autoSmoothAngle: mesh.autoSmoothAngle,
+    colorLayers: mesh.colorLayers?.map((l) => ({ ...l })),
+    activeColorLayerId: mesh.activeColorLayerId,
+    vertexGroups: mesh.vertexGroups?.map((g) => ({ ...g })),
+    activeVertexGroupId: mesh.activeVertexGroupId,
   };
 }
 
@@ -98,7 +112,7 @@ function sceneObjectToT3D(object: SceneObject): T3DSceneObject {
   const base: any = {
     id: object.id,
     name: object.name,
-  type: (['mesh', 'light', 'camera', 'group', 'force'] as const).includes(object.type as any) ? (object.type as any) : 'group',
+  type: (['mesh', 'light', 'camera', 'group', 'force', 'curve', 'lattice'] as const).includes(object.type as any) ? (object.type as any) : 'group',
     parentId: object.parentId,
     children: [...object.children],
     transform: {
@@ -115,6 +129,8 @@ function sceneObjectToT3D(object: SceneObject): T3DSceneObject {
   // Preserve editor component links for round-trips
   particleSystemId: (object as any).particleSystemId,
   forceFieldId: (object as any).forceFieldId,
+  curveId: object.curveId,
+  latticeId: object.latticeId,
   };
   if ((object as any).fluidSystemId) base.fluidSystemId = (object as any).fluidSystemId; // editor extension
   return base as T3DSceneObject;
@@ -194,6 +210,8 @@ export interface WorkspaceData {
   lights?: Record<string, Light>;
   cameras?: Record<string, CameraResource>;
   floorPlans?: Record<string, FloorPlanResource>;
+  curves?: Record<string, Curve3D>;
+  lattices?: Record<string, Lattice3D>;
 }
 // Note: Three export path has its own input type; no additional types needed here.
 
@@ -278,6 +296,12 @@ export async function exportToT3D(
   if (workspaceData.floorPlans && Object.keys(workspaceData.floorPlans).length > 0) {
     (t3dScene as any).floorPlans = workspaceData.floorPlans;
   }
+  if (workspaceData.curves && Object.keys(workspaceData.curves).length > 0) {
+    t3dScene.curves = workspaceData.curves;
+  }
+  if (workspaceData.lattices && Object.keys(workspaceData.lattices).length > 0) {
+    t3dScene.lattices = workspaceData.lattices;
+  }
 
   // Optional particle systems payload (editor extension only)
   try {
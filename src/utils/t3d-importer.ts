@@ -22,7 +22,9 @@ import {
   Vertex,
   Edge,
   Face,
-  Transform
+  Transform,
+  Curve3D,
+  Lattice3D
 } from '../types/geometry';
 import { useAnimationStore } from '@/stores/animation-store';
 import { useParticlesStore } from '@/stores/particles-store';
@@ -54,6 +56,8 @@ function t3dToMesh(t3dMesh: T3DMesh): Mesh {
     normal: t3dToVector3(vertex.normal),
     uv: t3dToVector2(vertex.uv),
     selected: vertex.selected,
+    ...(vertex.weights ? { weights: { ...vertex.weights } } : {}),
+    ...(vertex.mask ? { mask: vertex.mask } : {}),
   }));
 
   const edges: Edge[] = t3dMesh.edges.map(edge => ({
@@ -61,6 +65,8 @@ function t3dToMesh(t3dMesh: T3DMesh): Mesh {
     vertexIds: edge.vertexIds,
     faceIds: [...edge.faceIds],
     selected: edge.selected,
+    ...(edge.sharp ? { sharp: true } : {}),
+    ...(edge.crease ? { crease: edge.crease } : {}),
   }));
 
   const faces: Face[] = t3dMesh.faces.map(face => ({
@@ -69,6 +75,10 @@ function t3dToMesh(t3dMesh: T3DMesh): Mesh {
     normal: t3dToVector3(face.normal),
     materialId: face.materialId,
     selected: face.selected,
+    ...(face.normals ? { normals: face.normals.map(t3dToVector3) } : {}),
+    ...(face.colors ? { colors: Object.fromEntries(Object.entries(face.colors).map(([id, cs]) => [id, cs.map((c) => ({ ...c }))])) } : {}),
+    ...(face.faceSet ? { faceSet: face.faceSet } : {}),
+    ...(face.hidden ? { hidden: true } : {}),
   }));
 
   const transform: Transform = {
@@ -86,6 +96,10 @@ function t3dToMesh(t3dMesh: T3DMesh): Mesh {
     transform,
     visible: t3dMesh.visible,
     locked: t3dMesh.locked,
+    shading: t3dMesh.shading,
+    autoSmoothAngle: t3dMesh.autoSmoothAngle,
+    ...(t3dMesh.colorLayers?.length ? { colorLayers: t3dMesh.colorLayers.map((l) => ({ ...l })), activeColorLayerId: t3dMesh.activeColorLayerId } : {}),
+    ...(t3dMesh.vertexGroups?.length ? { vertexGroups: t3dMesh.vertexGroups.map((g) => ({ ...g })), activeVertexGroupId: t3dMesh.activeVertexGroupId } : {}),
   };
 }
 
@@ -131,6 +145,8 @@ function t3dToSceneObject(t3dObject: T3DSceneObject): SceneObject {
   particleSystemId: (t3dObject as any).particleSystemId,
   forceFieldId: (t3dObject as any).forceFieldId,
   fluidSystemId: (t3dObject as any).fluidSystemId,
+  curveId: t3dObject.curveId,
+  latticeId: t3dObject.latticeId,
   };
 }
 
@@ -175,6 +191,8 @@ export interface ImportedWorkspaceData {
   lights?: Record<string, any>;
   cameras?: Record<string, any>;
   floorPlans?: Record<string, FloorPlanResource>;
+  curves?: Record<string, Curve3D>;
+  lattices?: Record<string, Lattice3D>;
   metadata: {
     version: string;
     created: string;
@@ -245,6 +263,8 @@ export async function importFromT3D(file: File): Promise<ImportedWorkspaceData>
       lights: lightsRec,
       cameras: camsRec,
       floorPlans: (t3dScene as any).floorPlans,
+      curves: t3dScene.curves,
+      lattices: t3dScene.lattices,
       metadata: {
         version: `${t3dScene.metadata.version.major}.${t3dScene.metadata.version.minor}.${t3dScene.metadata.version.patch}`,
         created: t3dScene.metadata.created,
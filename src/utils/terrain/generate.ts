@@ -1,4 +1,4 @@
-import type { TerrainGraph, TerrainNode } from '@/types/terrain';
+import type { TerrainGraph, TerrainNode, TerrainNodeGraph } from '@/types/terrain';
 import { evaluatePerlin, evaluateVoronoi, evaluateMountain, evaluateCrater, evaluateCanyon, evaluateDunes, evaluateBadlands } from './terrain-nodes';
 
 
@@ -12,6 +12,59 @@ const evaluators: Record<string, (node: TerrainNode, u: number, v: number, world
   badlands: evaluateBadlands,
 };
 
+// Height after running the generator nodes in order from a base height (input/output pass through)
+export function evaluateTerrainNodes(nodes: TerrainNode[], u: number, v: number, worldW: number, worldH: number, baseH = 0): number {
+  let h = baseH;
+  for (const n of nodes) {
+    const evaluator = evaluators[n.type];
+    if (evaluator) h = evaluator(n, u, v, worldW, worldH, h);
+  }
+  return h;
+}
+
+// Compile a graph into a sampler for the value reaching its output node. Every node transforms the
+// sum of its incoming values (baseH when nothing is connected); hidden nodes pass it through and
+// edges closing a cycle are ignored. Null without an output node.
+export function compileTerrainGraph(graph: TerrainNodeGraph): ((u: number, v: number, worldW: number, worldH: number, baseH?: number) => number) | null {
+  const byId = new Map(graph.nodes.map((n) => [n.id, n] as const));
+  const output = graph.nodes.find((n) => n.type === 'output');
+  if (!output) return null;
+  const incoming = new Map<string, string[]>();
+  for (const e of graph.edges) {
+    if (!byId.has(e.source) || !byId.has(e.target)) continue;
+    const list = incoming.get(e.target);
+    if (list) list.push(e.source); else incoming.set(e.target, [e.source]);
+  }
+  // Post-order from the output, so every node comes after its inputs and the output is last
+  const order: TerrainNode[] = [];
+  const inputs: number[][] = [];
+  const slot = new Map<string, number>();
+  const visiting = new Set<string>();
+  const visit = (id: string): number | undefined => {
+    const known = slot.get(id);
+    if (known !== undefined || visiting.has(id)) return known;
+    visiting.add(id);
+    const ins = (incoming.get(id) ?? []).map(visit).filter((i): i is number => i !== undefined);
+    visiting.delete(id);
+    slot.set(id, order.length);
+    order.push(byId.get(id)!);
+    inputs.push(ins);
+    return order.length - 1;
+  };
+  visit(output.id);
+  const values = new Float64Array(order.length);
+  return (u, v, worldW, worldH, baseH = 0) => {
+    for (let i = 0; i < order.length; i++) {
+      let h = inputs[i].length ? 0 : baseH;
+      for (const j of inputs[i]) h += values[j];
+      const n = order[i];
+      const evaluator = n.hidden ? undefined : evaluators[n.type];
+      values[i] = evaluator ? evaluator(n, u, v, worldW, worldH, h) : h;
+    }
+    return values[order.length - 1];
+  };
+}
+
 // Create a stable signature for a terrain graph that ignores node positions and transient ids
 // This allows us to cache expensive bakes when only UI positions move.
 export function computeTerrainGraphSignature(graph: TerrainGraph, surfaceDetail?: {
@@ -136,14 +189,8 @@ export async function evaluateTerrainGraphToHeightmap(
     for (let x = 0; x < texW; x++) {
       const u = x / (texW - 1);
       // Map to local plane coordinates (0..worldW, 0..worldH)
-      let h = 0; // input provides base height 0 for now
-      for (const n of chain) {
-        if (n.type === 'input' || n.type === 'output') continue;
-        const evaluator = evaluators[n.type];
-        if (evaluator) {
-          h = evaluator(n, u, v, worldW, worldH, h);
-        }
-      }
+      // input provides base height 0 for now
+      let h = evaluateTerrainNodes(chain, u, v, worldW, worldH);
       
       // Apply surface details directly to heightmap for dramatic realism
       if (surfaceDetail && h > 0.01) { // Only apply to areas with some elevation
@@ -0,0 +1,22 @@
+import type { TerrainResource } from '@/types/terrain';
+
+// Bilinear sampler over a terrain's baked heightmap in terrain object space (x/z centred on the
+// origin, as laid out by buildGridMesh). Returns null outside the terrain or before the first bake.
+export function createTerrainHeightSampler(t: TerrainResource): ((x: number, z: number) => number | null) | null {
+  const height = t.maps?.height;
+  const w = t.textureResolution.width, h = t.textureResolution.height;
+  if (!height || height.length < w * h || w < 2 || h < 2) return null;
+  const scale = t.heightScale ?? 3.0;
+  return (x, z) => {
+    const u = x / Math.max(1e-6, t.width) + 0.5;
+    const v = z / Math.max(1e-6, t.height) + 0.5;
+    if (u < 0 || u > 1 || v < 0 || v > 1) return null;
+    const fx = u * (w - 1), fy = v * (h - 1);
+    const x0 = Math.min(w - 2, Math.floor(fx)), y0 = Math.min(h - 2, Math.floor(fy));
+    const tx = fx - x0, ty = fy - y0;
+    const i = y0 * w + x0;
+    const hx0 = height[i] * (1 - tx) + height[i + 1] * tx;
+    const hx1 = height[i + w] * (1 - tx) + height[i + w + 1] * tx;
+    return (hx0 * (1 - ty) + hx1 * ty) * scale;
+  };
+}
@@ -2,9 +2,11 @@
 
 // Utilities to convert internal scene to THREE.Scene and export via three.js exporters
 
-import { Scene, Group, Mesh as ThreeMesh, BufferGeometry, Float32BufferAttribute, Color as ThreeColor, MeshStandardMaterial, Vector3 as ThreeVector3 } from 'three/webgpu';
+import { Scene, Group, Mesh as ThreeMesh, BufferGeometry, Float32BufferAttribute, Color as ThreeColor, MeshStandardMaterial } from 'three/webgpu';
 import type { Mesh as GMesh, SceneObject, Material as GMaterial } from '@/types/geometry';
 import { convertQuadToTriangles } from '@/utils/geometry';
+import { computeCornerNormals } from '@/utils/normals';
+import { getActiveColorLayer, loopColor } from '@/utils/vertex-colors';
 
 export type ExportFormat = 'gltf' | 'glb' | 'obj' | 'stl';
 
@@ -62,14 +64,16 @@ export function buildThreeScene(input: ExportBuildInput): Scene {
     const normals: number[] = [];
 
     const uvs: number[] = [];
-    mesh.faces.forEach((face) => {
+    const cornerNormals = computeCornerNormals(mesh);
+    // Colour layers: the active one becomes 'color' (glTF COLOR_0), the rest color_1.. (COLOR_n)
+    const active = getActiveColorLayer(mesh);
+    const colorLayers = active ? [active, ...(mesh.colorLayers ?? []).filter((l) => l.id !== active.id)] : [];
+    const colors: number[][] = colorLayers.map(() => []);
+    mesh.faces.forEach((face, fi) => {
       const tris = convertQuadToTriangles(face.vertexIds);
       tris.forEach((tri) => {
         const v0 = vertexMap.get(tri[0])!; const v1 = vertexMap.get(tri[1])!; const v2 = vertexMap.get(tri[2])!;
-        const p0 = new ThreeVector3(v0.position.x, v0.position.y, v0.position.z);
-        const p1 = new ThreeVector3(v1.position.x, v1.position.y, v1.position.z);
-        const p2 = new ThreeVector3(v2.position.x, v2.position.y, v2.position.z);
-        const faceNormal = new ThreeVector3().subVectors(p1, p0).cross(new ThreeVector3().subVectors(p2, p0)).normalize();
+        const p0 = v0.position; const p1 = v1.position; const p2 = v2.position;
         positions.push(p0.x, p0.y, p0.z, p1.x, p1.y, p1.z, p2.x, p2.y, p2.z);
         // Loop UVs
         const loopUV = (vid: string) => {
@@ -79,11 +83,14 @@ export function buildThreeScene(input: ExportBuildInput): Scene {
         };
         const lu0 = loopUV(tri[0]); const lu1 = loopUV(tri[1]); const lu2 = loopUV(tri[2]);
         uvs.push(lu0.x, lu0.y, lu1.x, lu1.y, lu2.x, lu2.y);
-        if ((mesh.shading ?? 'flat') === 'smooth') {
-          const n0 = v0.normal; const n1 = v1.normal; const n2 = v2.normal;
-          normals.push(n0.x, n0.y, n0.z, n1.x, n1.y, n1.z, n2.x, n2.y, n2.z);
-        } else {
-          for (let i = 0; i < 3; i++) normals.push(faceNormal.x, faceNormal.y, faceNormal.z);
+        // Corner normals carry flat/smooth shading, sharp edges and custom normals
+        for (const vid of tri) {
+          const n = cornerNormals[fi][face.vertexIds.indexOf(vid)];
+          normals.push(n.x, n.y, n.z);
+          colorLayers.forEach((layer, li) => {
+            const c = loopColor(face, layer.id, vid);
+            colors[li].push(c.r, c.g, c.b, c.a);
+          });
         }
       });
     });
@@ -91,6 +98,7 @@ export function buildThreeScene(input: ExportBuildInput): Scene {
     geo.setAttribute('position', new Float32BufferAttribute(positions, 3));
   geo.setAttribute('normal', new Float32BufferAttribute(normals, 3));
   if (uvs.length) geo.setAttribute('uv', new Float32BufferAttribute(uvs, 2));
+    colors.forEach((arr, li) => geo.setAttribute(li === 0 ? 'color' : `color_${li}`, new Float32BufferAttribute(arr, 4)));
     geo.computeBoundingSphere();
 
     // Material
@@ -121,9 +129,10 @@ export function buildThreeScene(input: ExportBuildInput): Scene {
     const o = input.objects[id];
     if (!o || !o.render) continue; // export only renderable objects
     const parent = ensureParent(id)!;
-    if (o.type === 'mesh' && o.meshId) {
+    // Curves export their swept mesh (kept in sync by the curve store); without a profile it is empty
+    if ((o.type === 'mesh' || o.type === 'curve') && o.meshId) {
       const gm = input.meshes.get(o.meshId);
-      if (!gm) continue;
+      if (!gm || !gm.faces.length) continue;
       const m = buildThreeMesh(gm);
       // local transform already on group; just add mesh as child
       parent.add(m);
@@ -0,0 +1,65 @@
+import { Color } from 'three/webgpu';
+import type { Color4, ColorLayer, Face, Mesh } from '@/types/geometry';
+
+// Vertex colour layers: per face-corner RGBA stored on Face.colors[layerId]. Corners without data
+// read as white so new layers and freshly added faces start neutral.
+
+export type PaintBlend = 'mix' | 'add' | 'subtract' | 'multiply';
+
+export const WHITE: Color4 = { r: 1, g: 1, b: 1, a: 1 };
+
+export function getActiveColorLayer(mesh: Pick<Mesh, 'colorLayers' | 'activeColorLayerId'>): ColorLayer | undefined {
+  const layers = mesh.colorLayers ?? [];
+  return layers.find((l) => l.id === mesh.activeColorLayerId) ?? layers[0];
+}
+
+export const cornerColor = (face: Face, layerId: string, corner: number): Color4 =>
+  face.colors?.[layerId]?.[corner] ?? WHITE;
+
+// Colour pickers and CSS speak sRGB while Color4 is linear; THREE.Color converts on the way in and out
+export function hexToColor4(hex: string, a = 1): Color4 {
+  const c = new Color(hex);
+  return { r: c.r, g: c.g, b: c.b, a };
+}
+
+export const colorToHex = (c: { r: number; g: number; b: number }) => `#${new Color(c.r, c.g, c.b).getHexString()}`;
+
+const clamp01 = (x: number) => Math.max(0, Math.min(1, x));
+
+// Blend `src` over `dst` by factor t (0..1)
+export function blendColor(dst: Color4, src: Color4, mode: PaintBlend, t: number): Color4 {
+  const lerp = (a: number, b: number) => a + (b - a) * t;
+  switch (mode) {
+    case 'add':
+      return { r: clamp01(dst.r + src.r * t), g: clamp01(dst.g + src.g * t), b: clamp01(dst.b + src.b * t), a: dst.a };
+    case 'subtract':
+      return { r: clamp01(dst.r - src.r * t), g: clamp01(dst.g - src.g * t), b: clamp01(dst.b - src.b * t), a: dst.a };
+    case 'multiply':
+      return { r: lerp(dst.r, dst.r * src.r), g: lerp(dst.g, dst.g * src.g), b: lerp(dst.b, dst.b * src.b), a: dst.a };
+    default:
+      return { r: lerp(dst.r, src.r), g: lerp(dst.g, src.g), b: lerp(dst.b, src.b), a: lerp(dst.a, src.a) };
+  }
+}
+
+// Paint every corner of the weighted vertices (weights 0..1 by vertex id). Mutates faces in place.
+export function paintCorners(mesh: Mesh, layerId: string, weights: Map<string, number>, color: Color4, mode: PaintBlend) {
+  for (const face of mesh.faces) {
+    if (!face.vertexIds.some((id) => weights.has(id))) continue;
+    const corners = face.vertexIds.map((id, ci) => {
+      const w = weights.get(id);
+      const c = cornerColor(face, layerId, ci);
+      return w ? blendColor(c, color, mode, w) : c;
+    });
+    face.colors = { ...face.colors, [layerId]: corners };
+  }
+}
+
+export function fillColorLayer(mesh: Mesh, layerId: string, color: Color4) {
+  for (const face of mesh.faces) face.colors = { ...face.colors, [layerId]: face.vertexIds.map(() => ({ ...color })) };
+}
+
+// Colour of the corner of `face` at vertex `vid` (used when triangulating for buffers)
+export function loopColor(face: Face, layerId: string | undefined, vid: string): Color4 {
+  if (!layerId) return WHITE;
+  return cornerColor(face, layerId, face.vertexIds.indexOf(vid));
+}
@@ -0,0 +1,60 @@
+import type { Mesh, Vertex, VertexGroup } from '@/types/geometry';
+import type { PaintBlend } from '@/utils/vertex-colors';
+
+// Vertex groups: named 0..1 weight maps stored sparsely on Vertex.weights[groupId]. Vertices
+// without an entry are not in the group (weight 0).
+
+export function getActiveVertexGroup(mesh: Pick<Mesh, 'vertexGroups' | 'activeVertexGroupId'>): VertexGroup | undefined {
+  const groups = mesh.vertexGroups ?? [];
+  return groups.find((g) => g.id === mesh.activeVertexGroupId) ?? groups[0];
+}
+
+export const vertexWeight = (v: Pick<Vertex, 'weights'>, groupId: string) => v.weights?.[groupId] ?? 0;
+
+// Per-vertex factor for a modifier / brush restricted to a group; null when unrestricted (or the
+// group no longer exists) so callers can skip the lookup entirely.
+export function vertexGroupFactor(mesh: Pick<Mesh, 'vertexGroups'>, groupId: string | null | undefined, invert = false): ((v: Vertex) => number) | null {
+  if (!groupId || !mesh.vertexGroups?.some((g) => g.id === groupId)) return null;
+  return invert ? (v) => 1 - vertexWeight(v, groupId) : (v) => vertexWeight(v, groupId);
+}
+
+// Weights for a vertex interpolated between others (subdivision midpoints etc.)
+export function mixWeights(sources: Pick<Vertex, 'weights'>[]): Record<string, number> | undefined {
+  const out: Record<string, number> = {};
+  let any = false;
+  for (const s of sources) {
+    for (const [id, w] of Object.entries(s.weights ?? {})) {
+      out[id] = (out[id] ?? 0) + w / sources.length;
+      any = true;
+    }
+  }
+  return any ? out : undefined;
+}
+
+export function setVertexWeight(v: Vertex, groupId: string, weight: number) {
+  v.weights = { ...v.weights, [groupId]: Math.max(0, Math.min(1, weight)) };
+}
+
+export function removeVertexWeight(v: Vertex, groupId: string) {
+  if (!v.weights || !(groupId in v.weights)) return;
+  const rest = { ...v.weights };
+  delete rest[groupId];
+  if (Object.keys(rest).length) v.weights = rest; else delete v.weights;
+}
+
+// Brush blend for scalar weights; `value` is the target weight and t the brush factor (0..1)
+export function blendWeight(w: number, value: number, mode: PaintBlend, t: number): number {
+  let out: number;
+  if (mode === 'add') out = w + value * t;
+  else if (mode === 'subtract') out = w - value * t;
+  else if (mode === 'multiply') out = w * (1 - t + value * t);
+  else out = w + (value - w) * t;
+  return Math.max(0, Math.min(1, out));
+}
+
+// Heat-map colour for weight display: blue (0) → green (0.5) → red (1)
+export function weightToColor(w: number): { r: number; g: number; b: number } {
+  const x = Math.max(0, Math.min(1, w));
+  if (x < 0.5) return { r: 0, g: x * 2, b: 1 - x * 2 };
+  return { r: (x - 0.5) * 2, g: 1 - (x - 0.5) * 2, b: 0 };
+}
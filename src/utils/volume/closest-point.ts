@@ -0,0 +1,47 @@
+// Closest point on triangle abc to p (Ericson, Real-Time Collision Detection 5.1.5).
+// Returns the squared distance; when `bary` is given the barycentric weights of the closest
+// point for (a, b, c) are written into it. Scalar arguments keep hot loops allocation-free.
+export function closestPointOnTriangle(
+  px: number, py: number, pz: number,
+  ax: number, ay: number, az: number,
+  bx: number, by: number, bz: number,
+  cx: number, cy: number, cz: number,
+  bary?: Float64Array,
+): number {
+  const abx = bx - ax, aby = by - ay, abz = bz - az;
+  const acx = cx - ax, acy = cy - ay, acz = cz - az;
+  const apx = px - ax, apy = py - ay, apz = pz - az;
+  let u: number, v: number, w: number;
+  const result = () => {
+    if (bary) { bary[0] = u; bary[1] = v; bary[2] = w; }
+    const qx = ax * u + bx * v + cx * w, qy = ay * u + by * v + cy * w, qz = az * u + bz * v + cz * w;
+    const dx = px - qx, dy = py - qy, dz = pz - qz;
+    return dx * dx + dy * dy + dz * dz;
+  };
+  const d1 = abx * apx + aby * apy + abz * apz;
+  const d2 = acx * apx + acy * apy + acz * apz;
+  if (d1 <= 0 && d2 <= 0) { u = 1; v = 0; w = 0; return result(); }
+  const bpx = px - bx, bpy = py - by, bpz = pz - bz;
+  const d3 = abx * bpx + aby * bpy + abz * bpz;
+  const d4 = acx * bpx + acy * bpy + acz * bpz;
+  if (d3 >= 0 && d4 <= d3) { u = 0; v = 1; w = 0; return result(); }
+  const vc = d1 * d4 - d3 * d2;
+  if (vc <= 0 && d1 >= 0 && d3 <= 0) {
+    v = d1 / (d1 - d3); u = 1 - v; w = 0; return result();
+  }
+  const cpx = px - cx, cpy = py - cy, cpz = pz - cz;
+  const d5 = abx * cpx + aby * cpy + abz * cpz;
+  const d6 = acx * cpx + acy * cpy + acz * cpz;
+  if (d6 >= 0 && d5 <= d6) { u = 0; v = 0; w = 1; return result(); }
+  const vb = d5 * d2 - d1 * d6;
+  if (vb <= 0 && d2 >= 0 && d6 <= 0) {
+    w = d2 / (d2 - d6); u = 1 - w; v = 0; return result();
+  }
+  const va = d3 * d6 - d5 * d4;
+  if (va <= 0 && d4 - d3 >= 0 && d5 - d6 >= 0) {
+    w = (d4 - d3) / ((d4 - d3) + (d5 - d6)); v = 1 - w; u = 0; return result();
+  }
+  const denom = 1 / (va + vb + vc);
+  v = vb * denom; w = vc * denom; u = 1 - v - w;
+  return result();
+}
@@ -0,0 +1,151 @@
+import type { Face, Vertex } from '@/types/geometry';
+import { createFace, createVertex, vec3 } from '@/utils/geometry';
+import { gridIndex, type VolumeGrid } from './grid';
+
+// Cube corner offsets and the 12 cube edges as corner pairs
+const CORNERS: [number, number, number][] = [
+  [0, 0, 0], [1, 0, 0], [0, 1, 0], [1, 1, 0],
+  [0, 0, 1], [1, 0, 1], [0, 1, 1], [1, 1, 1],
+];
+const CUBE_EDGES: [number, number][] = [
+  [0, 1], [2, 3], [4, 5], [6, 7],
+  [0, 2], [1, 3], [4, 6], [5, 7],
+  [0, 4], [1, 5], [2, 6], [3, 7],
+];
+
+// Dual contouring (surface nets) of the zero level.
+// Every cell the surface passes through gets one vertex at the mean of its edge crossings, and
+// every grid edge with a sign change emits a quad joining the four cells around it. The grid is
+// padded so the field is positive at its border, which makes the result closed (watertight).
+export function extractSurface(g: VolumeGrid): { vertices: Vertex[]; faces: Face[] } {
+  const { nx, ny, nz, origin: o, voxelSize: s, values } = g;
+  const cx = nx - 1, cy = ny - 1, cz = nz - 1;
+  const cellVertex = new Int32Array(Math.max(0, cx * cy * cz)).fill(-1);
+  const cellIndex = (i: number, j: number, k: number) => i + cx * (j + cy * k);
+  const vertices: Vertex[] = [];
+
+  const corner = new Float32Array(8);
+  for (let k = 0; k < cz; k++) {
+    for (let j = 0; j < cy; j++) {
+      for (let i = 0; i < cx; i++) {
+        let mask = 0;
+        for (let c = 0; c < 8; c++) {
+          const [di, dj, dk] = CORNERS[c];
+          corner[c] = values[gridIndex(g, i + di, j + dj, k + dk)];
+          if (corner[c] < 0) mask |= 1 << c;
+        }
+        if (mask === 0 || mask === 255) continue;
+        let px = 0, py = 0, pz = 0, n = 0;
+        for (const [a, b] of CUBE_EDGES) {
+          const va = corner[a], vb = corner[b];
+          if ((va < 0) === (vb < 0)) continue;
+          const t = va / (va - vb);
+          const [ai, aj, ak] = CORNERS[a], [bi, bj, bk] = CORNERS[b];
+          px += ai + (bi - ai) * t; py += aj + (bj - aj) * t; pz += ak + (bk - ak) * t;
+          n++;
+        }
+        const v = createVertex(vec3(o.x + (i + px / n) * s, o.y + (j + py / n) * s, o.z + (k + pz / n) * s), vec3(0, 0, 0), { x: 0, y: 0 });
+        cellVertex[cellIndex(i, j, k)] = vertices.length;
+        vertices.push(v);
+      }
+    }
+  }
+
+  const faces: Face[] = [];
+  const emit = (cells: [number, number, number][], flip: boolean) => {
+    const idx = cells.map(([i, j, k]) => cellVertex[cellIndex(i, j, k)]);
+    if (idx.some((v) => v < 0)) return;
+    if (flip) idx.reverse();
+    faces.push(createFace(idx.map((v) => vertices[v].id)));
+  };
+
+  // Quads are wound so their normal points from the inside (negative) sample to the outside one
+  for (let k = 1; k < cz; k++) {
+    for (let j = 1; j < cy; j++) {
+      for (let i = 0; i < cx; i++) {
+        const a = values[gridIndex(g, i, j, k)], b = values[gridIndex(g, i + 1, j, k)];
+        if ((a < 0) === (b < 0)) continue;
+        emit([[i, j - 1, k - 1], [i, j, k - 1], [i, j, k], [i, j - 1, k]], !(a < 0));
+      }
+    }
+  }
+  for (let k = 1; k < cz; k++) {
+    for (let j = 0; j < cy; j++) {
+      for (let i = 1; i < cx; i++) {
+        const a = values[gridIndex(g, i, j, k)], b = values[gridIndex(g, i, j + 1, k)];
+        if ((a < 0) === (b < 0)) continue;
+        emit([[i - 1, j, k - 1], [i - 1, j, k], [i, j, k], [i, j, k - 1]], !(a < 0));
+      }
+    }
+  }
+  for (let k = 0; k < cz; k++) {
+    for (let j = 1; j < cy; j++) {
+      for (let i = 1; i < cx; i++) {
+        const a = values[gridIndex(g, i, j, k)], b = values[gridIndex(g, i, j, k + 1)];
+        if ((a < 0) === (b < 0)) continue;
+        emit([[i - 1, j - 1, k], [i, j - 1, k], [i, j, k], [i - 1, j, k]], !(a < 0));
+      }
+    }
+  }
+
+  // Drop vertices of cells that never got a quad (can happen at the grid border)
+  const used = new Set<string>();
+  for (const f of faces) f.vertexIds.forEach((id) => used.add(id));
+  return { vertices: vertices.filter((v) => used.has(v.id)), faces };
+}
+
+// Voxel blocks: every inside sample becomes a cube and the faces between inside and outside
+// samples are emitted as quads, so the result looks like stacked voxels.
+export function extractBlocks(g: VolumeGrid): { vertices: Vertex[]; faces: Face[] } {
+  const { nx, ny, nz, origin: o, voxelSize: s, values } = g;
+  // Cube corners live on the dual lattice, half a voxel off the samples
+  const cornerIndex = new Int32Array((nx + 1) * (ny + 1) * (nz + 1)).fill(-1);
+  const vertices: Vertex[] = [];
+  const cornerId = (ci: number, cj: number, ck: number) => {
+    const key = ci + (nx + 1) * (cj + (ny + 1) * ck);
+    if (cornerIndex[key] < 0) {
+      cornerIndex[key] = vertices.length;
+      vertices.push(createVertex(vec3(o.x + (ci - 0.5) * s, o.y + (cj - 0.5) * s, o.z + (ck - 0.5) * s), vec3(0, 0, 0), { x: 0, y: 0 }));
+    }
+    return vertices[cornerIndex[key]].id;
+  };
+  const faces: Face[] = [];
+  const emit = (quad: [number, number, number][], flip: boolean) => {
+    const ids = quad.map(([i, j, k]) => cornerId(i, j, k));
+    faces.push(createFace(flip ? ids.reverse() : ids));
+  };
+  for (let k = 0; k < nz; k++) {
+    for (let j = 0; j < ny; j++) {
+      for (let i = 0; i < nx; i++) {
+        const inside = values[gridIndex(g, i, j, k)] < 0;
+        if (i + 1 < nx && inside !== values[gridIndex(g, i + 1, j, k)] < 0) {
+          emit([[i + 1, j, k], [i + 1, j + 1, k], [i + 1, j + 1, k + 1], [i + 1, j, k + 1]], !inside);
+        }
+        if (j + 1 < ny && inside !== values[gridIndex(g, i, j + 1, k)] < 0) {
+          emit([[i, j + 1, k], [i, j + 1, k + 1], [i + 1, j + 1, k + 1], [i + 1, j + 1, k]], !inside);
+        }
+        if (k + 1 < nz && inside !== values[gridIndex(g, i, j, k + 1)] < 0) {
+          emit([[i, j, k + 1], [i + 1, j, k + 1], [i + 1, j + 1, k + 1], [i, j + 1, k + 1]], !inside);
+        }
+      }
+    }
+  }
+  return { vertices, faces };
+}
+
+// Box-project face corner UVs: each face drops the axis its normal is closest to.
+// Done after any simplification so UV discontinuities don't constrain it.
+export function boxProjectUvs(vertices: Vertex[], faces: Face[], scale = 1) {
+  const pos = new Map(vertices.map((v) => [v.id, v.position] as const));
+  for (const f of faces) {
+    const ps = f.vertexIds.map((id) => pos.get(id)!);
+    let nx = 0, ny = 0, nz = 0;
+    for (let i = 0; i < ps.length; i++) {
+      const a = ps[i], b = ps[(i + 1) % ps.length];
+      nx += (a.y - b.y) * (a.z + b.z); ny += (a.z - b.z) * (a.x + b.x); nz += (a.x - b.x) * (a.y + b.y);
+    }
+    const ax = Math.abs(nx), ay = Math.abs(ny), az = Math.abs(nz);
+    f.uvs = ps.map((p) => (ax >= ay && ax >= az ? { x: p.z * scale, y: p.y * scale }
+      : ay >= az ? { x: p.x * scale, y: p.z * scale } : { x: p.x * scale, y: p.y * scale }));
+  }
+}
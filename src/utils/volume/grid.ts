@@ -0,0 +1,214 @@
+import type { Matrix4 } from 'three/webgpu';
+import type { Mesh, Vector3 } from '@/types/geometry';
+import { convertQuadToTriangles } from '@/utils/geometry';
+import { transformPoint } from '@/utils/world-transform';
+import { closestPointOnTriangle } from './closest-point';
+
+// Scalar field sampled on a regular grid. Point (i,j,k) sits at origin + (i,j,k) * voxelSize.
+// Values are signed: negative inside, positive outside, the surface is the zero level.
+export interface VolumeGrid {
+  nx: number;
+  ny: number;
+  nz: number;
+  origin: Vector3;
+  voxelSize: number;
+  values: Float32Array;
+}
+
+export interface MetaballSample {
+  position: Vector3;
+  radius: number;
+  strength: number;
+}
+
+// Upper bounds on cells along the longest axis and on grid samples overall; the voxel size is
+// coarsened to stay under both, so a small voxel size on large bounds can't stall the app
+export const MAX_GRID_RESOLUTION = 160;
+export const MAX_GRID_SAMPLES = 2_000_000;
+
+export const gridIndex = (g: VolumeGrid, i: number, j: number, k: number) => i + g.nx * (j + g.ny * k);
+
+// Allocate a grid covering [min,max] plus `pad` on every side, filled with `fill`
+export function createGrid(min: Vector3, max: Vector3, voxelSize: number, pad: number, fill: number): VolumeGrid {
+  const longest = Math.max(max.x - min.x, max.y - min.y, max.z - min.z) + pad * 2;
+  let size = Math.max(1e-4, voxelSize, longest / MAX_GRID_RESOLUTION);
+  // One extra sample per axis to make room for the origin shift below
+  const extent = (s: number) => ({
+    nx: Math.ceil((max.x - min.x + pad * 2) / s) + 2,
+    ny: Math.ceil((max.y - min.y + pad * 2) / s) + 2,
+    nz: Math.ceil((max.z - min.z + pad * 2) / s) + 2,
+  });
+  let dims = extent(size);
+  while (dims.nx * dims.ny * dims.nz > MAX_GRID_SAMPLES) {
+    size *= 1.25;
+    dims = extent(size);
+  }
+  const values = new Float32Array(dims.nx * dims.ny * dims.nz).fill(fill);
+  // Start a fraction of a voxel off the bounds so axis-aligned input faces don't sit exactly on
+  // sample planes (zero samples make the sign ambiguous and the extracted surface non-manifold)
+  const shift = size * 0.371;
+  return { ...dims, origin: { x: min.x - pad - shift, y: min.y - pad - shift, z: min.z - pad - shift }, voxelSize: size, values };
+}
+
+// Signed distance field of a triangle mesh.
+// Distances are exact inside a narrow band of `band` world units around the surface and clamped
+// to ±band elsewhere. Inside/outside comes from the winding number along +X rays, so overlapping
+// closed pieces are fused into one solid (union) instead of cancelling out like even-odd parity.
+export function meshToSdf(mesh: Mesh, voxelSize: number, band: number, matrix?: Matrix4): VolumeGrid | null {
+  const vmap = new Map(mesh.vertices.map((v) => [v.id, matrix ? transformPoint(matrix, v.position) : v.position] as const));
+  const tri: number[] = [];
+  for (const f of mesh.faces) {
+    for (const t of convertQuadToTriangles(f.vertexIds)) {
+      const ps = t.map((id) => vmap.get(id));
+      if (ps.some((p) => !p)) continue;
+      for (const p of ps as Vector3[]) tri.push(p.x, p.y, p.z);
+    }
+  }
+  if (tri.length === 0) return null;
+  const min = { x: Infinity, y: Infinity, z: Infinity };
+  const max = { x: -Infinity, y: -Infinity, z: -Infinity };
+  for (let i = 0; i < tri.length; i += 3) {
+    min.x = Math.min(min.x, tri[i]); min.y = Math.min(min.y, tri[i + 1]); min.z = Math.min(min.z, tri[i + 2]);
+    max.x = Math.max(max.x, tri[i]); max.y = Math.max(max.y, tri[i + 1]); max.z = Math.max(max.z, tri[i + 2]);
+  }
+  const g = createGrid(min, max, voxelSize, band + voxelSize * 2, band);
+  const s = g.voxelSize;
+  const { nx, ny, nz, origin: o } = g;
+  const clampI = (v: number, n: number) => Math.max(0, Math.min(n - 1, v));
+
+  // Unsigned distance in the narrow band around each triangle
+  const dist = g.values;
+  const bandSq = band * band;
+  for (let t = 0; t < tri.length; t += 9) {
+    const ax = tri[t], ay = tri[t + 1], az = tri[t + 2];
+    const bx = tri[t + 3], by = tri[t + 4], bz = tri[t + 5];
+    const cx = tri[t + 6], cy = tri[t + 7], cz = tri[t + 8];
+    const i0 = clampI(Math.floor((Math.min(ax, bx, cx) - band - o.x) / s), nx), i1 = clampI(Math.ceil((Math.max(ax, bx, cx) + band - o.x) / s), nx);
+    const j0 = clampI(Math.floor((Math.min(ay, by, cy) - band - o.y) / s), ny), j1 = clampI(Math.ceil((Math.max(ay, by, cy) + band - o.y) / s), ny);
+    const k0 = clampI(Math.floor((Math.min(az, bz, cz) - band - o.z) / s), nz), k1 = clampI(Math.ceil((Math.max(az, bz, cz) + band - o.z) / s), nz);
+    for (let k = k0; k <= k1; k++) {
+      const pz = o.z + k * s;
+      for (let j = j0; j <= j1; j++) {
+        const py = o.y + j * s;
+        let idx = i0 + nx * (j + ny * k);
+        for (let i = i0; i <= i1; i++, idx++) {
+          const d2 = closestPointOnTriangle(o.x + i * s, py, pz, ax, ay, az, bx, by, bz, cx, cy, cz);
+          if (d2 < bandSq) {
+            const d = Math.sqrt(d2);
+            if (d < dist[idx]) dist[idx] = d;
+          }
+        }
+      }
+    }
+  }
+
+  // Winding number per grid row: collect signed ray crossings, then sweep along X.
+  // Rays are nudged off the lattice so they never pass exactly through shared triangle edges.
+  const rows: number[][] = Array.from({ length: ny * nz }, () => []);
+  const jy = s * 1.234e-4, jz = s * 2.718e-4;
+  for (let t = 0; t < tri.length; t += 9) {
+    const ay = tri[t + 1], az = tri[t + 2];
+    const by = tri[t + 4], bz = tri[t + 5];
+    const cy = tri[t + 7], cz = tri[t + 8];
+    const det = (by - ay) * (cz - az) - (bz - az) * (cy - ay); // normal.x * 2 * area
+    if (Math.abs(det) < 1e-20) continue;
+    const j0 = clampI(Math.floor((Math.min(ay, by, cy) - o.y) / s), ny), j1 = clampI(Math.ceil((Math.max(ay, by, cy) - o.y) / s), ny);
+    const k0 = clampI(Math.floor((Math.min(az, bz, cz) - o.z) / s), nz), k1 = clampI(Math.ceil((Math.max(az, bz, cz) - o.z) / s), nz);
+    // Entering a solid along +X means crossing a face whose normal points towards -X
+    const dir = det < 0 ? 1 : -1;
+    for (let k = k0; k <= k1; k++) {
+      const pz = o.z + k * s + jz;
+      for (let j = j0; j <= j1; j++) {
+        const py = o.y + j * s + jy;
+        const w0 = ((by - py) * (cz - pz) - (bz - pz) * (cy - py)) / det;
+        const w1 = ((cy - py) * (az - pz) - (cz - pz) * (ay - py)) / det;
+        const w2 = 1 - w0 - w1;
+        if (w0 < 0 || w1 < 0 || w2 < 0) continue;
+        const x = w0 * tri[t] + w1 * tri[t + 3] + w2 * tri[t + 6];
+        rows[j + ny * k].push(x, dir);
+      }
+    }
+  }
+  for (let k = 0; k < nz; k++) {
+    for (let j = 0; j < ny; j++) {
+      const flat = rows[j + ny * k];
+      if (!flat.length) continue;
+      const crossings: [number, number][] = [];
+      for (let c = 0; c < flat.length; c += 2) crossings.push([flat[c], flat[c + 1]]);
+      crossings.sort((a, b) => a[0] - b[0]);
+      let winding = 0, c = 0;
+      let idx = nx * (j + ny * k);
+      for (let i = 0; i < nx; i++, idx++) {
+        const x = o.x + i * s;
+        while (c < crossings.length && crossings[c][0] < x) winding += crossings[c++][1];
+        if (winding > 0) dist[idx] = -dist[idx];
+      }
+    }
+  }
+  return g;
+}
+
+// Metaball field (Wyvill falloff). Stored as iso - density so the surface is again the zero level.
+export function metaballsToGrid(balls: MetaballSample[], voxelSize: number, iso: number): VolumeGrid | null {
+  if (!balls.length) return null;
+  const min = { x: Infinity, y: Infinity, z: Infinity };
+  const max = { x: -Infinity, y: -Infinity, z: -Infinity };
+  for (const b of balls) {
+    min.x = Math.min(min.x, b.position.x - b.radius); min.y = Math.min(min.y, b.position.y - b.radius); min.z = Math.min(min.z, b.position.z - b.radius);
+    max.x = Math.max(max.x, b.position.x + b.radius); max.y = Math.max(max.y, b.position.y + b.radius); max.z = Math.max(max.z, b.position.z + b.radius);
+  }
+  const g = createGrid(min, max, voxelSize, voxelSize * 2, 0);
+  const { nx, ny, nz, origin: o, voxelSize: s, values } = g;
+  for (const b of balls) {
+    const r2 = b.radius * b.radius;
+    const i0 = Math.max(0, Math.floor((b.position.x - b.radius - o.x) / s)), i1 = Math.min(nx - 1, Math.ceil((b.position.x + b.radius - o.x) / s));
+    const j0 = Math.max(0, Math.floor((b.position.y - b.radius - o.y) / s)), j1 = Math.min(ny - 1, Math.ceil((b.position.y + b.radius - o.y) / s));
+    const k0 = Math.max(0, Math.floor((b.position.z - b.radius - o.z) / s)), k1 = Math.min(nz - 1, Math.ceil((b.position.z + b.radius - o.z) / s));
+    for (let k = k0; k <= k1; k++) {
+      const dz = o.z + k * s - b.position.z;
+      for (let j = j0; j <= j1; j++) {
+        const dy = o.y + j * s - b.position.y;
+        let idx = i0 + nx * (j + ny * k);
+        for (let i = i0; i <= i1; i++, idx++) {
+          const dx = o.x + i * s - b.position.x;
+          const q = (dx * dx + dy * dy + dz * dz) / r2;
+          if (q < 1) { const f = 1 - q; values[idx] += b.strength * f * f * f; }
+        }
+      }
+    }
+  }
+  for (let i = 0; i < values.length; i++) values[i] = iso - values[i];
+  return g;
+}
+
+// Shift the zero level: positive grows the surface outward
+export function offsetGrid(g: VolumeGrid, offset: number) {
+  if (!offset) return;
+  for (let i = 0; i < g.values.length; i++) g.values[i] -= offset;
+}
+
+// Six-neighbour mean filter; rounds off voxel stair-stepping while keeping the field closed
+export function smoothGrid(g: VolumeGrid, iterations: number) {
+  const { nx, ny, nz } = g;
+  let src: Float32Array = g.values;
+  let dst: Float32Array = new Float32Array(src.length);
+  for (let it = 0; it < iterations; it++) {
+    for (let k = 0; k < nz; k++) {
+      for (let j = 0; j < ny; j++) {
+        for (let i = 0; i < nx; i++) {
+          const idx = i + nx * (j + ny * k);
+          let sum = src[idx] * 2, n = 2;
+          if (i > 0) { sum += src[idx - 1]; n++; }
+          if (i < nx - 1) { sum += src[idx + 1]; n++; }
+          if (j > 0) { sum += src[idx - nx]; n++; }
+          if (j < ny - 1) { sum += src[idx + nx]; n++; }
+          if (k > 0) { sum += src[idx - nx * ny]; n++; }
+          if (k < nz - 1) { sum += src[idx + nx * ny]; n++; }
+          dst[idx] = sum / n;
+        }
+      }
+    }
+    [src, dst] = [dst, src];
+  }
+  g.values = src;
+}
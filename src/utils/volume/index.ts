@@ -0,0 +1,5 @@
+export * from './grid';
+export * from './extract';
+export * from './project';
+export * from './closest-point';
+export * from './preview';
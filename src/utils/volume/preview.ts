@@ -0,0 +1,65 @@
+import type { Mesh } from '@/types/geometry';
+
+// Viewport results of Volume to Mesh, built after edits settle instead of inside the render that
+// evaluates the stack. Keyed by modifier id; `input` and `key` identify what a result was built from.
+export interface VolumePreview {
+  input: string;
+  key: string;
+  result: Mesh;
+}
+
+const REBUILD_DELAY_MS = 250;
+
+// Content hash of a mesh's positions and face topology, for inputs that are rebuilt (cloned) on
+// every stack evaluation and so can't be matched by identity
+export function meshSignature(mesh: Mesh): string {
+  const f = new Float64Array(1);
+  const u = new Uint32Array(f.buffer);
+  let h1 = 0x811c9dc5, h2 = 0x9747b28c;
+  const mix = (x: number) => { h1 = Math.imul(h1 ^ x, 0x01000193); h2 = Math.imul(h2 ^ x, 0x5bd1e995); };
+  const index = new Map<string, number>();
+  mesh.vertices.forEach((v, i) => {
+    index.set(v.id, i);
+    for (const c of [v.position.x, v.position.y, v.position.z]) { f[0] = c; mix(u[0]); mix(u[1]); }
+  });
+  for (const face of mesh.faces) {
+    mix(face.vertexIds.length);
+    for (const id of face.vertexIds) mix(index.get(id) ?? -1);
+  }
+  return `${mesh.vertices.length}/${mesh.faces.length}/${(h1 >>> 0).toString(36)}${(h2 >>> 0).toString(36)}`;
+}
+
+const timers = new Map<string, ReturnType<typeof setTimeout>>();
+const listeners = new Set<() => void>();
+// Replaced (not mutated) on every rebuild so subscribers can compare it
+let snapshot: ReadonlyMap<string, VolumePreview> = new Map();
+
+export const getVolumePreviews = () => snapshot;
+
+export function subscribeVolumePreviews(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+// (Re)start the rebuild timer for a modifier; only the last request within the delay runs.
+// A rebuild that yields the same surface only re-tags the existing entry, so nothing re-renders.
+export function scheduleVolumePreview(modifierId: string, input: string, key: string, build: () => Mesh) {
+  clearTimeout(timers.get(modifierId));
+  timers.set(modifierId, setTimeout(() => {
+    timers.delete(modifierId);
+    let result: Mesh;
+    try {
+      result = build();
+    } catch {
+      return;
+    }
+    const prev = snapshot.get(modifierId);
+    if (prev && meshSignature(prev.result) === meshSignature(result)) {
+      prev.input = input;
+      prev.key = key;
+      return;
+    }
+    snapshot = new Map(snapshot).set(modifierId, { input, key, result });
+    listeners.forEach((l) => l());
+  }, REBUILD_DELAY_MS));
+}
@@ -0,0 +1,159 @@
+import type { Mesh, Vector2, Vector3 } from '@/types/geometry';
+import { convertQuadToTriangles } from '@/utils/geometry';
+import { closestPointOnTriangle } from './closest-point';
+
+export interface SurfaceHit {
+  tri: number;
+  point: Vector3;
+  bary: [number, number, number];
+}
+
+export interface SurfaceProjector {
+  // Closest point on the surface; with `chart`, only triangles of that UV chart are considered
+  closest: (p: Vector3, chart?: number) => SurfaceHit | null;
+  uvAt: (hit: SurfaceHit) => Vector2;
+  materialAt: (hit: SurfaceHit) => string | undefined;
+  // UV island id of a triangle: triangles sharing an edge with matching corner UVs and material
+  chartOf: (tri: number) => number;
+}
+
+// Cap per axis for the triangle bucket grid
+const MAX_CELLS = 96;
+
+// Closest-point queries against a mesh surface, bucketed in a uniform grid.
+// Used to reproject rebuilt topology onto the original shape and to carry over its attributes.
+export function createSurfaceProjector(mesh: Mesh): SurfaceProjector | null {
+  const index = new Map(mesh.vertices.map((v, i) => [v.id, i] as const));
+  const pos: number[] = [];
+  const uv: number[] = [];
+  const mat: (string | undefined)[] = [];
+  const corners: number[] = [];
+  for (const f of mesh.faces) {
+    for (const t of convertQuadToTriangles(f.vertexIds)) {
+      const ids = t.map((id) => index.get(id));
+      if (ids.some((i) => i === undefined)) continue;
+      for (let k = 0; k < 3; k++) {
+        const v = mesh.vertices[ids[k]!];
+        pos.push(v.position.x, v.position.y, v.position.z);
+        const c = f.uvs?.[f.vertexIds.indexOf(t[k])] ?? v.uv;
+        uv.push(c.x, c.y);
+        corners.push(ids[k]!);
+      }
+      mat.push(f.materialId);
+    }
+  }
+  const triCount = mat.length;
+  if (!triCount) return null;
+
+  // Bucket grid
+  let minX = Infinity, minY = Infinity, minZ = Infinity, maxX = -Infinity, maxY = -Infinity, maxZ = -Infinity;
+  let edgeSum = 0;
+  for (let t = 0; t < triCount; t++) {
+    for (let k = 0; k < 3; k++) {
+      const o = t * 9 + k * 3;
+      minX = Math.min(minX, pos[o]); minY = Math.min(minY, pos[o + 1]); minZ = Math.min(minZ, pos[o + 2]);
+      maxX = Math.max(maxX, pos[o]); maxY = Math.max(maxY, pos[o + 1]); maxZ = Math.max(maxZ, pos[o + 2]);
+      const n = t * 9 + ((k + 1) % 3) * 3;
+      edgeSum += Math.hypot(pos[n] - pos[o], pos[n + 1] - pos[o + 1], pos[n + 2] - pos[o + 2]);
+    }
+  }
+  const extent = Math.max(maxX - minX, maxY - minY, maxZ - minZ, 1e-6);
+  const cell = Math.max(edgeSum / (triCount * 3), extent / MAX_CELLS);
+  const nx = Math.floor((maxX - minX) / cell) + 1;
+  const ny = Math.floor((maxY - minY) / cell) + 1;
+  const nz = Math.floor((maxZ - minZ) / cell) + 1;
+  const buckets: (number[] | undefined)[] = new Array(nx * ny * nz);
+  const cellOf = (v: number, min: number, n: number) => Math.max(0, Math.min(n - 1, Math.floor((v - min) / cell)));
+  for (let t = 0; t < triCount; t++) {
+    const o = t * 9;
+    const i0 = cellOf(Math.min(pos[o], pos[o + 3], pos[o + 6]), minX, nx), i1 = cellOf(Math.max(pos[o], pos[o + 3], pos[o + 6]), minX, nx);
+    const j0 = cellOf(Math.min(pos[o + 1], pos[o + 4], pos[o + 7]), minY, ny), j1 = cellOf(Math.max(pos[o + 1], pos[o + 4], pos[o + 7]), minY, ny);
+    const k0 = cellOf(Math.min(pos[o + 2], pos[o + 5], pos[o + 8]), minZ, nz), k1 = cellOf(Math.max(pos[o + 2], pos[o + 5], pos[o + 8]), minZ, nz);
+    for (let k = k0; k <= k1; k++) for (let j = j0; j <= j1; j++) for (let i = i0; i <= i1; i++) {
+      const b = i + nx * (j + ny * k);
+      (buckets[b] ??= []).push(t);
+    }
+  }
+
+  // UV charts via union-find over edges whose endpoints share UVs on both sides
+  const parent = new Int32Array(triCount).map((_, i) => i);
+  const find = (x: number): number => { while (parent[x] !== x) { parent[x] = parent[parent[x]]; x = parent[x]; } return x; };
+  const edgeOwner = new Map<string, number>();
+  const cornerUv = (t: number, vi: number) => {
+    for (let k = 0; k < 3; k++) if (corners[t * 3 + k] === vi) return [uv[t * 6 + k * 2], uv[t * 6 + k * 2 + 1]];
+    return [NaN, NaN];
+  };
+  for (let t = 0; t < triCount; t++) {
+    for (let k = 0; k < 3; k++) {
+      const a = corners[t * 3 + k], b = corners[t * 3 + (k + 1) % 3];
+      const key = a < b ? `${a}|${b}` : `${b}|${a}`;
+      const other = edgeOwner.get(key);
+      if (other === undefined) { edgeOwner.set(key, t); continue; }
+      if (mat[other] !== mat[t]) continue;
+      const ua = cornerUv(t, a), ub = cornerUv(t, b), oa = cornerUv(other, a), ob = cornerUv(other, b);
+      if (Math.abs(ua[0] - oa[0]) + Math.abs(ua[1] - oa[1]) + Math.abs(ub[0] - ob[0]) + Math.abs(ub[1] - ob[1]) < 1e-6) {
+        parent[find(t)] = find(other);
+      }
+    }
+  }
+  const chartOf = (t: number) => find(t);
+
+  const bary = new Float64Array(3);
+  const closest = (p: Vector3, chart?: number): SurfaceHit | null => {
+    const ci = cellOf(p.x, minX, nx), cj = cellOf(p.y, minY, ny), ck = cellOf(p.z, minZ, nz);
+    // Distance from p to the grid box, so rings are counted from where p actually enters it
+    const outside = Math.hypot(
+      Math.max(0, minX - p.x, p.x - maxX), Math.max(0, minY - p.y, p.y - maxY), Math.max(0, minZ - p.z, p.z - maxZ),
+    );
+    let best = Infinity, bestTri = -1;
+    const bestBary: [number, number, number] = [1, 0, 0];
+    const maxRing = Math.max(nx, ny, nz);
+    const seen = new Set<number>();
+    for (let r = 0; r <= maxRing; r++) {
+      for (let k = ck - r; k <= ck + r; k++) {
+        if (k < 0 || k >= nz) continue;
+        for (let j = cj - r; j <= cj + r; j++) {
+          if (j < 0 || j >= ny) continue;
+          for (let i = ci - r; i <= ci + r; i++) {
+            if (i < 0 || i >= nx) continue;
+            if (Math.max(Math.abs(i - ci), Math.abs(j - cj), Math.abs(k - ck)) !== r) continue;
+            const list = buckets[i + nx * (j + ny * k)];
+            if (!list) continue;
+            for (const t of list) {
+              if (seen.has(t)) continue;
+              seen.add(t);
+              if (chart !== undefined && find(t) !== chart) continue;
+              const o = t * 9;
+              const d = closestPointOnTriangle(p.x, p.y, p.z, pos[o], pos[o + 1], pos[o + 2], pos[o + 3], pos[o + 4], pos[o + 5], pos[o + 6], pos[o + 7], pos[o + 8], bary);
+              if (d < best) { best = d; bestTri = t; bestBary[0] = bary[0]; bestBary[1] = bary[1]; bestBary[2] = bary[2]; }
+            }
+          }
+        }
+      }
+      // Everything not visited yet is at least r cells away
+      if (bestTri >= 0 && Math.sqrt(best) <= outside + r * cell) break;
+    }
+    if (bestTri < 0) return null;
+    const o = bestTri * 9;
+    const [u, v, w] = bestBary;
+    return {
+      tri: bestTri,
+      bary: [u, v, w],
+      point: {
+        x: pos[o] * u + pos[o + 3] * v + pos[o + 6] * w,
+        y: pos[o + 1] * u + pos[o + 4] * v + pos[o + 7] * w,
+        z: pos[o + 2] * u + pos[o + 5] * v + pos[o + 8] * w,
+      },
+    };
+  };
+
+  return {
+    closest,
+    chartOf,
+    uvAt: ({ tri, bary: [u, v, w] }) => ({
+      x: uv[tri * 6] * u + uv[tri * 6 + 2] * v + uv[tri * 6 + 4] * w,
+      y: uv[tri * 6 + 1] * u + uv[tri * 6 + 3] * v + uv[tri * 6 + 5] * w,
+    }),
+    materialAt: ({ tri }) => mat[tri],
+  };
+}
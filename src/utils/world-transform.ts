@@ -0,0 +1,51 @@
+import { Euler, Matrix4, Quaternion, Vector3 as ThreeVector3 } from 'three/webgpu';
+import type { SceneObject, Transform, Vector3 } from '@/types/geometry';
+
+// Local TRS matrix for a scene transform (Euler XYZ, same as the viewport groups)
+export function composeTransformMatrix(t: Transform): Matrix4 {
+  const pos = new ThreeVector3(t.position.x, t.position.y, t.position.z);
+  const quat = new Quaternion().setFromEuler(new Euler(t.rotation.x, t.rotation.y, t.rotation.z));
+  const scale = new ThreeVector3(t.scale.x, t.scale.y, t.scale.z);
+  return new Matrix4().compose(pos, quat, scale);
+}
+
+// World matrix of an object: parent chain composed root-first.
+// Optional overrides let callers substitute live (uncommitted) transforms, e.g. during a tool drag.
+export function getObjectWorldMatrix(
+  objects: Record<string, SceneObject>,
+  objectId: string,
+  overrides?: Record<string, Transform>,
+): Matrix4 {
+  const chain: SceneObject[] = [];
+  const seen = new Set<string>();
+  let cur: SceneObject | undefined = objects[objectId];
+  while (cur && !seen.has(cur.id)) {
+    seen.add(cur.id);
+    chain.push(cur);
+    cur = cur.parentId ? objects[cur.parentId] : undefined;
+  }
+  const world = new Matrix4();
+  for (let i = chain.length - 1; i >= 0; i--) {
+    const o = chain[i];
+    world.multiply(composeTransformMatrix(overrides?.[o.id] ?? o.transform));
+  }
+  return world;
+}
+
+export function transformPoint(m: Matrix4, p: Vector3): Vector3 {
+  const v = new ThreeVector3(p.x, p.y, p.z).applyMatrix4(m);
+  return { x: v.x, y: v.y, z: v.z };
+}
+
+// `objectIds` plus every ancestor, i.e. all objects whose transforms feed their world matrices
+export function withAncestors(objects: Record<string, SceneObject>, objectIds: string[]): string[] {
+  const seen = new Set<string>();
+  for (const start of objectIds) {
+    let cur: SceneObject | undefined = objects[start];
+    while (cur && !seen.has(cur.id)) {
+      seen.add(cur.id);
+      cur = cur.parentId ? objects[cur.parentId] : undefined;
+    }
+  }
+  return Array.from(seen);
+}